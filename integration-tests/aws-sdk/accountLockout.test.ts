@@ -0,0 +1,137 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { newSrpClient } from "../../src/__tests__/srpClient";
+import { withCognitoSdk } from "./setup";
+
+const clock = new ClockFake(new Date());
+
+describe(
+  "Account lockout",
+  withCognitoSdk(
+    (Cognito) => {
+      const createUser = async () => {
+        const client = Cognito();
+
+        const upc = await client
+          .createUserPoolClient({
+            UserPoolId: "test",
+            ClientName: "test",
+          })
+          .promise();
+
+        await client
+          .adminCreateUser({
+            DesiredDeliveryMediums: ["EMAIL"],
+            TemporaryPassword: "def",
+            UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await client
+          .adminSetUserPassword({
+            Password: "Password1!",
+            Permanent: true,
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        return upc.UserPoolClient?.ClientId!;
+      };
+
+      const login = (clientId: string, password: string) =>
+        Cognito()
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: password,
+            },
+          })
+          .promise();
+
+      const loginWithSrp = async (clientId: string, password: string) => {
+        const srpClient = newSrpClient("test");
+        const challenge = await Cognito()
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "USER_SRP_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              SRP_A: srpClient.SRP_A,
+            },
+          })
+          .promise();
+
+        return Cognito()
+          .respondToAuthChallenge({
+            ClientId: clientId,
+            ChallengeName: "PASSWORD_VERIFIER",
+            ChallengeResponses: srpClient.passwordClaim(
+              password,
+              challenge.ChallengeParameters!
+            ),
+            Session: challenge.Session,
+          })
+          .promise();
+      };
+
+      it("locks the user out after five failed attempts", async () => {
+        const clientId = await createUser();
+
+        for (let i = 0; i < 5; i++) {
+          await expect(
+            login(clientId, "WrongPassword1!")
+          ).rejects.toMatchObject({ code: "InvalidPasswordException" });
+        }
+
+        await expect(login(clientId, "Password1!")).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Password attempts exceeded",
+        });
+      });
+
+      it("counts failed USER_SRP_AUTH attempts towards the lockout", async () => {
+        const clientId = await createUser();
+
+        for (let i = 0; i < 5; i++) {
+          await expect(
+            loginWithSrp(clientId, "WrongPassword1!")
+          ).rejects.toMatchObject({ code: "NotAuthorizedException" });
+        }
+
+        await expect(
+          loginWithSrp(clientId, "Password1!")
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Password attempts exceeded",
+        });
+        await expect(login(clientId, "Password1!")).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Password attempts exceeded",
+        });
+      });
+
+      it("lets the user sign in again once the lockout has passed", async () => {
+        const clientId = await createUser();
+
+        for (let i = 0; i < 5; i++) {
+          await expect(
+            login(clientId, "WrongPassword1!")
+          ).rejects.toMatchObject({ code: "InvalidPasswordException" });
+        }
+
+        clock.advanceBy(1000);
+
+        const response = await login(clientId, "Password1!");
+
+        expect(response.AuthenticationResult?.AccessToken).toBeDefined();
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
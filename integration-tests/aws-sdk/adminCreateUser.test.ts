@@ -40,6 +40,94 @@ describe(
           },
         });
       });
+
+      it("creates a user without sending a welcome message", async () => {
+        const client = Cognito();
+
+        // there's nowhere to send a welcome message, so this would fail without SUPPRESS
+        await client
+          .adminCreateUser({
+            MessageAction: "SUPPRESS",
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const user = await client
+          .adminGetUser({
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(user.UserStatus).toEqual("FORCE_CHANGE_PASSWORD");
+      });
+
+      it("resends the welcome message with a new temporary password", async () => {
+        const client = Cognito();
+
+        const upc = await client
+          .createUserPoolClient({
+            UserPoolId: "test",
+            ClientName: "test",
+          })
+          .promise();
+
+        await client
+          .adminCreateUser({
+            TemporaryPassword: "old",
+            UserAttributes: [{ Name: "phone_number", Value: "0400000000" }],
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await client
+          .adminCreateUser({
+            MessageAction: "RESEND",
+            TemporaryPassword: "new",
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const response = await client
+          .initiateAuth({
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "new",
+            },
+            ClientId: upc.UserPoolClient?.ClientId!,
+          })
+          .promise();
+
+        expect(response.ChallengeName).toEqual("NEW_PASSWORD_REQUIRED");
+      });
+
+      it("rejects a username which isn't an email when users sign in with their email", async () => {
+        const client = Cognito();
+
+        const pool = await client
+          .createUserPool({
+            PoolName: "test",
+            UsernameAttributes: ["email"],
+          })
+          .promise();
+
+        await expect(
+          client
+            .adminCreateUser({
+              MessageAction: "SUPPRESS",
+              Username: "abc",
+              UserPoolId: pool.UserPool?.Id!,
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "InvalidParameterException",
+          message: "Username should be an email.",
+        });
+      });
     },
     {
       clock,
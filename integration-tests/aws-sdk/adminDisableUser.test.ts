@@ -0,0 +1,189 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.adminDisableUser",
+  withCognitoSdk((Cognito) => {
+    const createUser = async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminSetUserPassword({
+          Password: "NewPassword1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      return upc.UserPoolClient?.ClientId!;
+    };
+
+    const login = (clientId: string) =>
+      Cognito()
+        .initiateAuth({
+          ClientId: clientId,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "NewPassword1!",
+          },
+        })
+        .promise();
+
+    it("disables the user", async () => {
+      const client = Cognito();
+      await createUser();
+
+      await client
+        .adminDisableUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const user = await client
+        .adminGetUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(user.Enabled).toEqual(false);
+    });
+
+    it("stops the user signing in", async () => {
+      const client = Cognito();
+      const clientId = await createUser();
+
+      await client
+        .adminDisableUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await expect(login(clientId)).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+        message: "User is disabled.",
+      });
+    });
+
+    it("stops the user using the tokens they were already issued", async () => {
+      const client = Cognito();
+      const clientId = await createUser();
+      const session = await login(clientId);
+
+      await client
+        .adminDisableUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await expect(
+        client
+          .getUser({
+            AccessToken: session.AuthenticationResult?.AccessToken!,
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+        message: "User is disabled.",
+      });
+
+      await expect(
+        client
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "REFRESH_TOKEN_AUTH",
+            AuthParameters: {
+              REFRESH_TOKEN: session.AuthenticationResult?.RefreshToken!,
+            },
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+      });
+    });
+
+    it("revokes the user's tokens, even once they're enabled again", async () => {
+      const client = Cognito();
+      const clientId = await createUser();
+      const session = await login(clientId);
+
+      await client
+        .adminDisableUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+      await client
+        .adminEnableUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await expect(
+        client
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "REFRESH_TOKEN_AUTH",
+            AuthParameters: {
+              REFRESH_TOKEN: session.AuthenticationResult?.RefreshToken!,
+            },
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+      });
+
+      await expect(
+        client
+          .getUser({
+            AccessToken: session.AuthenticationResult?.AccessToken!,
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+        message: "Access Token has been revoked",
+      });
+
+      // signing in again works as normal
+      const newSession = await login(clientId);
+      expect(newSession.AuthenticationResult?.AccessToken).toBeDefined();
+    });
+
+    it("throws if the user doesn't exist", async () => {
+      const client = Cognito();
+
+      await expect(
+        client
+          .adminDisableUser({
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "UserNotFoundException",
+      });
+    });
+  })
+);
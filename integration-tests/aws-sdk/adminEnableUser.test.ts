@@ -0,0 +1,72 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.adminEnableUser",
+  withCognitoSdk((Cognito) => {
+    it("lets a disabled user sign in again", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminSetUserPassword({
+          Password: "NewPassword1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminDisableUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminEnableUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const user = await client
+        .adminGetUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(user.Enabled).toEqual(true);
+
+      const session = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "NewPassword1!",
+          },
+        })
+        .promise();
+
+      expect(session.AuthenticationResult?.AccessToken).toBeDefined();
+    });
+  })
+);
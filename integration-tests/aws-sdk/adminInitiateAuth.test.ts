@@ -60,6 +60,15 @@ describe(
         createUserResponse.User?.Attributes
       );
 
+      await client
+        .adminSetUserPassword({
+          Password: "NewPassword1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
       const response = await client
         .adminInitiateAuth({
           UserPoolId: "test",
@@ -67,7 +76,7 @@ describe(
           AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
           AuthParameters: {
             USERNAME: "abc",
-            PASSWORD: "def",
+            PASSWORD: "NewPassword1!",
           },
         })
         .promise();
@@ -82,6 +91,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         scope: "aws.cognito.signin.user.admin",
         sub: userSub,
         token_use: "access",
@@ -101,6 +111,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         sub: userSub,
         token_use: "id",
       });
@@ -144,6 +155,15 @@ describe(
         createUserResponse.User?.Attributes
       );
 
+      await client
+        .adminSetUserPassword({
+          Password: "NewPassword1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
       const initialLoginResponse = await client
         .adminInitiateAuth({
           UserPoolId: "test",
@@ -151,7 +171,7 @@ describe(
           AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
           AuthParameters: {
             USERNAME: "abc",
-            PASSWORD: "def",
+            PASSWORD: "NewPassword1!",
           },
         })
         .promise();
@@ -180,6 +200,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         scope: "aws.cognito.signin.user.admin",
         sub: userSub,
         token_use: "access",
@@ -201,6 +222,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         sub: userSub,
         token_use: "id",
       });
@@ -209,5 +231,86 @@ describe(
         refreshTokenLoginResponse.AuthenticationResult?.RefreshToken
       ).not.toBeDefined();
     });
+
+    it("requires a new password for users with a temporary password", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const challengeResponse = await client
+        .adminInitiateAuth({
+          UserPoolId: "test",
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "def",
+          },
+        })
+        .promise();
+
+      expect(challengeResponse).toEqual({
+        ChallengeName: "NEW_PASSWORD_REQUIRED",
+        ChallengeParameters: {
+          USER_ID_FOR_SRP: "abc",
+          requiredAttributes: "[]",
+          userAttributes: expect.any(String),
+        },
+        Session: expect.stringMatching(UUID),
+      });
+
+      const respondResponse = await client
+        .adminRespondToAuthChallenge({
+          UserPoolId: "test",
+          ClientId: upc.UserPoolClient?.ClientId!,
+          ChallengeName: "NEW_PASSWORD_REQUIRED",
+          ChallengeResponses: {
+            USERNAME: "abc",
+            NEW_PASSWORD: "NewPassword1!",
+          },
+          Session: challengeResponse.Session,
+        })
+        .promise();
+
+      expect(respondResponse.AuthenticationResult?.AccessToken).toBeDefined();
+
+      const user = await client
+        .adminGetUser({
+          UserPoolId: "test",
+          Username: "abc",
+        })
+        .promise();
+
+      expect(user.UserStatus).toEqual("CONFIRMED");
+
+      const loginResponse = await client
+        .adminInitiateAuth({
+          UserPoolId: "test",
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "NewPassword1!",
+          },
+        })
+        .promise();
+
+      expect(loginResponse.AuthenticationResult?.AccessToken).toBeDefined();
+    });
   })
 );
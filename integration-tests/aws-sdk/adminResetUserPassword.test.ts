@@ -0,0 +1,122 @@
+import { TestContext } from "../../src/__tests__/testContext";
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.adminResetUserPassword",
+  withCognitoSdk((Cognito, DataStoreFactory) => {
+    const confirmationCode = async (username: string) => {
+      const dataStore = await DataStoreFactory().create(
+        TestContext,
+        "test",
+        {}
+      );
+      return dataStore.get<string>(TestContext, [
+        "Users",
+        username,
+        "ConfirmationCode",
+      ]);
+    };
+
+    it("requires the user to reset their password before signing in", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [
+            { Name: "email", Value: "example@example.com" },
+            { Name: "email_verified", Value: "true" },
+          ],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminSetUserPassword({
+          Password: "Password1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminResetUserPassword({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const user = await client
+        .adminGetUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(user.UserStatus).toEqual("RESET_REQUIRED");
+
+      const login = (password: string) =>
+        client
+          .initiateAuth({
+            ClientId: upc.UserPoolClient?.ClientId!,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: password,
+            },
+          })
+          .promise();
+
+      await expect(login("Password1!")).rejects.toMatchObject({
+        code: "PasswordResetRequiredException",
+      });
+
+      await client
+        .confirmForgotPassword({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          ConfirmationCode: (await confirmationCode("abc"))!,
+          Password: "NewPassword1!",
+          Username: "abc",
+        })
+        .promise();
+
+      const confirmedUser = await client
+        .adminGetUser({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(confirmedUser.UserStatus).toEqual("CONFIRMED");
+
+      const session = await login("NewPassword1!");
+
+      expect(session.AuthenticationResult?.AccessToken).toBeDefined();
+    });
+
+    it("throws if the user doesn't exist", async () => {
+      const client = Cognito();
+
+      await expect(
+        client
+          .adminResetUserPassword({
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "UserNotFoundException",
+      });
+    });
+  })
+);
@@ -27,7 +27,7 @@ describe(
           .adminSetUserPassword({
             Username: "abc",
             UserPoolId: "test",
-            Password: "newPassword",
+            Password: "NewPassword1!",
             Permanent: true,
           })
           .promise();
@@ -49,6 +49,33 @@ describe(
           UserStatus: "CONFIRMED",
         });
       });
+
+      it("rejects a password which doesn't satisfy the user pool's password policy", async () => {
+        const client = Cognito();
+
+        await client
+          .adminCreateUser({
+            UserAttributes: [{ Name: "phone_number", Value: "0400000000" }],
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await expect(
+          client
+            .adminSetUserPassword({
+              Username: "abc",
+              UserPoolId: "test",
+              Password: "newpassword1!",
+              Permanent: true,
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "InvalidPasswordException",
+          message:
+            "Password did not conform with policy: Password must have uppercase characters",
+        });
+      });
     },
     {
       clock,
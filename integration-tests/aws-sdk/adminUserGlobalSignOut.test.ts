@@ -0,0 +1,95 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.adminUserGlobalSignOut",
+  withCognitoSdk((Cognito) => {
+    it("revokes the user's access and refresh tokens", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminSetUserPassword({
+          Password: "NewPassword1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const login = () =>
+        client
+          .initiateAuth({
+            ClientId: upc.UserPoolClient?.ClientId!,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "NewPassword1!",
+            },
+          })
+          .promise();
+
+      // sign in on two devices
+      const session1 = await login();
+      const session2 = await login();
+
+      await client
+        .adminUserGlobalSignOut({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      for (const session of [session1, session2]) {
+        await expect(
+          client
+            .getUser({
+              AccessToken: session.AuthenticationResult?.AccessToken!,
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Access Token has been revoked",
+        });
+
+        await expect(
+          client
+            .initiateAuth({
+              ClientId: upc.UserPoolClient?.ClientId!,
+              AuthFlow: "REFRESH_TOKEN_AUTH",
+              AuthParameters: {
+                REFRESH_TOKEN: session.AuthenticationResult?.RefreshToken!,
+              },
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+        });
+      }
+
+      // the user can sign in again afterwards
+      const session3 = await login();
+      const user = await client
+        .getUser({
+          AccessToken: session3.AuthenticationResult?.AccessToken!,
+        })
+        .promise();
+      expect(user.Username).toEqual("abc");
+    });
+  })
+);
@@ -0,0 +1,115 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.changePassword",
+  withCognitoSdk((Cognito) => {
+    const login = async (password: string) => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminSetUserPassword({
+          Password: password,
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const response = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: password,
+          },
+        })
+        .promise();
+
+      return {
+        clientId: upc.UserPoolClient?.ClientId!,
+        accessToken: response.AuthenticationResult?.AccessToken!,
+      };
+    };
+
+    it("changes the user's password", async () => {
+      const client = Cognito();
+      const { accessToken, clientId } = await login("OldPassword1!");
+
+      await client
+        .changePassword({
+          AccessToken: accessToken,
+          PreviousPassword: "OldPassword1!",
+          ProposedPassword: "NewPassword1!",
+        })
+        .promise();
+
+      const response = await client
+        .initiateAuth({
+          ClientId: clientId,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "NewPassword1!",
+          },
+        })
+        .promise();
+
+      expect(response.AuthenticationResult?.AccessToken).toBeDefined();
+    });
+
+    it("rejects an incorrect previous password", async () => {
+      const client = Cognito();
+      const { accessToken } = await login("OldPassword1!");
+
+      await expect(
+        client
+          .changePassword({
+            AccessToken: accessToken,
+            PreviousPassword: "WrongPassword1!",
+            ProposedPassword: "NewPassword1!",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+        message: "Incorrect username or password.",
+      });
+    });
+
+    it("rejects a proposed password which doesn't satisfy the password policy", async () => {
+      const client = Cognito();
+      const { accessToken } = await login("OldPassword1!");
+
+      await expect(
+        client
+          .changePassword({
+            AccessToken: accessToken,
+            PreviousPassword: "OldPassword1!",
+            ProposedPassword: "NewPassword1",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "InvalidPasswordException",
+        message:
+          "Password did not conform with policy: Password must have symbol characters",
+      });
+    });
+  })
+);
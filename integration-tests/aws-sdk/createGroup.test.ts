@@ -1,5 +1,6 @@
 import { ClockFake } from "../../src/__tests__/clockFake";
 import { UUID } from "../../src/__tests__/patterns";
+import { GroupExistsError } from "../../src/errors";
 import { withCognitoSdk } from "./setup";
 
 const currentDate = new Date();
@@ -57,6 +58,26 @@ describe(
           },
         });
       });
+
+      it("throws if a group with the same name already exists", async () => {
+        const client = Cognito();
+
+        await client
+          .createGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await expect(
+          client
+            .createGroup({
+              GroupName: "abc",
+              UserPoolId: "test",
+            })
+            .promise()
+        ).rejects.toEqual(new GroupExistsError());
+      });
     },
     {
       clock,
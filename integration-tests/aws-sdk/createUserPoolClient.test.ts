@@ -36,5 +36,52 @@ describe(
         UserPoolClient: result.UserPoolClient,
       });
     });
+
+    it("saves the app client's settings", async () => {
+      const client = Cognito();
+
+      const result = await client
+        .createUserPoolClient({
+          AccessTokenValidity: 2,
+          CallbackURLs: ["https://example.com/callback"],
+          ClientName: "test",
+          ExplicitAuthFlows: [
+            "ALLOW_USER_SRP_AUTH",
+            "ALLOW_REFRESH_TOKEN_AUTH",
+          ],
+          PreventUserExistenceErrors: "ENABLED",
+          ReadAttributes: ["email"],
+          TokenValidityUnits: {
+            AccessToken: "hours",
+          },
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const createdClient = await client
+        .describeUserPoolClient({
+          ClientId: result.UserPoolClient?.ClientId!,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(createdClient.UserPoolClient).toEqual({
+        AccessTokenValidity: 2,
+        AllowedOAuthFlowsUserPoolClient: false,
+        CallbackURLs: ["https://example.com/callback"],
+        ClientId: result.UserPoolClient?.ClientId,
+        ClientName: "test",
+        CreationDate: expect.any(Date),
+        ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH", "ALLOW_REFRESH_TOKEN_AUTH"],
+        LastModifiedDate: expect.any(Date),
+        PreventUserExistenceErrors: "ENABLED",
+        ReadAttributes: ["email"],
+        RefreshTokenValidity: 30,
+        TokenValidityUnits: {
+          AccessToken: "hours",
+        },
+        UserPoolId: "test",
+      });
+    });
   })
 );
@@ -0,0 +1,85 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { GroupNotFoundError } from "../../src/errors";
+import { withCognitoSdk } from "./setup";
+
+const clock = new ClockFake(new Date());
+
+describe(
+  "CognitoIdentityServiceProvider.deleteGroup",
+  withCognitoSdk(
+    (Cognito) => {
+      it("deletes a group", async () => {
+        const client = Cognito();
+
+        await client
+          .createGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await client
+          .deleteGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await expect(
+          client
+            .getGroup({
+              GroupName: "abc",
+              UserPoolId: "test",
+            })
+            .promise()
+        ).rejects.toEqual(new GroupNotFoundError());
+      });
+
+      it("removes the group from its members", async () => {
+        const client = Cognito();
+
+        await client
+          .createGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+        await client
+          .adminCreateUser({
+            DesiredDeliveryMediums: ["EMAIL"],
+            TemporaryPassword: "def",
+            UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+        await client
+          .adminAddUserToGroup({
+            GroupName: "abc",
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await client
+          .deleteGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const groupsForUser = await client
+          .adminListGroupsForUser({
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(groupsForUser.Groups).toEqual([]);
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
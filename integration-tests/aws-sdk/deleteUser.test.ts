@@ -28,7 +28,7 @@ describe(
 
       await client
         .adminSetUserPassword({
-          Password: "newPassword",
+          Password: "NewPassword1!",
           Permanent: true,
           Username: "abc",
           UserPoolId: "test",
@@ -42,7 +42,7 @@ describe(
           AuthFlow: "USER_PASSWORD_AUTH",
           AuthParameters: {
             USERNAME: "abc",
-            PASSWORD: "newPassword",
+            PASSWORD: "NewPassword1!",
           },
         })
         .promise();
@@ -0,0 +1,78 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.deleteUserPool",
+  withCognitoSdk((Cognito) => {
+    it("deletes a user pool", async () => {
+      const client = Cognito();
+
+      const up = await client
+        .createUserPool({
+          PoolName: "test",
+        })
+        .promise();
+
+      await client
+        .deleteUserPool({
+          UserPoolId: up.UserPool?.Id!,
+        })
+        .promise();
+
+      const result = await client
+        .listUserPools({
+          MaxResults: 10,
+        })
+        .promise();
+
+      expect(result.UserPools).toEqual([]);
+    });
+
+    it("deletes the user pool's clients", async () => {
+      const client = Cognito();
+
+      const up = await client
+        .createUserPool({
+          PoolName: "test",
+        })
+        .promise();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: up.UserPool?.Id!,
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .deleteUserPool({
+          UserPoolId: up.UserPool?.Id!,
+        })
+        .promise();
+
+      await expect(
+        client
+          .describeUserPoolClient({
+            ClientId: upc.UserPoolClient?.ClientId!,
+            UserPoolId: up.UserPool?.Id!,
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "ResourceNotFoundException",
+      });
+    });
+
+    it("throws if the user pool doesn't exist", async () => {
+      const client = Cognito();
+
+      await expect(
+        client
+          .deleteUserPool({
+            UserPoolId: "unknown",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "ResourceNotFoundException",
+      });
+    });
+  })
+);
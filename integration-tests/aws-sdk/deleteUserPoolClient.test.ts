@@ -0,0 +1,50 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.deleteUserPoolClient",
+  withCognitoSdk((Cognito) => {
+    it("deletes an app client", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          ClientName: "test",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .deleteUserPoolClient({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await expect(
+        client
+          .describeUserPoolClient({
+            ClientId: upc.UserPoolClient?.ClientId!,
+            UserPoolId: "test",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "ResourceNotFoundException",
+      });
+    });
+
+    it("throws if the app client doesn't exist", async () => {
+      const client = Cognito();
+
+      await expect(
+        client
+          .deleteUserPoolClient({
+            ClientId: "invalid",
+            UserPoolId: "test",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "ResourceNotFoundException",
+      });
+    });
+  })
+);
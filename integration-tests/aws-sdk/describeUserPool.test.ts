@@ -0,0 +1,48 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.describeUserPool",
+  withCognitoSdk((Cognito) => {
+    it("describes a user pool", async () => {
+      const client = Cognito();
+
+      const up = await client
+        .createUserPool({
+          PoolName: "test",
+        })
+        .promise();
+
+      const result = await client
+        .describeUserPool({
+          UserPoolId: up.UserPool?.Id!,
+        })
+        .promise();
+
+      expect(result).toEqual({
+        UserPool: up.UserPool,
+      });
+    });
+
+    it("throws if the user pool doesn't exist", async () => {
+      const client = Cognito();
+
+      await expect(
+        client
+          .describeUserPool({
+            UserPoolId: "unknown",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "ResourceNotFoundException",
+      });
+
+      // and doesn't create it
+      const result = await client
+        .listUserPools({
+          MaxResults: 10,
+        })
+        .promise();
+      expect(result.UserPools).toEqual([]);
+    });
+  })
+);
@@ -0,0 +1,101 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "App client ExplicitAuthFlows",
+  withCognitoSdk((Cognito) => {
+    const createClient = async (explicitAuthFlows: string[]) => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+          ExplicitAuthFlows: explicitAuthFlows,
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          MessageAction: "SUPPRESS",
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminSetUserPassword({
+          Password: "Password1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      return upc.UserPoolClient?.ClientId!;
+    };
+
+    it("signs in with a flow which is enabled for the client", async () => {
+      const clientId = await createClient([
+        "ALLOW_USER_PASSWORD_AUTH",
+        "ALLOW_REFRESH_TOKEN_AUTH",
+      ]);
+
+      const response = await Cognito()
+        .initiateAuth({
+          ClientId: clientId,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "Password1!",
+          },
+        })
+        .promise();
+
+      expect(response.AuthenticationResult?.AccessToken).toBeDefined();
+    });
+
+    it("rejects a flow which isn't enabled for the client", async () => {
+      const clientId = await createClient([
+        "ALLOW_USER_SRP_AUTH",
+        "ALLOW_REFRESH_TOKEN_AUTH",
+      ]);
+
+      await expect(
+        Cognito()
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "Password1!",
+            },
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "InvalidParameterException",
+        message: "USER_PASSWORD_AUTH flow not enabled for this client",
+      });
+    });
+
+    it("rejects an admin flow which isn't enabled for the client", async () => {
+      const clientId = await createClient(["ALLOW_USER_PASSWORD_AUTH"]);
+
+      await expect(
+        Cognito()
+          .adminInitiateAuth({
+            ClientId: clientId,
+            UserPoolId: "test",
+            AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "Password1!",
+            },
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "InvalidParameterException",
+        message: "Auth flow not enabled for this client",
+      });
+    });
+  })
+);
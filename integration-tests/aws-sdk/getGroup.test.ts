@@ -0,0 +1,65 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { GroupNotFoundError } from "../../src/errors";
+import { withCognitoSdk } from "./setup";
+
+const currentDate = new Date();
+const roundedDate = new Date(currentDate.getTime());
+roundedDate.setMilliseconds(0);
+
+const clock = new ClockFake(currentDate);
+
+describe(
+  "CognitoIdentityServiceProvider.getGroup",
+  withCognitoSdk(
+    (Cognito) => {
+      it("gets a group", async () => {
+        const client = Cognito();
+
+        await client
+          .createGroup({
+            Description: "Description",
+            GroupName: "abc",
+            Precedence: 1,
+            RoleArn: "arn",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const result = await client
+          .getGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(result).toEqual({
+          Group: {
+            CreationDate: roundedDate,
+            Description: "Description",
+            GroupName: "abc",
+            LastModifiedDate: roundedDate,
+            Precedence: 1,
+            RoleArn: "arn",
+            UserPoolId: "test",
+          },
+        });
+      });
+
+      it("handles an invalid group", async () => {
+        const client = Cognito();
+
+        await expect(
+          client
+            .getGroup({
+              GroupName: "abc",
+              UserPoolId: "test",
+            })
+            .promise()
+        ).rejects.toEqual(new GroupNotFoundError());
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
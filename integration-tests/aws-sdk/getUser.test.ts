@@ -0,0 +1,135 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { withCognitoSdk } from "./setup";
+
+const clock = new ClockFake(new Date());
+
+describe(
+  "CognitoIdentityServiceProvider.getUser",
+  withCognitoSdk(
+    (Cognito) => {
+      const login = async () => {
+        const client = Cognito();
+
+        const upc = await client
+          .createUserPoolClient({
+            UserPoolId: "test",
+            ClientName: "test",
+          })
+          .promise();
+
+        await client
+          .adminCreateUser({
+            DesiredDeliveryMediums: ["EMAIL"],
+            TemporaryPassword: "def",
+            UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await client
+          .adminSetUserPassword({
+            Password: "NewPassword1!",
+            Permanent: true,
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const response = await client
+          .initiateAuth({
+            ClientId: upc.UserPoolClient?.ClientId!,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "NewPassword1!",
+            },
+          })
+          .promise();
+
+        return {
+          clientId: upc.UserPoolClient?.ClientId!,
+          tokens: response.AuthenticationResult!,
+        };
+      };
+
+      it("gets the current user", async () => {
+        const client = Cognito();
+        const { tokens } = await login();
+
+        const user = await client
+          .getUser({
+            AccessToken: tokens.AccessToken!,
+          })
+          .promise();
+
+        expect(user).toMatchObject({
+          Username: "abc",
+          UserAttributes: expect.arrayContaining([
+            { Name: "email", Value: "example@example.com" },
+          ]),
+        });
+      });
+
+      it("rejects an id token", async () => {
+        const client = Cognito();
+        const { tokens } = await login();
+
+        await expect(
+          client
+            .getUser({
+              AccessToken: tokens.IdToken!,
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Invalid Access Token",
+        });
+      });
+
+      it("rejects an expired access token", async () => {
+        const client = Cognito();
+        const { tokens } = await login();
+
+        clock.advanceBy(24 * 60 * 60 * 1000);
+
+        await expect(
+          client
+            .getUser({
+              AccessToken: tokens.AccessToken!,
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Access Token has expired",
+        });
+      });
+
+      it("rejects an access token once its refresh token is revoked", async () => {
+        const client = Cognito();
+        const { clientId, tokens } = await login();
+
+        await client
+          .revokeToken({
+            ClientId: clientId,
+            Token: tokens.RefreshToken!,
+          })
+          .promise();
+
+        await expect(
+          client
+            .getUser({
+              AccessToken: tokens.AccessToken!,
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Access Token has been revoked",
+        });
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
@@ -0,0 +1,214 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { withCognitoSdk } from "./setup";
+
+const currentDate = new Date();
+const roundedDate = new Date(currentDate.getTime());
+roundedDate.setMilliseconds(0);
+
+const clock = new ClockFake(currentDate);
+
+describe(
+  "CognitoIdentityServiceProvider group membership",
+  withCognitoSdk(
+    (Cognito) => {
+      beforeEach(async () => {
+        const client = Cognito();
+
+        await client
+          .createGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+        await client
+          .adminCreateUser({
+            DesiredDeliveryMediums: ["EMAIL"],
+            TemporaryPassword: "def",
+            UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+      });
+
+      it("adds a user to a group", async () => {
+        const client = Cognito();
+
+        await client
+          .adminAddUserToGroup({
+            GroupName: "abc",
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const groupsForUser = await client
+          .adminListGroupsForUser({
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(groupsForUser.Groups).toEqual([
+          {
+            CreationDate: roundedDate,
+            GroupName: "abc",
+            LastModifiedDate: roundedDate,
+            UserPoolId: "test",
+          },
+        ]);
+
+        const usersInGroup = await client
+          .listUsersInGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(usersInGroup.Users).toEqual([
+          expect.objectContaining({
+            Username: "user",
+          }),
+        ]);
+      });
+
+      it("removes a user from a group", async () => {
+        const client = Cognito();
+
+        await client
+          .adminAddUserToGroup({
+            GroupName: "abc",
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+        await client
+          .adminRemoveUserFromGroup({
+            GroupName: "abc",
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const groupsForUser = await client
+          .adminListGroupsForUser({
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(groupsForUser.Groups).toEqual([]);
+
+        const usersInGroup = await client
+          .listUsersInGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(usersInGroup.Users).toEqual([]);
+      });
+
+      it("removes a deleted user from their groups", async () => {
+        const client = Cognito();
+
+        await client
+          .adminAddUserToGroup({
+            GroupName: "abc",
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+        await client
+          .adminDeleteUser({
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const usersInGroup = await client
+          .listUsersInGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(usersInGroup.Users).toEqual([]);
+      });
+
+      it("paginates group membership", async () => {
+        const client = Cognito();
+
+        await client
+          .createGroup({
+            GroupName: "def",
+            UserPoolId: "test",
+          })
+          .promise();
+        await client
+          .adminCreateUser({
+            MessageAction: "SUPPRESS",
+            Username: "user2",
+            UserPoolId: "test",
+          })
+          .promise();
+        for (const [groupName, username] of [
+          ["abc", "user"],
+          ["def", "user"],
+          ["abc", "user2"],
+        ]) {
+          await client
+            .adminAddUserToGroup({
+              GroupName: groupName,
+              Username: username,
+              UserPoolId: "test",
+            })
+            .promise();
+        }
+
+        const groupsPage1 = await client
+          .adminListGroupsForUser({
+            Limit: 1,
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+        const groupsPage2 = await client
+          .adminListGroupsForUser({
+            Limit: 1,
+            NextToken: groupsPage1.NextToken,
+            Username: "user",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(groupsPage1.Groups?.map((x) => x.GroupName)).toEqual(["abc"]);
+        expect(groupsPage2.Groups?.map((x) => x.GroupName)).toEqual(["def"]);
+        expect(groupsPage2.NextToken).toBeUndefined();
+
+        const usersPage1 = await client
+          .listUsersInGroup({
+            GroupName: "abc",
+            Limit: 1,
+            UserPoolId: "test",
+          })
+          .promise();
+        const usersPage2 = await client
+          .listUsersInGroup({
+            GroupName: "abc",
+            Limit: 1,
+            NextToken: usersPage1.NextToken,
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(usersPage1.Users?.map((x) => x.Username)).toEqual(["user"]);
+        expect(usersPage2.Users?.map((x) => x.Username)).toEqual(["user2"]);
+        expect(usersPage2.NextToken).toBeUndefined();
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
@@ -1,5 +1,6 @@
 import jwt from "jsonwebtoken";
 import { UUID } from "../../src/__tests__/patterns";
+import { newSrpClient } from "../../src/__tests__/srpClient";
 import { attributeValue } from "../../src/services/userPoolService";
 import { withCognitoSdk } from "./setup";
 
@@ -78,6 +79,41 @@ describe(
       });
     });
 
+    it("rejects users with FORCE_CHANGE_PASSWORD status and the wrong password", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          MessageAction: "SUPPRESS",
+          TemporaryPassword: "def",
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await expect(
+        client
+          .initiateAuth({
+            ClientId: upc.UserPoolClient?.ClientId!,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "wrong",
+            },
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "InvalidPasswordException",
+      });
+    });
+
     it("can authenticate users with USER_PASSWORD_AUTH auth flow", async () => {
       const client = Cognito();
 
@@ -130,6 +166,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         scope: "aws.cognito.signin.user.admin",
         sub: userSub,
         token_use: "access",
@@ -149,6 +186,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         sub: userSub,
         token_use: "id",
       });
@@ -165,6 +203,117 @@ describe(
       });
     });
 
+    it("can authenticate users with USER_SRP_AUTH auth flow", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+      await client
+        .adminSetUserPassword({
+          Password: "NewPassword1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const srpClient = newSrpClient("test");
+      const challenge = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            SRP_A: srpClient.SRP_A,
+          },
+        })
+        .promise();
+
+      expect(challenge.ChallengeName).toEqual("PASSWORD_VERIFIER");
+
+      const response = await client
+        .respondToAuthChallenge({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResponses: srpClient.passwordClaim(
+            "NewPassword1!",
+            challenge.ChallengeParameters!
+          ),
+          Session: challenge.Session,
+        })
+        .promise();
+
+      expect(
+        jwt.decode(response.AuthenticationResult?.IdToken as string)
+      ).toMatchObject({
+        "cognito:username": "abc",
+        token_use: "id",
+      });
+    });
+
+    it("rejects USER_SRP_AUTH with the wrong password", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const srpClient = newSrpClient("test");
+      const challenge = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            SRP_A: srpClient.SRP_A,
+          },
+        })
+        .promise();
+
+      await expect(
+        client
+          .respondToAuthChallenge({
+            ClientId: upc.UserPoolClient?.ClientId!,
+            ChallengeName: "PASSWORD_VERIFIER",
+            ChallengeResponses: srpClient.passwordClaim(
+              "wrong-password",
+              challenge.ChallengeParameters!
+            ),
+            Session: challenge.Session,
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+      });
+    });
+
     it("can authenticate users with REFRESH_TOKEN_AUTH auth flow", async () => {
       const client = Cognito();
 
@@ -230,6 +379,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         scope: "aws.cognito.signin.user.admin",
         sub: userSub,
         token_use: "access",
@@ -251,6 +401,7 @@ describe(
         iat: expect.any(Number),
         iss: "http://localhost:9229/test",
         jti: expect.stringMatching(UUID),
+        origin_jti: expect.stringMatching(UUID),
         sub: userSub,
         token_use: "id",
       });
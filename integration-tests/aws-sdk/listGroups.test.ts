@@ -1,3 +1,4 @@
+import { InvalidParameterError } from "../../src/errors";
 import { ClockFake } from "../../src/__tests__/clockFake";
 import { withCognitoSdk } from "./setup";
 
@@ -74,6 +75,60 @@ describe(
         });
       });
 
+      it("paginates groups", async () => {
+        const client = Cognito();
+
+        for (const groupName of ["ghi", "abc", "def"]) {
+          await client
+            .createGroup({ GroupName: groupName, UserPoolId: "test1" })
+            .promise();
+        }
+
+        const page1 = await client
+          .listGroups({ Limit: 2, UserPoolId: "test1" })
+          .promise();
+
+        expect(page1.Groups?.map((x) => x.GroupName)).toEqual(["abc", "def"]);
+        expect(page1.NextToken).toBeDefined();
+
+        const page2 = await client
+          .listGroups({
+            Limit: 2,
+            NextToken: page1.NextToken,
+            UserPoolId: "test1",
+          })
+          .promise();
+
+        expect(page2.Groups?.map((x) => x.GroupName)).toEqual(["ghi"]);
+        expect(page2.NextToken).toBeUndefined();
+      });
+
+      it("rejects a tampered pagination token", async () => {
+        const client = Cognito();
+
+        for (const groupName of ["abc", "def"]) {
+          await client
+            .createGroup({ GroupName: groupName, UserPoolId: "test1" })
+            .promise();
+        }
+
+        const page1 = await client
+          .listGroups({ Limit: 1, UserPoolId: "test1" })
+          .promise();
+
+        await expect(
+          client
+            .listGroups({
+              Limit: 1,
+              NextToken: `x${page1.NextToken}`,
+              UserPoolId: "test1",
+            })
+            .promise()
+        ).rejects.toEqual(
+          new InvalidParameterError("Invalid pagination token")
+        );
+      });
+
       it("returns an empty collection when there are no groups", async () => {
         const client = Cognito();
 
@@ -0,0 +1,76 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.listUserPoolClients",
+  withCognitoSdk((Cognito) => {
+    it("lists the user pool's app clients", async () => {
+      const client = Cognito();
+
+      const upc1 = await client
+        .createUserPoolClient({
+          ClientName: "test-1",
+          UserPoolId: "test",
+        })
+        .promise();
+      const upc2 = await client
+        .createUserPoolClient({
+          ClientName: "test-2",
+          UserPoolId: "test",
+        })
+        .promise();
+      await client
+        .createUserPoolClient({
+          ClientName: "other",
+          UserPoolId: "other",
+        })
+        .promise();
+
+      const result = await client
+        .listUserPoolClients({
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(result.UserPoolClients).toHaveLength(2);
+      expect(result.UserPoolClients).toEqual(
+        expect.arrayContaining([
+          {
+            ClientId: upc1.UserPoolClient?.ClientId,
+            ClientName: "test-1",
+            UserPoolId: "test",
+          },
+          {
+            ClientId: upc2.UserPoolClient?.ClientId,
+            ClientName: "test-2",
+            UserPoolId: "test",
+          },
+        ])
+      );
+    });
+
+    it("paginates the app clients", async () => {
+      const client = Cognito();
+
+      for (const name of ["test-1", "test-2", "test-3"]) {
+        await client
+          .createUserPoolClient({ ClientName: name, UserPoolId: "test" })
+          .promise();
+      }
+
+      const page1 = await client
+        .listUserPoolClients({ MaxResults: 2, UserPoolId: "test" })
+        .promise();
+      const page2 = await client
+        .listUserPoolClients({
+          MaxResults: 2,
+          NextToken: page1.NextToken,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(page1.UserPoolClients).toHaveLength(2);
+      expect(page2.UserPoolClients).toHaveLength(1);
+      expect(page2.NextToken).toBeUndefined();
+    });
+  })
+);
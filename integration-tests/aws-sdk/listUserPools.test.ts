@@ -36,5 +36,27 @@ describe(
         ])
       );
     });
+
+    it("paginates user pools", async () => {
+      const client = Cognito();
+
+      for (const name of ["test-1", "test-2", "test-3"]) {
+        await client.createUserPool({ PoolName: name }).promise();
+      }
+
+      const page1 = await client.listUserPools({ MaxResults: 2 }).promise();
+      const page2 = await client
+        .listUserPools({ MaxResults: 2, NextToken: page1.NextToken })
+        .promise();
+
+      expect(page1.UserPools).toHaveLength(2);
+      expect(page2.UserPools).toHaveLength(1);
+      expect(page2.NextToken).toBeUndefined();
+      expect(
+        [...(page1.UserPools ?? []), ...(page2.UserPools ?? [])].map(
+          (x) => x.Name
+        )
+      ).toEqual(expect.arrayContaining(["test-1", "test-2", "test-3"]));
+    });
   })
 );
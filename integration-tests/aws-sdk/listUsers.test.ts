@@ -34,6 +34,94 @@ describe(
       });
     });
 
+    it("filters users", async () => {
+      const client = Cognito();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          UserAttributes: [{ Name: "email", Value: "alice@example.com" }],
+          Username: "alice",
+          UserPoolId: "test",
+        })
+        .promise();
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          UserAttributes: [{ Name: "email", Value: "bob@example.com" }],
+          Username: "bob",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const result = await client
+        .listUsers({
+          Filter: 'email ^= "alice"',
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(result.Users?.map((x) => x.Username)).toEqual(["alice"]);
+    });
+
+    it("rejects filters on attributes which are not searchable", async () => {
+      const client = Cognito();
+
+      await expect(
+        client
+          .listUsers({
+            Filter: 'custom:team = "red"',
+            UserPoolId: "test",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "InvalidParameterException",
+        message: "Invalid search attribute: custom:team",
+      });
+    });
+
+    it("paginates users and projects attributes", async () => {
+      const client = Cognito();
+
+      for (const username of ["carol", "alice", "bob"]) {
+        await client
+          .adminCreateUser({
+            DesiredDeliveryMediums: ["EMAIL"],
+            UserAttributes: [
+              { Name: "email", Value: `${username}@example.com` },
+            ],
+            Username: username,
+            UserPoolId: "test",
+          })
+          .promise();
+      }
+
+      const page1 = await client
+        .listUsers({
+          AttributesToGet: ["email"],
+          Limit: 2,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(page1.Users?.map((x) => x.Username)).toEqual(["alice", "bob"]);
+      expect(page1.Users?.[0].Attributes).toEqual([
+        { Name: "email", Value: "alice@example.com" },
+      ]);
+
+      const page2 = await client
+        .listUsers({
+          AttributesToGet: ["email"],
+          Limit: 2,
+          PaginationToken: page1.PaginationToken,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(page2.Users?.map((x) => x.Username)).toEqual(["carol"]);
+      expect(page2.PaginationToken).toBeUndefined();
+    });
+
     it("handles no users", async () => {
       const client = Cognito();
 
@@ -0,0 +1,193 @@
+import { newSrpClient } from "../../src/__tests__/srpClient";
+import { TestContext } from "../../src/__tests__/testContext";
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "Password hashing",
+  withCognitoSdk((Cognito, DataStoreFactory) => {
+    const storedPassword = async (username: string) => {
+      const dataStore = await DataStoreFactory().create(
+        TestContext,
+        "test",
+        {}
+      );
+      return dataStore.get<string>(TestContext, [
+        "Users",
+        username,
+        "Password",
+      ]);
+    };
+
+    it("stores passwords hashed", async () => {
+      const client = Cognito();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+      await client
+        .adminSetUserPassword({
+          Password: "Password1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const password = await storedPassword("abc");
+      expect(password).toMatch(/^scrypt\$/);
+      expect(password).not.toContain("Password1!");
+    });
+
+    it("hashes a plaintext password the first time the user logs in", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+      await client
+        .adminSetUserPassword({
+          Password: "Password1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      // simulate a user saved before we hashed passwords
+      const dataStore = await DataStoreFactory().create(
+        TestContext,
+        "test",
+        {}
+      );
+      await dataStore.set(
+        TestContext,
+        ["Users", "abc", "Password"],
+        "Password1!"
+      );
+      await dataStore.delete(TestContext, ["Users", "abc", "SrpVerifier"]);
+
+      const response = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "Password1!",
+          },
+        })
+        .promise();
+
+      expect(response.AuthenticationResult?.AccessToken).toBeDefined();
+      expect(await storedPassword("abc")).toMatch(/^scrypt\$/);
+
+      // and they can still log in afterwards
+      const secondResponse = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "Password1!",
+          },
+        })
+        .promise();
+      expect(secondResponse.AuthenticationResult?.AccessToken).toBeDefined();
+    });
+
+    it("hashes a plaintext password the first time the user logs in with USER_SRP_AUTH", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+      await client
+        .adminCreateUser({
+          MessageAction: "SUPPRESS",
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+      await client
+        .adminSetUserPassword({
+          Password: "Password1!",
+          Permanent: true,
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      // simulate a user saved before we hashed passwords
+      const dataStore = await DataStoreFactory().create(
+        TestContext,
+        "test",
+        {}
+      );
+      await dataStore.set(
+        TestContext,
+        ["Users", "abc", "Password"],
+        "Password1!"
+      );
+      await dataStore.delete(TestContext, ["Users", "abc", "SrpVerifier"]);
+
+      const srpClient = newSrpClient("test");
+      const challenge = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            SRP_A: srpClient.SRP_A,
+          },
+        })
+        .promise();
+      const response = await client
+        .respondToAuthChallenge({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResponses: srpClient.passwordClaim(
+            "Password1!",
+            challenge.ChallengeParameters!
+          ),
+          Session: challenge.Session,
+        })
+        .promise();
+
+      expect(response.AuthenticationResult?.AccessToken).toBeDefined();
+      expect(await storedPassword("abc")).toMatch(/^scrypt\$/);
+
+      // and they can still log in with their password afterwards
+      const secondResponse = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "Password1!",
+          },
+        })
+        .promise();
+      expect(secondResponse.AuthenticationResult?.AccessToken).toBeDefined();
+    });
+  })
+);
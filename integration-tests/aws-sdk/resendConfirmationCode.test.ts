@@ -0,0 +1,111 @@
+import { TestContext } from "../../src/__tests__/testContext";
+import { User } from "../../src/services/userPoolService";
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.resendConfirmationCode",
+  withCognitoSdk((Cognito, DataStoreFactory) => {
+    it("sends a new code which can be used to confirm the user", async () => {
+      const client = Cognito();
+
+      const pool = await client
+        .createUserPool({
+          PoolName: "test",
+          AutoVerifiedAttributes: ["email"],
+        })
+        .promise();
+      const userPoolId = pool.UserPool?.Id as string;
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: userPoolId,
+          ClientName: "test",
+        })
+        .promise();
+      const clientId = upc.UserPoolClient?.ClientId as string;
+
+      await client
+        .signUp({
+          ClientId: clientId,
+          Password: "Password1!",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+        })
+        .promise();
+
+      const result = await client
+        .resendConfirmationCode({
+          ClientId: clientId,
+          Username: "abc",
+        })
+        .promise();
+
+      expect(result.CodeDeliveryDetails).toEqual({
+        AttributeName: "email",
+        DeliveryMedium: "EMAIL",
+        Destination: "example@example.com",
+      });
+
+      // get the user's code -- this is very nasty
+      const ds = await DataStoreFactory().create(TestContext, userPoolId, {});
+      const storedUser = (await ds.get(TestContext, ["Users", "abc"])) as User;
+
+      await client
+        .confirmSignUp({
+          ClientId: clientId,
+          ConfirmationCode: storedUser.ConfirmationCode as string,
+          Username: "abc",
+        })
+        .promise();
+
+      const user = await client
+        .adminGetUser({
+          Username: "abc",
+          UserPoolId: userPoolId,
+        })
+        .promise();
+
+      expect(user.UserStatus).toEqual("CONFIRMED");
+    });
+
+    it("throws if the user is already confirmed", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .adminConfirmSignUp({
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await expect(
+        client
+          .resendConfirmationCode({
+            ClientId: upc.UserPoolClient?.ClientId as string,
+            Username: "abc",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "InvalidParameterException",
+        message: "User is already confirmed.",
+      });
+    });
+  })
+);
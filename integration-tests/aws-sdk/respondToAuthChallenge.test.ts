@@ -41,7 +41,7 @@ describe(
           Session: initiateAuthResponse.Session,
           ChallengeResponses: {
             USERNAME: "abc",
-            NEW_PASSWORD: "new_password",
+            NEW_PASSWORD: "NewPassword1!",
           },
         })
         .promise();
@@ -51,9 +51,177 @@ describe(
           AccessToken: expect.any(String),
           IdToken: expect.any(String),
           RefreshToken: expect.any(String),
+          ExpiresIn: 3600,
+          TokenType: "Bearer",
         },
         ChallengeParameters: {},
       });
     });
+
+    it("rejects a session which has already been used", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          DesiredDeliveryMediums: ["EMAIL"],
+          TemporaryPassword: "def",
+          UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+          Username: "abc",
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const initiateAuthResponse = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "def",
+          },
+        })
+        .promise();
+
+      const request = {
+        ChallengeName: "NEW_PASSWORD_REQUIRED",
+        ClientId: upc.UserPoolClient?.ClientId!,
+        Session: initiateAuthResponse.Session,
+        ChallengeResponses: {
+          USERNAME: "abc",
+          NEW_PASSWORD: "NewPassword1!",
+        },
+      };
+
+      await client.respondToAuthChallenge(request).promise();
+
+      await expect(
+        client.respondToAuthChallenge(request).promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+        message: "Invalid session for the user.",
+      });
+    });
+
+    it("allows a session to be retried after a new password is rejected", async () => {
+      const client = Cognito();
+
+      const up = await client
+        .createUserPool({
+          PoolName: "test",
+          Policies: {
+            PasswordPolicy: {
+              MinimumLength: 12,
+            },
+          },
+        })
+        .promise();
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: up.UserPool?.Id!,
+          ClientName: "test",
+        })
+        .promise();
+
+      await client
+        .adminCreateUser({
+          MessageAction: "SUPPRESS",
+          TemporaryPassword: "TemporaryPassword1!",
+          Username: "abc",
+          UserPoolId: up.UserPool?.Id!,
+        })
+        .promise();
+
+      const initiateAuthResponse = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "TemporaryPassword1!",
+          },
+        })
+        .promise();
+
+      const respond = (newPassword: string) =>
+        client
+          .respondToAuthChallenge({
+            ChallengeName: "NEW_PASSWORD_REQUIRED",
+            ClientId: upc.UserPoolClient?.ClientId!,
+            Session: initiateAuthResponse.Session,
+            ChallengeResponses: {
+              USERNAME: "abc",
+              NEW_PASSWORD: newPassword,
+            },
+          })
+          .promise();
+
+      await expect(respond("Short1!")).rejects.toMatchObject({
+        code: "InvalidPasswordException",
+      });
+
+      const response = await respond("NewPassword12!");
+
+      expect(response.AuthenticationResult?.AccessToken).toEqual(
+        expect.any(String)
+      );
+    });
+
+    it("rejects a session issued to another user", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          UserPoolId: "test",
+          ClientName: "test",
+        })
+        .promise();
+
+      for (const username of ["abc", "def"]) {
+        await client
+          .adminCreateUser({
+            DesiredDeliveryMediums: ["EMAIL"],
+            TemporaryPassword: "def",
+            UserAttributes: [{ Name: "email", Value: "example@example.com" }],
+            Username: username,
+            UserPoolId: "test",
+          })
+          .promise();
+      }
+
+      const initiateAuthResponse = await client
+        .initiateAuth({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "abc",
+            PASSWORD: "def",
+          },
+        })
+        .promise();
+
+      await expect(
+        client
+          .respondToAuthChallenge({
+            ChallengeName: "NEW_PASSWORD_REQUIRED",
+            ClientId: upc.UserPoolClient?.ClientId!,
+            Session: initiateAuthResponse.Session,
+            ChallengeResponses: {
+              USERNAME: "def",
+              NEW_PASSWORD: "NewPassword1!",
+            },
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "NotAuthorizedException",
+        message: "Invalid session for the user.",
+      });
+    });
   })
 );
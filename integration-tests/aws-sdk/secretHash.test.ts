@@ -0,0 +1,169 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { secretHash } from "../../src/services/secretHash";
+import { withCognitoSdk } from "./setup";
+
+const clock = new ClockFake(new Date());
+
+describe(
+  "App clients with secrets",
+  withCognitoSdk(
+    (Cognito) => {
+      const createClient = async () => {
+        const client = Cognito();
+
+        const upc = await client
+          .createUserPoolClient({
+            UserPoolId: "test",
+            ClientName: "test",
+            GenerateSecret: true,
+          })
+          .promise();
+
+        await client
+          .adminCreateUser({
+            MessageAction: "SUPPRESS",
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await client
+          .adminSetUserPassword({
+            Password: "Password1!",
+            Permanent: true,
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        return {
+          clientId: upc.UserPoolClient?.ClientId!,
+          clientSecret: upc.UserPoolClient?.ClientSecret!,
+        };
+      };
+
+      it("generates a secret for the app client", async () => {
+        const { clientSecret } = await createClient();
+
+        expect(clientSecret).toMatch(/^[a-z0-9]{51}$/);
+      });
+
+      it("signs in with a valid secret hash", async () => {
+        const { clientId, clientSecret } = await createClient();
+
+        const response = await Cognito()
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "Password1!",
+              SECRET_HASH: secretHash(clientSecret, "abc", clientId),
+            },
+          })
+          .promise();
+
+        expect(response.AuthenticationResult?.AccessToken).toBeDefined();
+
+        const refreshed = await Cognito()
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "REFRESH_TOKEN_AUTH",
+            AuthParameters: {
+              REFRESH_TOKEN: response.AuthenticationResult?.RefreshToken!,
+              SECRET_HASH: secretHash(clientSecret, "abc", clientId),
+            },
+          })
+          .promise();
+
+        expect(refreshed.AuthenticationResult?.AccessToken).toBeDefined();
+      });
+
+      it("rejects a sign in without a secret hash", async () => {
+        const { clientId } = await createClient();
+
+        await expect(
+          Cognito()
+            .initiateAuth({
+              ClientId: clientId,
+              AuthFlow: "USER_PASSWORD_AUTH",
+              AuthParameters: {
+                USERNAME: "abc",
+                PASSWORD: "Password1!",
+              },
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: `Unable to verify secret hash for client ${clientId}`,
+        });
+      });
+
+      it("checks the secret hash for admin sign ins", async () => {
+        const { clientId, clientSecret } = await createClient();
+
+        const adminLogin = (secretHashValue?: string) =>
+          Cognito()
+            .adminInitiateAuth({
+              ClientId: clientId,
+              AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+              AuthParameters: {
+                USERNAME: "abc",
+                PASSWORD: "Password1!",
+                ...(secretHashValue ? { SECRET_HASH: secretHashValue } : {}),
+              },
+              UserPoolId: "test",
+            })
+            .promise();
+
+        await expect(adminLogin()).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: `Unable to verify secret hash for client ${clientId}`,
+        });
+
+        const response = await adminLogin(
+          secretHash(clientSecret, "abc", clientId)
+        );
+        expect(response.AuthenticationResult?.AccessToken).toBeDefined();
+      });
+
+      it("rejects a sign up with the wrong secret hash", async () => {
+        const { clientId } = await createClient();
+
+        await expect(
+          Cognito()
+            .signUp({
+              ClientId: clientId,
+              Password: "Password1!",
+              SecretHash: secretHash("wrong", "def", clientId),
+              Username: "def",
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: `Unable to verify secret hash for client ${clientId}`,
+        });
+      });
+
+      it("rejects a forgotten password request with the wrong secret hash", async () => {
+        const { clientId, clientSecret } = await createClient();
+
+        await expect(
+          Cognito()
+            .forgotPassword({
+              ClientId: clientId,
+              SecretHash: secretHash(clientSecret, "other", clientId),
+              Username: "abc",
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: `Unable to verify secret hash for client ${clientId}`,
+        });
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
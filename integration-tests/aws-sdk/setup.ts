@@ -11,6 +11,7 @@ import {
   Clock,
   DateClock,
   MessagesService,
+  PasswordsService,
   TriggersService,
 } from "../../src/services";
 import { CognitoServiceFactoryImpl } from "../../src/services/cognitoService";
@@ -19,6 +20,7 @@ import { DataStoreFactory } from "../../src/services/dataStore/factory";
 import { StormDBDataStoreFactory } from "../../src/services/dataStore/stormDb";
 import { otp } from "../../src/services/otp";
 import { JwtTokenGenerator } from "../../src/services/tokenGenerator";
+import { JwtTokenVerifier } from "../../src/services/tokenVerifier";
 import { UserPoolServiceFactoryImpl } from "../../src/services/userPoolService";
 import { Router } from "../../src/targets/router";
 
@@ -57,7 +59,11 @@ export const withCognitoSdk =
         new UserPoolServiceFactoryImpl(clock, dataStoreFactory)
       );
       const cognitoClient = await cognitoServiceFactory.create(ctx, {});
-      const triggers = new TriggersService(clock, cognitoClient, {
+      const passwords = new PasswordsService(
+        clock,
+        DefaultConfig.PasswordConfig
+      );
+      const triggers = new TriggersService(clock, cognitoClient, passwords, {
         enabled: jest.fn().mockReturnValue(false),
         invoke: jest.fn(),
       });
@@ -67,12 +73,19 @@ export const withCognitoSdk =
         config: DefaultConfig,
         messages: new MessagesService(triggers, newMockMessageDelivery()),
         otp,
+        passwords,
         triggers,
         tokenGenerator: new JwtTokenGenerator(
           clock,
+          cognitoClient,
           triggers,
           DefaultConfig.TokenConfig
         ),
+        tokenVerifier: new JwtTokenVerifier(
+          clock,
+          cognitoClient,
+          DefaultConfig.TokenConfig
+        ),
       });
       const server = createServer(router, ctx.logger);
       httpServer = await server.start({
@@ -0,0 +1,124 @@
+import { CreateUserPoolClientRequest } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import jwt from "jsonwebtoken";
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { withCognitoSdk } from "./setup";
+
+const clock = new ClockFake(new Date());
+
+describe(
+  "App client token validity",
+  withCognitoSdk(
+    (Cognito) => {
+      const createClient = async (
+        settings: Partial<CreateUserPoolClientRequest>
+      ) => {
+        const client = Cognito();
+
+        const upc = await client
+          .createUserPoolClient({
+            UserPoolId: "test",
+            ClientName: "test",
+            ...settings,
+          })
+          .promise();
+
+        await client
+          .adminCreateUser({
+            MessageAction: "SUPPRESS",
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        await client
+          .adminSetUserPassword({
+            Password: "Password1!",
+            Permanent: true,
+            Username: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        return upc.UserPoolClient?.ClientId!;
+      };
+
+      const login = (clientId: string) =>
+        Cognito()
+          .initiateAuth({
+            ClientId: clientId,
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: "abc",
+              PASSWORD: "Password1!",
+            },
+          })
+          .promise();
+
+      it("issues tokens which last as long as the client's validity", async () => {
+        const clientId = await createClient({
+          AccessTokenValidity: 5,
+          IdTokenValidity: 10,
+          RefreshTokenValidity: 60,
+          TokenValidityUnits: {
+            AccessToken: "minutes",
+            IdToken: "minutes",
+            RefreshToken: "minutes",
+          },
+        });
+
+        const response = await login(clientId);
+
+        const issuedAt = Math.floor(clock.get().getTime() / 1000);
+
+        expect(response.AuthenticationResult?.ExpiresIn).toEqual(5 * 60);
+        expect(response.AuthenticationResult?.TokenType).toEqual("Bearer");
+        expect(
+          jwt.decode(response.AuthenticationResult?.AccessToken as string)
+        ).toMatchObject({ exp: issuedAt + 5 * 60 });
+        expect(
+          jwt.decode(response.AuthenticationResult?.IdToken as string)
+        ).toMatchObject({ exp: issuedAt + 10 * 60 });
+        expect(
+          jwt.decode(response.AuthenticationResult?.RefreshToken as string)
+        ).toMatchObject({ exp: issuedAt + 60 * 60 });
+      });
+
+      it("refreshes tokens until the refresh token expires", async () => {
+        const clientId = await createClient({
+          RefreshTokenValidity: 1,
+          TokenValidityUnits: {
+            RefreshToken: "hours",
+          },
+        });
+
+        const response = await login(clientId);
+        const refresh = () =>
+          Cognito()
+            .initiateAuth({
+              ClientId: clientId,
+              AuthFlow: "REFRESH_TOKEN_AUTH",
+              AuthParameters: {
+                REFRESH_TOKEN: response.AuthenticationResult
+                  ?.RefreshToken as string,
+              },
+            })
+            .promise();
+
+        const refreshed = await refresh();
+
+        expect(refreshed.AuthenticationResult?.AccessToken).toBeDefined();
+        expect(refreshed.AuthenticationResult?.ExpiresIn).toEqual(60 * 60);
+
+        clock.advanceBy(60 * 60 * 1000);
+
+        await expect(refresh()).rejects.toMatchObject({
+          code: "NotAuthorizedException",
+          message: "Refresh Token has expired",
+        });
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
@@ -0,0 +1,69 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { withCognitoSdk } from "./setup";
+
+const currentDate = new Date();
+const roundedDate = new Date(currentDate.getTime());
+roundedDate.setMilliseconds(0);
+
+const clock = new ClockFake(currentDate);
+
+describe(
+  "CognitoIdentityServiceProvider.updateGroup",
+  withCognitoSdk(
+    (Cognito) => {
+      it("updates a group", async () => {
+        const client = Cognito();
+
+        await client
+          .createGroup({
+            Description: "Description",
+            GroupName: "abc",
+            Precedence: 1,
+            RoleArn: "arn",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const updatedDate = new Date(roundedDate.getTime() + 5000);
+        clock.advanceTo(updatedDate);
+
+        const result = await client
+          .updateGroup({
+            Description: "New Description",
+            GroupName: "abc",
+            Precedence: 2,
+            UserPoolId: "test",
+          })
+          .promise();
+
+        const expectedGroup = {
+          CreationDate: roundedDate,
+          Description: "New Description",
+          GroupName: "abc",
+          LastModifiedDate: updatedDate,
+          Precedence: 2,
+          RoleArn: "arn",
+          UserPoolId: "test",
+        };
+
+        expect(result).toEqual({
+          Group: expectedGroup,
+        });
+
+        const getGroupResult = await client
+          .getGroup({
+            GroupName: "abc",
+            UserPoolId: "test",
+          })
+          .promise();
+
+        expect(getGroupResult).toEqual({
+          Group: expectedGroup,
+        });
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
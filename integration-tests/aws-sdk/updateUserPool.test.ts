@@ -0,0 +1,155 @@
+import { ClockFake } from "../../src/__tests__/clockFake";
+import { withCognitoSdk } from "./setup";
+
+const originalDate = new Date();
+originalDate.setMilliseconds(0);
+
+const clock = new ClockFake(originalDate);
+
+describe(
+  "CognitoIdentityServiceProvider.updateUserPool",
+  withCognitoSdk(
+    (Cognito) => {
+      it("updates a user pool", async () => {
+        const client = Cognito();
+
+        const up = await client
+          .createUserPool({
+            PoolName: "test",
+          })
+          .promise();
+
+        clock.advanceBy(1000);
+
+        await client
+          .updateUserPool({
+            UserPoolId: up.UserPool?.Id!,
+            MfaConfiguration: "OPTIONAL",
+          })
+          .promise();
+
+        const result = await client
+          .describeUserPool({
+            UserPoolId: up.UserPool?.Id!,
+          })
+          .promise();
+
+        expect(result.UserPool).toEqual({
+          ...up.UserPool,
+          LastModifiedDate: new Date(originalDate.getTime() + 1000),
+          MfaConfiguration: "OPTIONAL",
+        });
+      });
+
+      it("resets settings left out of the request to their defaults", async () => {
+        const client = Cognito();
+
+        const up = await client
+          .createUserPool({
+            PoolName: "test",
+            AutoVerifiedAttributes: ["email"],
+          })
+          .promise();
+
+        await client
+          .updateUserPool({
+            UserPoolId: up.UserPool?.Id!,
+            MfaConfiguration: "OPTIONAL",
+          })
+          .promise();
+
+        await client
+          .updateUserPool({
+            UserPoolId: up.UserPool?.Id!,
+          })
+          .promise();
+
+        const result = await client
+          .describeUserPool({
+            UserPoolId: up.UserPool?.Id!,
+          })
+          .promise();
+
+        expect(result.UserPool?.Name).toEqual("test");
+        expect(result.UserPool?.CreationDate).toEqual(
+          up.UserPool?.CreationDate
+        );
+        expect(result.UserPool?.SchemaAttributes).toEqual(
+          up.UserPool?.SchemaAttributes
+        );
+        expect(result.UserPool?.MfaConfiguration).toEqual("OFF");
+        expect(result.UserPool?.AutoVerifiedAttributes).toBeUndefined();
+      });
+
+      it("applies the changes to later requests", async () => {
+        const client = Cognito();
+
+        const up = await client
+          .createUserPool({
+            PoolName: "test",
+          })
+          .promise();
+
+        await client
+          .adminCreateUser({
+            MessageAction: "SUPPRESS",
+            Username: "abc",
+            UserPoolId: up.UserPool?.Id!,
+          })
+          .promise();
+
+        await client
+          .updateUserPool({
+            UserPoolId: up.UserPool?.Id!,
+            Policies: {
+              PasswordPolicy: {
+                MinimumLength: 20,
+              },
+            },
+          })
+          .promise();
+
+        await expect(
+          client
+            .adminSetUserPassword({
+              Password: "Password1!",
+              Permanent: true,
+              Username: "abc",
+              UserPoolId: up.UserPool?.Id!,
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "InvalidPasswordException",
+          message:
+            "Password did not conform with policy: Password not long enough",
+        });
+      });
+
+      it("throws if the user pool doesn't exist", async () => {
+        const client = Cognito();
+
+        await expect(
+          client
+            .updateUserPool({
+              UserPoolId: "unknown",
+              MfaConfiguration: "OPTIONAL",
+            })
+            .promise()
+        ).rejects.toMatchObject({
+          code: "ResourceNotFoundException",
+        });
+
+        // and doesn't create it
+        const result = await client
+          .listUserPools({
+            MaxResults: 10,
+          })
+          .promise();
+        expect(result.UserPools).toEqual([]);
+      });
+    },
+    {
+      clock,
+    }
+  )
+);
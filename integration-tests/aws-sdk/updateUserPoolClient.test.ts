@@ -0,0 +1,91 @@
+import { withCognitoSdk } from "./setup";
+
+describe(
+  "CognitoIdentityServiceProvider.updateUserPoolClient",
+  withCognitoSdk((Cognito) => {
+    it("updates an app client", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          ClientName: "test",
+          ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const result = await client
+        .updateUserPoolClient({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          ClientName: "updated",
+          ExplicitAuthFlows: ["ALLOW_USER_PASSWORD_AUTH"],
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(result.UserPoolClient).toEqual({
+        ...upc.UserPoolClient,
+        ClientName: "updated",
+        ExplicitAuthFlows: ["ALLOW_USER_PASSWORD_AUTH"],
+        LastModifiedDate: expect.any(Date),
+      });
+
+      const updatedClient = await client
+        .describeUserPoolClient({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(updatedClient).toEqual({
+        UserPoolClient: result.UserPoolClient,
+      });
+    });
+
+    it("resets settings which aren't in the request", async () => {
+      const client = Cognito();
+
+      const upc = await client
+        .createUserPoolClient({
+          CallbackURLs: ["https://example.com/callback"],
+          ClientName: "test",
+          ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+          UserPoolId: "test",
+        })
+        .promise();
+
+      await client
+        .updateUserPoolClient({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      const updatedClient = await client
+        .describeUserPoolClient({
+          ClientId: upc.UserPoolClient?.ClientId!,
+          UserPoolId: "test",
+        })
+        .promise();
+
+      expect(updatedClient.UserPoolClient?.ClientName).toEqual("test");
+      expect(updatedClient.UserPoolClient?.CallbackURLs).toBeUndefined();
+      expect(updatedClient.UserPoolClient?.ExplicitAuthFlows).toBeUndefined();
+    });
+
+    it("throws if the app client doesn't exist", async () => {
+      const client = Cognito();
+
+      await expect(
+        client
+          .updateUserPoolClient({
+            ClientId: "invalid",
+            UserPoolId: "test",
+          })
+          .promise()
+      ).rejects.toMatchObject({
+        code: "ResourceNotFoundException",
+      });
+    });
+  })
+);
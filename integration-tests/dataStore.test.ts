@@ -59,6 +59,20 @@ describe("Data Store", () => {
     });
   });
 
+  it("deletes a named database", async () => {
+    await factory.create(TestContext, "example", {});
+
+    await factory.delete(TestContext, "example");
+
+    expect(fs.existsSync(path + "/example.json")).toBe(false);
+  });
+
+  it("deletes a named database which doesn't exist", async () => {
+    await factory.delete(TestContext, "example");
+
+    expect(fs.existsSync(path + "/example.json")).toBe(false);
+  });
+
   it("saves the default objects when a save occurs", async () => {
     const dataStore = await factory.create(TestContext, "example", {
       DefaultValue: true,
@@ -328,5 +342,22 @@ describe("Data Store", () => {
         Three: 3,
       });
     });
+
+    it("starts over from the defaults once a cached data store is deleted", async () => {
+      const factory = new StormDBDataStoreFactory(path, new InMemoryCache());
+
+      const dataStore1 = await factory.create(TestContext, "example", {});
+      await dataStore1.set(TestContext, "One", 1);
+
+      await factory.delete(TestContext, "example");
+
+      const dataStore2 = await factory.create(TestContext, "example", {
+        Two: 2,
+      });
+
+      expect(await dataStore2.getRoot(TestContext)).toEqual({
+        Two: 2,
+      });
+    });
   });
 });
@@ -6,10 +6,12 @@ export const newMockCognitoService = (
   userPoolClient: UserPoolService = newMockUserPoolService()
 ): jest.Mocked<CognitoService> => ({
   createUserPool: jest.fn(),
+  deleteUserPool: jest.fn(),
   getAppClient: jest.fn(),
   getUserPool: jest.fn().mockResolvedValue(userPoolClient),
   getUserPoolForClientId: jest.fn().mockResolvedValue(userPoolClient),
   listUserPools: jest.fn(),
+  userPoolExists: jest.fn().mockResolvedValue(true),
 });
 
 export const newMockCognitoServiceFactory = (
@@ -12,4 +12,5 @@ export const newMockDataStoreFactory = (
   dataStore: jest.Mocked<DataStore> = newMockDataStore()
 ): jest.Mocked<DataStoreFactory> => ({
   create: jest.fn().mockResolvedValue(dataStore),
+  delete: jest.fn(),
 });
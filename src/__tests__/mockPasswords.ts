@@ -0,0 +1,9 @@
+import { Passwords } from "../services";
+
+export const newMockPasswords = (): jest.Mocked<Passwords> => ({
+  checkLockout: jest.fn(),
+  credentials: jest.fn(),
+  recordFailedAttempt: jest.fn(),
+  recordSuccessfulAttempt: jest.fn(),
+  verify: jest.fn(),
+});
@@ -0,0 +1,5 @@
+import { TokenVerifier } from "../services/tokenVerifier";
+
+export const newMockTokenVerifier = (): jest.Mocked<TokenVerifier> => ({
+  verifyAccessToken: jest.fn(),
+});
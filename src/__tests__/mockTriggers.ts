@@ -1,11 +1,14 @@
 import { Triggers } from "../services";
 
 export const newMockTriggers = (): jest.Mocked<Triggers> => ({
+  createAuthChallenge: jest.fn(),
   customMessage: jest.fn(),
+  defineAuthChallenge: jest.fn(),
   enabled: jest.fn(),
   postAuthentication: jest.fn(),
   postConfirmation: jest.fn(),
   preSignUp: jest.fn(),
   preTokenGeneration: jest.fn(),
   userMigration: jest.fn(),
+  verifyAuthChallengeResponse: jest.fn(),
 });
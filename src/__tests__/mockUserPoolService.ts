@@ -6,16 +6,28 @@ export const newMockUserPoolService = (
     Id: "test",
   }
 ): jest.Mocked<UserPoolService> => ({
+  addUserToGroup: jest.fn(),
   config,
   createAppClient: jest.fn(),
+  deleteAppClient: jest.fn(),
+  deleteAuthSession: jest.fn(),
+  deleteGroup: jest.fn(),
   deleteUser: jest.fn(),
+  getAuthSession: jest.fn(),
+  getGroupByGroupName: jest.fn(),
   getUserByRefreshToken: jest.fn(),
   getUserByUsername: jest.fn(),
+  listAppClients: jest.fn(),
   listGroups: jest.fn(),
+  listUserGroupMembership: jest.fn(),
   listUsers: jest.fn(),
+  removeUserFromGroup: jest.fn(),
+  saveAppClient: jest.fn(),
+  saveAuthSession: jest.fn(),
   saveGroup: jest.fn(),
   saveUser: jest.fn(),
   storeRefreshToken: jest.fn(),
+  updateOptions: jest.fn(),
 });
 
 export const newMockUserPoolServiceFactory = (
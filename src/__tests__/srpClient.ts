@@ -0,0 +1,96 @@
+import { ChallengeParametersType } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { createHash, createHmac, randomBytes } from "crypto";
+
+// A minimal client side implementation of Cognito's SRP-6a, following amazon-cognito-identity-js, so we can exercise
+// USER_SRP_AUTH the same way the AWS client libraries do.
+
+const N = BigInt(
+  "0xFFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3BE39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF6955817183995497CEA956AE515D2261898FA051015728E5A8AAAC42DAD33170D04507A33A85521ABDF1CBA64ECFB850458DBEF0A8AEA71575D060C7DB3970F85A6E1E4C7ABF5AE8CDB0933D71E8C94E04A25619DCEE3D2261AD2EE6BF12FFA06D98A0864D87602733EC86A64521F2B18177B200CBBE117577A615D6C770988C0BAD946E208E24FA074E5AB3143DB5BFCE0FD108E4B82D120A93AD2CAFFFFFFFFFFFFFFFF"
+);
+const g = BigInt(2);
+
+const padHex = (value: bigint) => {
+  const hex = value.toString(16);
+  const even = hex.length % 2 ? `0${hex}` : hex;
+  return /^[89a-f]/i.test(even) ? `00${even}` : even;
+};
+const hash = (data: Buffer | string) =>
+  createHash("sha256").update(data).digest("hex");
+const hexHash = (hex: string) => hash(Buffer.from(hex, "hex"));
+const fromHex = (hex: string) => BigInt(`0x${hex}`);
+const mod = (value: bigint) => ((value % N) + N) % N;
+const modPow = (base: bigint, exponent: bigint): bigint => {
+  let result = BigInt(1);
+  let b = mod(base);
+  for (let e = exponent; e > BigInt(0); e >>= BigInt(1)) {
+    if (e & BigInt(1)) result = (result * b) % N;
+    b = (b * b) % N;
+  }
+  return result;
+};
+
+const k = fromHex(hexHash(padHex(N) + padHex(g)));
+
+// 2021-01-01T00:00:00Z => "Fri Jan 1 00:00:00 UTC 2021"
+export const srpTimestamp = (date: Date): string => {
+  const [weekDay, month] = [
+    date.toUTCString().slice(0, 3),
+    date.toUTCString().slice(8, 11),
+  ];
+  const time = date.toISOString().slice(11, 19);
+  return `${weekDay} ${month} ${date.getUTCDate()} ${time} UTC ${date.getUTCFullYear()}`;
+};
+
+export const newSrpClient = (userPoolId: string) => {
+  const a = fromHex(randomBytes(128).toString("hex"));
+  const A = modPow(g, a);
+  const poolName = userPoolId.split("_")[1] ?? userPoolId;
+
+  return {
+    SRP_A: A.toString(16),
+
+    passwordClaim(
+      password: string,
+      params: ChallengeParametersType,
+      timestamp = srpTimestamp(new Date())
+    ) {
+      const B = fromHex(params.SRP_B);
+      const u = fromHex(hexHash(padHex(A) + padHex(B)));
+      const x = fromHex(
+        hexHash(
+          padHex(fromHex(params.SALT)) +
+            hash(`${poolName}${params.USER_ID_FOR_SRP}:${password}`)
+        )
+      );
+      const S = modPow(B - k * modPow(g, x), a + u * x);
+
+      const prk = createHmac("sha256", Buffer.from(padHex(u), "hex"))
+        .update(Buffer.from(padHex(S), "hex"))
+        .digest();
+      const key = createHmac("sha256", prk)
+        .update(
+          Buffer.concat([Buffer.from("Caldera Derived Key"), Buffer.from([1])])
+        )
+        .digest()
+        .slice(0, 16);
+
+      const signature = createHmac("sha256", key)
+        .update(
+          Buffer.concat([
+            Buffer.from(poolName),
+            Buffer.from(params.USER_ID_FOR_SRP),
+            Buffer.from(params.SECRET_BLOCK, "base64"),
+            Buffer.from(timestamp),
+          ])
+        )
+        .digest("base64");
+
+      return {
+        PASSWORD_CLAIM_SECRET_BLOCK: params.SECRET_BLOCK,
+        PASSWORD_CLAIM_SIGNATURE: signature,
+        TIMESTAMP: timestamp,
+        USERNAME: params.USER_ID_FOR_SRP,
+      };
+    },
+  };
+};
@@ -1,14 +1,77 @@
 import { v4 } from "uuid";
-import { Group, User, UserPool } from "../services/userPoolService";
+import { AppClient } from "../services/appClient";
+import { Token } from "../services/tokenGenerator";
+import {
+  AuthSession,
+  Group,
+  User,
+  UserPool,
+} from "../services/userPoolService";
 
 export const id = (prefix: string, number?: number) =>
   `${prefix}${number ?? Math.floor(Math.random() * 100000)}`;
 
+export const accessToken = (partial?: Partial<Token>): Token => ({
+  auth_time: partial?.auth_time ?? new Date(),
+  client_id: partial?.client_id ?? "clientId",
+  event_id: partial?.event_id ?? v4(),
+  exp: partial?.exp ?? Math.floor(Date.now() / 1000) + 60 * 60,
+  iat: partial?.iat ?? Math.floor(Date.now() / 1000),
+  iss: partial?.iss ?? "http://localhost:9229/test",
+  jti: partial?.jti ?? v4(),
+  origin_jti: partial?.origin_jti ?? v4(),
+  scope: partial?.scope ?? "aws.cognito.signin.user.admin",
+  sub: partial?.sub ?? v4(),
+  token_use: partial?.token_use ?? "access",
+  username: partial?.username ?? id("User"),
+});
+
+export const appClient = (partial?: Partial<AppClient>): AppClient => ({
+  AccessTokenValidity: partial?.AccessTokenValidity ?? undefined,
+  AllowedOAuthFlows: partial?.AllowedOAuthFlows ?? undefined,
+  AllowedOAuthFlowsUserPoolClient:
+    partial?.AllowedOAuthFlowsUserPoolClient ?? false,
+  AllowedOAuthScopes: partial?.AllowedOAuthScopes ?? undefined,
+  AnalyticsConfiguration: partial?.AnalyticsConfiguration ?? undefined,
+  CallbackURLs: partial?.CallbackURLs ?? undefined,
+  ClientId: partial?.ClientId ?? id("Client"),
+  ClientName: partial?.ClientName ?? id("ClientName"),
+  ClientSecret: partial?.ClientSecret ?? undefined,
+  CreationDate: partial?.CreationDate ?? new Date(),
+  DefaultRedirectURI: partial?.DefaultRedirectURI ?? undefined,
+  EnableTokenRevocation: partial?.EnableTokenRevocation ?? undefined,
+  ExplicitAuthFlows: partial?.ExplicitAuthFlows ?? undefined,
+  IdTokenValidity: partial?.IdTokenValidity ?? undefined,
+  LastModifiedDate: partial?.LastModifiedDate ?? new Date(),
+  LogoutURLs: partial?.LogoutURLs ?? undefined,
+  PreventUserExistenceErrors: partial?.PreventUserExistenceErrors ?? undefined,
+  ReadAttributes: partial?.ReadAttributes ?? undefined,
+  RefreshTokenValidity: partial?.RefreshTokenValidity ?? 30,
+  SupportedIdentityProviders: partial?.SupportedIdentityProviders ?? undefined,
+  TokenValidityUnits: partial?.TokenValidityUnits ?? undefined,
+  UserPoolId: partial?.UserPoolId ?? id("local_UserPool"),
+  WriteAttributes: partial?.WriteAttributes ?? undefined,
+});
+
+export const authSession = (partial?: Partial<AuthSession>): AuthSession => ({
+  ChallengeMetadata: partial?.ChallengeMetadata ?? undefined,
+  ChallengeName: partial?.ChallengeName ?? "NEW_PASSWORD_REQUIRED",
+  ChallengeResults: partial?.ChallengeResults ?? undefined,
+  ClientId: partial?.ClientId ?? "clientId",
+  ExpirationDate:
+    partial?.ExpirationDate ?? new Date(Date.now() + 3 * 60 * 1000),
+  PrivateChallengeParameters: partial?.PrivateChallengeParameters ?? undefined,
+  Session: partial?.Session ?? v4(),
+  SrpChallenge: partial?.SrpChallenge ?? undefined,
+  Username: partial?.Username ?? id("User"),
+});
+
 export const group = (partial?: Partial<Group>): Group => ({
   CreationDate: partial?.CreationDate ?? new Date(),
   Description: partial?.Description ?? undefined,
   GroupName: partial?.GroupName ?? id("Group"),
   LastModifiedDate: partial?.LastModifiedDate ?? new Date(),
+  members: partial?.members ?? undefined,
   Precedence: partial?.Precedence ?? undefined,
   RoleArn: partial?.RoleArn ?? undefined,
 });
@@ -21,9 +84,12 @@ export const user = (partial?: Partial<User>): User => ({
   AttributeVerificationCode: partial?.AttributeVerificationCode ?? undefined,
   ConfirmationCode: partial?.ConfirmationCode ?? undefined,
   Enabled: partial?.Enabled ?? true,
+  FailedPasswordAttempts: partial?.FailedPasswordAttempts ?? undefined,
+  LockedOutUntilDate: partial?.LockedOutUntilDate ?? undefined,
   MFACode: partial?.MFACode ?? undefined,
   MFAOptions: partial?.MFAOptions ?? undefined,
   Password: partial?.Password ?? "Password123!",
+  SrpVerifier: partial?.SrpVerifier ?? undefined,
   UserCreateDate: partial?.UserCreateDate ?? new Date(),
   UserLastModifiedDate: partial?.UserLastModifiedDate ?? new Date(),
   Username: partial?.Username ?? id("User"),
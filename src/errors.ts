@@ -13,8 +13,8 @@ export class CognitoError extends Error {
 }
 
 export class NotAuthorizedError extends CognitoError {
-  public constructor() {
-    super("NotAuthorizedException", "User not authorized");
+  public constructor(message = "User not authorized") {
+    super("NotAuthorizedException", message);
   }
 }
 
@@ -30,6 +30,24 @@ export class UsernameExistsError extends CognitoError {
   }
 }
 
+export class AliasExistsError extends CognitoError {
+  public constructor(message: string) {
+    super("AliasExistsException", message);
+  }
+}
+
+export class UnsupportedUserStateError extends CognitoError {
+  public constructor(message: string) {
+    super("UnsupportedUserStateException", message);
+  }
+}
+
+export class UserNotConfirmedError extends CognitoError {
+  public constructor() {
+    super("UserNotConfirmedException", "User is not confirmed.");
+  }
+}
+
 export class CodeMismatchError extends CognitoError {
   public constructor() {
     super("CodeMismatchException", "Incorrect confirmation code");
@@ -37,8 +55,8 @@ export class CodeMismatchError extends CognitoError {
 }
 
 export class InvalidPasswordError extends CognitoError {
-  public constructor() {
-    super("InvalidPasswordException", "Invalid password");
+  public constructor(message = "Invalid password") {
+    super("InvalidPasswordException", message);
   }
 }
 
@@ -54,6 +72,18 @@ export class ResourceNotFoundError extends CognitoError {
   }
 }
 
+export class GroupExistsError extends CognitoError {
+  public constructor() {
+    super("GroupExistsException", "A group with the name already exists");
+  }
+}
+
+export class GroupNotFoundError extends CognitoError {
+  public constructor() {
+    super("ResourceNotFoundException", "Group not found");
+  }
+}
+
 export class UnexpectedLambdaExceptionError extends CognitoError {
   public constructor() {
     super(
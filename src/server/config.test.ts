@@ -100,4 +100,21 @@ describe("loadConfig", () => {
       },
     });
   });
+
+  it("throws if the password hash algorithm isn't supported", async () => {
+    const ds = newMockDataStore();
+    const mockDataStoreFactory = newMockDataStoreFactory(ds);
+
+    ds.getRoot.mockResolvedValue({
+      PasswordConfig: {
+        HashAlgorithm: "md5",
+      },
+    });
+
+    await expect(loadConfig(TestContext, mockDataStoreFactory)).rejects.toEqual(
+      new Error(
+        'Invalid config: PasswordConfig.HashAlgorithm must be one of pbkdf2, scrypt, but was "md5"'
+      )
+    );
+  });
 });
@@ -1,6 +1,10 @@
 import { Context } from "../services/context";
 import { DataStoreFactory } from "../services/dataStore/factory";
 import { FunctionConfig } from "../services/lambda";
+import {
+  PASSWORD_HASH_ALGORITHMS,
+  PasswordConfig,
+} from "../services/passwords";
 import { UserPool } from "../services/userPoolService";
 import { TokenConfig } from "../services/tokenGenerator";
 import mergeWith from "lodash.mergewith";
@@ -12,6 +16,7 @@ export type UserPoolDefaults = Omit<
 
 export interface Config {
   LambdaClient: AWS.Lambda.ClientConfiguration;
+  PasswordConfig: PasswordConfig;
   TriggerFunctions: FunctionConfig;
   UserPoolDefaults: UserPoolDefaults;
   TokenConfig: TokenConfig;
@@ -25,6 +30,9 @@ export const DefaultConfig: Config = {
     },
     region: "local",
   },
+  PasswordConfig: {
+    HashAlgorithm: "scrypt",
+  },
   TriggerFunctions: {},
   UserPoolDefaults: {
     UsernameAttributes: ["email"],
@@ -35,6 +43,21 @@ export const DefaultConfig: Config = {
   },
 };
 
+// the config file isn't type checked, so values which would otherwise fail much later on are checked when it's loaded
+const validateConfig = (config: Config) => {
+  const hashAlgorithm = config.PasswordConfig.HashAlgorithm;
+  if (
+    hashAlgorithm !== undefined &&
+    !PASSWORD_HASH_ALGORITHMS.includes(hashAlgorithm)
+  ) {
+    throw new Error(
+      `Invalid config: PasswordConfig.HashAlgorithm must be one of ${PASSWORD_HASH_ALGORITHMS.join(
+        ", "
+      )}, but was ${JSON.stringify(hashAlgorithm)}`
+    );
+  }
+};
+
 export const loadConfig = async (
   ctx: Context,
   dataStoreFactory: DataStoreFactory
@@ -44,7 +67,7 @@ export const loadConfig = async (
 
   const config = await dataStore.getRoot<Config>(ctx);
 
-  return mergeWith(
+  const mergedConfig: Config = mergeWith(
     {},
     DefaultConfig,
     config ?? {},
@@ -54,4 +77,8 @@ export const loadConfig = async (
       }
     }
   );
+
+  validateConfig(mergedConfig);
+
+  return mergedConfig;
 };
@@ -4,6 +4,7 @@ import {
   DateClock,
   LambdaService,
   MessagesService,
+  PasswordsService,
   TriggersService,
 } from "../services";
 import { CognitoServiceFactoryImpl } from "../services/cognitoService";
@@ -13,6 +14,7 @@ import { ConsoleMessageSender } from "../services/messageDelivery/consoleMessage
 import { MessageDeliveryService } from "../services/messageDelivery/messageDelivery";
 import { otp } from "../services/otp";
 import { JwtTokenGenerator } from "../services/tokenGenerator";
+import { JwtTokenVerifier } from "../services/tokenVerifier";
 import { UserPoolServiceFactoryImpl } from "../services/userPoolService";
 import { Router } from "../targets/router";
 import { loadConfig } from "./config";
@@ -52,9 +54,11 @@ export const createDefaultServer = async (
     ctx,
     config.UserPoolDefaults
   );
+  const passwords = new PasswordsService(clock, config.PasswordConfig);
   const triggers = new TriggersService(
     clock,
     cognitoClient,
+    passwords,
     new LambdaService(
       config.TriggerFunctions,
       new AWS.Lambda(config.LambdaClient)
@@ -71,11 +75,18 @@ export const createDefaultServer = async (
         new MessageDeliveryService(new ConsoleMessageSender())
       ),
       otp,
+      passwords,
       tokenGenerator: new JwtTokenGenerator(
         clock,
+        cognitoClient,
         triggers,
         config.TokenConfig
       ),
+      tokenVerifier: new JwtTokenVerifier(
+        clock,
+        cognitoClient,
+        config.TokenConfig
+      ),
       triggers,
     }),
     logger,
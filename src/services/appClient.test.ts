@@ -0,0 +1,94 @@
+import * as TDB from "../__tests__/testDataBuilder";
+import { InvalidParameterError } from "../errors";
+import { appClientSettings, newSecret, verifyAuthFlow } from "./appClient";
+
+describe("appClientSettings", () => {
+  it("leaves out settings which weren't given", () => {
+    expect(
+      appClientSettings({
+        AccessTokenValidity: 1,
+        ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+        IdTokenValidity: undefined,
+      })
+    ).toStrictEqual({
+      AccessTokenValidity: 1,
+      ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+    });
+  });
+});
+
+describe("newSecret", () => {
+  it("generates a secret", () => {
+    expect(newSecret()).toMatch(/^[a-z0-9]{51}$/);
+  });
+});
+
+describe("verifyAuthFlow", () => {
+  it("allows every flow if the client has no explicit auth flows", () => {
+    const appClient = TDB.appClient({ ExplicitAuthFlows: undefined });
+
+    expect(() => verifyAuthFlow(appClient, "USER_PASSWORD_AUTH")).not.toThrow();
+    expect(() =>
+      verifyAuthFlow(appClient, "ADMIN_USER_PASSWORD_AUTH")
+    ).not.toThrow();
+  });
+
+  it.each`
+    authFlow                      | explicitAuthFlow
+    ${"ADMIN_USER_PASSWORD_AUTH"} | ${"ALLOW_ADMIN_USER_PASSWORD_AUTH"}
+    ${"ADMIN_USER_PASSWORD_AUTH"} | ${"ADMIN_NO_SRP_AUTH"}
+    ${"CUSTOM_AUTH"}              | ${"ALLOW_CUSTOM_AUTH"}
+    ${"CUSTOM_AUTH"}              | ${"CUSTOM_AUTH_FLOW_ONLY"}
+    ${"REFRESH_TOKEN_AUTH"}       | ${"ALLOW_REFRESH_TOKEN_AUTH"}
+    ${"USER_PASSWORD_AUTH"}       | ${"ALLOW_USER_PASSWORD_AUTH"}
+    ${"USER_PASSWORD_AUTH"}       | ${"USER_PASSWORD_AUTH"}
+    ${"USER_SRP_AUTH"}            | ${"ALLOW_USER_SRP_AUTH"}
+  `(
+    "allows $authFlow if the client has $explicitAuthFlow",
+    ({ authFlow, explicitAuthFlow }) => {
+      const appClient = TDB.appClient({
+        ExplicitAuthFlows: [explicitAuthFlow],
+      });
+
+      expect(() => verifyAuthFlow(appClient, authFlow)).not.toThrow();
+    }
+  );
+
+  it.each(["USER_SRP_AUTH", "REFRESH_TOKEN_AUTH"])(
+    "allows %s if the client only has legacy explicit auth flows",
+    (authFlow) => {
+      const appClient = TDB.appClient({
+        ExplicitAuthFlows: ["USER_PASSWORD_AUTH"],
+      });
+
+      expect(() => verifyAuthFlow(appClient, authFlow)).not.toThrow();
+    }
+  );
+
+  it("throws if a client flow isn't enabled", () => {
+    const appClient = TDB.appClient({
+      ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+    });
+
+    expect(() => verifyAuthFlow(appClient, "USER_PASSWORD_AUTH")).toThrow(
+      new InvalidParameterError(
+        "USER_PASSWORD_AUTH flow not enabled for this client"
+      )
+    );
+    expect(() => verifyAuthFlow(appClient, "REFRESH_TOKEN_AUTH")).toThrow(
+      new InvalidParameterError(
+        "REFRESH_TOKEN_AUTH flow not enabled for this client"
+      )
+    );
+  });
+
+  it("throws if an admin flow isn't enabled", () => {
+    const appClient = TDB.appClient({
+      ExplicitAuthFlows: ["ALLOW_USER_PASSWORD_AUTH"],
+    });
+
+    expect(() => verifyAuthFlow(appClient, "ADMIN_USER_PASSWORD_AUTH")).toThrow(
+      new InvalidParameterError("Auth flow not enabled for this client")
+    );
+  });
+});
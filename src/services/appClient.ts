@@ -1,15 +1,133 @@
+import {
+  AuthFlowType,
+  ExplicitAuthFlowsType,
+  UserPoolClientType,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { randomBytes } from "crypto";
 import shortUUID from "short-uuid";
+import { InvalidParameterError } from "../errors";
 
-export interface AppClient {
+// just use the types from the sdk, but make the fields we always set required
+export type AppClient = UserPoolClientType & {
   UserPoolId: string;
   ClientName: string;
   ClientId: string;
   LastModifiedDate: Date;
   CreationDate: Date;
-  RefreshTokenValidity: number;
-  AllowedOAuthFlowsUserPoolClient: boolean;
-}
+};
+
+const SETTINGS = [
+  "AccessTokenValidity",
+  "AllowedOAuthFlows",
+  "AllowedOAuthFlowsUserPoolClient",
+  "AllowedOAuthScopes",
+  "AnalyticsConfiguration",
+  "CallbackURLs",
+  "DefaultRedirectURI",
+  "EnableTokenRevocation",
+  "ExplicitAuthFlows",
+  "IdTokenValidity",
+  "LogoutURLs",
+  "PreventUserExistenceErrors",
+  "ReadAttributes",
+  "RefreshTokenValidity",
+  "SupportedIdentityProviders",
+  "TokenValidityUnits",
+  "WriteAttributes",
+] as const;
+
+/**
+ * The parts of an app client which can be chosen when it's created or updated
+ */
+export type AppClientSettings = Pick<
+  UserPoolClientType,
+  typeof SETTINGS[number]
+>;
+
+/**
+ * The settings Cognito gives an app client when they aren't in a CreateUserPoolClient or UpdateUserPoolClient request
+ */
+export const APP_CLIENT_DEFAULTS: AppClientSettings = {
+  AllowedOAuthFlowsUserPoolClient: false,
+  RefreshTokenValidity: 30,
+};
+
+/**
+ * Picks the settings out of a CreateUserPoolClient or UpdateUserPoolClient request, leaving out any which weren't
+ * given so they don't replace the defaults.
+ */
+export const appClientSettings = (req: AppClientSettings): AppClientSettings =>
+  Object.fromEntries(
+    SETTINGS.filter((name) => req[name] !== undefined).map((name) => [
+      name,
+      req[name],
+    ])
+  );
+
+// the ExplicitAuthFlows which allow each AuthFlow, including the legacy names from before the ALLOW_ prefix
+const ENABLING_EXPLICIT_AUTH_FLOWS: Record<
+  string,
+  readonly ExplicitAuthFlowsType[]
+> = {
+  ADMIN_NO_SRP_AUTH: ["ALLOW_ADMIN_USER_PASSWORD_AUTH", "ADMIN_NO_SRP_AUTH"],
+  ADMIN_USER_PASSWORD_AUTH: [
+    "ALLOW_ADMIN_USER_PASSWORD_AUTH",
+    "ADMIN_NO_SRP_AUTH",
+  ],
+  CUSTOM_AUTH: ["ALLOW_CUSTOM_AUTH", "CUSTOM_AUTH_FLOW_ONLY"],
+  REFRESH_TOKEN: ["ALLOW_REFRESH_TOKEN_AUTH"],
+  REFRESH_TOKEN_AUTH: ["ALLOW_REFRESH_TOKEN_AUTH"],
+  USER_PASSWORD_AUTH: ["ALLOW_USER_PASSWORD_AUTH", "USER_PASSWORD_AUTH"],
+  USER_SRP_AUTH: ["ALLOW_USER_SRP_AUTH"],
+};
+
+/**
+ * Checks an app client is allowed to use an auth flow. Clients which were created without any ExplicitAuthFlows can
+ * use every flow, and clients which only use the legacy names can always use USER_SRP_AUTH and REFRESH_TOKEN_AUTH, as
+ * they could in Cognito before the ALLOW_ names were added.
+ *
+ * @throws InvalidParameterError if the flow isn't enabled for the client
+ */
+export const verifyAuthFlow = (
+  appClient: AppClient,
+  authFlow: AuthFlowType
+): void => {
+  const explicitAuthFlows = appClient.ExplicitAuthFlows ?? [];
+  const enablingFlows = ENABLING_EXPLICIT_AUTH_FLOWS[authFlow];
+  if (!explicitAuthFlows.length || !enablingFlows) {
+    return;
+  }
+
+  const legacy = explicitAuthFlows.every((flow) => !flow.startsWith("ALLOW_"));
+  if (
+    legacy &&
+    (authFlow === "USER_SRP_AUTH" ||
+      authFlow === "REFRESH_TOKEN" ||
+      authFlow === "REFRESH_TOKEN_AUTH")
+  ) {
+    return;
+  }
+
+  if (!enablingFlows.some((flow) => explicitAuthFlows.includes(flow))) {
+    throw new InvalidParameterError(
+      authFlow.startsWith("ADMIN_")
+        ? "Auth flow not enabled for this client"
+        : `${authFlow} flow not enabled for this client`
+    );
+  }
+};
 
 const generator = shortUUID("0123456789abcdefghijklmnopqrstuvwxyz");
 
 export const newId = generator.new;
+
+const SECRET_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyz";
+const SECRET_LENGTH = 51;
+
+/**
+ * Generates an app client secret which looks like one of Cognito's, 51 lowercase letters and digits
+ */
+export const newSecret = (): string =>
+  [...randomBytes(SECRET_LENGTH)]
+    .map((byte) => SECRET_ALPHABET[byte % SECRET_ALPHABET.length])
+    .join("");
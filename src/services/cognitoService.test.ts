@@ -1,3 +1,5 @@
+import fs from "fs";
+import { promisify } from "util";
 import { ClockFake } from "../__tests__/clockFake";
 import {
   newMockDataStore,
@@ -13,6 +15,10 @@ import {
 } from "./cognitoService";
 import { UserPoolService, UserPoolServiceFactory } from "./userPoolService";
 
+const mkdtemp = promisify(fs.mkdtemp);
+const rmdir = promisify(fs.rmdir);
+const writeFile = promisify(fs.writeFile);
+
 describe("CognitoServiceFactory", () => {
   it("creates a database for clients", async () => {
     const mockDataStoreFactory = newMockDataStoreFactory();
@@ -56,6 +62,7 @@ describe("Cognito Service", () => {
         "data-directory",
         clientsDataStore,
         new ClockFake(new Date()),
+        newMockDataStoreFactory(),
         { UsernameAttributes: [] },
         mockUserPoolServiceFactory
       );
@@ -82,6 +89,7 @@ describe("Cognito Service", () => {
         "data-directory",
         clientsDataStore,
         new ClockFake(new Date()),
+        newMockDataStoreFactory(),
         { UsernameAttributes: [] },
         mockUserPoolServiceFactory
       );
@@ -105,6 +113,7 @@ describe("Cognito Service", () => {
         "data-directory",
         clientsDataStore,
         new ClockFake(new Date()),
+        newMockDataStoreFactory(),
         { UsernameAttributes: [] },
         mockUserPoolServiceFactory
       );
@@ -126,4 +135,83 @@ describe("Cognito Service", () => {
       expect(userPool).toEqual(mockUserPool);
     });
   });
+
+  describe("deleteUserPool", () => {
+    it("deletes the user pool and its clients", async () => {
+      const clientsDataStore = newMockDataStore();
+      clientsDataStore.get.mockResolvedValue({
+        clientA: { ClientId: "clientA", UserPoolId: "testing" },
+        clientB: { ClientId: "clientB", UserPoolId: "other" },
+      });
+      const mockDataStoreFactory = newMockDataStoreFactory();
+
+      const cognitoClient = new CognitoServiceImpl(
+        "data-directory",
+        clientsDataStore,
+        new ClockFake(new Date()),
+        mockDataStoreFactory,
+        { UsernameAttributes: [] },
+        mockUserPoolServiceFactory
+      );
+
+      await cognitoClient.deleteUserPool(TestContext, { Id: "testing" });
+
+      expect(clientsDataStore.delete).toHaveBeenCalledTimes(1);
+      expect(clientsDataStore.delete).toHaveBeenCalledWith(TestContext, [
+        "Clients",
+        "clientA",
+      ]);
+      expect(mockDataStoreFactory.delete).toHaveBeenCalledWith(
+        TestContext,
+        "testing"
+      );
+    });
+  });
+
+  describe("userPoolExists", () => {
+    let dataDirectory: string;
+    let cognitoClient: CognitoServiceImpl;
+
+    beforeEach(async () => {
+      dataDirectory = await mkdtemp("/tmp/cognito-local:");
+      cognitoClient = new CognitoServiceImpl(
+        dataDirectory,
+        newMockDataStore(),
+        new ClockFake(new Date()),
+        newMockDataStoreFactory(),
+        { UsernameAttributes: [] },
+        mockUserPoolServiceFactory
+      );
+    });
+
+    afterEach(() =>
+      rmdir(dataDirectory, {
+        recursive: true,
+      })
+    );
+
+    it("returns true if the user pool has been created", async () => {
+      await writeFile(`${dataDirectory}/testing.json`, "{}");
+
+      expect(await cognitoClient.userPoolExists(TestContext, "testing")).toBe(
+        true
+      );
+      expect(mockUserPoolServiceFactory.create).not.toHaveBeenCalled();
+    });
+
+    it("returns false if the user pool hasn't been created", async () => {
+      expect(await cognitoClient.userPoolExists(TestContext, "testing")).toBe(
+        false
+      );
+      expect(mockUserPoolServiceFactory.create).not.toHaveBeenCalled();
+    });
+
+    it("doesn't count the clients database as a user pool", async () => {
+      await writeFile(`${dataDirectory}/clients.json`, "{}");
+
+      expect(await cognitoClient.userPoolExists(TestContext, "clients")).toBe(
+        false
+      );
+    });
+  });
 });
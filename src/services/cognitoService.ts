@@ -15,6 +15,7 @@ import fs from "fs";
 import { promisify } from "util";
 import { SchemaAttributesListType } from "aws-sdk/clients/cognitoidentityserviceprovider";
 
+const access = promisify(fs.access);
 const readdir = promisify(fs.readdir);
 
 const CLIENTS_DATABASE_NAME = "clients";
@@ -265,6 +266,7 @@ export const USER_POOL_AWS_DEFAULTS: UserPoolDefaults = {
 
 export interface CognitoService {
   createUserPool(ctx: Context, userPool: UserPool): Promise<UserPool>;
+  deleteUserPool(ctx: Context, userPool: UserPool): Promise<void>;
   getAppClient(ctx: Context, clientId: string): Promise<AppClient | null>;
   getUserPool(ctx: Context, userPoolId: string): Promise<UserPoolService>;
   getUserPoolForClientId(
@@ -272,6 +274,12 @@ export interface CognitoService {
     clientId: string
   ): Promise<UserPoolService>;
   listUserPools(ctx: Context): Promise<readonly UserPool[]>;
+
+  /**
+   * Whether a user pool has been created with the id. getUserPool creates any user pool it's asked for, so targets
+   * which shouldn't do that check this first.
+   */
+  userPoolExists(ctx: Context, userPoolId: string): Promise<boolean>;
 }
 
 export interface CognitoServiceFactory {
@@ -286,18 +294,21 @@ export class CognitoServiceImpl implements CognitoService {
   private readonly clock: Clock;
   private readonly userPoolServiceFactory: UserPoolServiceFactory;
   private readonly dataDirectory: string;
+  private readonly dataStoreFactory: DataStoreFactory;
   private readonly userPoolDefaultConfig: UserPoolDefaults;
 
   public constructor(
     dataDirectory: string,
     clients: DataStore,
     clock: Clock,
+    dataStoreFactory: DataStoreFactory,
     userPoolDefaultConfig: UserPoolDefaults,
     userPoolServiceFactory: UserPoolServiceFactory
   ) {
     this.clients = clients;
     this.clock = clock;
     this.dataDirectory = dataDirectory;
+    this.dataStoreFactory = dataStoreFactory;
     this.userPoolDefaultConfig = userPoolDefaultConfig;
     this.userPoolServiceFactory = userPoolServiceFactory;
   }
@@ -333,6 +344,27 @@ export class CognitoServiceImpl implements CognitoService {
     return service.config;
   }
 
+  public async deleteUserPool(ctx: Context, userPool: UserPool): Promise<void> {
+    ctx.logger.debug(
+      { userPoolId: userPool.Id },
+      "CognitoServiceImpl.deleteUserPool"
+    );
+
+    // clients live in their own database, so they have to be removed separately from the user pool's
+    const clients = await this.clients.get<Record<string, AppClient>>(
+      ctx,
+      "Clients",
+      {}
+    );
+    for (const appClient of Object.values(clients)) {
+      if (appClient.UserPoolId === userPool.Id) {
+        await this.clients.delete(ctx, ["Clients", appClient.ClientId]);
+      }
+    }
+
+    await this.dataStoreFactory.delete(ctx, userPool.Id);
+  }
+
   public async getUserPool(
     ctx: Context,
     userPoolId: string
@@ -393,6 +425,26 @@ export class CognitoServiceImpl implements CognitoService {
         })
     );
   }
+
+  public async userPoolExists(
+    ctx: Context,
+    userPoolId: string
+  ): Promise<boolean> {
+    ctx.logger.debug({ userPoolId }, "CognitoServiceImpl.userPoolExists");
+    if (userPoolId === CLIENTS_DATABASE_NAME) {
+      return false;
+    }
+
+    try {
+      await access(path.join(this.dataDirectory, `${userPoolId}.json`));
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw err;
+      }
+      return false;
+    }
+  }
 }
 
 export class CognitoServiceFactoryImpl implements CognitoServiceFactory {
@@ -427,6 +479,7 @@ export class CognitoServiceFactoryImpl implements CognitoServiceFactory {
       this.dataDirectory,
       clients,
       this.clock,
+      this.dataStoreFactory,
       userPoolDefaultConfig,
       this.userPoolServiceFactory
     );
@@ -1,6 +1,7 @@
 import { DataStore } from "./dataStore";
 
 export type DataStoreCache = {
+  delete(key: string): void;
   get(key: string): DataStore | null;
   set(key: string, value: DataStore): void;
 };
@@ -8,6 +9,10 @@ export type DataStoreCache = {
 export class InMemoryCache implements DataStoreCache {
   private readonly cache: Record<string, DataStore> = {};
 
+  delete(key: string): void {
+    delete this.cache[key];
+  }
+
   get(key: string): DataStore | null {
     return this.cache[key];
   }
@@ -18,6 +23,10 @@ export class InMemoryCache implements DataStoreCache {
 }
 
 export class NoOpCache implements DataStoreCache {
+  delete(): void {
+    // nothing is cached, so there's nothing to remove
+  }
+
   get(): DataStore | null {
     return null;
   }
@@ -3,4 +3,9 @@ import { DataStore } from "./dataStore";
 
 export interface DataStoreFactory {
   create(ctx: Context, id: string, defaults: object): Promise<DataStore>;
+
+  /**
+   * Deletes everything stored for the id, so the next create starts over from its defaults
+   */
+  delete(ctx: Context, id: string): Promise<void>;
 }
@@ -48,6 +48,7 @@ export class StormDBDataStore implements DataStore {
 }
 
 const mkdir = promisify(fs.mkdir);
+const unlink = promisify(fs.unlink);
 
 const replaceDatesWithISOStrings: (
   this: Record<string, unknown>,
@@ -134,4 +135,17 @@ export class StormDBDataStoreFactory implements DataStoreFactory {
 
     return dataStore;
   }
+
+  public async delete(ctx: Context, id: string): Promise<void> {
+    ctx.logger.debug({ id }, "deleteDataStore");
+
+    this.cache.delete(id);
+    try {
+      await unlink(`${this.directory}/${id}.json`);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw err;
+      }
+    }
+  }
 }
@@ -1,7 +1,9 @@
 import { Config } from "../server/config";
 import { Clock } from "./clock";
 import { Messages } from "./messages";
+import { Passwords } from "./passwords";
 import { TokenGenerator } from "./tokenGenerator";
+import { TokenVerifier } from "./tokenVerifier";
 import { Triggers } from "./triggers";
 import { CognitoService } from "./cognitoService";
 
@@ -11,6 +13,7 @@ export { UserPoolService, UserPoolServiceImpl } from "./userPoolService";
 export { Triggers, TriggersService } from "./triggers";
 export { Lambda, LambdaService } from "./lambda";
 export { Messages, MessagesService } from "./messages";
+export { Passwords, PasswordsService } from "./passwords";
 
 export interface Services {
   clock: Clock;
@@ -18,6 +21,8 @@ export interface Services {
   config: Config;
   messages: Messages;
   otp: () => string;
+  passwords: Passwords;
   tokenGenerator: TokenGenerator;
+  tokenVerifier: TokenVerifier;
   triggers: Triggers;
 }
@@ -443,6 +443,11 @@ describe("Lambda function invoker", () => {
           clientMetadata: {
             client: "metadata",
           },
+          groupConfiguration: {
+            groupsToOverride: ["group1", "group2"],
+            iamRolesToOverride: ["role1"],
+            preferredRole: "role1",
+          },
         });
 
         expect(mockLambdaClient.invoke).toHaveBeenCalledWith({
@@ -461,7 +466,11 @@ describe("Lambda function invoker", () => {
               clientMetadata: {
                 client: "metadata",
               },
-              groupConfiguration: {},
+              groupConfiguration: {
+                groupsToOverride: ["group1", "group2"],
+                iamRolesToOverride: ["role1"],
+                preferredRole: "role1",
+              },
             },
             response: { claimsOverrideDetails: {} },
             userName: "username",
@@ -534,5 +543,197 @@ describe("Lambda function invoker", () => {
         });
       });
     });
+
+    describe("DefineAuthChallenge_Authentication", () => {
+      it("invokes the lambda with the session", async () => {
+        const response = Promise.resolve({
+          StatusCode: 200,
+          Payload: '{ "some": "json" }',
+        });
+        mockLambdaClient.invoke.mockReturnValue({
+          promise: () => response,
+        } as any);
+        const lambda = new LambdaService(
+          {
+            DefineAuthChallenge: "MyLambdaName",
+          },
+          mockLambdaClient
+        );
+
+        await lambda.invoke(TestContext, "DefineAuthChallenge", {
+          clientId: "clientId",
+          clientMetadata: {
+            client: "metadata",
+          },
+          session: [
+            {
+              challengeName: "SRP_A",
+              challengeResult: true,
+              challengeMetadata: undefined,
+            },
+            {
+              challengeName: "CUSTOM_CHALLENGE",
+              challengeResult: false,
+              challengeMetadata: "metadata",
+            },
+          ],
+          triggerSource: "DefineAuthChallenge_Authentication",
+          userAttributes: {},
+          username: "username",
+          userPoolId: "userPoolId",
+        });
+
+        expect(mockLambdaClient.invoke).toHaveBeenCalledWith({
+          FunctionName: "MyLambdaName",
+          InvocationType: "RequestResponse",
+          Payload: expect.jsonMatching({
+            version: "0",
+            callerContext: { awsSdkVersion: version, clientId: "clientId" },
+            region: "local",
+            userPoolId: "userPoolId",
+            triggerSource: "DefineAuthChallenge_Authentication",
+            userName: "username",
+            request: {
+              userAttributes: {},
+              session: [
+                {
+                  challengeName: "SRP_A",
+                  challengeResult: true,
+                },
+                {
+                  challengeName: "CUSTOM_CHALLENGE",
+                  challengeResult: false,
+                  challengeMetadata: "metadata",
+                },
+              ],
+              clientMetadata: {
+                client: "metadata",
+              },
+            },
+            response: {
+              challengeName: "",
+              failAuthentication: false,
+              issueTokens: false,
+            },
+          }),
+        });
+      });
+    });
+
+    describe("CreateAuthChallenge_Authentication", () => {
+      it("invokes the lambda with the challenge name and session", async () => {
+        const response = Promise.resolve({
+          StatusCode: 200,
+          Payload: '{ "some": "json" }',
+        });
+        mockLambdaClient.invoke.mockReturnValue({
+          promise: () => response,
+        } as any);
+        const lambda = new LambdaService(
+          {
+            CreateAuthChallenge: "MyLambdaName",
+          },
+          mockLambdaClient
+        );
+
+        await lambda.invoke(TestContext, "CreateAuthChallenge", {
+          challengeName: "CUSTOM_CHALLENGE",
+          clientId: "clientId",
+          clientMetadata: {
+            client: "metadata",
+          },
+          session: [],
+          triggerSource: "CreateAuthChallenge_Authentication",
+          userAttributes: {},
+          username: "username",
+          userPoolId: "userPoolId",
+        });
+
+        expect(mockLambdaClient.invoke).toHaveBeenCalledWith({
+          FunctionName: "MyLambdaName",
+          InvocationType: "RequestResponse",
+          Payload: expect.jsonMatching({
+            version: "0",
+            callerContext: { awsSdkVersion: version, clientId: "clientId" },
+            region: "local",
+            userPoolId: "userPoolId",
+            triggerSource: "CreateAuthChallenge_Authentication",
+            userName: "username",
+            request: {
+              userAttributes: {},
+              challengeName: "CUSTOM_CHALLENGE",
+              session: [],
+              clientMetadata: {
+                client: "metadata",
+              },
+            },
+            response: {
+              publicChallengeParameters: {},
+              privateChallengeParameters: {},
+              challengeMetadata: "",
+            },
+          }),
+        });
+      });
+    });
+
+    describe("VerifyAuthChallengeResponse_Authentication", () => {
+      it("invokes the lambda with the answer", async () => {
+        const response = Promise.resolve({
+          StatusCode: 200,
+          Payload: '{ "some": "json" }',
+        });
+        mockLambdaClient.invoke.mockReturnValue({
+          promise: () => response,
+        } as any);
+        const lambda = new LambdaService(
+          {
+            VerifyAuthChallengeResponse: "MyLambdaName",
+          },
+          mockLambdaClient
+        );
+
+        await lambda.invoke(TestContext, "VerifyAuthChallengeResponse", {
+          challengeAnswer: "answer",
+          clientId: "clientId",
+          clientMetadata: {
+            client: "metadata",
+          },
+          privateChallengeParameters: {
+            private: "parameter",
+          },
+          triggerSource: "VerifyAuthChallengeResponse_Authentication",
+          userAttributes: {},
+          username: "username",
+          userPoolId: "userPoolId",
+        });
+
+        expect(mockLambdaClient.invoke).toHaveBeenCalledWith({
+          FunctionName: "MyLambdaName",
+          InvocationType: "RequestResponse",
+          Payload: expect.jsonMatching({
+            version: "0",
+            callerContext: { awsSdkVersion: version, clientId: "clientId" },
+            region: "local",
+            userPoolId: "userPoolId",
+            triggerSource: "VerifyAuthChallengeResponse_Authentication",
+            userName: "username",
+            request: {
+              userAttributes: {},
+              privateChallengeParameters: {
+                private: "parameter",
+              },
+              challengeAnswer: "answer",
+              clientMetadata: {
+                client: "metadata",
+              },
+            },
+            response: {
+              answerCorrect: false,
+            },
+          }),
+        });
+      });
+    });
   });
 });
@@ -41,6 +41,32 @@ interface EventCommonParameters {
   userPoolId: string;
 }
 
+interface ChallengeResultEvent {
+  challengeName: "CUSTOM_CHALLENGE" | "PASSWORD_VERIFIER" | "SRP_A";
+  challengeResult: boolean;
+  challengeMetadata: string | undefined;
+}
+
+interface DefineAuthChallengeEvent extends EventCommonParameters {
+  clientMetadata: Record<string, string> | undefined;
+  session: readonly ChallengeResultEvent[];
+  triggerSource: "DefineAuthChallenge_Authentication";
+}
+
+interface CreateAuthChallengeEvent extends EventCommonParameters {
+  challengeName: string;
+  clientMetadata: Record<string, string> | undefined;
+  session: readonly ChallengeResultEvent[];
+  triggerSource: "CreateAuthChallenge_Authentication";
+}
+
+interface VerifyAuthChallengeResponseEvent extends EventCommonParameters {
+  challengeAnswer: string;
+  clientMetadata: Record<string, string> | undefined;
+  privateChallengeParameters: Record<string, string>;
+  triggerSource: "VerifyAuthChallengeResponse_Authentication";
+}
+
 interface CustomMessageEvent extends Omit<EventCommonParameters, "clientId"> {
   clientId: string | null;
   clientMetadata: Record<string, string> | undefined;
@@ -63,7 +89,8 @@ interface UserMigrationEvent extends EventCommonParameters {
   validationData: Record<string, string> | undefined;
 }
 
-interface PreSignUpEvent extends EventCommonParameters {
+interface PreSignUpEvent extends Omit<EventCommonParameters, "clientId"> {
+  clientId: string | null;
   clientMetadata: Record<string, string> | undefined;
   triggerSource:
     | "PreSignUp_AdminCreateUser"
@@ -123,17 +150,33 @@ interface PostConfirmationEvent
   clientId: string | null;
 }
 
+const toChallengeResult = ({
+  challengeName,
+  challengeResult,
+  challengeMetadata,
+}: ChallengeResultEvent): DefineAuthChallengeTriggerEvent["request"]["session"][number] =>
+  challengeName === "CUSTOM_CHALLENGE"
+    ? { challengeName, challengeResult, challengeMetadata }
+    : { challengeName, challengeResult };
+
 export interface FunctionConfig {
+  CreateAuthChallenge?: string;
   CustomMessage?: string;
+  DefineAuthChallenge?: string;
   PostAuthentication?: string;
   PostConfirmation?: string;
   PreSignUp?: string;
   PreTokenGeneration?: string;
   UserMigration?: string;
+  VerifyAuthChallengeResponse?: string;
 }
 
+export type CreateAuthChallengeTriggerResponse =
+  CreateAuthChallengeTriggerEvent["response"];
 export type CustomMessageTriggerResponse =
   CustomMessageTriggerEvent["response"];
+export type DefineAuthChallengeTriggerResponse =
+  DefineAuthChallengeTriggerEvent["response"];
 export type UserMigrationTriggerResponse =
   UserMigrationTriggerEvent["response"];
 export type PreSignUpTriggerResponse = PreSignUpTriggerEvent["response"];
@@ -143,9 +186,26 @@ export type PostAuthenticationTriggerResponse =
   PostAuthenticationTriggerEvent["response"];
 export type PostConfirmationTriggerResponse =
   PostConfirmationTriggerEvent["response"];
+export type VerifyAuthChallengeResponseTriggerResponse =
+  VerifyAuthChallengeResponseTriggerEvent["response"];
 
 export interface Lambda {
   enabled(lambda: keyof FunctionConfig): boolean;
+  invoke(
+    ctx: Context,
+    lambda: "DefineAuthChallenge",
+    event: DefineAuthChallengeEvent
+  ): Promise<DefineAuthChallengeTriggerResponse>;
+  invoke(
+    ctx: Context,
+    lambda: "CreateAuthChallenge",
+    event: CreateAuthChallengeEvent
+  ): Promise<CreateAuthChallengeTriggerResponse>;
+  invoke(
+    ctx: Context,
+    lambda: "VerifyAuthChallengeResponse",
+    event: VerifyAuthChallengeResponseEvent
+  ): Promise<VerifyAuthChallengeResponseTriggerResponse>;
   invoke(
     ctx: Context,
     lambda: "CustomMessage",
@@ -195,12 +255,15 @@ export class LambdaService implements Lambda {
     ctx: Context,
     trigger: keyof FunctionConfig,
     event:
+      | CreateAuthChallengeEvent
       | CustomMessageEvent
+      | DefineAuthChallengeEvent
       | PostAuthenticationEvent
       | PostConfirmationEvent
       | PreSignUpEvent
       | PreTokenGenerationEvent
       | UserMigrationEvent
+      | VerifyAuthChallengeResponseEvent
   ) {
     const functionName = this.config[trigger];
     if (!functionName) {
@@ -250,12 +313,15 @@ export class LambdaService implements Lambda {
 
   private createLambdaEvent(
     event:
+      | CreateAuthChallengeEvent
       | CustomMessageEvent
+      | DefineAuthChallengeEvent
       | PostAuthenticationEvent
       | PostConfirmationEvent
       | PreSignUpEvent
       | PreTokenGenerationEvent
       | UserMigrationEvent
+      | VerifyAuthChallengeResponseEvent
   ): CognitoUserPoolEvent {
     const version = "0"; // TODO: how do we know what this is?
     const callerContext = {
@@ -267,6 +333,69 @@ export class LambdaService implements Lambda {
     const region = "local"; // TODO: pull from above,
 
     switch (event.triggerSource) {
+      case "DefineAuthChallenge_Authentication": {
+        return {
+          version,
+          callerContext,
+          region,
+          userPoolId: event.userPoolId,
+          triggerSource: event.triggerSource,
+          userName: event.username,
+          request: {
+            userAttributes: event.userAttributes,
+            session: event.session.map(toChallengeResult),
+            clientMetadata: event.clientMetadata,
+          },
+          response: {
+            challengeName: "",
+            failAuthentication: false,
+            issueTokens: false,
+          },
+        };
+      }
+
+      case "CreateAuthChallenge_Authentication": {
+        return {
+          version,
+          callerContext,
+          region,
+          userPoolId: event.userPoolId,
+          triggerSource: event.triggerSource,
+          userName: event.username,
+          request: {
+            userAttributes: event.userAttributes,
+            challengeName: event.challengeName,
+            session: event.session.map(toChallengeResult),
+            clientMetadata: event.clientMetadata,
+          },
+          response: {
+            publicChallengeParameters: {},
+            privateChallengeParameters: {},
+            challengeMetadata: "",
+          },
+        };
+      }
+
+      case "VerifyAuthChallengeResponse_Authentication": {
+        return {
+          version,
+          callerContext,
+          region,
+          userPoolId: event.userPoolId,
+          triggerSource: event.triggerSource,
+          userName: event.username,
+          request: {
+            userAttributes: event.userAttributes,
+            privateChallengeParameters: event.privateChallengeParameters,
+            challengeAnswer: event.challengeAnswer,
+            clientMetadata: event.clientMetadata,
+          },
+          response: {
+            answerCorrect: false,
+          },
+        };
+      }
+
       case "PostAuthentication_Authentication": {
         return {
           version,
@@ -329,6 +458,9 @@ export class LambdaService implements Lambda {
       case "TokenGeneration_HostedAuth":
       case "TokenGeneration_NewPasswordChallenge":
       case "TokenGeneration_RefreshTokens": {
+        const { groupsToOverride, iamRolesToOverride, preferredRole } =
+          event.groupConfiguration;
+
         return {
           version,
           callerContext,
@@ -338,7 +470,11 @@ export class LambdaService implements Lambda {
           userName: event.username,
           request: {
             userAttributes: event.userAttributes,
-            groupConfiguration: {},
+            groupConfiguration: {
+              groupsToOverride: groupsToOverride && [...groupsToOverride],
+              iamRolesToOverride: iamRolesToOverride && [...iamRolesToOverride],
+              preferredRole,
+            },
             clientMetadata: event.clientMetadata,
           },
           response: {
@@ -0,0 +1,129 @@
+import { InvalidParameterError } from "../errors";
+import { paginate } from "./pagination";
+
+describe("paginate", () => {
+  const items = ["d", "b", "e", "a", "c"];
+  const key = (x: string) => x;
+  const request = {
+    scope: "ListThings:pool",
+    limitParameterName: "limit",
+  };
+
+  it("returns all items ordered by key when they fit in one page", () => {
+    const page = paginate(items, key, {
+      ...request,
+      limit: undefined,
+      token: undefined,
+    });
+
+    expect(page).toEqual({
+      items: ["a", "b", "c", "d", "e"],
+      nextToken: undefined,
+    });
+  });
+
+  it("paginates through the items with the next token", () => {
+    const page1 = paginate(items, key, {
+      ...request,
+      limit: 2,
+      token: undefined,
+    });
+    expect(page1.items).toEqual(["a", "b"]);
+    expect(page1.nextToken).toBeDefined();
+
+    const page2 = paginate(items, key, {
+      ...request,
+      limit: 2,
+      token: page1.nextToken,
+    });
+    expect(page2.items).toEqual(["c", "d"]);
+    expect(page2.nextToken).toBeDefined();
+
+    const page3 = paginate(items, key, {
+      ...request,
+      limit: 2,
+      token: page2.nextToken,
+    });
+    expect(page3).toEqual({ items: ["e"], nextToken: undefined });
+  });
+
+  it("continues after the last item returned if items change between pages", () => {
+    const page1 = paginate(items, key, {
+      ...request,
+      limit: 2,
+      token: undefined,
+    });
+
+    const page2 = paginate(["a", "aa", "c", "d"], key, {
+      ...request,
+      limit: 2,
+      token: page1.nextToken,
+    });
+    expect(page2).toEqual({ items: ["c", "d"], nextToken: undefined });
+  });
+
+  it("only uses URL safe characters in tokens", () => {
+    const { nextToken } = paginate(
+      // enough long keys that the base64 encoding includes + and /
+      Array.from({ length: 70 }, (_, i) => `???>>>${i}`),
+      (x) => x,
+      { ...request, limit: 1, token: undefined }
+    );
+
+    expect(nextToken).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+  });
+
+  it("throws if the token has been tampered with", () => {
+    const { nextToken } = paginate(items, key, {
+      ...request,
+      limit: 2,
+      token: undefined,
+    });
+    const [, signature] = (nextToken as string).split(".");
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ scope: request.scope, lastKey: "c" })
+    )
+      .toString("base64")
+      .replace(/=+$/, "");
+
+    expect(() =>
+      paginate(items, key, {
+        ...request,
+        limit: 2,
+        token: `${forgedPayload}.${signature}`,
+      })
+    ).toThrow(new InvalidParameterError("Invalid pagination token"));
+  });
+
+  it.each(["garbage", ".", "abc.", "a.b.c"])(
+    "throws if the token is malformed: %p",
+    (token) => {
+      expect(() =>
+        paginate(items, key, {
+          ...request,
+          limit: 2,
+          token,
+        })
+      ).toThrow(new InvalidParameterError("Invalid pagination token"));
+    }
+  );
+
+  it("throws if the token was issued for a different list", () => {
+    const { nextToken } = paginate(items, key, {
+      ...request,
+      scope: "ListThings:otherPool",
+      limit: 2,
+      token: undefined,
+    });
+
+    expect(() =>
+      paginate(items, key, { ...request, limit: 2, token: nextToken })
+    ).toThrow(new InvalidParameterError("Invalid pagination token"));
+  });
+
+  it.each([0, 61])("throws if the limit is %d", (limit) => {
+    expect(() =>
+      paginate(items, key, { ...request, limit, token: undefined })
+    ).toThrow(InvalidParameterError);
+  });
+});
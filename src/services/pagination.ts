@@ -0,0 +1,113 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { InvalidParameterError } from "../errors";
+
+// pagination tokens are signed so we can detect tokens which have been modified
+// by the client, they aren't encrypted and aren't intended to be secret
+const TOKEN_SIGNING_KEY = "CognitoLocalPaginationToken";
+
+export const MAX_PAGE_SIZE = 60;
+
+interface TokenPayload {
+  scope: string;
+  lastKey: string;
+}
+
+export interface PageRequest {
+  /**
+   * Identifies the list being paginated, so a token from one list can't be used
+   * to paginate another, e.g. "ListUsers:<UserPoolId>"
+   */
+  scope: string;
+  /**
+   * The name of the request parameter holding the limit, used in errors
+   */
+  limitParameterName: string;
+  limit: number | undefined;
+  token: string | undefined;
+}
+
+export interface Page<T> {
+  items: readonly T[];
+  nextToken?: string;
+}
+
+// Node only has a base64url encoding from 14.18/15.7, so base64 is made URL safe by hand for older versions
+const toBase64Url = (data: Buffer): string =>
+  data
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (encoded: string): Buffer =>
+  Buffer.from(encoded.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+
+const sign = (payload: string) =>
+  toBase64Url(createHmac("sha256", TOKEN_SIGNING_KEY).update(payload).digest());
+
+const encodeToken = (payload: TokenPayload): string => {
+  const encoded = toBase64Url(Buffer.from(JSON.stringify(payload)));
+  return `${encoded}.${sign(encoded)}`;
+};
+
+const decodeToken = (token: string, scope: string): TokenPayload => {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length) {
+    throw new InvalidParameterError("Invalid pagination token");
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidParameterError("Invalid pagination token");
+  }
+
+  const payload = JSON.parse(fromBase64Url(encoded).toString()) as TokenPayload;
+  if (payload.scope !== scope) {
+    throw new InvalidParameterError("Invalid pagination token");
+  }
+
+  return payload;
+};
+
+const validateLimit = (limit: number, parameterName: string) => {
+  if (limit < 1) {
+    throw new InvalidParameterError(
+      `1 validation error detected: Value '${limit}' at '${parameterName}' failed to satisfy constraint: Member must have value greater than or equal to 1`
+    );
+  } else if (limit > MAX_PAGE_SIZE) {
+    throw new InvalidParameterError(
+      `1 validation error detected: Value '${limit}' at '${parameterName}' failed to satisfy constraint: Member must have value less than or equal to ${MAX_PAGE_SIZE}`
+    );
+  }
+};
+
+/**
+ * Returns a single page of items, ordered by their key. Tokens record the key of
+ * the last item returned rather than an offset, so pages stay stable if items
+ * are added or removed between requests.
+ *
+ * @throws InvalidParameterError if the limit is out of range or the token is
+ *         invalid
+ */
+export const paginate = <T>(
+  items: readonly T[],
+  key: (item: T) => string,
+  { scope, limitParameterName, limit = MAX_PAGE_SIZE, token }: PageRequest
+): Page<T> => {
+  validateLimit(limit, limitParameterName);
+  const lastKey = token ? decodeToken(token, scope).lastKey : undefined;
+
+  const sorted = [...items]
+    .sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0))
+    .filter((item) => lastKey === undefined || key(item) > lastKey);
+  const page = sorted.slice(0, limit);
+
+  return {
+    items: page,
+    nextToken:
+      sorted.length > limit
+        ? encodeToken({ scope, lastKey: key(page[page.length - 1]) })
+        : undefined,
+  };
+};
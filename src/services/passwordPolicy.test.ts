@@ -0,0 +1,54 @@
+import { PasswordPolicyType } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { InvalidPasswordError } from "../errors";
+import { validatePassword } from "./passwordPolicy";
+
+describe("validatePassword", () => {
+  const policy: PasswordPolicyType = {
+    MinimumLength: 8,
+    RequireUppercase: true,
+    RequireLowercase: true,
+    RequireNumbers: true,
+    RequireSymbols: true,
+  };
+
+  it("accepts a password which satisfies the policy", () => {
+    expect(() => validatePassword(policy, "Password1!")).not.toThrow();
+  });
+
+  it("accepts any password if the user pool has no policy", () => {
+    expect(() => validatePassword(undefined, "a")).not.toThrow();
+  });
+
+  it("accepts a space as a symbol", () => {
+    expect(() => validatePassword(policy, "Pass word1")).not.toThrow();
+  });
+
+  it.each([
+    ["Pass1!", "Password not long enough"],
+    ["password1!", "Password must have uppercase characters"],
+    ["PASSWORD1!", "Password must have lowercase characters"],
+    ["Password!", "Password must have numeric characters"],
+    ["Password1", "Password must have symbol characters"],
+  ])("rejects %s", (password, reason) => {
+    expect(() => validatePassword(policy, password)).toThrow(
+      new InvalidPasswordError(
+        `Password did not conform with policy: ${reason}`
+      )
+    );
+  });
+
+  it("only enforces the rules the policy requires", () => {
+    expect(() =>
+      validatePassword(
+        {
+          MinimumLength: 6,
+          RequireUppercase: false,
+          RequireLowercase: true,
+          RequireNumbers: false,
+          RequireSymbols: false,
+        },
+        "password"
+      )
+    ).not.toThrow();
+  });
+});
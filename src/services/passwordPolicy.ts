@@ -0,0 +1,41 @@
+import { PasswordPolicyType } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { InvalidPasswordError } from "../errors";
+
+// the special characters Cognito counts as symbols, including the space character
+// See: https://docs.aws.amazon.com/cognito/latest/developerguide/user-pool-settings-policies.html
+const SYMBOLS = "^$*.[]{}()?\"!@#%&/\\,><':;|_~`=+- ";
+
+const invalidPassword = (reason: string) =>
+  new InvalidPasswordError(`Password did not conform with policy: ${reason}`);
+
+/**
+ * Checks a password a user has chosen against their user pool's password policy, throwing an InvalidPasswordError
+ * with the message Cognito gives for the first rule it breaks.
+ */
+export const validatePassword = (
+  policy: PasswordPolicyType | undefined,
+  password: string
+): void => {
+  if (!policy) {
+    return;
+  }
+
+  if (password.length < (policy.MinimumLength ?? 0)) {
+    throw invalidPassword("Password not long enough");
+  }
+  if (policy.RequireUppercase && !/[A-Z]/.test(password)) {
+    throw invalidPassword("Password must have uppercase characters");
+  }
+  if (policy.RequireLowercase && !/[a-z]/.test(password)) {
+    throw invalidPassword("Password must have lowercase characters");
+  }
+  if (policy.RequireNumbers && !/[0-9]/.test(password)) {
+    throw invalidPassword("Password must have numeric characters");
+  }
+  if (
+    policy.RequireSymbols &&
+    ![...password].some((c) => SYMBOLS.includes(c))
+  ) {
+    throw invalidPassword("Password must have symbol characters");
+  }
+};
@@ -0,0 +1,368 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { NotAuthorizedError } from "../errors";
+import { PasswordsService } from "./passwords";
+import { User, UserPoolService } from "./userPoolService";
+
+describe("PasswordsService", () => {
+  let clock: ClockFake;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let passwords: PasswordsService;
+
+  beforeEach(() => {
+    clock = new ClockFake(new Date());
+    mockUserPoolService = newMockUserPoolService();
+    passwords = new PasswordsService(clock, { HashAlgorithm: "scrypt" });
+  });
+
+  const hash = async (
+    service: PasswordsService,
+    password: string
+  ): Promise<string> =>
+    (await service.credentials("test", "username", password)).Password;
+
+  describe("credentials", () => {
+    it("hashes a password with a random salt", async () => {
+      const first = await hash(passwords, "Password1!");
+      const second = await hash(passwords, "Password1!");
+
+      expect(first).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+      expect(first).not.toContain("Password1!");
+      expect(second).not.toEqual(first);
+    });
+
+    it("creates an SRP verifier for the same password", async () => {
+      const credentials = await passwords.credentials(
+        "test",
+        "username",
+        "Password1!"
+      );
+
+      expect(credentials.SrpVerifier).toEqual({
+        salt: expect.stringMatching(/^[0-9a-f]+$/),
+        verifier: expect.stringMatching(/^[0-9a-f]+$/),
+      });
+    });
+
+    it("hashes with the configured algorithm", async () => {
+      passwords = new PasswordsService(clock, { HashAlgorithm: "pbkdf2" });
+
+      expect(await hash(passwords, "Password1!")).toMatch(
+        /^pbkdf2\$[0-9a-f]{32}\$[0-9a-f]{128}$/
+      );
+    });
+
+    it("defaults to scrypt", async () => {
+      passwords = new PasswordsService(clock, {});
+
+      expect(await hash(passwords, "Password1!")).toMatch(/^scrypt\$/);
+    });
+  });
+
+  describe("verify", () => {
+    it("returns the user if the password matches its hash", async () => {
+      const user = TDB.user({ Password: await hash(passwords, "Password1!") });
+
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        user,
+        "Password1!"
+      );
+
+      expect(verified).toEqual(user);
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+    });
+
+    it("returns null if the password doesn't match its hash", async () => {
+      const user = TDB.user({ Password: await hash(passwords, "Password1!") });
+
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        user,
+        "Password2!"
+      );
+
+      expect(verified).toBeNull();
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+        ...user,
+        FailedPasswordAttempts: 1,
+      });
+    });
+
+    it("returns null if the password doesn't match a plaintext password", async () => {
+      const user = TDB.user({ Password: "Password1!" });
+
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        user,
+        "Password2!"
+      );
+
+      expect(verified).toBeNull();
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+        ...user,
+        FailedPasswordAttempts: 1,
+      });
+    });
+
+    it("hashes a plaintext password once it's verified", async () => {
+      const user = TDB.user({ Password: "Password1!" });
+
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        user,
+        "Password1!"
+      );
+
+      expect(verified).toEqual({
+        ...user,
+        Password: expect.stringMatching(/^scrypt\$/),
+        SrpVerifier: expect.any(Object),
+      });
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        verified
+      );
+
+      // the new hash can be verified
+      await expect(
+        passwords.verify(
+          TestContext,
+          mockUserPoolService,
+          verified!,
+          "Password1!"
+        )
+      ).resolves.toEqual(verified);
+    });
+
+    it("keeps the user's existing SRP verifier when rehashing", async () => {
+      const srpVerifier = { salt: "salt", verifier: "verifier" };
+      const user = TDB.user({
+        Password: "Password1!",
+        SrpVerifier: srpVerifier,
+      });
+
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        user,
+        "Password1!"
+      );
+
+      expect(verified?.SrpVerifier).toEqual(srpVerifier);
+    });
+
+    it("rehashes a password hashed with another algorithm once it's verified", async () => {
+      const pbkdf2Passwords = new PasswordsService(clock, {
+        HashAlgorithm: "pbkdf2",
+      });
+      const user = TDB.user({
+        Password: await hash(pbkdf2Passwords, "Password1!"),
+      });
+
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        user,
+        "Password1!"
+      );
+
+      expect(verified?.Password).toMatch(/^scrypt\$/);
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        verified
+      );
+    });
+  });
+
+  describe("lockout", () => {
+    let user: User;
+
+    beforeEach(async () => {
+      user = TDB.user({ Password: await hash(passwords, "Password1!") });
+    });
+
+    it("locks the user out for a second after their fifth failed attempt", async () => {
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        { ...user, FailedPasswordAttempts: 4 },
+        "Password2!"
+      );
+
+      expect(verified).toBeNull();
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+        ...user,
+        FailedPasswordAttempts: 5,
+        LockedOutUntilDate: new Date(clock.get().getTime() + 1000),
+      });
+    });
+
+    it("doubles the lockout with each further failed attempt", async () => {
+      await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        { ...user, FailedPasswordAttempts: 7 },
+        "Password2!"
+      );
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({
+          FailedPasswordAttempts: 8,
+          LockedOutUntilDate: new Date(clock.get().getTime() + 8000),
+        })
+      );
+    });
+
+    it("locks the user out for at most fifteen minutes", async () => {
+      await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        { ...user, FailedPasswordAttempts: 100 },
+        "Password2!"
+      );
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({
+          LockedOutUntilDate: new Date(clock.get().getTime() + 15 * 60 * 1000),
+        })
+      );
+    });
+
+    it("throws while the user is locked out, even with the right password", async () => {
+      const lockedOutUser = {
+        ...user,
+        FailedPasswordAttempts: 5,
+        LockedOutUntilDate: new Date(clock.get().getTime() + 1000),
+      };
+
+      await expect(
+        passwords.verify(
+          TestContext,
+          mockUserPoolService,
+          lockedOutUser,
+          "Password1!"
+        )
+      ).rejects.toEqual(new NotAuthorizedError("Password attempts exceeded"));
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+    });
+
+    it("resets the failed attempts once the user gets their password right after the lockout", async () => {
+      const lockedOutUser = {
+        ...user,
+        FailedPasswordAttempts: 5,
+        LockedOutUntilDate: new Date(clock.get().getTime() + 1000),
+      };
+
+      clock.advanceBy(1000);
+
+      const verified = await passwords.verify(
+        TestContext,
+        mockUserPoolService,
+        lockedOutUser,
+        "Password1!"
+      );
+
+      expect(verified).toEqual({
+        ...user,
+        FailedPasswordAttempts: undefined,
+        LockedOutUntilDate: undefined,
+      });
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        verified
+      );
+    });
+
+    it("counts failed attempts from other flows", async () => {
+      await passwords.recordFailedAttempt(TestContext, mockUserPoolService, {
+        ...user,
+        FailedPasswordAttempts: 4,
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+        ...user,
+        FailedPasswordAttempts: 5,
+        LockedOutUntilDate: new Date(clock.get().getTime() + 1000),
+      });
+    });
+
+    it("checks the lockout for other flows", () => {
+      expect(() => passwords.checkLockout(user)).not.toThrow();
+      expect(() =>
+        passwords.checkLockout({
+          ...user,
+          FailedPasswordAttempts: 5,
+          LockedOutUntilDate: new Date(clock.get().getTime() + 1000),
+        })
+      ).toThrow(new NotAuthorizedError("Password attempts exceeded"));
+    });
+
+    it("resets the failed attempts after a successful attempt from another flow", async () => {
+      const updated = await passwords.recordSuccessfulAttempt(
+        TestContext,
+        mockUserPoolService,
+        {
+          ...user,
+          FailedPasswordAttempts: 3,
+        }
+      );
+
+      expect(updated).toEqual({
+        ...user,
+        FailedPasswordAttempts: undefined,
+      });
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        updated
+      );
+    });
+
+    it("hashes a plaintext password after a successful attempt from another flow", async () => {
+      const plaintextUser = TDB.user({
+        Password: "Password1!",
+        SrpVerifier: { salt: "salt", verifier: "verifier" },
+      });
+
+      const updated = await passwords.recordSuccessfulAttempt(
+        TestContext,
+        mockUserPoolService,
+        plaintextUser
+      );
+
+      expect(updated.Password).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+      expect(updated.SrpVerifier).toEqual(plaintextUser.SrpVerifier);
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        updated
+      );
+      expect(
+        await passwords.verify(
+          TestContext,
+          mockUserPoolService,
+          updated,
+          "Password1!"
+        )
+      ).toEqual(updated);
+    });
+
+    it("doesn't save the user after a successful attempt if nothing changed", async () => {
+      const updated = await passwords.recordSuccessfulAttempt(
+        TestContext,
+        mockUserPoolService,
+        user
+      );
+
+      expect(updated).toEqual(user);
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { pbkdf2, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { NotAuthorizedError } from "../errors";
+import { Clock } from "./clock";
+import { Context } from "./context";
+import { createSrpVerifier, SrpVerifier } from "./srp";
+import { User, UserPoolService } from "./userPoolService";
+
+export type PasswordHashAlgorithm = "pbkdf2" | "scrypt";
+
+export const PASSWORD_HASH_ALGORITHMS: readonly PasswordHashAlgorithm[] = [
+  "pbkdf2",
+  "scrypt",
+];
+
+export interface PasswordConfig {
+  HashAlgorithm?: PasswordHashAlgorithm;
+}
+
+// Cognito starts locking users out after five failed sign in attempts, for one second, doubling with each further
+// failure up to about fifteen minutes.
+//
+// See: https://docs.aws.amazon.com/cognito/latest/developerguide/authentication.html#authentication-flow-lockout-behavior
+const LOCKOUT_THRESHOLD = 5;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+
+const lockoutDuration = (failedAttempts: number): number =>
+  Math.min(1000 * 2 ** (failedAttempts - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+
+const KEY_LENGTH = 64;
+const PBKDF2_ITERATIONS = 100000;
+
+const pbkdf2Async = promisify(pbkdf2);
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const deriveKey = (
+  algorithm: PasswordHashAlgorithm,
+  password: string,
+  salt: Buffer
+): Promise<Buffer> =>
+  algorithm === "pbkdf2"
+    ? pbkdf2Async(password, salt, PBKDF2_ITERATIONS, KEY_LENGTH, "sha512")
+    : scryptAsync(password, salt, KEY_LENGTH);
+
+// hashes are stored as <algorithm>$<hex salt>$<hex key>, anything else is a password from before we hashed them
+const HASH_FORMAT = /^(pbkdf2|scrypt)\$([0-9a-f]+)\$([0-9a-f]+)$/;
+
+/**
+ * What a user signs in with: their hashed password, and the verifier SRP checks their password against instead
+ */
+export interface Credentials {
+  Password: string;
+  SrpVerifier: SrpVerifier;
+}
+
+export interface Passwords {
+  /**
+   * Hashes a user's new password with a random salt and creates its SRP verifier, ready to be stored on the user. The
+   * two are always created together so they can't end up being for different passwords.
+   */
+  credentials(
+    userPoolId: string,
+    username: string,
+    password: string
+  ): Promise<Credentials>;
+
+  /**
+   * Checks a password sent by a user against the one stored for them, returning null if it's wrong. Failed attempts
+   * are counted against the user, and once there have been too many the user is locked out for a while, during which
+   * this throws a NotAuthorizedError whatever the password.
+   *
+   * If the stored password is in plaintext, or was hashed with a different algorithm, it's rehashed once the password
+   * has been verified. Any changes to the user are saved, and the updated user returned.
+   */
+  verify(
+    ctx: Context,
+    userPool: UserPoolService,
+    user: User,
+    password: string
+  ): Promise<User | null>;
+
+  /**
+   * Throws a NotAuthorizedError if the user has been locked out after too many failed sign in attempts. Used by flows
+   * which check the password some other way than verify, like SRP.
+   */
+  checkLockout(user: User): void;
+
+  /**
+   * Counts a failed sign in attempt against the user, locking them out once there have been too many, and saves them.
+   */
+  recordFailedAttempt(
+    ctx: Context,
+    userPool: UserPoolService,
+    user: User
+  ): Promise<void>;
+
+  /**
+   * Clears the user's failed sign in attempts after they've proven they know their password some other way than
+   * verify. A plaintext password is hashed at the same time, as it's the password the user just proved they know. Any
+   * changes to the user are saved, and the updated user returned.
+   */
+  recordSuccessfulAttempt(
+    ctx: Context,
+    userPool: UserPoolService,
+    user: User
+  ): Promise<User>;
+}
+
+export class PasswordsService implements Passwords {
+  private readonly algorithm: PasswordHashAlgorithm;
+  private readonly clock: Clock;
+
+  public constructor(clock: Clock, config: PasswordConfig) {
+    this.algorithm = config.HashAlgorithm ?? "scrypt";
+    this.clock = clock;
+  }
+
+  public async credentials(
+    userPoolId: string,
+    username: string,
+    password: string
+  ): Promise<Credentials> {
+    return {
+      Password: await this.hash(password),
+      SrpVerifier: createSrpVerifier(userPoolId, username, password),
+    };
+  }
+
+  public async verify(
+    ctx: Context,
+    userPool: UserPoolService,
+    user: User,
+    password: string
+  ): Promise<User | null> {
+    this.checkLockout(user);
+
+    const match = HASH_FORMAT.exec(user.Password);
+    const valid = match
+      ? await this.matchesHash(
+          match[1] as PasswordHashAlgorithm,
+          match[2],
+          match[3],
+          password
+        )
+      : user.Password === password;
+
+    if (!valid) {
+      await this.recordFailedAttempt(ctx, userPool, user);
+      return null;
+    }
+
+    return this.signedIn(ctx, userPool, user, password);
+  }
+
+  public checkLockout(user: User): void {
+    if (user.LockedOutUntilDate && user.LockedOutUntilDate > this.clock.get()) {
+      throw new NotAuthorizedError("Password attempts exceeded");
+    }
+  }
+
+  public async recordFailedAttempt(
+    ctx: Context,
+    userPool: UserPoolService,
+    user: User
+  ): Promise<void> {
+    const failedAttempts = (user.FailedPasswordAttempts ?? 0) + 1;
+    const failedUser: User = {
+      ...user,
+      FailedPasswordAttempts: failedAttempts,
+    };
+    if (failedAttempts >= LOCKOUT_THRESHOLD) {
+      failedUser.LockedOutUntilDate = new Date(
+        this.clock.get().getTime() + lockoutDuration(failedAttempts)
+      );
+    }
+    await userPool.saveUser(ctx, failedUser);
+  }
+
+  public recordSuccessfulAttempt(
+    ctx: Context,
+    userPool: UserPoolService,
+    user: User
+  ): Promise<User> {
+    return this.signedIn(
+      ctx,
+      userPool,
+      user,
+      HASH_FORMAT.test(user.Password) ? undefined : user.Password
+    );
+  }
+
+  /**
+   * Clears the user's failed attempts and, if we know their password, rehashes it when it's stored in plaintext or
+   * with a different algorithm.
+   */
+  private async signedIn(
+    ctx: Context,
+    userPool: UserPoolService,
+    user: User,
+    password: string | undefined
+  ): Promise<User> {
+    const match = HASH_FORMAT.exec(user.Password);
+    const needsRehash =
+      password !== undefined && (!match || match[1] !== this.algorithm);
+    if (!needsRehash && !user.FailedPasswordAttempts) {
+      return user;
+    }
+
+    // the data store won't serialise an undefined date, so the lockout has to be removed rather than cleared
+    const updatedUser: User = { ...user };
+    delete updatedUser.FailedPasswordAttempts;
+    delete updatedUser.LockedOutUntilDate;
+    if (password !== undefined && needsRehash) {
+      ctx.logger.debug(
+        { username: user.Username },
+        "PasswordsService: rehashing password"
+      );
+
+      // we can't derive a verifier from a hashed password, so make sure they have one while we have the password
+      const credentials = await this.credentials(
+        userPool.config.Id,
+        user.Username,
+        password
+      );
+      updatedUser.Password = credentials.Password;
+      updatedUser.SrpVerifier = user.SrpVerifier ?? credentials.SrpVerifier;
+    }
+    await userPool.saveUser(ctx, updatedUser);
+
+    return updatedUser;
+  }
+
+  private async hash(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await deriveKey(this.algorithm, password, salt);
+
+    return `${this.algorithm}$${salt.toString("hex")}$${key.toString("hex")}`;
+  }
+
+  private async matchesHash(
+    algorithm: PasswordHashAlgorithm,
+    salt: string,
+    key: string,
+    password: string
+  ): Promise<boolean> {
+    const expected = Buffer.from(key, "hex");
+    const actual = await deriveKey(
+      algorithm,
+      password,
+      Buffer.from(salt, "hex")
+    );
+
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { NotAuthorizedError } from "../errors";
+import { CognitoService } from "./cognitoService";
+import { secretHash, verifySecretHash } from "./secretHash";
+
+describe("secretHash", () => {
+  it("hashes the username and client id with the secret", () => {
+    expect(secretHash("secret", "username", "clientId")).toEqual(
+      "ia3ZKu8n7RrAousO/eB61cao/6a3u4GwBcFlIt5pmc4="
+    );
+  });
+});
+
+describe("verifySecretHash", () => {
+  let mockCognitoService: jest.Mocked<CognitoService>;
+
+  beforeEach(() => {
+    mockCognitoService = newMockCognitoService();
+  });
+
+  it("accepts anything if the app client doesn't have a secret", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId" })
+    );
+
+    await expect(
+      verifySecretHash(
+        TestContext,
+        mockCognitoService,
+        "clientId",
+        "username",
+        undefined
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it("accepts a valid hash", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId", ClientSecret: "secret" })
+    );
+
+    await expect(
+      verifySecretHash(
+        TestContext,
+        mockCognitoService,
+        "clientId",
+        "username",
+        "ia3ZKu8n7RrAousO/eB61cao/6a3u4GwBcFlIt5pmc4="
+      )
+    ).resolves.toBeUndefined();
+    expect(mockCognitoService.getAppClient).toHaveBeenCalledWith(
+      TestContext,
+      "clientId"
+    );
+  });
+
+  it.each`
+    description                     | hash
+    ${"missing"}                    | ${undefined}
+    ${"for another user"}           | ${secretHash("secret", "other", "clientId")}
+    ${"made with the wrong secret"} | ${secretHash("wrong", "username", "clientId")}
+  `("throws if the hash is $description", async ({ hash }) => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId", ClientSecret: "secret" })
+    );
+
+    await expect(
+      verifySecretHash(
+        TestContext,
+        mockCognitoService,
+        "clientId",
+        "username",
+        hash
+      )
+    ).rejects.toEqual(
+      new NotAuthorizedError("Unable to verify secret hash for client clientId")
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { NotAuthorizedError } from "../errors";
+import { CognitoService } from "./cognitoService";
+import { Context } from "./context";
+
+/**
+ * Computes the SECRET_HASH a client sends to prove it knows its app client's secret: an HMAC-SHA256 of the username
+ * followed by the client id, keyed with the secret.
+ *
+ * See: https://docs.aws.amazon.com/cognito/latest/developerguide/signing-up-users-in-your-app.html#cognito-user-pools-computing-secret-hash
+ */
+export const secretHash = (
+  clientSecret: string,
+  username: string,
+  clientId: string
+): string =>
+  createHmac("sha256", clientSecret)
+    .update(`${username}${clientId}`)
+    .digest("base64");
+
+/**
+ * Checks the SECRET_HASH sent with a request from an app client which has a secret. Clients without a secret don't
+ * have to send one.
+ *
+ * @throws NotAuthorizedError if the hash is missing or doesn't match
+ */
+export const verifySecretHash = async (
+  ctx: Context,
+  cognito: CognitoService,
+  clientId: string,
+  username: string,
+  hash: string | undefined
+): Promise<void> => {
+  const appClient = await cognito.getAppClient(ctx, clientId);
+  if (!appClient?.ClientSecret) {
+    return;
+  }
+
+  const expected = Buffer.from(
+    secretHash(appClient.ClientSecret, username, clientId)
+  );
+  const actual = Buffer.from(hash ?? "");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new NotAuthorizedError(
+      `Unable to verify secret hash for client ${clientId}`
+    );
+  }
+};
@@ -0,0 +1,90 @@
+import { randomBytes } from "crypto";
+import { newSrpClient, srpTimestamp } from "../__tests__/srpClient";
+import {
+  createSrpVerifier,
+  generateServerKeys,
+  isValidClientPublicKey,
+  verifyPasswordClaim,
+} from "./srp";
+
+describe("SRP", () => {
+  const userPoolId = "local_AbCd1234";
+  const username = "alice";
+  const password = "Passw0rd!";
+
+  const claimFor = (attemptedPassword: string) => {
+    const { salt, verifier } = createSrpVerifier(
+      userPoolId,
+      username,
+      password
+    );
+    const client = newSrpClient(userPoolId);
+    const serverKeys = generateServerKeys(verifier);
+    const secretBlock = randomBytes(64).toString("base64");
+
+    const response = client.passwordClaim(attemptedPassword, {
+      SALT: salt,
+      SECRET_BLOCK: secretBlock,
+      SRP_B: serverKeys.publicKey,
+      USER_ID_FOR_SRP: username,
+    });
+
+    return {
+      userPoolId,
+      userIdForSrp: username,
+      verifier,
+      clientPublicKey: client.SRP_A,
+      serverPrivateKey: serverKeys.privateKey,
+      secretBlock,
+      timestamp: response.TIMESTAMP,
+      signature: response.PASSWORD_CLAIM_SIGNATURE,
+    };
+  };
+
+  it("generates a unique salt for each verifier", () => {
+    const verifier1 = createSrpVerifier(userPoolId, username, password);
+    const verifier2 = createSrpVerifier(userPoolId, username, password);
+
+    expect(verifier1.salt).not.toEqual(verifier2.salt);
+    expect(verifier1.verifier).not.toEqual(verifier2.verifier);
+  });
+
+  it("verifies a claim made with the correct password", () => {
+    expect(verifyPasswordClaim(claimFor(password))).toBe(true);
+  });
+
+  it("rejects a claim made with an incorrect password", () => {
+    expect(verifyPasswordClaim(claimFor("wrong-password"))).toBe(false);
+  });
+
+  it("rejects a claim if the timestamp has been changed", () => {
+    const claim = claimFor(password);
+
+    expect(
+      verifyPasswordClaim({
+        ...claim,
+        timestamp: srpTimestamp(new Date(2021, 0, 1)),
+      })
+    ).toBe(false);
+  });
+
+  it("rejects a claim for a different secret block", () => {
+    const claim = claimFor(password);
+
+    expect(
+      verifyPasswordClaim({
+        ...claim,
+        secretBlock: randomBytes(64).toString("base64"),
+      })
+    ).toBe(false);
+  });
+
+  it.each`
+    description    | A                                 | valid
+    ${"zero"}      | ${"0"}                            | ${false}
+    ${"not hex"}   | ${"not hex"}                      | ${false}
+    ${"g^a mod N"} | ${newSrpClient(userPoolId).SRP_A} | ${true}
+  `("validates a client public key which is $description", ({ A, valid }) => {
+    expect(isValidClientPublicKey(A)).toBe(valid);
+  });
+});
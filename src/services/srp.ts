@@ -0,0 +1,207 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// SRP-6a as implemented by Cognito and the AWS client libraries (amazon-cognito-identity-js, Amplify, etc.), using the
+// 3072-bit group from RFC 5054 and SHA-256.
+//
+// See: https://github.com/aws-amplify/amplify-js/blob/main/packages/amazon-cognito-identity-js/src/AuthenticationHelper.js
+
+const N = BigInt(
+  "0x" +
+    "FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD1" +
+    "29024E088A67CC74020BBEA63B139B22514A08798E3404DD" +
+    "EF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245" +
+    "E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED" +
+    "EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3D" +
+    "C2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F" +
+    "83655D23DCA3AD961C62F356208552BB9ED529077096966D" +
+    "670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B" +
+    "E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9" +
+    "DE2BCBF6955817183995497CEA956AE515D2261898FA0510" +
+    "15728E5A8AAAC42DAD33170D04507A33A85521ABDF1CBA64" +
+    "ECFB850458DBEF0A8AEA71575D060C7DB3970F85A6E1E4C7" +
+    "ABF5AE8CDB0933D71E8C94E04A25619DCEE3D2261AD2EE6B" +
+    "F12FFA06D98A0864D87602733EC86A64521F2B18177B200C" +
+    "BBE117577A615D6C770988C0BAD946E208E24FA074E5AB31" +
+    "43DB5BFCE0FD108E4B82D120A93AD2CAFFFFFFFFFFFFFFFF"
+);
+const g = BigInt(2);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+const INFO_BITS = Buffer.from("Caldera Derived Key", "utf8");
+
+/**
+ * Hex encodes a positive number the same way the client libraries do: an even number of digits, with a leading zero
+ * byte if the most significant bit is set so it isn't read as negative.
+ */
+const padHex = (value: bigint): string => {
+  let hex = value.toString(16);
+  if (hex.length % 2 !== 0) {
+    hex = `0${hex}`;
+  }
+  if (/^[89a-f]/i.test(hex)) {
+    hex = `00${hex}`;
+  }
+  return hex;
+};
+
+const hash = (data: Buffer | string): string =>
+  createHash("sha256").update(data).digest("hex");
+const hexHash = (hex: string): string => hash(Buffer.from(hex, "hex"));
+const fromHex = (hex: string): bigint => BigInt(`0x${hex}`);
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = ONE;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > ZERO) {
+    if (e & ONE) {
+      result = (result * b) % modulus;
+    }
+    e >>= ONE;
+    b = (b * b) % modulus;
+  }
+  return result;
+};
+
+const k = fromHex(hexHash(`${padHex(N)}${padHex(g)}`));
+
+/**
+ * The client libraries use the part of the user pool id after the region as the "pool name" in SRP calculations.
+ */
+const poolName = (userPoolId: string): string =>
+  userPoolId.split("_")[1] ?? userPoolId;
+
+const calculateX = (
+  userPoolId: string,
+  username: string,
+  password: string,
+  salt: bigint
+): bigint =>
+  fromHex(
+    hexHash(
+      padHex(salt) + hash(`${poolName(userPoolId)}${username}:${password}`)
+    )
+  );
+
+const calculateU = (A: bigint, B: bigint): bigint =>
+  fromHex(hexHash(padHex(A) + padHex(B)));
+
+const calculateB = (b: bigint, v: bigint): bigint =>
+  (k * v + modPow(g, b, N)) % N;
+
+const computeHkdf = (ikm: Buffer, salt: Buffer): Buffer => {
+  const prk = createHmac("sha256", salt).update(ikm).digest();
+  return createHmac("sha256", prk)
+    .update(Buffer.concat([INFO_BITS, Buffer.from([1])]))
+    .digest()
+    .slice(0, 16);
+};
+
+export interface SrpVerifier {
+  /**
+   * Hex encoded salt
+   */
+  salt: string;
+  /**
+   * Hex encoded verifier, g^x mod N
+   */
+  verifier: string;
+}
+
+/**
+ * Generates the salt and verifier the server stores for a user's password, so they can later authenticate with
+ * USER_SRP_AUTH without the server needing the password itself.
+ */
+export const createSrpVerifier = (
+  userPoolId: string,
+  username: string,
+  password: string
+): SrpVerifier => {
+  const salt = fromHex(randomBytes(16).toString("hex"));
+  const x = calculateX(userPoolId, username, password, salt);
+
+  return {
+    salt: padHex(salt),
+    verifier: padHex(modPow(g, x, N)),
+  };
+};
+
+/**
+ * Returns true if the client's public value is valid, i.e. A mod N != 0
+ */
+export const isValidClientPublicKey = (A: string): boolean => {
+  try {
+    return fromHex(A) % N !== ZERO;
+  } catch {
+    return false;
+  }
+};
+
+export interface ServerKeys {
+  /**
+   * Hex encoded private value, b
+   */
+  privateKey: string;
+  /**
+   * Hex encoded public value, B = kv + g^b mod N
+   */
+  publicKey: string;
+}
+
+export const generateServerKeys = (verifier: string): ServerKeys => {
+  const b = fromHex(randomBytes(128).toString("hex")) % N;
+
+  return {
+    privateKey: padHex(b),
+    publicKey: padHex(calculateB(b, fromHex(verifier))),
+  };
+};
+
+export interface PasswordClaim {
+  userPoolId: string;
+  /**
+   * The USER_ID_FOR_SRP returned to the client
+   */
+  userIdForSrp: string;
+  verifier: string;
+  clientPublicKey: string;
+  serverPrivateKey: string;
+  secretBlock: string;
+  timestamp: string;
+  signature: string;
+}
+
+/**
+ * Verifies the PASSWORD_CLAIM_SIGNATURE the client calculated from its password and our public value, by deriving the
+ * same shared key from the stored verifier.
+ */
+export const verifyPasswordClaim = (claim: PasswordClaim): boolean => {
+  const A = fromHex(claim.clientPublicKey);
+  const b = fromHex(claim.serverPrivateKey);
+  const v = fromHex(claim.verifier);
+  const u = calculateU(A, calculateB(b, v));
+  if (u === ZERO) {
+    return false;
+  }
+
+  const S = modPow((A * modPow(v, u, N)) % N, b, N);
+  const key = computeHkdf(
+    Buffer.from(padHex(S), "hex"),
+    Buffer.from(padHex(u), "hex")
+  );
+
+  const expected = createHmac("sha256", key)
+    .update(
+      Buffer.concat([
+        Buffer.from(poolName(claim.userPoolId), "utf8"),
+        Buffer.from(claim.userIdForSrp, "utf8"),
+        Buffer.from(claim.secretBlock, "base64"),
+        Buffer.from(claim.timestamp, "utf8"),
+      ])
+    )
+    .digest();
+  const actual = Buffer.from(claim.signature, "base64");
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
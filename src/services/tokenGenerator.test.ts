@@ -1,9 +1,16 @@
 import jwt from "jsonwebtoken";
 import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockTriggers } from "../__tests__/mockTriggers";
 import { UUID } from "../__tests__/patterns";
 import { TestContext } from "../__tests__/testContext";
-import { JwtTokenGenerator, TokenGenerator } from "./tokenGenerator";
+import { CognitoService } from "./cognitoService";
+import {
+  JwtTokenGenerator,
+  refreshTokenExpiry,
+  Token,
+  TokenGenerator,
+} from "./tokenGenerator";
 import { Triggers } from "./triggers";
 import * as TDB from "../__tests__/testDataBuilder";
 import { attributeValue } from "./userPoolService";
@@ -11,6 +18,7 @@ import { attributeValue } from "./userPoolService";
 const originalDate = new Date();
 
 describe("JwtTokenGenerator", () => {
+  let mockCognitoService: jest.Mocked<CognitoService>;
   let mockTriggers: jest.Mocked<Triggers>;
   let tokenGenerator: TokenGenerator;
 
@@ -18,10 +26,17 @@ describe("JwtTokenGenerator", () => {
   const clock = new ClockFake(originalDate);
 
   beforeEach(() => {
+    mockCognitoService = newMockCognitoService();
+    mockCognitoService.getAppClient.mockResolvedValue(null);
     mockTriggers = newMockTriggers();
-    tokenGenerator = new JwtTokenGenerator(clock, mockTriggers, {
-      IssuerDomain: "http://example.com",
-    });
+    tokenGenerator = new JwtTokenGenerator(
+      clock,
+      mockCognitoService,
+      mockTriggers,
+      {
+        IssuerDomain: "http://example.com",
+      }
+    );
   });
 
   describe("TokenGeneration lambda is configured", () => {
@@ -41,6 +56,7 @@ describe("JwtTokenGenerator", () => {
       const tokens = await tokenGenerator.generate(
         TestContext,
         user,
+        [],
         "clientId",
         "userPoolId",
         { client: "metadata" },
@@ -77,6 +93,7 @@ describe("JwtTokenGenerator", () => {
       const tokens = await tokenGenerator.generate(
         TestContext,
         user,
+        [],
         "clientId",
         "userPoolId",
         { client: "metadata" },
@@ -110,6 +127,7 @@ describe("JwtTokenGenerator", () => {
       const tokens = await tokenGenerator.generate(
         TestContext,
         user,
+        [],
         "clientId",
         "userPoolId",
         { client: "metadata" },
@@ -127,6 +145,141 @@ describe("JwtTokenGenerator", () => {
       );
     });
 
+    describe("group overrides", () => {
+      const userGroups = [
+        TDB.group({ GroupName: "original", Precedence: 1, RoleArn: "role" }),
+      ];
+
+      beforeEach(() => {
+        mockTriggers.enabled.mockImplementation((name) => {
+          return name === "PreTokenGeneration";
+        });
+      });
+
+      it("can override the groups in the id and access tokens", async () => {
+        mockTriggers.preTokenGeneration.mockResolvedValue({
+          claimsOverrideDetails: {
+            groupOverrideDetails: {
+              groupsToOverride: ["new-group", "other-group"],
+            },
+          },
+        });
+
+        const tokens = await tokenGenerator.generate(
+          TestContext,
+          user,
+          userGroups,
+          "clientId",
+          "userPoolId",
+          { client: "metadata" },
+          "RefreshTokens"
+        );
+
+        expect(jwt.decode(tokens.IdToken)).toMatchObject({
+          "cognito:groups": ["new-group", "other-group"],
+          "cognito:preferred_role": "role",
+          "cognito:roles": ["role"],
+        });
+        expect(jwt.decode(tokens.AccessToken)).toMatchObject({
+          "cognito:groups": ["new-group", "other-group"],
+        });
+
+        // refresh tokens cannot be changed by the trigger
+        expect(jwt.decode(tokens.RefreshToken)).not.toHaveProperty(
+          "cognito:groups"
+        );
+      });
+
+      it("can override the roles and preferred role in the id token", async () => {
+        mockTriggers.preTokenGeneration.mockResolvedValue({
+          claimsOverrideDetails: {
+            groupOverrideDetails: {
+              iamRolesToOverride: ["new-role", "other-role"],
+              preferredRole: "new-role",
+            },
+          },
+        });
+
+        const tokens = await tokenGenerator.generate(
+          TestContext,
+          user,
+          userGroups,
+          "clientId",
+          "userPoolId",
+          { client: "metadata" },
+          "RefreshTokens"
+        );
+
+        expect(jwt.decode(tokens.IdToken)).toMatchObject({
+          "cognito:groups": ["original"],
+          "cognito:preferred_role": "new-role",
+          "cognito:roles": ["new-role", "other-role"],
+        });
+
+        // access tokens never contain roles
+        expect(jwt.decode(tokens.AccessToken)).not.toHaveProperty(
+          "cognito:roles"
+        );
+        expect(jwt.decode(tokens.AccessToken)).not.toHaveProperty(
+          "cognito:preferred_role"
+        );
+      });
+
+      it("can remove the group claims", async () => {
+        mockTriggers.preTokenGeneration.mockResolvedValue({
+          claimsOverrideDetails: {
+            groupOverrideDetails: {
+              groupsToOverride: [],
+              iamRolesToOverride: [],
+              preferredRole: null as unknown as undefined,
+            },
+          },
+        });
+
+        const tokens = await tokenGenerator.generate(
+          TestContext,
+          user,
+          userGroups,
+          "clientId",
+          "userPoolId",
+          { client: "metadata" },
+          "RefreshTokens"
+        );
+
+        const idToken = jwt.decode(tokens.IdToken);
+        expect(idToken).not.toHaveProperty("cognito:groups");
+        expect(idToken).not.toHaveProperty("cognito:roles");
+        expect(idToken).not.toHaveProperty("cognito:preferred_role");
+        expect(jwt.decode(tokens.AccessToken)).not.toHaveProperty(
+          "cognito:groups"
+        );
+      });
+
+      it("cannot change the groups with claimsToAddOrOverride", async () => {
+        mockTriggers.preTokenGeneration.mockResolvedValue({
+          claimsOverrideDetails: {
+            claimsToAddOrOverride: {
+              "cognito:groups": "value",
+            },
+          },
+        });
+
+        const tokens = await tokenGenerator.generate(
+          TestContext,
+          user,
+          userGroups,
+          "clientId",
+          "userPoolId",
+          { client: "metadata" },
+          "RefreshTokens"
+        );
+
+        expect(jwt.decode(tokens.IdToken)).toMatchObject({
+          "cognito:groups": ["original"],
+        });
+      });
+    });
+
     describe.each([
       "acr",
       "amr",
@@ -161,6 +314,7 @@ describe("JwtTokenGenerator", () => {
         const tokens = await tokenGenerator.generate(
           TestContext,
           user,
+          [],
           "clientId",
           "userPoolId",
           { client: "metadata" },
@@ -174,6 +328,143 @@ describe("JwtTokenGenerator", () => {
     });
   });
 
+  describe("user groups", () => {
+    beforeEach(() => {
+      mockTriggers.enabled.mockReturnValue(false);
+    });
+
+    it("adds the user's groups to the id and access tokens ordered by precedence", async () => {
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [
+          TDB.group({ GroupName: "no-precedence" }),
+          TDB.group({ GroupName: "low", Precedence: 1 }),
+          TDB.group({ GroupName: "high", Precedence: 10 }),
+        ],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "Authentication"
+      );
+
+      expect(jwt.decode(tokens.IdToken)).toMatchObject({
+        "cognito:groups": ["high", "low", "no-precedence"],
+      });
+      expect(jwt.decode(tokens.AccessToken)).toMatchObject({
+        "cognito:groups": ["high", "low", "no-precedence"],
+      });
+    });
+
+    it("adds the roles and preferred role of the highest precedence group to the id token", async () => {
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [
+          TDB.group({ GroupName: "a", Precedence: 1, RoleArn: "role-a" }),
+          TDB.group({ GroupName: "b", Precedence: 5, RoleArn: "role-b" }),
+          TDB.group({ GroupName: "c", Precedence: 10 }),
+          TDB.group({ GroupName: "d", Precedence: 2, RoleArn: "role-a" }),
+        ],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "Authentication"
+      );
+
+      expect(jwt.decode(tokens.IdToken)).toMatchObject({
+        "cognito:preferred_role": "role-b",
+        "cognito:roles": ["role-b", "role-a"],
+      });
+      expect(jwt.decode(tokens.AccessToken)).not.toHaveProperty(
+        "cognito:roles"
+      );
+      expect(jwt.decode(tokens.AccessToken)).not.toHaveProperty(
+        "cognito:preferred_role"
+      );
+    });
+
+    it("uses the shared role of groups with the same precedence as the preferred role", async () => {
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [
+          TDB.group({ GroupName: "a", Precedence: 1, RoleArn: "role" }),
+          TDB.group({ GroupName: "b", Precedence: 1, RoleArn: "role" }),
+        ],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "Authentication"
+      );
+
+      expect(jwt.decode(tokens.IdToken)).toMatchObject({
+        "cognito:preferred_role": "role",
+        "cognito:roles": ["role"],
+      });
+    });
+
+    it("does not set a preferred role when groups with the same precedence have different roles", async () => {
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [
+          TDB.group({ GroupName: "a", Precedence: 1, RoleArn: "role-a" }),
+          TDB.group({ GroupName: "b", Precedence: 1, RoleArn: "role-b" }),
+        ],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "Authentication"
+      );
+
+      const idToken = jwt.decode(tokens.IdToken);
+      expect(idToken).toMatchObject({
+        "cognito:roles": ["role-a", "role-b"],
+      });
+      expect(idToken).not.toHaveProperty("cognito:preferred_role");
+    });
+
+    it("passes the group configuration to the PreTokenGeneration trigger", async () => {
+      mockTriggers.enabled.mockImplementation((name) => {
+        return name === "PreTokenGeneration";
+      });
+      mockTriggers.preTokenGeneration.mockResolvedValue({
+        claimsOverrideDetails: {},
+      });
+
+      await tokenGenerator.generate(
+        TestContext,
+        user,
+        [
+          TDB.group({ GroupName: "a", Precedence: 1, RoleArn: "role-a" }),
+          TDB.group({ GroupName: "b", Precedence: 5 }),
+        ],
+        "clientId",
+        "userPoolId",
+        { client: "metadata" },
+        "Authentication"
+      );
+
+      expect(mockTriggers.preTokenGeneration).toHaveBeenCalledWith(
+        TestContext,
+        {
+          clientId: "clientId",
+          clientMetadata: { client: "metadata" },
+          groupConfiguration: {
+            groupsToOverride: ["b", "a"],
+            iamRolesToOverride: ["role-a"],
+            preferredRole: "role-a",
+          },
+          source: "Authentication",
+          userAttributes: user.Attributes,
+          username: user.Username,
+          userPoolId: "userPoolId",
+        }
+      );
+    });
+  });
+
   describe("TokenGeneration lambda is not configured", () => {
     it("generates the default tokens", async () => {
       mockTriggers.enabled.mockReturnValue(false);
@@ -181,20 +472,25 @@ describe("JwtTokenGenerator", () => {
       const tokens = await tokenGenerator.generate(
         TestContext,
         user,
+        [],
         "clientId",
         "userPoolId",
         { client: "metadata" },
         "RefreshTokens"
       );
 
+      const issuedAt = Math.floor(originalDate.getTime() / 1000);
+      const refreshTokenJti = (jwt.decode(tokens.RefreshToken) as Token).jti;
+
       expect(jwt.decode(tokens.AccessToken)).toEqual({
         auth_time: expect.any(Number),
         client_id: "clientId",
         event_id: expect.stringMatching(UUID),
-        exp: expect.any(Number),
-        iat: expect.any(Number),
+        exp: issuedAt + 60 * 60,
+        iat: issuedAt,
         iss: "http://example.com/userPoolId",
         jti: expect.stringMatching(UUID),
+        origin_jti: refreshTokenJti,
         scope: "aws.cognito.signin.user.admin",
         sub: attributeValue("sub", user.Attributes),
         token_use: "access",
@@ -208,10 +504,11 @@ describe("JwtTokenGenerator", () => {
         email: attributeValue("email", user.Attributes),
         email_verified: false,
         event_id: expect.stringMatching(UUID),
-        exp: expect.any(Number),
-        iat: expect.any(Number),
+        exp: issuedAt + 60 * 60,
+        iat: issuedAt,
         iss: "http://example.com/userPoolId",
         jti: expect.stringMatching(UUID),
+        origin_jti: refreshTokenJti,
         sub: attributeValue("sub", user.Attributes),
         token_use: "id",
       });
@@ -219,11 +516,137 @@ describe("JwtTokenGenerator", () => {
       expect(jwt.decode(tokens.RefreshToken)).toEqual({
         "cognito:username": user.Username,
         email: attributeValue("email", user.Attributes),
-        exp: expect.any(Number),
-        iat: expect.any(Number),
+        exp: issuedAt + 30 * 24 * 60 * 60,
+        iat: issuedAt,
         iss: "http://example.com/userPoolId",
         jti: expect.stringMatching(UUID),
       });
+
+      expect(tokens.ExpiresIn).toEqual(60 * 60);
+      expect(tokens.TokenType).toEqual("Bearer");
+    });
+
+    it("links refreshed tokens to the refresh token they were issued with", async () => {
+      mockTriggers.enabled.mockReturnValue(false);
+
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "RefreshTokens",
+        "refresh-token-jti"
+      );
+
+      expect(jwt.decode(tokens.AccessToken)).toMatchObject({
+        origin_jti: "refresh-token-jti",
+      });
+      expect(jwt.decode(tokens.IdToken)).toMatchObject({
+        origin_jti: "refresh-token-jti",
+      });
+    });
+  });
+
+  describe("token validity", () => {
+    it("uses the app client's token validity", async () => {
+      mockCognitoService.getAppClient.mockResolvedValue(
+        TDB.appClient({
+          AccessTokenValidity: 5,
+          IdTokenValidity: 2,
+          RefreshTokenValidity: 10,
+        })
+      );
+
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "Authentication"
+      );
+
+      const issuedAt = Math.floor(originalDate.getTime() / 1000);
+
+      expect(mockCognitoService.getAppClient).toHaveBeenCalledWith(
+        TestContext,
+        "clientId"
+      );
+      expect(jwt.decode(tokens.AccessToken)).toMatchObject({
+        exp: issuedAt + 5 * 60 * 60,
+      });
+      expect(jwt.decode(tokens.IdToken)).toMatchObject({
+        exp: issuedAt + 2 * 60 * 60,
+      });
+      expect(jwt.decode(tokens.RefreshToken)).toMatchObject({
+        exp: issuedAt + 10 * 24 * 60 * 60,
+      });
+      expect(tokens.ExpiresIn).toEqual(5 * 60 * 60);
+    });
+
+    it("uses the app client's token validity units", async () => {
+      mockCognitoService.getAppClient.mockResolvedValue(
+        TDB.appClient({
+          AccessTokenValidity: 5,
+          IdTokenValidity: 30,
+          RefreshTokenValidity: 60,
+          TokenValidityUnits: {
+            AccessToken: "minutes",
+            IdToken: "seconds",
+            RefreshToken: "minutes",
+          },
+        })
+      );
+
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "Authentication"
+      );
+
+      const issuedAt = Math.floor(originalDate.getTime() / 1000);
+
+      expect(jwt.decode(tokens.AccessToken)).toMatchObject({
+        exp: issuedAt + 5 * 60,
+      });
+      expect(jwt.decode(tokens.IdToken)).toMatchObject({
+        exp: issuedAt + 30,
+      });
+      expect(jwt.decode(tokens.RefreshToken)).toMatchObject({
+        exp: issuedAt + 60 * 60,
+      });
+      expect(tokens.ExpiresIn).toEqual(5 * 60);
+    });
+  });
+
+  describe("refreshTokenExpiry", () => {
+    it("returns when the refresh token expires", async () => {
+      const tokens = await tokenGenerator.generate(
+        TestContext,
+        user,
+        [],
+        "clientId",
+        "userPoolId",
+        undefined,
+        "Authentication"
+      );
+
+      const issuedAt = Math.floor(originalDate.getTime() / 1000);
+
+      expect(refreshTokenExpiry(tokens.RefreshToken)).toEqual(
+        new Date((issuedAt + 30 * 24 * 60 * 60) * 1000)
+      );
+    });
+
+    it("returns undefined if the token can't be decoded", () => {
+      expect(refreshTokenExpiry("blah")).toBeUndefined();
     });
   });
 });
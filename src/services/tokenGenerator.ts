@@ -1,15 +1,19 @@
 import { StringMap } from "aws-lambda/trigger/cognito-user-pool-trigger/_common";
 import { GroupOverrideDetails } from "aws-lambda/trigger/cognito-user-pool-trigger/pre-token-generation";
+import { TimeUnitsType } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import jwt from "jsonwebtoken";
 import * as uuid from "uuid";
 import PrivateKey from "../keys/cognitoLocal.private.json";
+import { AppClient } from "./appClient";
 import { Clock } from "./clock";
+import { CognitoService } from "./cognitoService";
 import { Context } from "./context";
 import { Triggers } from "./triggers";
 import {
   attributesToRecord,
   attributeValue,
   customAttributes,
+  Group,
   User,
 } from "./userPoolService";
 
@@ -27,8 +31,78 @@ export interface Token {
   scope: string;
   auth_time: Date;
   jti: string;
+  /**
+   * The jti of the refresh token the token was issued with, so the token can be revoked along with it
+   */
+  origin_jti?: string;
+  iat: number;
+  exp: number;
 }
 
+/**
+ * Returns the jti of one of our refresh tokens, which access and id tokens refer to as their origin_jti.
+ */
+export const refreshTokenJti = (refreshToken: string): string | undefined =>
+  (jwt.decode(refreshToken) as Partial<Token> | null)?.jti;
+
+/**
+ * Returns when one of our refresh tokens expires, according to the clock it was issued by.
+ */
+export const refreshTokenExpiry = (refreshToken: string): Date | undefined => {
+  const exp = (jwt.decode(refreshToken) as Partial<Token> | null)?.exp;
+
+  return exp === undefined ? undefined : new Date(exp * 1000);
+};
+
+const SECONDS_PER_UNIT: Record<string, number> = {
+  seconds: 1,
+  minutes: 60,
+  hours: 60 * 60,
+  days: 24 * 60 * 60,
+};
+
+/**
+ * Converts one of an app client's token validities to seconds. Clients which don't set a validity get Cognito's
+ * default, and clients which don't set its unit get the unit Cognito assumes for it.
+ */
+const validityInSeconds = (
+  validity: number | undefined,
+  unit: TimeUnitsType | undefined,
+  defaultUnit: TimeUnitsType,
+  defaultSeconds: number
+): number =>
+  validity === undefined
+    ? defaultSeconds
+    : validity * SECONDS_PER_UNIT[unit ?? defaultUnit];
+
+interface TokenValidity {
+  accessToken: number;
+  idToken: number;
+  refreshToken: number;
+}
+
+// See: https://docs.aws.amazon.com/cognito/latest/developerguide/amazon-cognito-user-pools-using-tokens-with-identity-providers.html
+const tokenValidity = (appClient: AppClient | null): TokenValidity => ({
+  accessToken: validityInSeconds(
+    appClient?.AccessTokenValidity,
+    appClient?.TokenValidityUnits?.AccessToken,
+    "hours",
+    60 * 60
+  ),
+  idToken: validityInSeconds(
+    appClient?.IdTokenValidity,
+    appClient?.TokenValidityUnits?.IdToken,
+    "hours",
+    60 * 60
+  ),
+  refreshToken: validityInSeconds(
+    appClient?.RefreshTokenValidity,
+    appClient?.TokenValidityUnits?.RefreshToken,
+    "days",
+    30 * 24 * 60 * 60
+  ),
+});
+
 interface TokenOverrides {
   claimsToAddOrOverride?: StringMap | undefined;
   claimsToSuppress?: string[] | undefined;
@@ -55,12 +129,108 @@ const RESERVED_CLAIMS = [
   "token_use",
 ];
 
+type RawToken = Record<
+  string,
+  string | number | boolean | readonly string[] | undefined
+>;
+
+/**
+ * Orders groups by their precedence, as documented on the Group interface: groups with a higher Precedence come
+ * before groups with a lower or no Precedence. Groups with the same Precedence keep their existing order.
+ */
+const sortByPrecedence = (groups: readonly Group[]): readonly Group[] =>
+  [...groups].sort((a, b) => {
+    if (a.Precedence === b.Precedence) {
+      return 0;
+    } else if (a.Precedence === undefined || a.Precedence === null) {
+      return 1;
+    } else if (b.Precedence === undefined || b.Precedence === null) {
+      return -1;
+    }
+
+    return b.Precedence - a.Precedence;
+  });
+
+/**
+ * The preferred role is the role of the highest precedence group which has a role. If multiple groups share that
+ * precedence and have different roles, there is no preferred role.
+ */
+const selectPreferredRole = (
+  groupsByPrecedence: readonly Group[]
+): string | undefined => {
+  const groupsWithRoles = groupsByPrecedence.filter((group) => group.RoleArn);
+  if (groupsWithRoles.length === 0) {
+    return undefined;
+  }
+
+  const highestPrecedence = groupsWithRoles[0].Precedence;
+  const highestPrecedenceRoles = new Set(
+    groupsWithRoles
+      .filter((group) => group.Precedence === highestPrecedence)
+      .map((group) => group.RoleArn)
+  );
+  if (highestPrecedenceRoles.size > 1) {
+    return undefined;
+  }
+
+  return groupsWithRoles[0].RoleArn;
+};
+
+interface GroupConfiguration {
+  groupsToOverride: readonly string[];
+  iamRolesToOverride: readonly string[];
+  preferredRole: string | undefined;
+}
+
+const groupConfiguration = (
+  userGroups: readonly Group[]
+): GroupConfiguration => {
+  const groupsByPrecedence = sortByPrecedence(userGroups);
+
+  return {
+    groupsToOverride: groupsByPrecedence.map((group) => group.GroupName),
+    iamRolesToOverride: Array.from(
+      new Set(
+        groupsByPrecedence
+          .map((group) => group.RoleArn)
+          .filter((roleArn): roleArn is string => !!roleArn)
+      )
+    ),
+    preferredRole: selectPreferredRole(groupsByPrecedence),
+  };
+};
+
+const nonEmpty = (values: readonly string[]): readonly string[] | undefined =>
+  values.length > 0 ? values : undefined;
+
+/**
+ * Replaces any part of the user's group configuration which the PreTokenGeneration trigger has overridden. An empty
+ * list of groups or roles removes the corresponding claim, as does a null preferred role.
+ */
+const applyGroupOverrides = (
+  groups: GroupConfiguration,
+  groupOverrideDetails: GroupOverrideDetails | undefined
+): GroupConfiguration => {
+  if (!groupOverrideDetails) {
+    return groups;
+  }
+
+  return {
+    groupsToOverride:
+      groupOverrideDetails.groupsToOverride ?? groups.groupsToOverride,
+    iamRolesToOverride:
+      groupOverrideDetails.iamRolesToOverride ?? groups.iamRolesToOverride,
+    preferredRole:
+      "preferredRole" in groupOverrideDetails
+        ? groupOverrideDetails.preferredRole ?? undefined
+        : groups.preferredRole,
+  };
+};
+
 const applyTokenOverrides = (
-  token: Record<string, string | number | boolean | undefined>,
+  token: RawToken,
   overrides: TokenOverrides
-): Record<string, string | number | boolean | undefined> => {
-  // TODO: support group overrides
-
+): RawToken => {
   const claimsToSuppress = (overrides?.claimsToSuppress ?? []).filter(
     (claim) => !RESERVED_CLAIMS.includes(claim)
   );
@@ -80,12 +250,18 @@ export interface Tokens {
   readonly AccessToken: string;
   readonly IdToken: string;
   readonly RefreshToken: string;
+  /**
+   * How many seconds the access token is valid for
+   */
+  readonly ExpiresIn: number;
+  readonly TokenType: "Bearer";
 }
 
 export interface TokenGenerator {
   generate(
     ctx: Context,
     user: User,
+    userGroups: readonly Group[],
     clientId: string,
     userPoolId: string,
     clientMetadata: Record<string, string> | undefined,
@@ -94,21 +270,29 @@ export interface TokenGenerator {
       | "Authentication"
       | "HostedAuth"
       | "NewPasswordChallenge"
-      | "RefreshTokens"
+      | "RefreshTokens",
+    /**
+     * The jti of the refresh token the tokens are being issued with, if they're being refreshed. Otherwise they're
+     * issued with the new refresh token.
+     */
+    originJti?: string
   ): Promise<Tokens>;
 }
 
 export class JwtTokenGenerator implements TokenGenerator {
   private readonly clock: Clock;
+  private readonly cognito: CognitoService;
   private readonly triggers: Triggers;
   private readonly tokenConfig: TokenConfig;
 
   public constructor(
     clock: Clock,
+    cognito: CognitoService,
     triggers: Triggers,
     tokenConfig: TokenConfig
   ) {
     this.clock = clock;
+    this.cognito = cognito;
     this.triggers = triggers;
     this.tokenConfig = tokenConfig;
   }
@@ -116,6 +300,7 @@ export class JwtTokenGenerator implements TokenGenerator {
   public async generate(
     ctx: Context,
     user: User,
+    userGroups: readonly Group[],
     clientId: string,
     userPoolId: string,
     clientMetadata: Record<string, string> | undefined,
@@ -124,13 +309,16 @@ export class JwtTokenGenerator implements TokenGenerator {
       | "Authentication"
       | "HostedAuth"
       | "NewPasswordChallenge"
-      | "RefreshTokens"
+      | "RefreshTokens",
+    originJti: string = uuid.v4()
   ): Promise<Tokens> {
     const eventId = uuid.v4();
+    // tokens are issued, and so expire, according to our clock rather than the system's
     const authTime = Math.floor(this.clock.get().getTime() / 1000);
     const sub = attributeValue("sub", user.Attributes);
+    let groups = groupConfiguration(userGroups);
 
-    let idToken: Record<string, string | number | boolean | undefined> = {
+    let idToken: RawToken = {
       "cognito:username": user.Username,
       auth_time: authTime,
       email: attributeValue("email", user.Attributes),
@@ -138,7 +326,9 @@ export class JwtTokenGenerator implements TokenGenerator {
         attributeValue("email_verified", user.Attributes) ?? false
       ),
       event_id: eventId,
+      iat: authTime,
       jti: uuid.v4(),
+      origin_jti: originJti,
       sub,
       token_use: "id",
       ...attributesToRecord(customAttributes(user.Attributes)),
@@ -151,27 +341,32 @@ export class JwtTokenGenerator implements TokenGenerator {
         source,
         userAttributes: user.Attributes,
         username: user.Username,
-        groupConfiguration: {
-          // TODO: this should be populated from the user's groups
-          groupsToOverride: undefined,
-          iamRolesToOverride: undefined,
-          preferredRole: undefined,
-        },
+        groupConfiguration: groups,
         userPoolId,
       });
 
       idToken = applyTokenOverrides(idToken, result.claimsOverrideDetails);
+      groups = applyGroupOverrides(
+        groups,
+        result.claimsOverrideDetails?.groupOverrideDetails
+      );
     }
 
     const issuer = `${this.tokenConfig.IssuerDomain}/${userPoolId}`;
+    const validity = tokenValidity(
+      await this.cognito.getAppClient(ctx, clientId)
+    );
 
     return {
       AccessToken: jwt.sign(
         {
+          "cognito:groups": nonEmpty(groups.groupsToOverride),
           auth_time: authTime,
           client_id: clientId,
           event_id: eventId,
+          iat: authTime,
           jti: uuid.v4(),
+          origin_jti: originJti,
           scope: "aws.cognito.signin.user.admin", // TODO: scopes
           sub,
           token_use: "access",
@@ -181,32 +376,44 @@ export class JwtTokenGenerator implements TokenGenerator {
         {
           algorithm: "RS256",
           issuer,
-          expiresIn: "24h",
+          expiresIn: validity.accessToken,
+          keyid: "CognitoLocal",
+        }
+      ),
+      IdToken: jwt.sign(
+        {
+          ...idToken,
+          "cognito:groups": nonEmpty(groups.groupsToOverride),
+          "cognito:preferred_role": groups.preferredRole,
+          "cognito:roles": nonEmpty(groups.iamRolesToOverride),
+        },
+        PrivateKey.pem,
+        {
+          algorithm: "RS256",
+          issuer,
+          expiresIn: validity.idToken,
+          audience: clientId,
           keyid: "CognitoLocal",
         }
       ),
-      IdToken: jwt.sign(idToken, PrivateKey.pem, {
-        algorithm: "RS256",
-        issuer,
-        expiresIn: "24h",
-        audience: clientId,
-        keyid: "CognitoLocal",
-      }),
       // this content is for debugging purposes only
       // in reality token payload is encrypted and uses different algorithm
       RefreshToken: jwt.sign(
         {
           "cognito:username": user.Username,
           email: attributeValue("email", user.Attributes),
-          jti: uuid.v4(),
+          iat: authTime,
+          jti: originJti,
         },
         PrivateKey.pem,
         {
           algorithm: "RS256",
           issuer,
-          expiresIn: "7d",
+          expiresIn: validity.refreshToken,
         }
       ),
+      ExpiresIn: validity.accessToken,
+      TokenType: "Bearer",
     };
   }
 }
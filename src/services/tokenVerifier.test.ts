@@ -0,0 +1,195 @@
+import jwt from "jsonwebtoken";
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockTriggers } from "../__tests__/mockTriggers";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { NotAuthorizedError } from "../errors";
+import { CognitoService } from "./cognitoService";
+import { JwtTokenGenerator, Tokens } from "./tokenGenerator";
+import { JwtTokenVerifier, TokenVerifier } from "./tokenVerifier";
+import { attributeValue, User, UserPoolService } from "./userPoolService";
+
+describe("JwtTokenVerifier", () => {
+  let clock: ClockFake;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let tokenGenerator: JwtTokenGenerator;
+  let tokenVerifier: TokenVerifier;
+  let tokens: Tokens;
+  let user: User;
+
+  beforeEach(async () => {
+    clock = new ClockFake(new Date());
+    mockUserPoolService = newMockUserPoolService();
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
+    mockCognitoService.getAppClient.mockResolvedValue({
+      AllowedOAuthFlowsUserPoolClient: false,
+      ClientId: "clientId",
+      ClientName: "clientName",
+      CreationDate: clock.get(),
+      LastModifiedDate: clock.get(),
+      RefreshTokenValidity: 30,
+      UserPoolId: "test",
+    });
+
+    tokenGenerator = new JwtTokenGenerator(
+      clock,
+      mockCognitoService,
+      newMockTriggers(),
+      {
+        IssuerDomain: "http://localhost:9229",
+      }
+    );
+    tokenVerifier = new JwtTokenVerifier(clock, mockCognitoService, {
+      IssuerDomain: "http://localhost:9229",
+    });
+
+    user = TDB.user();
+    tokens = await tokenGenerator.generate(
+      TestContext,
+      user,
+      [],
+      "clientId",
+      "test",
+      undefined,
+      "Authentication"
+    );
+    user = { ...user, RefreshTokens: [tokens.RefreshToken] };
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+  });
+
+  it("returns the token's user pool and user", async () => {
+    const verified = await tokenVerifier.verifyAccessToken(
+      TestContext,
+      tokens.AccessToken
+    );
+
+    expect(verified).toEqual({
+      token: jwt.decode(tokens.AccessToken),
+      user,
+      userPool: mockUserPoolService,
+    });
+    expect(mockCognitoService.getAppClient).toHaveBeenCalledWith(
+      TestContext,
+      "clientId"
+    );
+    expect(mockCognitoService.getUserPool).toHaveBeenCalledWith(
+      TestContext,
+      "test"
+    );
+    expect(mockUserPoolService.getUserByUsername).toHaveBeenCalledWith(
+      TestContext,
+      attributeValue("sub", user.Attributes)
+    );
+  });
+
+  it("returns a null user if the user has been deleted", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    const verified = await tokenVerifier.verifyAccessToken(
+      TestContext,
+      tokens.AccessToken
+    );
+
+    expect(verified.user).toBeNull();
+  });
+
+  it("accepts tokens which were issued by refreshing", async () => {
+    const refreshed = await tokenGenerator.generate(
+      TestContext,
+      user,
+      [],
+      "clientId",
+      "test",
+      undefined,
+      "RefreshTokens",
+      (jwt.decode(tokens.RefreshToken) as { jti: string }).jti
+    );
+
+    const verified = await tokenVerifier.verifyAccessToken(
+      TestContext,
+      refreshed.AccessToken
+    );
+
+    expect(verified.user).toEqual(user);
+  });
+
+  it("throws if the token can't be decoded", async () => {
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, "blah")
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
+  });
+
+  it("throws if the token wasn't signed by us", async () => {
+    const forged = jwt.sign(
+      jwt.decode(tokens.AccessToken) as Record<string, unknown>,
+      "secret"
+    );
+
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, forged)
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
+  });
+
+  it("throws if the token is an id token", async () => {
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, tokens.IdToken)
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
+  });
+
+  it("throws if the token's client doesn't exist", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(null);
+
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, tokens.AccessToken)
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
+  });
+
+  it("throws if the token was issued by another user pool", async () => {
+    const otherPoolTokens = await tokenGenerator.generate(
+      TestContext,
+      user,
+      [],
+      "clientId",
+      "otherPool",
+      undefined,
+      "Authentication"
+    );
+
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, otherPoolTokens.AccessToken)
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
+  });
+
+  it("throws if the token has expired", async () => {
+    clock.advanceBy(24 * 60 * 60 * 1000);
+
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, tokens.AccessToken)
+    ).rejects.toEqual(new NotAuthorizedError("Access Token has expired"));
+  });
+
+  it("throws if the token's refresh token has been revoked", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue({
+      ...user,
+      RefreshTokens: [],
+    });
+
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, tokens.AccessToken)
+    ).rejects.toEqual(new NotAuthorizedError("Access Token has been revoked"));
+  });
+
+  it("throws if the token's user has been disabled", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue({
+      ...user,
+      Enabled: false,
+    });
+
+    await expect(
+      tokenVerifier.verifyAccessToken(TestContext, tokens.AccessToken)
+    ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+  });
+});
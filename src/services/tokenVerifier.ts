@@ -0,0 +1,106 @@
+import jwt from "jsonwebtoken";
+import { NotAuthorizedError } from "../errors";
+import PublicKey from "../keys/cognitoLocal.public.json";
+import { Clock } from "./clock";
+import { CognitoService } from "./cognitoService";
+import { Context } from "./context";
+import { refreshTokenJti, Token, TokenConfig } from "./tokenGenerator";
+import { User, UserPoolService } from "./userPoolService";
+
+export interface VerifiedAccessToken {
+  readonly token: Token;
+  readonly userPool: UserPoolService;
+  /**
+   * The user the token was issued to, or null if they have since been deleted
+   */
+  readonly user: User | null;
+}
+
+export interface TokenVerifier {
+  /**
+   * Verifies an access token sent by a user to authenticate themselves, and finds the user pool and user it was issued
+   * for. Throws a NotAuthorizedError if the token wasn't issued by us, has expired, has been revoked, or its user
+   * has been disabled.
+   */
+  verifyAccessToken(
+    ctx: Context,
+    accessToken: string
+  ): Promise<VerifiedAccessToken>;
+}
+
+export class JwtTokenVerifier implements TokenVerifier {
+  private readonly clock: Clock;
+  private readonly cognito: CognitoService;
+  private readonly tokenConfig: TokenConfig;
+
+  public constructor(
+    clock: Clock,
+    cognito: CognitoService,
+    tokenConfig: TokenConfig
+  ) {
+    this.clock = clock;
+    this.cognito = cognito;
+    this.tokenConfig = tokenConfig;
+  }
+
+  public async verifyAccessToken(
+    ctx: Context,
+    accessToken: string
+  ): Promise<VerifiedAccessToken> {
+    let token: Token;
+    try {
+      // we check the expiry ourselves so it follows our clock
+      token = jwt.verify(accessToken, PublicKey.pem, {
+        algorithms: ["RS256"],
+        ignoreExpiration: true,
+      }) as Token;
+    } catch (err) {
+      ctx.logger.info({ error: err }, "Unable to verify access token");
+      throw new NotAuthorizedError("Invalid Access Token");
+    }
+
+    if (token.token_use !== "access") {
+      ctx.logger.info(
+        { tokenUse: token.token_use },
+        "Token is not an access token"
+      );
+      throw new NotAuthorizedError("Invalid Access Token");
+    }
+
+    const appClient = await this.cognito.getAppClient(ctx, token.client_id);
+    if (!appClient) {
+      ctx.logger.info({ clientId: token.client_id }, "Unknown token client");
+      throw new NotAuthorizedError("Invalid Access Token");
+    }
+
+    const userPool = await this.cognito.getUserPool(ctx, appClient.UserPoolId);
+    if (
+      token.iss !== `${this.tokenConfig.IssuerDomain}/${userPool.config.Id}`
+    ) {
+      ctx.logger.info(
+        { iss: token.iss, userPoolId: userPool.config.Id },
+        "Token was not issued by the client's user pool"
+      );
+      throw new NotAuthorizedError("Invalid Access Token");
+    }
+
+    if (token.exp <= Math.floor(this.clock.get().getTime() / 1000)) {
+      throw new NotAuthorizedError("Access Token has expired");
+    }
+
+    // access tokens are revoked along with the refresh token they were issued with
+    const user = await userPool.getUserByUsername(ctx, token.sub);
+    if (user) {
+      if (!user.Enabled) {
+        throw new NotAuthorizedError("User is disabled.");
+      }
+
+      const refreshTokenJtis = (user.RefreshTokens ?? []).map(refreshTokenJti);
+      if (!token.origin_jti || !refreshTokenJtis.includes(token.origin_jti)) {
+        throw new NotAuthorizedError("Access Token has been revoked");
+      }
+    }
+
+    return { token, userPool, user };
+  }
+}
@@ -0,0 +1,78 @@
+import { newMockLambda } from "../../__tests__/mockLambda";
+import { TestContext } from "../../__tests__/testContext";
+import * as TDB from "../../__tests__/testDataBuilder";
+import { Lambda } from "../lambda";
+import { attributesToRecord } from "../userPoolService";
+import {
+  CreateAuthChallenge,
+  CreateAuthChallengeTrigger,
+} from "./createAuthChallenge";
+
+describe("CreateAuthChallenge trigger", () => {
+  let mockLambda: jest.Mocked<Lambda>;
+  let createAuthChallenge: CreateAuthChallengeTrigger;
+
+  beforeEach(() => {
+    mockLambda = newMockLambda();
+    createAuthChallenge = CreateAuthChallenge({
+      lambda: mockLambda,
+    });
+  });
+
+  describe("CreateAuthChallenge_Authentication", () => {
+    const user = TDB.user();
+
+    it("invokes the lambda with the challenge name and session", async () => {
+      mockLambda.invoke.mockResolvedValue({
+        challengeMetadata: "metadata",
+        privateChallengeParameters: { answer: "secret" },
+        publicChallengeParameters: { hint: "public" },
+      });
+
+      const response = await createAuthChallenge(TestContext, {
+        challengeName: "CUSTOM_CHALLENGE",
+        clientId: "clientId",
+        clientMetadata: {
+          client: "metadata",
+        },
+        session: [
+          {
+            ChallengeName: "SRP_A",
+            ChallengeResult: true,
+          },
+        ],
+        userAttributes: user.Attributes,
+        username: user.Username,
+        userPoolId: "userPoolId",
+      });
+
+      expect(response).toEqual({
+        challengeMetadata: "metadata",
+        privateChallengeParameters: { answer: "secret" },
+        publicChallengeParameters: { hint: "public" },
+      });
+      expect(mockLambda.invoke).toHaveBeenCalledWith(
+        TestContext,
+        "CreateAuthChallenge",
+        {
+          challengeName: "CUSTOM_CHALLENGE",
+          clientId: "clientId",
+          clientMetadata: {
+            client: "metadata",
+          },
+          session: [
+            {
+              challengeName: "SRP_A",
+              challengeResult: true,
+              challengeMetadata: undefined,
+            },
+          ],
+          triggerSource: "CreateAuthChallenge_Authentication",
+          userAttributes: attributesToRecord(user.Attributes),
+          userPoolId: "userPoolId",
+          username: user.Username,
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { AttributeListType } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { CreateAuthChallengeTriggerResponse, Lambda } from "../lambda";
+import { attributesToRecord, ChallengeResult } from "../userPoolService";
+import { Trigger } from "./trigger";
+
+export type CreateAuthChallengeTrigger = Trigger<
+  {
+    /**
+     * The name of the challenge the DefineAuthChallenge trigger asked for
+     */
+    challengeName: string;
+    clientId: string;
+    /**
+     * One or more key-value pairs that you can provide as custom input to the Lambda function that you specify for the
+     * create auth challenge trigger. You can pass this data to your Lambda function by using the ClientMetadata
+     * parameter in the AdminRespondToAuthChallenge and RespondToAuthChallenge API actions.
+     *
+     * Source: https://docs.aws.amazon.com/cognito/latest/developerguide/user-pool-lambda-create-auth-challenge.html
+     */
+    clientMetadata: Record<string, string> | undefined;
+    /**
+     * The challenges the user has answered so far in this authentication, in order
+     */
+    session: readonly ChallengeResult[];
+    userAttributes: AttributeListType;
+    username: string;
+    userPoolId: string;
+  },
+  CreateAuthChallengeTriggerResponse
+>;
+
+type CreateAuthChallengeServices = {
+  lambda: Lambda;
+};
+
+export const CreateAuthChallenge =
+  ({ lambda }: CreateAuthChallengeServices): CreateAuthChallengeTrigger =>
+  async (
+    ctx,
+    {
+      challengeName,
+      clientId,
+      clientMetadata,
+      session,
+      userAttributes,
+      username,
+      userPoolId,
+    }
+  ) =>
+    lambda.invoke(ctx, "CreateAuthChallenge", {
+      challengeName,
+      clientId,
+      clientMetadata,
+      session: session.map((x) => ({
+        challengeName: x.ChallengeName,
+        challengeResult: x.ChallengeResult,
+        challengeMetadata: x.ChallengeMetadata,
+      })),
+      triggerSource: "CreateAuthChallenge_Authentication",
+      userAttributes: attributesToRecord(userAttributes),
+      username,
+      userPoolId,
+    });
@@ -0,0 +1,77 @@
+import { newMockLambda } from "../../__tests__/mockLambda";
+import { TestContext } from "../../__tests__/testContext";
+import * as TDB from "../../__tests__/testDataBuilder";
+import { Lambda } from "../lambda";
+import { attributesToRecord } from "../userPoolService";
+import {
+  DefineAuthChallenge,
+  DefineAuthChallengeTrigger,
+} from "./defineAuthChallenge";
+
+describe("DefineAuthChallenge trigger", () => {
+  let mockLambda: jest.Mocked<Lambda>;
+  let defineAuthChallenge: DefineAuthChallengeTrigger;
+
+  beforeEach(() => {
+    mockLambda = newMockLambda();
+    defineAuthChallenge = DefineAuthChallenge({
+      lambda: mockLambda,
+    });
+  });
+
+  describe("DefineAuthChallenge_Authentication", () => {
+    const user = TDB.user();
+
+    it("invokes the lambda with the session", async () => {
+      mockLambda.invoke.mockResolvedValue({
+        challengeName: "CUSTOM_CHALLENGE",
+        failAuthentication: false,
+        issueTokens: false,
+      });
+
+      const response = await defineAuthChallenge(TestContext, {
+        clientId: "clientId",
+        clientMetadata: {
+          client: "metadata",
+        },
+        session: [
+          {
+            ChallengeName: "CUSTOM_CHALLENGE",
+            ChallengeResult: false,
+            ChallengeMetadata: "metadata",
+          },
+        ],
+        userAttributes: user.Attributes,
+        username: user.Username,
+        userPoolId: "userPoolId",
+      });
+
+      expect(response).toEqual({
+        challengeName: "CUSTOM_CHALLENGE",
+        failAuthentication: false,
+        issueTokens: false,
+      });
+      expect(mockLambda.invoke).toHaveBeenCalledWith(
+        TestContext,
+        "DefineAuthChallenge",
+        {
+          clientId: "clientId",
+          clientMetadata: {
+            client: "metadata",
+          },
+          session: [
+            {
+              challengeName: "CUSTOM_CHALLENGE",
+              challengeResult: false,
+              challengeMetadata: "metadata",
+            },
+          ],
+          triggerSource: "DefineAuthChallenge_Authentication",
+          userAttributes: attributesToRecord(user.Attributes),
+          userPoolId: "userPoolId",
+          username: user.Username,
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { AttributeListType } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { DefineAuthChallengeTriggerResponse, Lambda } from "../lambda";
+import { attributesToRecord, ChallengeResult } from "../userPoolService";
+import { Trigger } from "./trigger";
+
+export type DefineAuthChallengeTrigger = Trigger<
+  {
+    clientId: string;
+    /**
+     * One or more key-value pairs that you can provide as custom input to the Lambda function that you specify for the
+     * define auth challenge trigger. You can pass this data to your Lambda function by using the ClientMetadata
+     * parameter in the AdminRespondToAuthChallenge and RespondToAuthChallenge API actions.
+     *
+     * Source: https://docs.aws.amazon.com/cognito/latest/developerguide/user-pool-lambda-define-auth-challenge.html
+     */
+    clientMetadata: Record<string, string> | undefined;
+    /**
+     * The challenges the user has answered so far in this authentication, in order
+     */
+    session: readonly ChallengeResult[];
+    userAttributes: AttributeListType;
+    username: string;
+    userPoolId: string;
+  },
+  DefineAuthChallengeTriggerResponse
+>;
+
+type DefineAuthChallengeServices = {
+  lambda: Lambda;
+};
+
+export const DefineAuthChallenge =
+  ({ lambda }: DefineAuthChallengeServices): DefineAuthChallengeTrigger =>
+  async (
+    ctx,
+    { clientId, clientMetadata, session, userAttributes, username, userPoolId }
+  ) =>
+    lambda.invoke(ctx, "DefineAuthChallenge", {
+      clientId,
+      clientMetadata,
+      session: session.map((x) => ({
+        challengeName: x.ChallengeName,
+        challengeResult: x.ChallengeResult,
+        challengeMetadata: x.ChallengeMetadata,
+      })),
+      triggerSource: "DefineAuthChallenge_Authentication",
+      userAttributes: attributesToRecord(userAttributes),
+      username,
+      userPoolId,
+    });
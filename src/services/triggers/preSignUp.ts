@@ -5,7 +5,7 @@ import { Trigger } from "./trigger";
 
 export type PreSignUpTrigger = Trigger<
   {
-    clientId: string;
+    clientId: string | null;
     source:
       | "PreSignUp_AdminCreateUser"
       | "PreSignUp_ExternalProvider"
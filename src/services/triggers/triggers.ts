@@ -1,7 +1,16 @@
 import { Clock } from "../clock";
 import { CognitoService } from "../cognitoService";
 import { Lambda } from "../lambda";
+import { Passwords } from "../passwords";
+import {
+  CreateAuthChallenge,
+  CreateAuthChallengeTrigger,
+} from "./createAuthChallenge";
 import { CustomMessage, CustomMessageTrigger } from "./customMessage";
+import {
+  DefineAuthChallenge,
+  DefineAuthChallengeTrigger,
+} from "./defineAuthChallenge";
 import {
   PostAuthentication,
   PostAuthenticationTrigger,
@@ -13,48 +22,70 @@ import {
   PreTokenGenerationTrigger,
 } from "./preTokenGeneration";
 import { UserMigration, UserMigrationTrigger } from "./userMigration";
+import {
+  VerifyAuthChallengeResponse,
+  VerifyAuthChallengeResponseTrigger,
+} from "./verifyAuthChallengeResponse";
 
 type SupportedTriggers =
+  | "CreateAuthChallenge"
   | "CustomMessage"
+  | "DefineAuthChallenge"
   | "UserMigration"
   | "PostAuthentication"
   | "PostConfirmation"
   | "PreSignUp"
-  | "PreTokenGeneration";
+  | "PreTokenGeneration"
+  | "VerifyAuthChallengeResponse";
 
 export interface Triggers {
   enabled(trigger: SupportedTriggers): boolean;
+  createAuthChallenge: CreateAuthChallengeTrigger;
   customMessage: CustomMessageTrigger;
+  defineAuthChallenge: DefineAuthChallengeTrigger;
   postAuthentication: PostAuthenticationTrigger;
   postConfirmation: PostConfirmationTrigger;
   preSignUp: PreSignUpTrigger;
   preTokenGeneration: PreTokenGenerationTrigger;
   userMigration: UserMigrationTrigger;
+  verifyAuthChallengeResponse: VerifyAuthChallengeResponseTrigger;
 }
 
 export class TriggersService implements Triggers {
   private readonly lambda: Lambda;
 
+  public readonly createAuthChallenge: CreateAuthChallengeTrigger;
   public readonly customMessage: CustomMessageTrigger;
+  public readonly defineAuthChallenge: DefineAuthChallengeTrigger;
   public readonly postAuthentication: PostAuthenticationTrigger;
   public readonly postConfirmation: PostConfirmationTrigger;
   public readonly preSignUp: PreSignUpTrigger;
   public readonly preTokenGeneration: PreTokenGenerationTrigger;
   public readonly userMigration: UserMigrationTrigger;
+  public readonly verifyAuthChallengeResponse: VerifyAuthChallengeResponseTrigger;
 
   public constructor(
     clock: Clock,
     cognitoClient: CognitoService,
+    passwords: Passwords,
     lambda: Lambda
   ) {
     this.lambda = lambda;
 
+    this.createAuthChallenge = CreateAuthChallenge({ lambda });
     this.customMessage = CustomMessage({ lambda });
+    this.defineAuthChallenge = DefineAuthChallenge({ lambda });
     this.postAuthentication = PostAuthentication({ lambda });
     this.postConfirmation = PostConfirmation({ lambda });
     this.preSignUp = PreSignUp({ lambda });
     this.preTokenGeneration = PreTokenGeneration({ lambda });
-    this.userMigration = UserMigration({ clock, lambda, cognitoClient });
+    this.userMigration = UserMigration({
+      clock,
+      lambda,
+      cognitoClient,
+      passwords,
+    });
+    this.verifyAuthChallengeResponse = VerifyAuthChallengeResponse({ lambda });
   }
 
   public enabled(trigger: SupportedTriggers): boolean {
@@ -1,26 +1,35 @@
 import { newMockCognitoService } from "../../__tests__/mockCognitoService";
 import { newMockLambda } from "../../__tests__/mockLambda";
+import { newMockPasswords } from "../../__tests__/mockPasswords";
 import { newMockUserPoolService } from "../../__tests__/mockUserPoolService";
 import { UUID } from "../../__tests__/patterns";
 import { TestContext } from "../../__tests__/testContext";
 import { NotAuthorizedError } from "../../errors";
 import { DateClock } from "../clock";
 import { Lambda } from "../lambda";
+import { Passwords } from "../passwords";
 import { UserPoolService } from "../userPoolService";
 import { UserMigration, UserMigrationTrigger } from "./userMigration";
 
 describe("UserMigration trigger", () => {
   let mockLambda: jest.Mocked<Lambda>;
+  let mockPasswords: jest.Mocked<Passwords>;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
   let userMigration: UserMigrationTrigger;
 
   beforeEach(() => {
     mockLambda = newMockLambda();
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
     mockUserPoolService = newMockUserPoolService();
     userMigration = UserMigration({
       clock: new DateClock(),
       cognitoClient: newMockCognitoService(mockUserPoolService),
       lambda: mockLambda,
+      passwords: mockPasswords,
     });
   });
 
@@ -85,7 +94,12 @@ describe("UserMigration trigger", () => {
 
       expect(user).not.toBeNull();
       expect(user.Username).toEqual(expect.stringMatching(UUID));
-      expect(user.Password).toEqual("password");
+      expect(mockPasswords.credentials).toHaveBeenCalledWith(
+        "userPoolId",
+        user.Username,
+        "password"
+      );
+      expect(user.Password).toEqual("hashed password");
       expect(user.Attributes).toContainEqual({
         Name: "email",
         Value: "example@example.com",
@@ -4,6 +4,7 @@ import { NotAuthorizedError, ResourceNotFoundError } from "../../errors";
 import { Clock } from "../clock";
 import { CognitoService } from "../cognitoService";
 import { UserMigrationTriggerResponse, Lambda } from "../lambda";
+import { Passwords } from "../passwords";
 import {
   attributesFromRecord,
   attributesToRecord,
@@ -43,6 +44,7 @@ interface UserMigrationServices {
   clock: Clock;
   cognitoClient: CognitoService;
   lambda: Lambda;
+  passwords: Passwords;
 }
 
 export const UserMigration =
@@ -50,6 +52,7 @@ export const UserMigration =
     lambda,
     cognitoClient,
     clock,
+    passwords,
   }: UserMigrationServices): UserMigrationTrigger =>
   async (
     ctx,
@@ -86,13 +89,14 @@ export const UserMigration =
     }
 
     const now = clock.get();
+    const newUsername = uuid.v4();
     const user: User = {
       Attributes: attributesFromRecord(result.userAttributes ?? {}),
       Enabled: true,
-      Password: password,
+      ...(await passwords.credentials(userPoolId, newUsername, password)),
       UserCreateDate: now,
       UserLastModifiedDate: now,
-      Username: uuid.v4(),
+      Username: newUsername,
       UserStatus: result.finalUserStatus ?? "CONFIRMED",
       RefreshTokens: [],
     };
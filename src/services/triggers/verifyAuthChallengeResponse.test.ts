@@ -0,0 +1,61 @@
+import { newMockLambda } from "../../__tests__/mockLambda";
+import { TestContext } from "../../__tests__/testContext";
+import * as TDB from "../../__tests__/testDataBuilder";
+import { Lambda } from "../lambda";
+import { attributesToRecord } from "../userPoolService";
+import {
+  VerifyAuthChallengeResponse,
+  VerifyAuthChallengeResponseTrigger,
+} from "./verifyAuthChallengeResponse";
+
+describe("VerifyAuthChallengeResponse trigger", () => {
+  let mockLambda: jest.Mocked<Lambda>;
+  let verifyAuthChallengeResponse: VerifyAuthChallengeResponseTrigger;
+
+  beforeEach(() => {
+    mockLambda = newMockLambda();
+    verifyAuthChallengeResponse = VerifyAuthChallengeResponse({
+      lambda: mockLambda,
+    });
+  });
+
+  describe("VerifyAuthChallengeResponse_Authentication", () => {
+    const user = TDB.user();
+
+    it("invokes the lambda with the answer", async () => {
+      mockLambda.invoke.mockResolvedValue({
+        answerCorrect: true,
+      });
+
+      const response = await verifyAuthChallengeResponse(TestContext, {
+        challengeAnswer: "answer",
+        clientId: "clientId",
+        clientMetadata: {
+          client: "metadata",
+        },
+        privateChallengeParameters: { answer: "secret" },
+        userAttributes: user.Attributes,
+        username: user.Username,
+        userPoolId: "userPoolId",
+      });
+
+      expect(response).toEqual({ answerCorrect: true });
+      expect(mockLambda.invoke).toHaveBeenCalledWith(
+        TestContext,
+        "VerifyAuthChallengeResponse",
+        {
+          challengeAnswer: "answer",
+          clientId: "clientId",
+          clientMetadata: {
+            client: "metadata",
+          },
+          privateChallengeParameters: { answer: "secret" },
+          triggerSource: "VerifyAuthChallengeResponse_Authentication",
+          userAttributes: attributesToRecord(user.Attributes),
+          userPoolId: "userPoolId",
+          username: user.Username,
+        }
+      );
+    });
+  });
+});
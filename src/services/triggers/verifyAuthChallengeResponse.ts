@@ -0,0 +1,61 @@
+import { AttributeListType } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { Lambda, VerifyAuthChallengeResponseTriggerResponse } from "../lambda";
+import { attributesToRecord } from "../userPoolService";
+import { Trigger } from "./trigger";
+
+export type VerifyAuthChallengeResponseTrigger = Trigger<
+  {
+    /**
+     * The user's response to the challenge, the ANSWER in the challenge responses
+     */
+    challengeAnswer: string;
+    clientId: string;
+    /**
+     * One or more key-value pairs that you can provide as custom input to the Lambda function that you specify for the
+     * verify auth challenge trigger. You can pass this data to your Lambda function by using the ClientMetadata
+     * parameter in the AdminRespondToAuthChallenge and RespondToAuthChallenge API actions.
+     *
+     * Source: https://docs.aws.amazon.com/cognito/latest/developerguide/user-pool-lambda-verify-auth-challenge-response.html
+     */
+    clientMetadata: Record<string, string> | undefined;
+    /**
+     * The private parameters the CreateAuthChallenge trigger returned for the challenge
+     */
+    privateChallengeParameters: Record<string, string>;
+    userAttributes: AttributeListType;
+    username: string;
+    userPoolId: string;
+  },
+  VerifyAuthChallengeResponseTriggerResponse
+>;
+
+type VerifyAuthChallengeResponseServices = {
+  lambda: Lambda;
+};
+
+export const VerifyAuthChallengeResponse =
+  ({
+    lambda,
+  }: VerifyAuthChallengeResponseServices): VerifyAuthChallengeResponseTrigger =>
+  async (
+    ctx,
+    {
+      challengeAnswer,
+      clientId,
+      clientMetadata,
+      privateChallengeParameters,
+      userAttributes,
+      username,
+      userPoolId,
+    }
+  ) =>
+    lambda.invoke(ctx, "VerifyAuthChallengeResponse", {
+      challengeAnswer,
+      clientId,
+      clientMetadata,
+      privateChallengeParameters,
+      triggerSource: "VerifyAuthChallengeResponse_Authentication",
+      userAttributes: attributesToRecord(userAttributes),
+      username,
+      userPoolId,
+    });
@@ -0,0 +1,88 @@
+import { InvalidParameterError } from "../errors";
+import * as TDB from "../__tests__/testDataBuilder";
+import { parseUserFilter } from "./userFilter";
+
+describe("parseUserFilter", () => {
+  const alice = TDB.user({
+    Username: "alice",
+    Attributes: [
+      { Name: "sub", Value: "4f1b6a2c" },
+      { Name: "email", Value: "alice@example.com" },
+      { Name: "given_name", Value: "Alice" },
+      { Name: "custom:team", Value: "red" },
+    ],
+    Enabled: true,
+    UserStatus: "CONFIRMED",
+  });
+  const bob = TDB.user({
+    Username: "bob",
+    Attributes: [
+      { Name: "sub", Value: "9c0d3e7f" },
+      { Name: "email", Value: "bob@example.com" },
+      { Name: "phone_number", Value: "+61400000000" },
+    ],
+    Enabled: false,
+    UserStatus: "UNCONFIRMED",
+  });
+  const users = [alice, bob];
+
+  it.each([undefined, "", "   "])(
+    "matches all users for filter %p",
+    (filter) => {
+      expect(users.filter(parseUserFilter(filter))).toEqual(users);
+    }
+  );
+
+  it.each`
+    filter                                   | expected
+    ${'username = "alice"'}                  | ${[alice]}
+    ${'username = "Alice"'}                  | ${[]}
+    ${'username ^= "b"'}                     | ${[bob]}
+    ${'email = "bob@example.com"'}           | ${[bob]}
+    ${'email ^= "alice"'}                    | ${[alice]}
+    ${'email ^= ""'}                         | ${[alice, bob]}
+    ${'phone_number ^= "+614"'}              | ${[bob]}
+    ${'given_name = "Alice"'}                | ${[alice]}
+    ${'family_name = "Alice"'}               | ${[]}
+    ${'sub = "9c0d3e7f"'}                    | ${[bob]}
+    ${'status = "Enabled"'}                  | ${[alice]}
+    ${'status = "Disabled"'}                 | ${[bob]}
+    ${'status = "disabled"'}                 | ${[]}
+    ${'cognito:user_status = "unconfirmed"'} | ${[bob]}
+    ${'cognito:user_status ^= "CONF"'}       | ${[alice]}
+    ${'email="alice@example.com"'}           | ${[alice]}
+  `("filters users by $filter", ({ filter, expected }) => {
+    expect(users.filter(parseUserFilter(filter))).toEqual(expected);
+  });
+
+  it("unescapes quotes in the value", () => {
+    const user = TDB.user({
+      Attributes: [{ Name: "name", Value: 'Robert "Bobby" Tables' }],
+    });
+
+    expect(parseUserFilter('name = "Robert \\"Bobby\\" Tables"')(user)).toBe(
+      true
+    );
+  });
+
+  it.each(["custom:team", "address", "updated_at"])(
+    "throws if the attribute %s is not searchable",
+    (attributeName) => {
+      expect(() => parseUserFilter(`${attributeName} = "red"`)).toThrow(
+        new InvalidParameterError(`Invalid search attribute: ${attributeName}`)
+      );
+    }
+  );
+
+  it.each([
+    "email",
+    "email = alice",
+    'email != "alice"',
+    'email = "alice',
+    'email = "alice" and name = "bob"',
+  ])("throws if the filter %p is malformed", (filter) => {
+    expect(() => parseUserFilter(filter)).toThrow(
+      new InvalidParameterError("Error while parsing filter.")
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { InvalidParameterError } from "../errors";
+import { attributeValue, User } from "./userPoolService";
+
+export type UserFilter = (user: User) => boolean;
+
+interface SearchableAttribute {
+  value: (user: User) => string | undefined;
+  caseSensitive: boolean;
+}
+
+const standardAttribute = (name: string): SearchableAttribute => ({
+  value: (user) => attributeValue(name, user.Attributes),
+  caseSensitive: true,
+});
+
+/**
+ * The attributes Cognito allows ListUsers to search on. Custom attributes are
+ * not searchable.
+ *
+ * See: https://docs.aws.amazon.com/cognito/latest/developerguide/how-to-manage-user-accounts.html#cognito-user-pools-searching-for-users-listusers-api-examples
+ */
+const SearchableAttributes: Record<string, SearchableAttribute> = {
+  username: { value: (user) => user.Username, caseSensitive: true },
+  email: standardAttribute("email"),
+  phone_number: standardAttribute("phone_number"),
+  name: standardAttribute("name"),
+  given_name: standardAttribute("given_name"),
+  family_name: standardAttribute("family_name"),
+  preferred_username: standardAttribute("preferred_username"),
+  "cognito:user_status": {
+    value: (user) => user.UserStatus,
+    caseSensitive: false,
+  },
+  status: {
+    value: (user) => (user.Enabled ? "Enabled" : "Disabled"),
+    caseSensitive: true,
+  },
+  sub: standardAttribute("sub"),
+};
+
+// attribute_name =|^= "value", where quotes and backslashes inside the value
+// are escaped with a backslash
+const FILTER_REGEX = /^\s*([\w:]+)\s*(=|\^=)\s*"((?:[^"\\]|\\.)*)"\s*$/;
+
+/**
+ * Parses a ListUsers Filter expression into a predicate over users. An empty
+ * or missing filter matches every user.
+ *
+ * @throws InvalidParameterError if the filter is malformed or the attribute
+ *         isn't searchable
+ */
+export const parseUserFilter = (filter: string | undefined): UserFilter => {
+  if (!filter?.trim()) {
+    return () => true;
+  }
+
+  const match = FILTER_REGEX.exec(filter);
+  if (!match) {
+    throw new InvalidParameterError("Error while parsing filter.");
+  }
+
+  const [, attributeName, filterType, escapedValue] = match;
+  const attribute = SearchableAttributes[attributeName];
+  if (!attribute) {
+    throw new InvalidParameterError(
+      `Invalid search attribute: ${attributeName}`
+    );
+  }
+
+  const normalise = (value: string) =>
+    attribute.caseSensitive ? value : value.toLowerCase();
+  const searchValue = normalise(escapedValue.replace(/\\(.)/g, "$1"));
+
+  return (user) => {
+    const value = attribute.value(user);
+    if (value === undefined) {
+      return false;
+    }
+
+    return filterType === "^="
+      ? normalise(value).startsWith(searchValue)
+      : normalise(value) === searchValue;
+  };
+};
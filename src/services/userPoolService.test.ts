@@ -92,6 +92,113 @@ describe("User Pool Service", () => {
         result
       );
     });
+
+    it("saves an app client with settings", async () => {
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        newMockDataStore(),
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      const result = await userPool.createAppClient(TestContext, "clientName", {
+        ExplicitAuthFlows: ["ALLOW_USER_PASSWORD_AUTH"],
+        RefreshTokenValidity: 10,
+      });
+
+      expect(result).toEqual({
+        AllowedOAuthFlowsUserPoolClient: false,
+        ClientId: expect.stringMatching(/^[a-z0-9]{25}$/),
+        ClientName: "clientName",
+        CreationDate: currentDate,
+        ExplicitAuthFlows: ["ALLOW_USER_PASSWORD_AUTH"],
+        LastModifiedDate: currentDate,
+        RefreshTokenValidity: 10,
+        UserPoolId: "local",
+      });
+    });
+  });
+
+  describe("saveAppClient", () => {
+    it("saves the app client", async () => {
+      const appClient = TDB.appClient();
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        newMockDataStore(),
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.saveAppClient(TestContext, appClient);
+
+      expect(mockClientsDataStore.set).toHaveBeenCalledWith(
+        TestContext,
+        ["Clients", appClient.ClientId],
+        appClient
+      );
+    });
+  });
+
+  describe("deleteAppClient", () => {
+    it("deletes the app client", async () => {
+      const appClient = TDB.appClient();
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        newMockDataStore(),
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.deleteAppClient(TestContext, appClient);
+
+      expect(mockClientsDataStore.delete).toHaveBeenCalledWith(TestContext, [
+        "Clients",
+        appClient.ClientId,
+      ]);
+    });
+  });
+
+  describe("listAppClients", () => {
+    it("returns the user pool's app clients", async () => {
+      const appClientA = TDB.appClient({ UserPoolId: "local" });
+      const appClientB = TDB.appClient({ UserPoolId: "local" });
+      const otherAppClient = TDB.appClient({ UserPoolId: "other" });
+      mockClientsDataStore.get.mockResolvedValue({
+        [appClientA.ClientId]: appClientA,
+        [appClientB.ClientId]: appClientB,
+        [otherAppClient.ClientId]: otherAppClient,
+      });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        newMockDataStore(),
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      const result = await userPool.listAppClients(TestContext);
+
+      expect(mockClientsDataStore.get).toHaveBeenCalledWith(
+        TestContext,
+        "Clients",
+        {}
+      );
+      expect(result).toEqual([appClientA, appClientB]);
+    });
   });
 
   describe("saveUser", () => {
@@ -125,6 +232,9 @@ describe("User Pool Service", () => {
 
     it("deletes the user", async () => {
       const ds = newMockDataStore();
+      ds.get.mockImplementation((ctx, key, defaults) =>
+        Promise.resolve(defaults)
+      );
 
       const userPool = new UserPoolServiceImpl(
         mockClientsDataStore,
@@ -143,6 +253,48 @@ describe("User Pool Service", () => {
         user.Username,
       ]);
     });
+
+    it("removes the user from any groups they're a member of", async () => {
+      const ds = newMockDataStore();
+      const memberGroup = TDB.group({
+        members: ["other-user", user.Username],
+      });
+      const otherGroup = TDB.group({
+        members: ["other-user"],
+      });
+      ds.get.mockImplementation((ctx, key) =>
+        Promise.resolve(
+          key === "Groups"
+            ? {
+                [memberGroup.GroupName]: memberGroup,
+                [otherGroup.GroupName]: otherGroup,
+              }
+            : null
+        )
+      );
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.deleteUser(TestContext, user);
+
+      expect(ds.set).toHaveBeenCalledTimes(1);
+      expect(ds.set).toHaveBeenCalledWith(
+        TestContext,
+        ["Groups", memberGroup.GroupName],
+        {
+          ...memberGroup,
+          members: ["other-user"],
+        }
+      );
+    });
   });
 
   describe("getUserByUsername", () => {
@@ -364,6 +516,118 @@ describe("User Pool Service", () => {
     });
   });
 
+  describe("saveAuthSession", () => {
+    it("saves the session and drops any which have expired", async () => {
+      const expiredSession = TDB.authSession({ ExpirationDate: currentDate });
+      const unexpiredSession = TDB.authSession({
+        ExpirationDate: new Date(currentDate.getTime() + 1000),
+      });
+      const authSession = TDB.authSession();
+      const ds = newMockDataStore();
+      ds.get.mockResolvedValue({
+        [expiredSession.Session]: expiredSession,
+        [unexpiredSession.Session]: unexpiredSession,
+      });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.saveAuthSession(TestContext, authSession);
+
+      expect(ds.set).toHaveBeenCalledWith(TestContext, "Sessions", {
+        [unexpiredSession.Session]: unexpiredSession,
+        [authSession.Session]: authSession,
+      });
+    });
+  });
+
+  describe("getAuthSession", () => {
+    it("returns the session", async () => {
+      const authSession = TDB.authSession();
+      const ds = newMockDataStore();
+      ds.get.mockResolvedValue({ [authSession.Session]: authSession });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      const result = await userPool.getAuthSession(
+        TestContext,
+        authSession.Session
+      );
+
+      expect(result).toEqual(authSession);
+    });
+
+    it("returns null if the session doesn't exist", async () => {
+      const ds = newMockDataStore();
+      ds.get.mockImplementation((ctx, key, defaults) =>
+        Promise.resolve(defaults)
+      );
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      const result = await userPool.getAuthSession(TestContext, "session");
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("deleteAuthSession", () => {
+    it("deletes the session and drops any which have expired", async () => {
+      const expiredSession = TDB.authSession({ ExpirationDate: currentDate });
+      const unexpiredSession = TDB.authSession({
+        ExpirationDate: new Date(currentDate.getTime() + 1000),
+      });
+      const authSession = TDB.authSession({
+        ExpirationDate: new Date(currentDate.getTime() + 1000),
+      });
+      const ds = newMockDataStore();
+      ds.get.mockResolvedValue({
+        [expiredSession.Session]: expiredSession,
+        [unexpiredSession.Session]: unexpiredSession,
+        [authSession.Session]: authSession,
+      });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.deleteAuthSession(TestContext, authSession.Session);
+
+      expect(ds.set).toHaveBeenCalledWith(TestContext, "Sessions", {
+        [unexpiredSession.Session]: unexpiredSession,
+      });
+    });
+  });
+
   describe("saveGroup", () => {
     it("saves the group", async () => {
       const now = new Date();
@@ -447,4 +711,242 @@ describe("User Pool Service", () => {
       expect(groups[0].GroupName).toEqual("theGroupName");
     });
   });
+
+  describe("deleteGroup", () => {
+    it("deletes the group", async () => {
+      const group = TDB.group();
+      const ds = newMockDataStore();
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.deleteGroup(TestContext, group);
+
+      expect(ds.delete).toHaveBeenCalledWith(TestContext, [
+        "Groups",
+        group.GroupName,
+      ]);
+    });
+  });
+
+  describe("getGroupByGroupName", () => {
+    it("returns the group", async () => {
+      const group = TDB.group();
+      const ds = newMockDataStore();
+      ds.get.mockResolvedValue({ [group.GroupName]: group });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      const result = await userPool.getGroupByGroupName(
+        TestContext,
+        group.GroupName
+      );
+
+      expect(result).toEqual(group);
+    });
+
+    it("returns null if the group doesn't exist", async () => {
+      const ds = newMockDataStore();
+      ds.get.mockImplementation((ctx, key, defaults) =>
+        Promise.resolve(defaults)
+      );
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      const result = await userPool.getGroupByGroupName(TestContext, "group");
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("addUserToGroup", () => {
+    it("adds the user to the group's members", async () => {
+      const ds = newMockDataStore();
+      const group = TDB.group({
+        members: ["other-user"],
+      });
+      const user = TDB.user();
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.addUserToGroup(TestContext, group, user);
+
+      expect(ds.set).toHaveBeenCalledWith(
+        TestContext,
+        ["Groups", group.GroupName],
+        {
+          ...group,
+          members: ["other-user", user.Username],
+        }
+      );
+    });
+
+    it("does nothing if the user is already a member", async () => {
+      const ds = newMockDataStore();
+      const user = TDB.user();
+      const group = TDB.group({
+        members: [user.Username],
+      });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.addUserToGroup(TestContext, group, user);
+
+      expect(ds.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("removeUserFromGroup", () => {
+    it("removes the user from the group's members", async () => {
+      const ds = newMockDataStore();
+      const user = TDB.user();
+      const group = TDB.group({
+        members: ["other-user", user.Username],
+      });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.removeUserFromGroup(TestContext, group, user);
+
+      expect(ds.set).toHaveBeenCalledWith(
+        TestContext,
+        ["Groups", group.GroupName],
+        {
+          ...group,
+          members: ["other-user"],
+        }
+      );
+    });
+
+    it("does nothing if the user isn't a member", async () => {
+      const ds = newMockDataStore();
+      const user = TDB.user();
+      const group = TDB.group({
+        members: ["other-user"],
+      });
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.removeUserFromGroup(TestContext, group, user);
+
+      expect(ds.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listUserGroupMembership", () => {
+    it("returns the groups the user is a member of", async () => {
+      const user = TDB.user();
+      const groupB = TDB.group({ GroupName: "b", members: [user.Username] });
+      const groupA = TDB.group({ GroupName: "a", members: [user.Username] });
+      const groupC = TDB.group({ GroupName: "c", members: ["other-user"] });
+
+      const ds = newMockDataStore();
+      ds.get.mockImplementation((ctx, key) =>
+        Promise.resolve(
+          key === "Groups"
+            ? {
+                [groupB.GroupName]: groupB,
+                [groupA.GroupName]: groupA,
+                [groupC.GroupName]: groupC,
+              }
+            : null
+        )
+      );
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      const result = await userPool.listUserGroupMembership(TestContext, user);
+
+      expect(result).toEqual([groupA, groupB]);
+    });
+  });
+
+  describe("updateOptions", () => {
+    it("saves the user pool's options", async () => {
+      const ds = newMockDataStore();
+
+      const userPool = new UserPoolServiceImpl(
+        mockClientsDataStore,
+        clock,
+        ds,
+        {
+          Id: "local",
+          UsernameAttributes: [],
+        }
+      );
+
+      await userPool.updateOptions(TestContext, {
+        Id: "local",
+        MfaConfiguration: "ON",
+      });
+
+      expect(ds.set).toHaveBeenCalledWith(TestContext, "Options", {
+        Id: "local",
+        MfaConfiguration: "ON",
+      });
+    });
+  });
 });
@@ -1,17 +1,24 @@
 import {
   AttributeListType,
   AttributeType,
+  ChallengeNameType,
   MFAOptionListType,
   SchemaAttributesListType,
   UserPoolType,
   UserStatusType,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { InvalidParameterError } from "../errors";
-import { AppClient, newId } from "./appClient";
+import {
+  APP_CLIENT_DEFAULTS,
+  AppClient,
+  AppClientSettings,
+  newId,
+} from "./appClient";
 import { Clock } from "./clock";
 import { Context } from "./context";
 import { DataStore } from "./dataStore/dataStore";
 import { DataStoreFactory } from "./dataStore/factory";
+import { SrpVerifier } from "./srp";
 
 export interface MFAOption {
   DeliveryMedium: "SMS";
@@ -90,8 +97,59 @@ export interface User {
   Password: string;
   AttributeVerificationCode?: string;
   ConfirmationCode?: string;
+  /**
+   * How many times in a row the user has got their password wrong
+   */
+  FailedPasswordAttempts?: number;
+  /**
+   * The user can't sign in with their password until this time, after getting it wrong too many times
+   */
+  LockedOutUntilDate?: Date;
   MFACode?: string;
   RefreshTokens: string[];
+  SrpVerifier?: SrpVerifier;
+}
+
+/**
+ * The server's half of an in progress USER_SRP_AUTH, kept with the PASSWORD_VERIFIER challenge's session
+ */
+export interface SrpChallenge {
+  SecretBlock: string;
+  ClientPublicKey: string;
+  ServerPrivateKey: string;
+}
+
+/**
+ * The outcome of a challenge answered during a CUSTOM_AUTH flow, passed to the auth challenge triggers as the session
+ */
+export interface ChallengeResult {
+  ChallengeName: "CUSTOM_CHALLENGE" | "PASSWORD_VERIFIER" | "SRP_A";
+  ChallengeResult: boolean;
+  ChallengeMetadata?: string;
+}
+
+/**
+ * A challenge issued to a user during authentication, kept until the client responds to it with the Session or it
+ * expires
+ */
+export interface AuthSession {
+  Session: string;
+  Username: string;
+  ClientId: string;
+  ChallengeName: ChallengeNameType;
+  ExpirationDate: Date;
+
+  /**
+   * The server's half of SRP authentication, for a PASSWORD_VERIFIER challenge
+   */
+  SrpChallenge?: SrpChallenge;
+
+  /**
+   * The challenges answered so far, if the session is part of a CUSTOM_AUTH flow
+   */
+  ChallengeResults?: ChallengeResult[];
+  ChallengeMetadata?: string;
+  PrivateChallengeParameters?: Record<string, string>;
 }
 
 export interface Group {
@@ -119,6 +177,10 @@ export interface Group {
    * The date the group was created.
    */
   CreationDate: Date;
+  /**
+   * The usernames of users who are members of this group.
+   */
+  members?: readonly string[];
 }
 
 // just use the types from the sdk, but make Id required
@@ -130,15 +192,30 @@ export type UserPool = UserPoolType & {
 export interface UserPoolService {
   readonly config: UserPool;
 
-  createAppClient(ctx: Context, name: string): Promise<AppClient>;
+  addUserToGroup(ctx: Context, group: Group, user: User): Promise<void>;
+  createAppClient(
+    ctx: Context,
+    name: string,
+    settings?: AppClientSettings & { ClientSecret?: string }
+  ): Promise<AppClient>;
+  deleteAppClient(ctx: Context, appClient: AppClient): Promise<void>;
+  deleteAuthSession(ctx: Context, session: string): Promise<void>;
+  deleteGroup(ctx: Context, group: Group): Promise<void>;
   deleteUser(ctx: Context, user: User): Promise<void>;
+  getAuthSession(ctx: Context, session: string): Promise<AuthSession | null>;
+  getGroupByGroupName(ctx: Context, groupName: string): Promise<Group | null>;
   getUserByUsername(ctx: Context, username: string): Promise<User | null>;
   getUserByRefreshToken(
     ctx: Context,
     refreshToken: string
   ): Promise<User | null>;
+  listAppClients(ctx: Context): Promise<readonly AppClient[]>;
   listGroups(ctx: Context): Promise<readonly Group[]>;
+  listUserGroupMembership(ctx: Context, user: User): Promise<readonly Group[]>;
   listUsers(ctx: Context): Promise<readonly User[]>;
+  removeUserFromGroup(ctx: Context, group: Group, user: User): Promise<void>;
+  saveAppClient(ctx: Context, appClient: AppClient): Promise<void>;
+  saveAuthSession(ctx: Context, authSession: AuthSession): Promise<void>;
   saveGroup(ctx: Context, group: Group): Promise<void>;
   saveUser(ctx: Context, user: User): Promise<void>;
   storeRefreshToken(
@@ -146,6 +223,7 @@ export interface UserPoolService {
     refreshToken: string,
     user: User
   ): Promise<void>;
+  updateOptions(ctx: Context, userPool: UserPool): Promise<void>;
 }
 
 export interface UserPoolServiceFactory {
@@ -175,19 +253,44 @@ export class UserPoolServiceImpl implements UserPoolService {
     this.dataStore = dataStore;
   }
 
-  public async createAppClient(ctx: Context, name: string): Promise<AppClient> {
+  public async addUserToGroup(
+    ctx: Context,
+    group: Group,
+    user: User
+  ): Promise<void> {
+    ctx.logger.debug(
+      { username: user.Username, groupName: group.GroupName },
+      "UserPoolServiceImpl.addUserToGroup"
+    );
+
+    const members = group.members ?? [];
+    if (members.includes(user.Username)) {
+      return;
+    }
+
+    await this.saveGroup(ctx, {
+      ...group,
+      members: [...members, user.Username],
+    });
+  }
+
+  public async createAppClient(
+    ctx: Context,
+    name: string,
+    settings: AppClientSettings & { ClientSecret?: string } = {}
+  ): Promise<AppClient> {
     ctx.logger.debug({ name }, "UserPoolServiceImpl.createAppClient");
     const id = newId();
     const now = this.clock.get();
 
     const appClient: AppClient = {
+      ...APP_CLIENT_DEFAULTS,
+      ...settings,
       ClientId: id,
       ClientName: name,
       UserPoolId: this.config.Id,
       CreationDate: now,
       LastModifiedDate: now,
-      AllowedOAuthFlowsUserPoolClient: false,
-      RefreshTokenValidity: 30,
     };
 
     await this.clientsDataStore.set(ctx, ["Clients", id], appClient);
@@ -195,12 +298,72 @@ export class UserPoolServiceImpl implements UserPoolService {
     return appClient;
   }
 
+  public async deleteAppClient(
+    ctx: Context,
+    appClient: AppClient
+  ): Promise<void> {
+    ctx.logger.debug(
+      { clientId: appClient.ClientId },
+      "UserPoolServiceImpl.deleteAppClient"
+    );
+    await this.clientsDataStore.delete(ctx, ["Clients", appClient.ClientId]);
+  }
+
+  public async deleteAuthSession(ctx: Context, session: string): Promise<void> {
+    ctx.logger.debug({ session }, "UserPoolServiceImpl.deleteAuthSession");
+
+    const sessions = await this.unexpiredAuthSessions(ctx);
+    delete sessions[session];
+
+    await this.dataStore.set(ctx, "Sessions", sessions);
+  }
+
+  public async deleteGroup(ctx: Context, group: Group): Promise<void> {
+    ctx.logger.debug(
+      { groupName: group.GroupName },
+      "UserPoolServiceImpl.deleteGroup"
+    );
+    await this.dataStore.delete(ctx, ["Groups", group.GroupName]);
+  }
+
   public async deleteUser(ctx: Context, user: User): Promise<void> {
     ctx.logger.debug(
       { username: user.Username },
       "UserPoolServiceImpl.deleteUser"
     );
     await this.dataStore.delete(ctx, ["Users", user.Username]);
+    await this.removeUserFromAllGroups(ctx, user);
+  }
+
+  public async getAuthSession(
+    ctx: Context,
+    session: string
+  ): Promise<AuthSession | null> {
+    ctx.logger.debug({ session }, "UserPoolServiceImpl.getAuthSession");
+
+    const sessions = await this.dataStore.get<Record<string, AuthSession>>(
+      ctx,
+      "Sessions",
+      {}
+    );
+
+    return sessions[session] ?? null;
+  }
+
+  public async getGroupByGroupName(
+    ctx: Context,
+    groupName: string
+  ): Promise<Group | null> {
+    ctx.logger.debug({ groupName }, "UserPoolServiceImpl.getGroupByGroupName");
+
+    // pools created before any groups existed have no Groups key, which the data store can't look inside of
+    const groups = await this.dataStore.get<Record<string, Group>>(
+      ctx,
+      "Groups",
+      {}
+    );
+
+    return groups[groupName] ?? null;
   }
 
   public async getUserByUsername(
@@ -268,6 +431,17 @@ export class UserPoolServiceImpl implements UserPoolService {
     return user ?? null;
   }
 
+  public async listAppClients(ctx: Context): Promise<readonly AppClient[]> {
+    ctx.logger.debug("UserPoolServiceImpl.listAppClients");
+    const appClients = await this.clientsDataStore.get<
+      Record<string, AppClient>
+    >(ctx, "Clients", {});
+
+    return Object.values(appClients).filter(
+      (appClient) => appClient.UserPoolId === this.config.Id
+    );
+  }
+
   public async listUsers(ctx: Context): Promise<readonly User[]> {
     ctx.logger.debug("UserPoolServiceImpl.listUsers");
     const users = await this.dataStore.get<Record<string, User>>(
@@ -279,6 +453,34 @@ export class UserPoolServiceImpl implements UserPoolService {
     return Object.values(users);
   }
 
+  public async saveAppClient(
+    ctx: Context,
+    appClient: AppClient
+  ): Promise<void> {
+    ctx.logger.debug({ appClient }, "UserPoolServiceImpl.saveAppClient");
+
+    await this.clientsDataStore.set<AppClient>(
+      ctx,
+      ["Clients", appClient.ClientId],
+      appClient
+    );
+  }
+
+  public async saveAuthSession(
+    ctx: Context,
+    authSession: AuthSession
+  ): Promise<void> {
+    ctx.logger.debug(
+      { session: authSession.Session, username: authSession.Username },
+      "UserPoolServiceImpl.saveAuthSession"
+    );
+
+    await this.dataStore.set(ctx, "Sessions", {
+      ...(await this.unexpiredAuthSessions(ctx)),
+      [authSession.Session]: authSession,
+    });
+  }
+
   public async saveUser(ctx: Context, user: User): Promise<void> {
     ctx.logger.debug({ user }, "UserPoolServiceImpl.saveUser");
 
@@ -296,6 +498,56 @@ export class UserPoolServiceImpl implements UserPoolService {
     return Object.values(groups);
   }
 
+  async listUserGroupMembership(
+    ctx: Context,
+    user: User
+  ): Promise<readonly Group[]> {
+    ctx.logger.debug(
+      { username: user.Username },
+      "UserPoolServiceImpl.listUserGroupMembership"
+    );
+
+    // membership is only stored on the group, so finding a user's groups means scanning every group in the pool.
+    // User Pools in Cognito Local are small enough that this is fine.
+    const groups = await this.listGroups(ctx);
+
+    return groups
+      .filter((group) => group.members?.includes(user.Username))
+      .sort((a, b) => a.GroupName.localeCompare(b.GroupName));
+  }
+
+  async removeUserFromGroup(
+    ctx: Context,
+    group: Group,
+    user: User
+  ): Promise<void> {
+    ctx.logger.debug(
+      { username: user.Username, groupName: group.GroupName },
+      "UserPoolServiceImpl.removeUserFromGroup"
+    );
+
+    const members = group.members ?? [];
+    if (!members.includes(user.Username)) {
+      return;
+    }
+
+    await this.saveGroup(ctx, {
+      ...group,
+      members: members.filter((member) => member !== user.Username),
+    });
+  }
+
+  private async removeUserFromAllGroups(
+    ctx: Context,
+    user: User
+  ): Promise<void> {
+    const groups = await this.listGroups(ctx);
+
+    for (const group of groups) {
+      await this.removeUserFromGroup(ctx, group, user);
+    }
+  }
+
   async saveGroup(ctx: Context, group: Group): Promise<void> {
     ctx.logger.debug({ group }, "UserPoolServiceImpl.saveGroup");
 
@@ -322,6 +574,31 @@ export class UserPoolServiceImpl implements UserPoolService {
       RefreshTokens: refreshTokens,
     });
   }
+
+  async updateOptions(ctx: Context, userPool: UserPool): Promise<void> {
+    ctx.logger.debug({ userPool }, "UserPoolServiceImpl.updateOptions");
+
+    await this.dataStore.set<UserPool>(ctx, "Options", userPool);
+  }
+
+  // sessions which were never answered would otherwise stay in the database forever, so the expired ones are dropped
+  // whenever a session is saved or deleted
+  private async unexpiredAuthSessions(
+    ctx: Context
+  ): Promise<Record<string, AuthSession>> {
+    const now = this.clock.get();
+    const sessions = await this.dataStore.get<Record<string, AuthSession>>(
+      ctx,
+      "Sessions",
+      {}
+    );
+
+    return Object.fromEntries(
+      Object.entries(sessions).filter(
+        ([, { ExpirationDate }]) => ExpirationDate > now
+      )
+    );
+  }
 }
 
 export class UserPoolServiceFactoryImpl implements UserPoolServiceFactory {
@@ -0,0 +1,76 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { GroupNotFoundError, UserNotFoundError } from "../errors";
+import { UserPoolService } from "../services";
+import {
+  AdminAddUserToGroup,
+  AdminAddUserToGroupTarget,
+} from "./adminAddUserToGroup";
+
+describe("AdminAddUserToGroup target", () => {
+  let adminAddUserToGroup: AdminAddUserToGroupTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    adminAddUserToGroup = AdminAddUserToGroup({
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("adds the user to a group", async () => {
+    const existingGroup = TDB.group();
+    const existingUser = TDB.user();
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(existingGroup);
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+
+    await adminAddUserToGroup(TestContext, {
+      GroupName: existingGroup.GroupName,
+      Username: existingUser.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.addUserToGroup).toHaveBeenCalledWith(
+      TestContext,
+      existingGroup,
+      existingUser
+    );
+  });
+
+  it("throws if the group doesn't exist", async () => {
+    const existingUser = TDB.user();
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(null);
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+
+    await expect(
+      adminAddUserToGroup(TestContext, {
+        GroupName: "group",
+        Username: existingUser.Username,
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new GroupNotFoundError());
+
+    expect(mockUserPoolService.addUserToGroup).not.toHaveBeenCalled();
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    const existingGroup = TDB.group();
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(existingGroup);
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    await expect(
+      adminAddUserToGroup(TestContext, {
+        GroupName: existingGroup.GroupName,
+        Username: "user",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new UserNotFoundError("User does not exist"));
+
+    expect(mockUserPoolService.addUserToGroup).not.toHaveBeenCalled();
+  });
+});
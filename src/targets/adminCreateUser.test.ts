@@ -1,12 +1,22 @@
 import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockPasswords } from "../__tests__/mockPasswords";
+import { newMockTriggers } from "../__tests__/mockTriggers";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { UUID } from "../__tests__/patterns";
 import { TestContext } from "../__tests__/testContext";
 import * as TDB from "../__tests__/testDataBuilder";
-import { InvalidParameterError, UsernameExistsError } from "../errors";
-import { Messages, UserPoolService } from "../services";
+import {
+  AliasExistsError,
+  InvalidParameterError,
+  UnsupportedUserStateError,
+  UsernameExistsError,
+  UserLambdaValidationError,
+  UserNotFoundError,
+} from "../errors";
+import { Messages, Passwords, Triggers, UserPoolService } from "../services";
+import { attribute } from "../services/userPoolService";
 import { AdminCreateUser, AdminCreateUserTarget } from "./adminCreateUser";
 
 const originalDate = new Date();
@@ -15,14 +25,24 @@ describe("AdminCreateUser target", () => {
   let adminCreateUser: AdminCreateUserTarget;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
   let mockMessages: jest.Mocked<Messages>;
+  let mockPasswords: jest.Mocked<Passwords>;
+  let mockTriggers: jest.Mocked<Triggers>;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
     mockMessages = newMockMessages();
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
+    mockTriggers = newMockTriggers();
     adminCreateUser = AdminCreateUser({
       cognito: newMockCognitoService(mockUserPoolService),
       clock: new ClockFake(originalDate),
       messages: mockMessages,
+      passwords: mockPasswords,
+      triggers: mockTriggers,
     });
   });
 
@@ -47,7 +67,8 @@ describe("AdminCreateUser target", () => {
         { Name: "phone_number", Value: "0400000000" },
       ],
       Enabled: true,
-      Password: "pwd",
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
       UserCreateDate: originalDate,
       UserLastModifiedDate: originalDate,
       UserStatus: "FORCE_CHANGE_PASSWORD",
@@ -76,7 +97,8 @@ describe("AdminCreateUser target", () => {
         { Name: "phone_number", Value: "0400000000" },
       ],
       Enabled: true,
-      Password: expect.stringMatching(/^[A-Za-z0-9!]{6}$/),
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
       UserCreateDate: originalDate,
       UserLastModifiedDate: originalDate,
       UserStatus: "FORCE_CHANGE_PASSWORD",
@@ -104,7 +126,12 @@ describe("AdminCreateUser target", () => {
           "AdminCreateUser",
           null,
           "test",
-          { ...response.User, Password: "pwd", RefreshTokens: [] },
+          {
+            ...response.User,
+            Password: "hashed password",
+            RefreshTokens: [],
+            SrpVerifier: expect.any(Object),
+          },
           "pwd",
           {
             client: "metadata",
@@ -154,7 +181,12 @@ describe("AdminCreateUser target", () => {
           "AdminCreateUser",
           null,
           "test",
-          { ...response.User, Password: "pwd", RefreshTokens: [] },
+          {
+            ...response.User,
+            Password: "hashed password",
+            RefreshTokens: [],
+            SrpVerifier: expect.any(Object),
+          },
           "pwd",
           {
             client: "metadata",
@@ -203,7 +235,12 @@ describe("AdminCreateUser target", () => {
           "AdminCreateUser",
           null,
           "test",
-          { ...response.User, Password: "pwd", RefreshTokens: [] },
+          {
+            ...response.User,
+            Password: "hashed password",
+            RefreshTokens: [],
+            SrpVerifier: expect.any(Object),
+          },
           "pwd",
           {
             client: "metadata",
@@ -258,7 +295,12 @@ describe("AdminCreateUser target", () => {
           "AdminCreateUser",
           null,
           "test",
-          { ...response.User, Password: "pwd", RefreshTokens: [] },
+          {
+            ...response.User,
+            Password: "hashed password",
+            RefreshTokens: [],
+            SrpVerifier: expect.any(Object),
+          },
           "pwd",
           {
             client: "metadata",
@@ -288,7 +330,12 @@ describe("AdminCreateUser target", () => {
           "AdminCreateUser",
           null,
           "test",
-          { ...response.User, Password: "pwd", RefreshTokens: [] },
+          {
+            ...response.User,
+            Password: "hashed password",
+            RefreshTokens: [],
+            SrpVerifier: expect.any(Object),
+          },
           "pwd",
           {
             client: "metadata",
@@ -321,9 +368,301 @@ describe("AdminCreateUser target", () => {
     });
   });
 
-  it.todo("can create an alias to an existing user");
-  it.todo("can resend the welcome message");
-  it.todo("can suppress the welcome message");
+  describe("MessageAction=SUPPRESS", () => {
+    it("saves the user without sending a welcome message", async () => {
+      await adminCreateUser(TestContext, {
+        MessageAction: "SUPPRESS",
+        TemporaryPassword: "pwd",
+        UserAttributes: [],
+        Username: "user-supplied",
+        UserPoolId: "test",
+      });
+
+      expect(mockMessages.deliver).not.toHaveBeenCalled();
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({
+          Username: "user-supplied",
+        })
+      );
+    });
+  });
+
+  describe("MessageAction=RESEND", () => {
+    it("sends the user a new temporary password", async () => {
+      const existingUser = TDB.user({
+        Attributes: [attribute("email", "example@example.com")],
+        UserStatus: "FORCE_CHANGE_PASSWORD",
+      });
+      mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+
+      const response = await adminCreateUser(TestContext, {
+        DesiredDeliveryMediums: ["EMAIL"],
+        MessageAction: "RESEND",
+        TemporaryPassword: "new",
+        Username: existingUser.Username,
+        UserPoolId: "test",
+      });
+
+      const updatedUser = {
+        ...existingUser,
+        Password: "hashed password",
+        SrpVerifier: expect.any(Object),
+        UserLastModifiedDate: originalDate,
+      };
+      expect(mockPasswords.credentials).toHaveBeenCalledWith(
+        "test",
+        existingUser.Username,
+        "new"
+      );
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        updatedUser
+      );
+      expect(mockMessages.deliver).toHaveBeenCalledWith(
+        TestContext,
+        "AdminCreateUser",
+        null,
+        "test",
+        updatedUser,
+        "new",
+        undefined,
+        {
+          AttributeName: "email",
+          DeliveryMedium: "EMAIL",
+          Destination: "example@example.com",
+        }
+      );
+      expect(response.User).toEqual({
+        Attributes: existingUser.Attributes,
+        Enabled: true,
+        UserCreateDate: existingUser.UserCreateDate,
+        UserLastModifiedDate: originalDate,
+        UserStatus: "FORCE_CHANGE_PASSWORD",
+        Username: existingUser.Username,
+      });
+    });
+
+    it("throws if the user doesn't exist", async () => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+      await expect(
+        adminCreateUser(TestContext, {
+          MessageAction: "RESEND",
+          Username: "user-supplied",
+          UserPoolId: "test",
+        })
+      ).rejects.toEqual(new UserNotFoundError("User does not exist."));
+    });
+
+    it("throws if the user has already changed their temporary password", async () => {
+      const existingUser = TDB.user({ UserStatus: "CONFIRMED" });
+      mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+
+      await expect(
+        adminCreateUser(TestContext, {
+          MessageAction: "RESEND",
+          Username: existingUser.Username,
+          UserPoolId: "test",
+        })
+      ).rejects.toEqual(
+        new UnsupportedUserStateError(
+          `Resend not possible. ${existingUser.Username} status is not FORCE_CHANGE_PASSWORD.`
+        )
+      );
+      expect(mockMessages.deliver).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("username validation", () => {
+    it.each`
+      usernameAttributes           | username                 | message
+      ${["email"]}                 | ${"abc"}                 | ${"Username should be an email."}
+      ${["phone_number"]}          | ${"example@example.com"} | ${"Username should be a phone number."}
+      ${["email", "phone_number"]} | ${"abc"}                 | ${"Username should be either an email or a phone number."}
+    `(
+      "throws if the username isn't one of $usernameAttributes",
+      async ({ usernameAttributes, username, message }) => {
+        mockUserPoolService.config.UsernameAttributes = usernameAttributes;
+
+        await expect(
+          adminCreateUser(TestContext, {
+            MessageAction: "SUPPRESS",
+            Username: username,
+            UserPoolId: "test",
+          })
+        ).rejects.toEqual(new InvalidParameterError(message));
+        expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+      }
+    );
+
+    it.each`
+      usernameAttributes           | username
+      ${["email"]}                 | ${"example@example.com"}
+      ${["phone_number"]}          | ${"+61400000000"}
+      ${["email", "phone_number"]} | ${"+61400000000"}
+    `(
+      "accepts $username when the pool's username attributes are $usernameAttributes",
+      async ({ usernameAttributes, username }) => {
+        mockUserPoolService.config.UsernameAttributes = usernameAttributes;
+
+        await adminCreateUser(TestContext, {
+          MessageAction: "SUPPRESS",
+          Username: username,
+          UserPoolId: "test",
+        });
+
+        expect(mockUserPoolService.saveUser).toHaveBeenCalled();
+      }
+    );
+
+    it.each`
+      aliasAttributes     | username                 | message
+      ${["email"]}        | ${"example@example.com"} | ${"Username cannot be of email format, since user pool is configured for email alias."}
+      ${["phone_number"]} | ${"+61400000000"}        | ${"Username cannot be of phone number format, since user pool is configured for phone_number alias."}
+    `(
+      "throws if the username looks like one of the pool's $aliasAttributes aliases",
+      async ({ aliasAttributes, username, message }) => {
+        mockUserPoolService.config.AliasAttributes = aliasAttributes;
+
+        await expect(
+          adminCreateUser(TestContext, {
+            MessageAction: "SUPPRESS",
+            Username: username,
+            UserPoolId: "test",
+          })
+        ).rejects.toEqual(new InvalidParameterError(message));
+      }
+    );
+  });
+
+  describe("aliases", () => {
+    const aliasedUser = TDB.user({
+      Attributes: [
+        attribute("email", "example@example.com"),
+        attribute("email_verified", "true"),
+      ],
+    });
+
+    beforeEach(() => {
+      mockUserPoolService.config.AliasAttributes = ["email"];
+      mockUserPoolService.listUsers.mockResolvedValue([aliasedUser]);
+    });
+
+    it("throws if another user has the same verified alias", async () => {
+      await expect(
+        adminCreateUser(TestContext, {
+          MessageAction: "SUPPRESS",
+          UserAttributes: [
+            attribute("email", "example@example.com"),
+            attribute("email_verified", "true"),
+          ],
+          Username: "user-supplied",
+          UserPoolId: "test",
+        })
+      ).rejects.toEqual(
+        new AliasExistsError("An account with the email already exists.")
+      );
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+    });
+
+    it("allows the alias if it isn't verified", async () => {
+      await adminCreateUser(TestContext, {
+        MessageAction: "SUPPRESS",
+        UserAttributes: [attribute("email", "example@example.com")],
+        Username: "user-supplied",
+        UserPoolId: "test",
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledTimes(1);
+    });
+
+    it("moves the alias to the new user with ForceAliasCreation", async () => {
+      await adminCreateUser(TestContext, {
+        ForceAliasCreation: true,
+        MessageAction: "SUPPRESS",
+        UserAttributes: [
+          attribute("email", "example@example.com"),
+          attribute("email_verified", "true"),
+        ],
+        Username: "user-supplied",
+        UserPoolId: "test",
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+        ...aliasedUser,
+        Attributes: [
+          attribute("email", "example@example.com"),
+          attribute("email_verified", "false"),
+        ],
+        UserLastModifiedDate: originalDate,
+      });
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({
+          Username: "user-supplied",
+        })
+      );
+    });
+
+    it("keeps the other user's alias if the welcome message can't be delivered", async () => {
+      await expect(
+        adminCreateUser(TestContext, {
+          DesiredDeliveryMediums: ["SMS"],
+          ForceAliasCreation: true,
+          UserAttributes: [
+            attribute("email", "example@example.com"),
+            attribute("email_verified", "true"),
+          ],
+          Username: "user-supplied",
+          UserPoolId: "test",
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError(
+          "User has no attribute matching desired delivery mediums"
+        )
+      );
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+    });
+
+    it("moves both aliases from a user who has them", async () => {
+      const userWithBothAliases = TDB.user({
+        Attributes: [
+          attribute("email", "example@example.com"),
+          attribute("email_verified", "true"),
+          attribute("phone_number", "+61400000000"),
+          attribute("phone_number_verified", "true"),
+        ],
+      });
+      mockUserPoolService.config.AliasAttributes = ["email", "phone_number"];
+      mockUserPoolService.listUsers.mockResolvedValue([userWithBothAliases]);
+
+      await adminCreateUser(TestContext, {
+        ForceAliasCreation: true,
+        MessageAction: "SUPPRESS",
+        UserAttributes: [
+          attribute("email", "example@example.com"),
+          attribute("email_verified", "true"),
+          attribute("phone_number", "+61400000000"),
+          attribute("phone_number_verified", "true"),
+        ],
+        Username: "user-supplied",
+        UserPoolId: "test",
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledTimes(2);
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+        ...userWithBothAliases,
+        Attributes: [
+          attribute("email", "example@example.com"),
+          attribute("email_verified", "false"),
+          attribute("phone_number", "+61400000000"),
+          attribute("phone_number_verified", "false"),
+        ],
+        UserLastModifiedDate: originalDate,
+      });
+    });
+  });
 
   it("handles creating a duplicate user", async () => {
     const existingUser = TDB.user();
@@ -339,5 +678,120 @@ describe("AdminCreateUser target", () => {
     ).rejects.toEqual(new UsernameExistsError());
   });
 
-  it.todo("invokes the PreSignUp lambda");
+  describe("when PreSignUp trigger is enabled", () => {
+    beforeEach(() => {
+      mockTriggers.enabled.mockImplementation(
+        (trigger) => trigger === "PreSignUp"
+      );
+    });
+
+    it("invokes the trigger", async () => {
+      mockTriggers.preSignUp.mockResolvedValue({
+        autoConfirmUser: false,
+        autoVerifyEmail: false,
+        autoVerifyPhone: false,
+      });
+
+      await adminCreateUser(TestContext, {
+        ClientMetadata: { client: "metadata" },
+        MessageAction: "SUPPRESS",
+        UserAttributes: [attribute("email", "example@example.com")],
+        Username: "user-supplied",
+        UserPoolId: "test",
+        ValidationData: [attribute("validation", "data")],
+      });
+
+      expect(mockTriggers.preSignUp).toHaveBeenCalledWith(TestContext, {
+        clientId: null,
+        clientMetadata: { client: "metadata" },
+        source: "PreSignUp_AdminCreateUser",
+        userAttributes: [
+          { Name: "sub", Value: expect.stringMatching(UUID) },
+          attribute("email", "example@example.com"),
+        ],
+        username: "user-supplied",
+        userPoolId: "test",
+        validationData: { validation: "data" },
+      });
+    });
+
+    it("verifies the attributes the trigger asks it to", async () => {
+      mockTriggers.preSignUp.mockResolvedValue({
+        autoConfirmUser: true,
+        autoVerifyEmail: true,
+        autoVerifyPhone: true,
+      });
+
+      await adminCreateUser(TestContext, {
+        MessageAction: "SUPPRESS",
+        UserAttributes: [
+          attribute("email", "example@example.com"),
+          attribute("phone_number", "0400000000"),
+        ],
+        Username: "user-supplied",
+        UserPoolId: "test",
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({
+          Attributes: expect.arrayContaining([
+            attribute("email_verified", "true"),
+            attribute("phone_number_verified", "true"),
+          ]),
+          UserStatus: "FORCE_CHANGE_PASSWORD",
+        })
+      );
+    });
+
+    it("replaces verified attributes already in the request without changing the request", async () => {
+      mockTriggers.preSignUp.mockResolvedValue({
+        autoConfirmUser: false,
+        autoVerifyEmail: true,
+        autoVerifyPhone: false,
+      });
+
+      const userAttributes = [
+        attribute("sub", "uuid"),
+        attribute("email", "example@example.com"),
+        attribute("email_verified", "false"),
+      ];
+
+      await adminCreateUser(TestContext, {
+        MessageAction: "SUPPRESS",
+        UserAttributes: userAttributes,
+        Username: "user-supplied",
+        UserPoolId: "test",
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({
+          Attributes: [
+            attribute("sub", "uuid"),
+            attribute("email", "example@example.com"),
+            attribute("email_verified", "true"),
+          ],
+        })
+      );
+      expect(userAttributes).toEqual([
+        attribute("sub", "uuid"),
+        attribute("email", "example@example.com"),
+        attribute("email_verified", "false"),
+      ]);
+    });
+
+    it("doesn't create the user if the trigger fails", async () => {
+      mockTriggers.preSignUp.mockRejectedValue(new UserLambdaValidationError());
+
+      await expect(
+        adminCreateUser(TestContext, {
+          MessageAction: "SUPPRESS",
+          Username: "user-supplied",
+          UserPoolId: "test",
+        })
+      ).rejects.toBeInstanceOf(UserLambdaValidationError);
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -6,17 +6,23 @@ import {
 import shortUUID from "short-uuid";
 import * as uuid from "uuid";
 import {
+  AliasExistsError,
   InvalidParameterError,
-  UnsupportedError,
+  UnsupportedUserStateError,
   UsernameExistsError,
+  UserNotFoundError,
 } from "../errors";
 import { Messages, Services, UserPoolService } from "../services";
 import { DeliveryDetails } from "../services/messageDelivery/messageDelivery";
 import {
+  attribute,
+  attributesAppend,
   attributesInclude,
+  attributesToRecord,
   attributeValue,
   User,
 } from "../services/userPoolService";
+import { userToResponseObject } from "./responses";
 import { Context, Target } from "./router";
 
 const generator = shortUUID(
@@ -28,7 +34,112 @@ export type AdminCreateUserTarget = Target<
   AdminCreateUserResponse
 >;
 
-type AdminCreateUserServices = Pick<Services, "clock" | "cognito" | "messages">;
+type AdminCreateUserServices = Pick<
+  Services,
+  "clock" | "cognito" | "messages" | "passwords" | "triggers"
+>;
+
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+$/;
+const PHONE_NUMBER_FORMAT = /^\+\d+$/;
+
+/**
+ * Pools which sign users in with their email address or phone number need the username to be one, and pools which let
+ * users sign in with either as an alias need the username not to be, so the two can't be confused.
+ */
+const validateUsername = (userPool: UserPoolService, username: string) => {
+  const usernameAttributes = userPool.config.UsernameAttributes ?? [];
+  const aliasAttributes = userPool.config.AliasAttributes ?? [];
+  const isEmail = EMAIL_FORMAT.test(username);
+  const isPhoneNumber = PHONE_NUMBER_FORMAT.test(username);
+
+  if (
+    usernameAttributes.includes("email") &&
+    usernameAttributes.includes("phone_number")
+  ) {
+    if (!isEmail && !isPhoneNumber) {
+      throw new InvalidParameterError(
+        "Username should be either an email or a phone number."
+      );
+    }
+  } else if (usernameAttributes.includes("email") && !isEmail) {
+    throw new InvalidParameterError("Username should be an email.");
+  } else if (usernameAttributes.includes("phone_number") && !isPhoneNumber) {
+    throw new InvalidParameterError("Username should be a phone number.");
+  }
+
+  if (aliasAttributes.includes("email") && isEmail) {
+    throw new InvalidParameterError(
+      "Username cannot be of email format, since user pool is configured for email alias."
+    );
+  }
+  if (aliasAttributes.includes("phone_number") && isPhoneNumber) {
+    throw new InvalidParameterError(
+      "Username cannot be of phone number format, since user pool is configured for phone_number alias."
+    );
+  }
+};
+
+/**
+ * A verified email address or phone number the pool lets users sign in with can only belong to one user. If another
+ * user already has it, creating the user fails unless ForceAliasCreation is set, in which case it's moved to the new
+ * user by unverifying it on the other.
+ *
+ * Returns the other users with their aliases unverified, for the caller to save once the new user is sure to be
+ * created.
+ */
+const claimAliases = async (
+  ctx: Context,
+  req: AdminCreateUserRequest,
+  userPool: UserPoolService,
+  user: User
+): Promise<User[]> => {
+  const aliasAttributes = [
+    ...(userPool.config.AliasAttributes ?? []),
+    ...(userPool.config.UsernameAttributes ?? []),
+  ];
+  const existingUsers = await userPool.listUsers(ctx);
+  // the same user could have both aliases, so each is unverified on the latest copy of them
+  const aliasedUsers = new Map<string, User>();
+
+  for (const aliasAttribute of ["email", "phone_number"]) {
+    const value = attributeValue(aliasAttribute, user.Attributes);
+    const verifiedAttribute = `${aliasAttribute}_verified`;
+    if (
+      !aliasAttributes.includes(aliasAttribute) ||
+      !value ||
+      attributeValue(verifiedAttribute, user.Attributes) !== "true"
+    ) {
+      continue;
+    }
+
+    const aliasedUser = existingUsers.find(
+      (existingUser) =>
+        attributeValue(aliasAttribute, existingUser.Attributes) === value &&
+        attributeValue(verifiedAttribute, existingUser.Attributes) === "true"
+    );
+    if (!aliasedUser) {
+      continue;
+    }
+    if (!req.ForceAliasCreation) {
+      throw new AliasExistsError(
+        `An account with the ${aliasAttribute} already exists.`
+      );
+    }
+
+    const latestAliasedUser =
+      aliasedUsers.get(aliasedUser.Username) ?? aliasedUser;
+    aliasedUsers.set(aliasedUser.Username, {
+      ...latestAliasedUser,
+      Attributes: attributesAppend(
+        latestAliasedUser.Attributes,
+        attribute(verifiedAttribute, "false")
+      ),
+      UserLastModifiedDate: user.UserLastModifiedDate,
+    });
+  }
+
+  return [...aliasedUsers.values()];
+};
 
 const selectAppropriateDeliveryMethod = (
   desiredDeliveryMediums: DeliveryMediumListType,
@@ -90,25 +201,104 @@ const deliverWelcomeMessage = async (
   );
 };
 
+/**
+ * Sends a user who hasn't signed in yet a new temporary password.
+ */
+const resendWelcomeMessage = async (
+  ctx: Context,
+  req: AdminCreateUserRequest,
+  services: AdminCreateUserServices,
+  userPool: UserPoolService,
+  existingUser: User | null
+): Promise<AdminCreateUserResponse> => {
+  if (!existingUser) {
+    throw new UserNotFoundError("User does not exist.");
+  }
+  if (existingUser.UserStatus !== "FORCE_CHANGE_PASSWORD") {
+    throw new UnsupportedUserStateError(
+      `Resend not possible. ${existingUser.Username} status is not FORCE_CHANGE_PASSWORD.`
+    );
+  }
+
+  const temporaryPassword =
+    req.TemporaryPassword ?? generator.new().slice(0, 6);
+
+  const user: User = {
+    ...existingUser,
+    ...(await services.passwords.credentials(
+      userPool.config.Id,
+      existingUser.Username,
+      temporaryPassword
+    )),
+    UserLastModifiedDate: services.clock.get(),
+  };
+
+  await deliverWelcomeMessage(
+    ctx,
+    req,
+    temporaryPassword,
+    user,
+    services.messages,
+    userPool
+  );
+
+  await userPool.saveUser(ctx, user);
+
+  return {
+    User: userToResponseObject(user),
+  };
+};
+
 export const AdminCreateUser =
-  ({
-    clock,
-    cognito,
-    messages,
-  }: AdminCreateUserServices): AdminCreateUserTarget =>
+  (services: AdminCreateUserServices): AdminCreateUserTarget =>
   async (ctx, req) => {
+    const { clock, cognito, messages, passwords, triggers } = services;
     const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
     const existingUser = await userPool.getUserByUsername(ctx, req.Username);
-    if (existingUser && req.MessageAction === "RESEND") {
-      throw new UnsupportedError("AdminCreateUser with MessageAction=RESEND");
+    if (req.MessageAction === "RESEND") {
+      return resendWelcomeMessage(ctx, req, services, userPool, existingUser);
     } else if (existingUser) {
       throw new UsernameExistsError();
     }
 
-    const attributes = attributesInclude("sub", req.UserAttributes)
+    validateUsername(userPool, req.Username);
+
+    let attributes = attributesInclude("sub", req.UserAttributes)
       ? req.UserAttributes ?? []
       : [{ Name: "sub", Value: uuid.v4() }, ...(req.UserAttributes ?? [])];
 
+    if (triggers.enabled("PreSignUp")) {
+      const { autoVerifyEmail, autoVerifyPhone } = await triggers.preSignUp(
+        ctx,
+        {
+          clientId: null,
+          clientMetadata: req.ClientMetadata,
+          source: "PreSignUp_AdminCreateUser",
+          userAttributes: attributes,
+          username: req.Username,
+          userPoolId: userPool.config.Id,
+          validationData: req.ValidationData
+            ? attributesToRecord(req.ValidationData)
+            : undefined,
+        }
+      );
+
+      // users created by an administrator always have to change their temporary password, so autoConfirmUser has
+      // nothing to do
+      if (attributesInclude("email", attributes) && autoVerifyEmail) {
+        attributes = attributesAppend(
+          attributes,
+          attribute("email_verified", "true")
+        );
+      }
+      if (attributesInclude("phone_number", attributes) && autoVerifyPhone) {
+        attributes = attributesAppend(
+          attributes,
+          attribute("phone_number_verified", "true")
+        );
+      }
+    }
+
     const now = clock.get();
 
     const temporaryPassword =
@@ -116,7 +306,11 @@ export const AdminCreateUser =
 
     const user: User = {
       Username: req.Username,
-      Password: temporaryPassword,
+      ...(await passwords.credentials(
+        userPool.config.Id,
+        req.Username,
+        temporaryPassword
+      )),
       Attributes: attributes,
       Enabled: true,
       UserStatus: "FORCE_CHANGE_PASSWORD",
@@ -125,33 +319,26 @@ export const AdminCreateUser =
       UserLastModifiedDate: now,
       RefreshTokens: [],
     };
-    await userPool.saveUser(ctx, user);
 
-    // TODO: should throw InvalidParameterException when a non-email is supplied as the Username when the pool has email as a UsernameAttribute
-    // TODO: should send a message unless MessageAction=="SUPPRESS"
-    // TODO: support MessageAction=="RESEND"
-    // TODO: should generate a TemporaryPassword if one isn't set
-    // TODO: support ForceAliasCreation
-    // TODO: support PreSignIn lambda and ValidationData
-
-    await deliverWelcomeMessage(
-      ctx,
-      req,
-      temporaryPassword,
-      user,
-      messages,
-      userPool
-    );
+    const aliasedUsers = await claimAliases(ctx, req, userPool, user);
+
+    if (req.MessageAction !== "SUPPRESS") {
+      await deliverWelcomeMessage(
+        ctx,
+        req,
+        temporaryPassword,
+        user,
+        messages,
+        userPool
+      );
+    }
+
+    for (const aliasedUser of aliasedUsers) {
+      await userPool.saveUser(ctx, aliasedUser);
+    }
+    await userPool.saveUser(ctx, user);
 
     return {
-      User: {
-        Username: req.Username,
-        Attributes: attributes,
-        Enabled: true,
-        UserStatus: "FORCE_CHANGE_PASSWORD",
-        UserCreateDate: now,
-        UserLastModifiedDate: now,
-        MFAOptions: undefined,
-      },
+      User: userToResponseObject(user),
     };
   };
@@ -0,0 +1,59 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { UserNotFoundError } from "../errors";
+import { UserPoolService } from "../services";
+import { AdminDisableUser, AdminDisableUserTarget } from "./adminDisableUser";
+
+const currentDate = new Date();
+
+describe("AdminDisableUser target", () => {
+  let adminDisableUser: AdminDisableUserTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    adminDisableUser = AdminDisableUser({
+      clock: new ClockFake(currentDate),
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("disables the user and revokes their tokens", async () => {
+    const existingUser = TDB.user({
+      Enabled: true,
+      RefreshTokens: ["refresh token"],
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+
+    await adminDisableUser(TestContext, {
+      Username: existingUser.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.getUserByUsername).toHaveBeenCalledWith(
+      TestContext,
+      existingUser.Username
+    );
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...existingUser,
+      Enabled: false,
+      RefreshTokens: [],
+      UserLastModifiedDate: currentDate,
+    });
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    await expect(
+      adminDisableUser(TestContext, {
+        Username: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new UserNotFoundError("User does not exist"));
+  });
+});
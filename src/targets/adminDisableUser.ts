@@ -0,0 +1,37 @@
+import {
+  AdminDisableUserRequest,
+  AdminDisableUserResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { UserNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type AdminDisableUserTarget = Target<
+  AdminDisableUserRequest,
+  AdminDisableUserResponse
+>;
+
+type AdminDisableUserServices = Pick<Services, "clock" | "cognito">;
+
+/**
+ * Disables a user. Until they're enabled again they can't sign in, and the tokens they've already been issued are
+ * revoked, so they stay unusable even after the user is enabled again.
+ */
+export const AdminDisableUser =
+  ({ clock, cognito }: AdminDisableUserServices): AdminDisableUserTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const user = await userPool.getUserByUsername(ctx, req.Username);
+    if (!user) {
+      throw new UserNotFoundError("User does not exist");
+    }
+
+    await userPool.saveUser(ctx, {
+      ...user,
+      Enabled: false,
+      RefreshTokens: [],
+      UserLastModifiedDate: clock.get(),
+    });
+
+    return {};
+  };
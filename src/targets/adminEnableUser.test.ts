@@ -0,0 +1,55 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { UserNotFoundError } from "../errors";
+import { UserPoolService } from "../services";
+import { AdminEnableUser, AdminEnableUserTarget } from "./adminEnableUser";
+
+const currentDate = new Date();
+
+describe("AdminEnableUser target", () => {
+  let adminEnableUser: AdminEnableUserTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    adminEnableUser = AdminEnableUser({
+      clock: new ClockFake(currentDate),
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("enables the user", async () => {
+    const existingUser = TDB.user({ Enabled: false });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+
+    await adminEnableUser(TestContext, {
+      Username: existingUser.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.getUserByUsername).toHaveBeenCalledWith(
+      TestContext,
+      existingUser.Username
+    );
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...existingUser,
+      Enabled: true,
+      UserLastModifiedDate: currentDate,
+    });
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    await expect(
+      adminEnableUser(TestContext, {
+        Username: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new UserNotFoundError("User does not exist"));
+  });
+});
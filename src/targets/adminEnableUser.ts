@@ -0,0 +1,35 @@
+import {
+  AdminEnableUserRequest,
+  AdminEnableUserResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { UserNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type AdminEnableUserTarget = Target<
+  AdminEnableUserRequest,
+  AdminEnableUserResponse
+>;
+
+type AdminEnableUserServices = Pick<Services, "clock" | "cognito">;
+
+/**
+ * Enables a user disabled by AdminDisableUser, so they can sign in again.
+ */
+export const AdminEnableUser =
+  ({ clock, cognito }: AdminEnableUserServices): AdminEnableUserTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const user = await userPool.getUserByUsername(ctx, req.Username);
+    if (!user) {
+      throw new UserNotFoundError("User does not exist");
+    }
+
+    await userPool.saveUser(ctx, {
+      ...user,
+      Enabled: true,
+      UserLastModifiedDate: clock.get(),
+    });
+
+    return {};
+  };
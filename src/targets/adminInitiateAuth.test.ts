@@ -1,32 +1,68 @@
+import jwt from "jsonwebtoken";
+import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockPasswords } from "../__tests__/mockPasswords";
 import { newMockTokenGenerator } from "../__tests__/mockTokenGenerator";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { newMockTriggers } from "../__tests__/mockTriggers";
+import { UUID } from "../__tests__/patterns";
 import { TestContext } from "../__tests__/testContext";
 import * as TDB from "../__tests__/testDataBuilder";
-import { CognitoService, Triggers, UserPoolService } from "../services";
+import {
+  InvalidParameterError,
+  InvalidPasswordError,
+  NotAuthorizedError,
+  PasswordResetRequiredError,
+  ResourceNotFoundError,
+} from "../errors";
+import {
+  CognitoService,
+  Messages,
+  Passwords,
+  Triggers,
+  UserPoolService,
+} from "../services";
+import { secretHash } from "../services/secretHash";
 import { TokenGenerator } from "../services/tokenGenerator";
+import { attributesToRecord } from "../services/userPoolService";
 import {
   AdminInitiateAuth,
   AdminInitiateAuthTarget,
 } from "./adminInitiateAuth";
 
+const currentDate = new Date();
+
 describe("AdminInitiateAuth target", () => {
   let adminInitiateAuth: AdminInitiateAuthTarget;
 
   let mockCognitoService: jest.Mocked<CognitoService>;
+  let mockMessages: jest.Mocked<Messages>;
+  let mockOtp: jest.MockedFunction<() => string>;
   let mockTokenGenerator: jest.Mocked<TokenGenerator>;
   let mockTriggers: jest.Mocked<Triggers>;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockPasswords: jest.Mocked<Passwords>;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([]);
     mockCognitoService = newMockCognitoService(mockUserPoolService);
+    mockMessages = newMockMessages();
+    mockOtp = jest.fn().mockReturnValue("1234");
     mockTriggers = newMockTriggers();
     mockTokenGenerator = newMockTokenGenerator();
+    mockPasswords = newMockPasswords();
+    mockPasswords.verify.mockImplementation((ctx, userPool, user) =>
+      Promise.resolve(user)
+    );
     adminInitiateAuth = AdminInitiateAuth({
+      clock: new ClockFake(currentDate),
+      passwords: mockPasswords,
       triggers: mockTriggers,
       cognito: mockCognitoService,
+      messages: mockMessages,
+      otp: mockOtp,
       tokenGenerator: mockTokenGenerator,
     });
   });
@@ -36,11 +72,17 @@ describe("AdminInitiateAuth target", () => {
       AccessToken: "access",
       IdToken: "id",
       RefreshToken: "refresh",
+      ExpiresIn: 3600,
+      TokenType: "Bearer",
     });
 
     const existingUser = TDB.user();
+    const existingGroup = TDB.group();
 
     mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([
+      existingGroup,
+    ]);
 
     const response = await adminInitiateAuth(TestContext, {
       AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
@@ -64,10 +106,13 @@ describe("AdminInitiateAuth target", () => {
     expect(response.AuthenticationResult?.AccessToken).toEqual("access");
     expect(response.AuthenticationResult?.IdToken).toEqual("id");
     expect(response.AuthenticationResult?.RefreshToken).toEqual("refresh");
+    expect(response.AuthenticationResult?.ExpiresIn).toEqual(3600);
+    expect(response.AuthenticationResult?.TokenType).toEqual("Bearer");
 
     expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
       TestContext,
       existingUser,
+      [existingGroup],
       "clientId",
       "test",
       {
@@ -77,15 +122,393 @@ describe("AdminInitiateAuth target", () => {
     );
   });
 
+  it("continues with the user returned by the password verifier", async () => {
+    mockTokenGenerator.generate.mockResolvedValue({
+      AccessToken: "access",
+      IdToken: "id",
+      RefreshToken: "refresh",
+      ExpiresIn: 3600,
+      TokenType: "Bearer",
+    });
+
+    const existingUser = TDB.user({ Password: "plaintext" });
+    const rehashedUser = { ...existingUser, Password: "hashed password" };
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([]);
+    mockPasswords.verify.mockResolvedValue(rehashedUser);
+
+    await adminInitiateAuth(TestContext, {
+      AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+      ClientId: "clientId",
+      UserPoolId: "test",
+      AuthParameters: {
+        USERNAME: existingUser.Username,
+        PASSWORD: "plaintext",
+      },
+    });
+
+    expect(mockPasswords.verify).toHaveBeenCalledWith(
+      TestContext,
+      mockUserPoolService,
+      existingUser,
+      "plaintext"
+    );
+    expect(mockUserPoolService.storeRefreshToken).toHaveBeenCalledWith(
+      TestContext,
+      "refresh",
+      rehashedUser
+    );
+  });
+
+  it("throws if password is incorrect", async () => {
+    const user = TDB.user();
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockPasswords.verify.mockResolvedValue(null);
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: user.Username,
+          PASSWORD: "bad-password",
+        },
+      })
+    ).rejects.toBeInstanceOf(InvalidPasswordError);
+  });
+
+  it("throws when user requires reset", async () => {
+    const user = TDB.user({
+      UserStatus: "RESET_REQUIRED",
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: user.Username,
+          PASSWORD: user.Password,
+        },
+      })
+    ).rejects.toBeInstanceOf(PasswordResetRequiredError);
+  });
+
+  it("throws if the user is disabled", async () => {
+    const user = TDB.user({ Enabled: false });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: user.Username,
+          PASSWORD: user.Password,
+        },
+      })
+    ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+    expect(mockPasswords.verify).not.toHaveBeenCalled();
+  });
+
+  it("throws if the auth flow isn't enabled for the client", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({
+        ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+        UserPoolId: "test",
+      })
+    );
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: "username",
+          PASSWORD: "password",
+        },
+      })
+    ).rejects.toEqual(
+      new InvalidParameterError("Auth flow not enabled for this client")
+    );
+    expect(mockPasswords.verify).not.toHaveBeenCalled();
+  });
+
+  it("throws if the client belongs to another user pool", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ UserPoolId: "other" })
+    );
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: "username",
+          PASSWORD: "password",
+        },
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+    expect(mockPasswords.verify).not.toHaveBeenCalled();
+  });
+
+  describe("when the client has a secret", () => {
+    beforeEach(() => {
+      mockCognitoService.getAppClient.mockResolvedValue(
+        TDB.appClient({
+          ClientId: "clientId",
+          ClientSecret: "secret",
+          UserPoolId: "test",
+        })
+      );
+    });
+
+    it("signs in with a valid secret hash", async () => {
+      const user = TDB.user();
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockTokenGenerator.generate.mockResolvedValue({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+
+      const response = await adminInitiateAuth(TestContext, {
+        AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: user.Username,
+          PASSWORD: user.Password,
+          SECRET_HASH: secretHash("secret", user.Username, "clientId"),
+        },
+      });
+
+      expect(response.AuthenticationResult?.AccessToken).toEqual("access");
+    });
+
+    it("throws if the secret hash is missing", async () => {
+      const user = TDB.user();
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+      await expect(
+        adminInitiateAuth(TestContext, {
+          AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+          ClientId: "clientId",
+          UserPoolId: "test",
+          AuthParameters: {
+            USERNAME: user.Username,
+            PASSWORD: user.Password,
+          },
+        })
+      ).rejects.toEqual(
+        new NotAuthorizedError(
+          "Unable to verify secret hash for client clientId"
+        )
+      );
+      expect(mockPasswords.verify).not.toHaveBeenCalled();
+    });
+
+    it("throws if the secret hash for a refresh is for another user", async () => {
+      const refreshToken = jwt.sign({ jti: "refresh-token-jti" }, "secret");
+
+      mockUserPoolService.getUserByRefreshToken.mockResolvedValue(
+        TDB.user({ RefreshTokens: [refreshToken] })
+      );
+
+      await expect(
+        adminInitiateAuth(TestContext, {
+          AuthFlow: "REFRESH_TOKEN_AUTH",
+          ClientId: "clientId",
+          UserPoolId: "test",
+          AuthParameters: {
+            REFRESH_TOKEN: refreshToken,
+            SECRET_HASH: secretHash("secret", "other-user", "clientId"),
+          },
+        })
+      ).rejects.toEqual(
+        new NotAuthorizedError(
+          "Unable to verify secret hash for client clientId"
+        )
+      );
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+  });
+
+  it("responds with a NEW_PASSWORD_REQUIRED challenge when user status is FORCE_CHANGE_PASSWORD", async () => {
+    const user = TDB.user({
+      UserStatus: "FORCE_CHANGE_PASSWORD",
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    const response = await adminInitiateAuth(TestContext, {
+      AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+      ClientId: "clientId",
+      UserPoolId: "test",
+      AuthParameters: {
+        USERNAME: user.Username,
+        PASSWORD: user.Password,
+      },
+    });
+
+    expect(mockPasswords.verify).toHaveBeenCalledWith(
+      TestContext,
+      mockUserPoolService,
+      user,
+      user.Password
+    );
+    expect(response).toEqual({
+      ChallengeName: "NEW_PASSWORD_REQUIRED",
+      ChallengeParameters: {
+        USER_ID_FOR_SRP: user.Username,
+        requiredAttributes: "[]",
+        userAttributes: JSON.stringify(attributesToRecord(user.Attributes)),
+      },
+      Session: expect.stringMatching(UUID),
+    });
+    expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+  });
+
+  it("throws if the temporary password is incorrect when user status is FORCE_CHANGE_PASSWORD", async () => {
+    const user = TDB.user({
+      UserStatus: "FORCE_CHANGE_PASSWORD",
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockPasswords.verify.mockResolvedValue(null);
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: user.Username,
+          PASSWORD: "bad-password",
+        },
+      })
+    ).rejects.toBeInstanceOf(InvalidPasswordError);
+    expect(mockUserPoolService.saveAuthSession).not.toHaveBeenCalled();
+  });
+
+  it("responds with an SMS_MFA challenge when MFA is required", async () => {
+    mockUserPoolService.config.MfaConfiguration = "ON";
+    const user = TDB.user({
+      Attributes: [{ Name: "phone_number", Value: "0411000111" }],
+      MFAOptions: [{ DeliveryMedium: "SMS", AttributeName: "phone_number" }],
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    const response = await adminInitiateAuth(TestContext, {
+      AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+      ClientId: "clientId",
+      UserPoolId: "test",
+      AuthParameters: {
+        USERNAME: user.Username,
+        PASSWORD: user.Password,
+      },
+      ClientMetadata: {
+        client: "metadata",
+      },
+    });
+
+    expect(response).toEqual({
+      ChallengeName: "SMS_MFA",
+      ChallengeParameters: {
+        CODE_DELIVERY_DELIVERY_MEDIUM: "SMS",
+        CODE_DELIVERY_DESTINATION: "0411000111",
+        USER_ID_FOR_SRP: user.Username,
+      },
+      Session: expect.stringMatching(UUID),
+    });
+
+    expect(mockMessages.deliver).toHaveBeenCalledWith(
+      TestContext,
+      "Authentication",
+      "clientId",
+      "test",
+      user,
+      "1234",
+      { client: "metadata" },
+      {
+        AttributeName: "phone_number",
+        DeliveryMedium: "SMS",
+        Destination: "0411000111",
+      }
+    );
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...user,
+      MFACode: "1234",
+    });
+    expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+  });
+
+  it("invokes the Post Authentication trigger when enabled", async () => {
+    mockTokenGenerator.generate.mockResolvedValue({
+      AccessToken: "access",
+      IdToken: "id",
+      RefreshToken: "refresh",
+      ExpiresIn: 3600,
+      TokenType: "Bearer",
+    });
+    mockTriggers.enabled.mockImplementation(
+      (trigger) => trigger === "PostAuthentication"
+    );
+    const user = TDB.user();
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await adminInitiateAuth(TestContext, {
+      AuthFlow: "ADMIN_USER_PASSWORD_AUTH",
+      ClientId: "clientId",
+      UserPoolId: "test",
+      AuthParameters: {
+        USERNAME: user.Username,
+        PASSWORD: user.Password,
+      },
+      ClientMetadata: {
+        client: "metadata",
+      },
+    });
+
+    expect(mockTriggers.postAuthentication).toHaveBeenCalledWith(TestContext, {
+      clientId: "clientId",
+      clientMetadata: undefined,
+      source: "PostAuthentication_Authentication",
+      userAttributes: user.Attributes,
+      username: user.Username,
+      userPoolId: "test",
+    });
+  });
+
   it("supports REFRESH_TOKEN_AUTH", async () => {
+    const refreshToken = jwt.sign({ jti: "refresh-token-jti" }, "secret");
+
     mockTokenGenerator.generate.mockResolvedValue({
       AccessToken: "access",
       IdToken: "id",
       RefreshToken: "refresh",
+      ExpiresIn: 3600,
+      TokenType: "Bearer",
     });
 
     const existingUser = TDB.user({
-      RefreshTokens: ["refresh token"],
+      RefreshTokens: [refreshToken],
     });
 
     mockUserPoolService.getUserByRefreshToken.mockResolvedValue(existingUser);
@@ -95,7 +518,7 @@ describe("AdminInitiateAuth target", () => {
       ClientId: "clientId",
       UserPoolId: "test",
       AuthParameters: {
-        REFRESH_TOKEN: "refresh token",
+        REFRESH_TOKEN: refreshToken,
       },
       ClientMetadata: {
         client: "metadata",
@@ -104,7 +527,7 @@ describe("AdminInitiateAuth target", () => {
 
     expect(mockUserPoolService.getUserByRefreshToken).toHaveBeenCalledWith(
       TestContext,
-      "refresh token"
+      refreshToken
     );
     expect(mockUserPoolService.storeRefreshToken).not.toHaveBeenCalled();
 
@@ -113,16 +536,145 @@ describe("AdminInitiateAuth target", () => {
 
     // does not return a refresh token as part of a refresh token flow
     expect(response.AuthenticationResult?.RefreshToken).not.toBeDefined();
+    expect(response.AuthenticationResult?.ExpiresIn).toEqual(3600);
+    expect(response.AuthenticationResult?.TokenType).toEqual("Bearer");
 
     expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
       TestContext,
       existingUser,
+      [],
       "clientId",
       "test",
       {
         client: "metadata",
       },
-      "RefreshTokens"
+      "RefreshTokens",
+      "refresh-token-jti"
+    );
+  });
+
+  it("throws if the refresh token's user is disabled", async () => {
+    const refreshToken = jwt.sign({ jti: "refresh-token-jti" }, "secret");
+
+    mockUserPoolService.getUserByRefreshToken.mockResolvedValue(
+      TDB.user({ Enabled: false, RefreshTokens: [refreshToken] })
+    );
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "REFRESH_TOKEN_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          REFRESH_TOKEN: refreshToken,
+        },
+      })
+    ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+    expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+  });
+
+  it("throws if the refresh token has expired", async () => {
+    const refreshToken = jwt.sign(
+      {
+        jti: "refresh-token-jti",
+        exp: Math.floor(currentDate.getTime() / 1000),
+      },
+      "secret"
     );
+
+    mockUserPoolService.getUserByRefreshToken.mockResolvedValue(
+      TDB.user({ RefreshTokens: [refreshToken] })
+    );
+
+    await expect(
+      adminInitiateAuth(TestContext, {
+        AuthFlow: "REFRESH_TOKEN_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          REFRESH_TOKEN: refreshToken,
+        },
+      })
+    ).rejects.toEqual(new NotAuthorizedError("Refresh Token has expired"));
+    expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+  });
+
+  describe("CUSTOM_AUTH", () => {
+    const user = TDB.user();
+
+    beforeEach(() => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockTriggers.enabled.mockReturnValue(true);
+    });
+
+    it("responds with the challenge from the CreateAuthChallenge trigger", async () => {
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "CUSTOM_CHALLENGE",
+        failAuthentication: false,
+        issueTokens: false,
+      });
+      mockTriggers.createAuthChallenge.mockResolvedValue({
+        challengeMetadata: "",
+        privateChallengeParameters: { code: "secret" },
+        publicChallengeParameters: { hint: "public" },
+      });
+
+      const response = await adminInitiateAuth(TestContext, {
+        AuthFlow: "CUSTOM_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: user.Username,
+        },
+      });
+
+      expect(mockTriggers.defineAuthChallenge).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({ session: [] })
+      );
+      expect(response).toEqual({
+        ChallengeName: "CUSTOM_CHALLENGE",
+        ChallengeParameters: { USERNAME: user.Username, hint: "public" },
+        Session: expect.stringMatching(UUID),
+      });
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it("generates tokens if the DefineAuthChallenge trigger issues them", async () => {
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "",
+        failAuthentication: false,
+        issueTokens: true,
+      });
+      mockTokenGenerator.generate.mockResolvedValue({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+
+      const response = await adminInitiateAuth(TestContext, {
+        AuthFlow: "CUSTOM_AUTH",
+        ClientId: "clientId",
+        UserPoolId: "test",
+        AuthParameters: {
+          USERNAME: user.Username,
+        },
+      });
+
+      expect(response.AuthenticationResult).toEqual({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+      expect(mockUserPoolService.storeRefreshToken).toHaveBeenCalledWith(
+        TestContext,
+        "refresh",
+        user
+      );
+    });
   });
 });
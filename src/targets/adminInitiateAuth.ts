@@ -6,9 +6,24 @@ import {
   InvalidParameterError,
   InvalidPasswordError,
   NotAuthorizedError,
+  PasswordResetRequiredError,
+  ResourceNotFoundError,
   UnsupportedError,
 } from "../errors";
 import { Services } from "../services";
+import { verifyAuthFlow } from "../services/appClient";
+import { verifySecretHash } from "../services/secretHash";
+import { isValidClientPublicKey } from "../services/srp";
+import {
+  refreshTokenExpiry,
+  refreshTokenJti,
+} from "../services/tokenGenerator";
+import {
+  isMfaRequired,
+  newPasswordChallenge,
+  nextCustomAuthChallenge,
+  smsMfaChallenge,
+} from "./challenges";
 import { Context, Target } from "./router";
 
 export type AdminInitiateAuthTarget = Target<
@@ -18,7 +33,13 @@ export type AdminInitiateAuthTarget = Target<
 
 type AdminInitiateAuthServices = Pick<
   Services,
-  "cognito" | "triggers" | "tokenGenerator"
+  | "clock"
+  | "cognito"
+  | "messages"
+  | "otp"
+  | "passwords"
+  | "triggers"
+  | "tokenGenerator"
 >;
 
 const adminUserPasswordAuthFlow = async (
@@ -42,6 +63,13 @@ const adminUserPasswordAuthFlow = async (
     ctx,
     req.ClientId
   );
+  await verifySecretHash(
+    ctx,
+    services.cognito,
+    req.ClientId,
+    req.AuthParameters.USERNAME,
+    req.AuthParameters.SECRET_HASH
+  );
   let user = await userPool.getUserByUsername(ctx, req.AuthParameters.USERNAME);
 
   if (!user && services.triggers.enabled("UserMigration")) {
@@ -64,14 +92,43 @@ const adminUserPasswordAuthFlow = async (
   if (!user) {
     throw new NotAuthorizedError();
   }
-
-  if (user.Password !== req.AuthParameters.PASSWORD) {
+  if (!user.Enabled) {
+    throw new NotAuthorizedError("User is disabled.");
+  }
+  if (user.UserStatus === "RESET_REQUIRED") {
+    throw new PasswordResetRequiredError();
+  }
+  const verifiedUser = await services.passwords.verify(
+    ctx,
+    userPool,
+    user,
+    req.AuthParameters.PASSWORD
+  );
+  if (!verifiedUser) {
     throw new InvalidPasswordError();
   }
+  user = verifiedUser;
+
+  // the temporary password has to be checked like any other before the user can choose a new one
+  if (user.UserStatus === "FORCE_CHANGE_PASSWORD") {
+    return newPasswordChallenge(ctx, services, userPool, user, req.ClientId);
+  }
+
+  if (isMfaRequired(userPool, user)) {
+    return smsMfaChallenge(
+      ctx,
+      services,
+      userPool,
+      user,
+      req.ClientId,
+      req.ClientMetadata
+    );
+  }
 
   const tokens = await services.tokenGenerator.generate(
     ctx,
     user,
+    await userPool.listUserGroupMembership(ctx, user),
     req.ClientId,
     userPool.config.Id,
     req.ClientMetadata,
@@ -80,6 +137,20 @@ const adminUserPasswordAuthFlow = async (
 
   await userPool.storeRefreshToken(ctx, tokens.RefreshToken, user);
 
+  if (services.triggers.enabled("PostAuthentication")) {
+    await services.triggers.postAuthentication(ctx, {
+      clientId: req.ClientId,
+      // As per the AdminInitiateAuth docs, ClientMetadata is only passed to the Pre Sign-up, Pre Authentication and
+      // User Migration triggers.
+      // Source: https://docs.aws.amazon.com/cognito-user-identity-pools/latest/APIReference/API_AdminInitiateAuth.html#API_AdminInitiateAuth_RequestSyntax
+      clientMetadata: undefined,
+      source: "PostAuthentication_Authentication",
+      userAttributes: user.Attributes,
+      username: user.Username,
+      userPoolId: userPool.config.Id,
+    });
+  }
+
   return {
     ChallengeName: undefined,
     Session: undefined,
@@ -89,12 +160,102 @@ const adminUserPasswordAuthFlow = async (
       RefreshToken: tokens.RefreshToken,
       IdToken: tokens.IdToken,
       NewDeviceMetadata: undefined,
-      TokenType: undefined,
-      ExpiresIn: undefined,
+      TokenType: tokens.TokenType,
+      ExpiresIn: tokens.ExpiresIn,
     },
   };
 };
 
+const adminCustomAuthFlow = async (
+  ctx: Context,
+  services: AdminInitiateAuthServices,
+  req: AdminInitiateAuthRequest
+): Promise<AdminInitiateAuthResponse> => {
+  if (!req.AuthParameters) {
+    throw new InvalidParameterError(
+      "Missing required parameter authParameters"
+    );
+  }
+  if (!req.AuthParameters.USERNAME) {
+    throw new InvalidParameterError("AuthParameters USERNAME is required");
+  }
+  // the client can authenticate with SRP before any custom challenges by including SRP_A
+  const srpA = req.AuthParameters.SRP_A;
+  if (srpA && !isValidClientPublicKey(srpA)) {
+    throw new NotAuthorizedError();
+  }
+
+  const userPool = await services.cognito.getUserPoolForClientId(
+    ctx,
+    req.ClientId
+  );
+  await verifySecretHash(
+    ctx,
+    services.cognito,
+    req.ClientId,
+    req.AuthParameters.USERNAME,
+    req.AuthParameters.SECRET_HASH
+  );
+  const user = await userPool.getUserByUsername(
+    ctx,
+    req.AuthParameters.USERNAME
+  );
+  if (!user) {
+    throw new NotAuthorizedError();
+  }
+  if (!user.Enabled) {
+    throw new NotAuthorizedError("User is disabled.");
+  }
+  if (user.UserStatus === "RESET_REQUIRED") {
+    throw new PasswordResetRequiredError();
+  }
+
+  const challenge = await nextCustomAuthChallenge(
+    ctx,
+    services,
+    userPool,
+    user,
+    req.ClientId,
+    // As per the AdminInitiateAuth docs, ClientMetadata is only passed to the Pre Sign-up, Pre Authentication and
+    // User Migration triggers.
+    // Source: https://docs.aws.amazon.com/cognito-user-identity-pools/latest/APIReference/API_AdminInitiateAuth.html#API_AdminInitiateAuth_RequestSyntax
+    undefined,
+    srpA ? [{ ChallengeName: "SRP_A", ChallengeResult: true }] : [],
+    srpA
+  );
+  if (challenge) {
+    return challenge;
+  }
+
+  const tokens = await services.tokenGenerator.generate(
+    ctx,
+    user,
+    await userPool.listUserGroupMembership(ctx, user),
+    req.ClientId,
+    userPool.config.Id,
+    req.ClientMetadata,
+    "Authentication"
+  );
+
+  await userPool.storeRefreshToken(ctx, tokens.RefreshToken, user);
+
+  if (services.triggers.enabled("PostAuthentication")) {
+    await services.triggers.postAuthentication(ctx, {
+      clientId: req.ClientId,
+      clientMetadata: undefined,
+      source: "PostAuthentication_Authentication",
+      userAttributes: user.Attributes,
+      username: user.Username,
+      userPoolId: userPool.config.Id,
+    });
+  }
+
+  return {
+    ChallengeParameters: {},
+    AuthenticationResult: tokens,
+  };
+};
+
 const refreshTokenAuthFlow = async (
   ctx: Context,
   services: AdminInitiateAuthServices,
@@ -121,14 +282,31 @@ const refreshTokenAuthFlow = async (
   if (!user) {
     throw new NotAuthorizedError();
   }
+  const expiry = refreshTokenExpiry(req.AuthParameters.REFRESH_TOKEN);
+  if (expiry && expiry <= services.clock.get()) {
+    throw new NotAuthorizedError("Refresh Token has expired");
+  }
+  // refreshing doesn't take a username, so the hash is of the username the refresh token was issued to
+  await verifySecretHash(
+    ctx,
+    services.cognito,
+    req.ClientId,
+    user.Username,
+    req.AuthParameters.SECRET_HASH
+  );
+  if (!user.Enabled) {
+    throw new NotAuthorizedError("User is disabled.");
+  }
 
   const tokens = await services.tokenGenerator.generate(
     ctx,
     user,
+    await userPool.listUserGroupMembership(ctx, user),
     req.ClientId,
     userPool.config.Id,
     req.ClientMetadata,
-    "RefreshTokens"
+    "RefreshTokens",
+    refreshTokenJti(req.AuthParameters.REFRESH_TOKEN)
   );
 
   return {
@@ -140,8 +318,8 @@ const refreshTokenAuthFlow = async (
       RefreshToken: undefined,
       IdToken: tokens.IdToken,
       NewDeviceMetadata: undefined,
-      TokenType: undefined,
-      ExpiresIn: undefined,
+      TokenType: tokens.TokenType,
+      ExpiresIn: tokens.ExpiresIn,
     },
   };
 };
@@ -149,8 +327,19 @@ const refreshTokenAuthFlow = async (
 export const AdminInitiateAuth =
   (services: AdminInitiateAuthServices): AdminInitiateAuthTarget =>
   async (ctx, req) => {
+    const appClient = await services.cognito.getAppClient(ctx, req.ClientId);
+    if (appClient) {
+      // the admin APIs are given the user pool as well as the client, and the client has to belong to it
+      if (appClient.UserPoolId !== req.UserPoolId) {
+        throw new ResourceNotFoundError();
+      }
+      verifyAuthFlow(appClient, req.AuthFlow);
+    }
+
     if (req.AuthFlow === "ADMIN_USER_PASSWORD_AUTH") {
       return adminUserPasswordAuthFlow(ctx, services, req);
+    } else if (req.AuthFlow === "CUSTOM_AUTH") {
+      return adminCustomAuthFlow(ctx, services, req);
     } else if (
       req.AuthFlow === "REFRESH_TOKEN_AUTH" ||
       req.AuthFlow === "REFRESH_TOKEN"
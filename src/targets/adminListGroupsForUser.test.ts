@@ -0,0 +1,126 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { InvalidParameterError, UserNotFoundError } from "../errors";
+import { UserPoolService } from "../services";
+import {
+  AdminListGroupsForUser,
+  AdminListGroupsForUserTarget,
+} from "./adminListGroupsForUser";
+
+describe("AdminListGroupsForUser target", () => {
+  let adminListGroupsForUser: AdminListGroupsForUserTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    adminListGroupsForUser = AdminListGroupsForUser({
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("lists the groups the user is a member of ordered by name", async () => {
+    const existingUser = TDB.user();
+    const group1 = TDB.group({
+      Description: "Description",
+      GroupName: "abc",
+      members: [existingUser.Username],
+      Precedence: 1,
+      RoleArn: "ARN",
+    });
+    const group2 = TDB.group({
+      GroupName: "def",
+      members: [existingUser.Username],
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([
+      group2,
+      group1,
+    ]);
+
+    const output = await adminListGroupsForUser(TestContext, {
+      Username: existingUser.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.listUserGroupMembership).toHaveBeenCalledWith(
+      TestContext,
+      existingUser
+    );
+
+    expect(output.Groups).toEqual([
+      {
+        CreationDate: group1.CreationDate,
+        Description: "Description",
+        GroupName: group1.GroupName,
+        LastModifiedDate: group1.LastModifiedDate,
+        Precedence: 1,
+        RoleArn: "ARN",
+        UserPoolId: "test",
+      },
+      {
+        CreationDate: group2.CreationDate,
+        GroupName: group2.GroupName,
+        LastModifiedDate: group2.LastModifiedDate,
+        UserPoolId: "test",
+      },
+    ]);
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    await expect(
+      adminListGroupsForUser(TestContext, {
+        Username: "user",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new UserNotFoundError("User does not exist"));
+  });
+
+  it("supports Limit and NextToken to paginate results", async () => {
+    const existingUser = TDB.user();
+    const group1 = TDB.group({ GroupName: "abc" });
+    const group2 = TDB.group({ GroupName: "def" });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([
+      group1,
+      group2,
+    ]);
+
+    const page1 = await adminListGroupsForUser(TestContext, {
+      Limit: 1,
+      Username: existingUser.Username,
+      UserPoolId: "test",
+    });
+
+    expect(page1.Groups?.map((x) => x.GroupName)).toEqual(["abc"]);
+    expect(page1.NextToken).toBeDefined();
+
+    const page2 = await adminListGroupsForUser(TestContext, {
+      Limit: 1,
+      NextToken: page1.NextToken,
+      Username: existingUser.Username,
+      UserPoolId: "test",
+    });
+
+    expect(page2.Groups?.map((x) => x.GroupName)).toEqual(["def"]);
+    expect(page2.NextToken).toBeUndefined();
+  });
+
+  it("throws if the NextToken is invalid", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(TDB.user());
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([]);
+
+    await expect(
+      adminListGroupsForUser(TestContext, {
+        NextToken: "invalid",
+        Username: "user",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new InvalidParameterError("Invalid pagination token"));
+  });
+});
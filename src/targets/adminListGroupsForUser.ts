@@ -0,0 +1,40 @@
+import {
+  AdminListGroupsForUserRequest,
+  AdminListGroupsForUserResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { UserNotFoundError } from "../errors";
+import { Services } from "../services";
+import { paginate } from "../services/pagination";
+import { groupToResponseObject } from "./responses";
+import { Target } from "./router";
+
+export type AdminListGroupsForUserTarget = Target<
+  AdminListGroupsForUserRequest,
+  AdminListGroupsForUserResponse
+>;
+
+type AdminListGroupsForUserServices = Pick<Services, "cognito">;
+
+export const AdminListGroupsForUser =
+  ({ cognito }: AdminListGroupsForUserServices): AdminListGroupsForUserTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const user = await userPool.getUserByUsername(ctx, req.Username);
+    if (!user) {
+      throw new UserNotFoundError("User does not exist");
+    }
+
+    const groups = await userPool.listUserGroupMembership(ctx, user);
+
+    const page = paginate(groups, (group) => group.GroupName, {
+      scope: `AdminListGroupsForUser:${req.UserPoolId}:${user.Username}`,
+      limitParameterName: "limit",
+      limit: req.Limit,
+      token: req.NextToken,
+    });
+
+    return {
+      Groups: page.items.map(groupToResponseObject(req.UserPoolId)),
+      NextToken: page.nextToken,
+    };
+  };
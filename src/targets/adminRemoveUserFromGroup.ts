@@ -0,0 +1,33 @@
+import { AdminRemoveUserFromGroupRequest } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { GroupNotFoundError, UserNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type AdminRemoveUserFromGroupTarget = Target<
+  AdminRemoveUserFromGroupRequest,
+  {}
+>;
+
+type AdminRemoveUserFromGroupServices = Pick<Services, "cognito">;
+
+export const AdminRemoveUserFromGroup =
+  ({
+    cognito,
+  }: AdminRemoveUserFromGroupServices): AdminRemoveUserFromGroupTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+
+    const group = await userPool.getGroupByGroupName(ctx, req.GroupName);
+    if (!group) {
+      throw new GroupNotFoundError();
+    }
+
+    const user = await userPool.getUserByUsername(ctx, req.Username);
+    if (!user) {
+      throw new UserNotFoundError("User does not exist");
+    }
+
+    await userPool.removeUserFromGroup(ctx, group, user);
+
+    return {};
+  };
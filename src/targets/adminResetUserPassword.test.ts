@@ -0,0 +1,173 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { InvalidParameterError, UserNotFoundError } from "../errors";
+import { Messages, UserPoolService } from "../services";
+import { attribute } from "../services/userPoolService";
+import {
+  AdminResetUserPassword,
+  AdminResetUserPasswordTarget,
+} from "./adminResetUserPassword";
+
+const currentDate = new Date();
+
+describe("AdminResetUserPassword target", () => {
+  let adminResetUserPassword: AdminResetUserPasswordTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockMessages: jest.Mocked<Messages>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    mockMessages = newMockMessages();
+    adminResetUserPassword = AdminResetUserPassword({
+      clock: new ClockFake(currentDate),
+      cognito: newMockCognitoService(mockUserPoolService),
+      messages: mockMessages,
+      otp: () => "1234",
+    });
+  });
+
+  it("sends a code to the user's email address", async () => {
+    const user = TDB.user({
+      Attributes: [
+        attribute("email", "example@example.com"),
+        attribute("email_verified", "true"),
+      ],
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await adminResetUserPassword(TestContext, {
+      ClientMetadata: { client: "metadata" },
+      Username: user.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockMessages.deliver).toHaveBeenCalledWith(
+      TestContext,
+      "ForgotPassword",
+      null,
+      "test",
+      user,
+      "1234",
+      { client: "metadata" },
+      {
+        AttributeName: "email",
+        DeliveryMedium: "EMAIL",
+        Destination: "example@example.com",
+      }
+    );
+  });
+
+  it("sends a code to the user's phone number", async () => {
+    const user = TDB.user({
+      Attributes: [
+        attribute("phone_number", "0400000000"),
+        attribute("phone_number_verified", "true"),
+      ],
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await adminResetUserPassword(TestContext, {
+      Username: user.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockMessages.deliver).toHaveBeenCalledWith(
+      TestContext,
+      "ForgotPassword",
+      null,
+      "test",
+      user,
+      "1234",
+      undefined,
+      {
+        AttributeName: "phone_number",
+        DeliveryMedium: "SMS",
+        Destination: "0400000000",
+      }
+    );
+  });
+
+  it("requires the user to reset their password with the code", async () => {
+    const user = TDB.user({
+      Attributes: [
+        attribute("email", "example@example.com"),
+        attribute("email_verified", "true"),
+      ],
+      UserStatus: "CONFIRMED",
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await adminResetUserPassword(TestContext, {
+      Username: user.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...user,
+      ConfirmationCode: "1234",
+      UserLastModifiedDate: currentDate,
+      UserStatus: "RESET_REQUIRED",
+    });
+  });
+
+  it("throws if the user has nowhere to send the code", async () => {
+    const user = TDB.user({ Attributes: [] });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      adminResetUserPassword(TestContext, {
+        Username: user.Username,
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(
+      new InvalidParameterError(
+        "Cannot reset password for the user as there is no registered/verified email or phone_number"
+      )
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
+  it("throws if the user's email and phone number aren't verified", async () => {
+    const user = TDB.user({
+      Attributes: [
+        attribute("email", "example@example.com"),
+        attribute("email_verified", "false"),
+        attribute("phone_number", "0400000000"),
+      ],
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      adminResetUserPassword(TestContext, {
+        Username: user.Username,
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(
+      new InvalidParameterError(
+        "Cannot reset password for the user as there is no registered/verified email or phone_number"
+      )
+    );
+    expect(mockMessages.deliver).not.toHaveBeenCalled();
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    await expect(
+      adminResetUserPassword(TestContext, {
+        Username: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new UserNotFoundError("User does not exist"));
+  });
+});
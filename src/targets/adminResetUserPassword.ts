@@ -0,0 +1,71 @@
+import {
+  AdminResetUserPasswordRequest,
+  AdminResetUserPasswordResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { InvalidParameterError, UserNotFoundError } from "../errors";
+import { Services } from "../services";
+import { selectAppropriateDeliveryMethod } from "../services/messageDelivery/deliveryMethod";
+import { attributeValue } from "../services/userPoolService";
+import { Target } from "./router";
+
+export type AdminResetUserPasswordTarget = Target<
+  AdminResetUserPasswordRequest,
+  AdminResetUserPasswordResponse
+>;
+
+type AdminResetUserPasswordServices = Pick<
+  Services,
+  "clock" | "cognito" | "messages" | "otp"
+>;
+
+/**
+ * Stops the user signing in with their password until they've reset it with ConfirmForgotPassword, using the code
+ * sent to them here. Like Cognito, the code is only sent to a verified phone number or email address.
+ */
+export const AdminResetUserPassword =
+  ({
+    clock,
+    cognito,
+    messages,
+    otp,
+  }: AdminResetUserPasswordServices): AdminResetUserPasswordTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const user = await userPool.getUserByUsername(ctx, req.Username);
+    if (!user) {
+      throw new UserNotFoundError("User does not exist");
+    }
+
+    const deliveryDetails = selectAppropriateDeliveryMethod(
+      ["phone_number", "email"].filter(
+        (name) => attributeValue(`${name}_verified`, user.Attributes) === "true"
+      ),
+      user
+    );
+    if (!deliveryDetails) {
+      throw new InvalidParameterError(
+        "Cannot reset password for the user as there is no registered/verified email or phone_number"
+      );
+    }
+
+    const code = otp();
+    await messages.deliver(
+      ctx,
+      "ForgotPassword",
+      null,
+      userPool.config.Id,
+      user,
+      code,
+      req.ClientMetadata,
+      deliveryDetails
+    );
+
+    await userPool.saveUser(ctx, {
+      ...user,
+      ConfirmationCode: code,
+      UserLastModifiedDate: clock.get(),
+      UserStatus: "RESET_REQUIRED",
+    });
+
+    return {};
+  };
@@ -0,0 +1,199 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockPasswords } from "../__tests__/mockPasswords";
+import { newMockTokenGenerator } from "../__tests__/mockTokenGenerator";
+import { newMockTriggers } from "../__tests__/mockTriggers";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import {
+  CodeMismatchError,
+  NotAuthorizedError,
+  ResourceNotFoundError,
+} from "../errors";
+import {
+  CognitoService,
+  Passwords,
+  Triggers,
+  UserPoolService,
+} from "../services";
+import { TokenGenerator } from "../services/tokenGenerator";
+import {
+  AdminRespondToAuthChallenge,
+  AdminRespondToAuthChallengeTarget,
+} from "./adminRespondToAuthChallenge";
+
+const currentDate = new Date();
+
+describe("AdminRespondToAuthChallenge target", () => {
+  let adminRespondToAuthChallenge: AdminRespondToAuthChallengeTarget;
+  let mockPasswords: jest.Mocked<Passwords>;
+  let mockTokenGenerator: jest.Mocked<TokenGenerator>;
+  let mockTriggers: jest.Mocked<Triggers>;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
+    mockTokenGenerator = newMockTokenGenerator();
+    mockTokenGenerator.generate.mockResolvedValue({
+      AccessToken: "access",
+      IdToken: "id",
+      RefreshToken: "refresh",
+      ExpiresIn: 3600,
+      TokenType: "Bearer",
+    });
+    mockTriggers = newMockTriggers();
+    mockUserPoolService = newMockUserPoolService();
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([]);
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
+    adminRespondToAuthChallenge = AdminRespondToAuthChallenge({
+      clock: new ClockFake(currentDate),
+      cognito: mockCognitoService,
+      messages: newMockMessages(),
+      otp: () => "1234",
+      passwords: mockPasswords,
+      tokenGenerator: mockTokenGenerator,
+      triggers: mockTriggers,
+    });
+  });
+
+  it("sets the new password and generates tokens for NEW_PASSWORD_REQUIRED", async () => {
+    const user = TDB.user({ UserStatus: "FORCE_CHANGE_PASSWORD" });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockUserPoolService.getAuthSession.mockResolvedValue(
+      TDB.authSession({
+        ChallengeName: "NEW_PASSWORD_REQUIRED",
+        Session: "Session",
+        Username: user.Username,
+      })
+    );
+
+    const output = await adminRespondToAuthChallenge(TestContext, {
+      ChallengeName: "NEW_PASSWORD_REQUIRED",
+      ChallengeResponses: {
+        USERNAME: user.Username,
+        NEW_PASSWORD: "new-password",
+      },
+      ClientId: "clientId",
+      ClientMetadata: {
+        client: "metadata",
+      },
+      Session: "Session",
+      UserPoolId: "test",
+    });
+
+    const updatedUser = {
+      ...user,
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
+      UserLastModifiedDate: currentDate,
+      UserStatus: "CONFIRMED",
+    };
+
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+      TestContext,
+      updatedUser
+    );
+    expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
+      TestContext,
+      updatedUser,
+      [],
+      "clientId",
+      "test",
+      { client: "metadata" },
+      "NewPasswordChallenge"
+    );
+    expect(output).toEqual({
+      ChallengeParameters: {},
+      AuthenticationResult: {
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      },
+    });
+  });
+
+  it("throws if the SMS_MFA code is incorrect", async () => {
+    const user = TDB.user({ MFACode: "1234" });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockUserPoolService.getAuthSession.mockResolvedValue(
+      TDB.authSession({
+        ChallengeName: "SMS_MFA",
+        Session: "Session",
+        Username: user.Username,
+      })
+    );
+
+    await expect(
+      adminRespondToAuthChallenge(TestContext, {
+        ChallengeName: "SMS_MFA",
+        ChallengeResponses: {
+          USERNAME: user.Username,
+          SMS_MFA_CODE: "4321",
+        },
+        ClientId: "clientId",
+        Session: "Session",
+        UserPoolId: "test",
+      })
+    ).rejects.toBeInstanceOf(CodeMismatchError);
+  });
+
+  it("throws if the client belongs to another user pool", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId", UserPoolId: "other" })
+    );
+
+    await expect(
+      adminRespondToAuthChallenge(TestContext, {
+        ChallengeName: "SMS_MFA",
+        ChallengeResponses: {
+          USERNAME: "username",
+          SMS_MFA_CODE: "1234",
+        },
+        ClientId: "clientId",
+        Session: "Session",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+    expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+  });
+
+  it("throws if the client has a secret and the secret hash is missing", async () => {
+    const user = TDB.user({ MFACode: "1234" });
+
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({
+        ClientId: "clientId",
+        ClientSecret: "secret",
+        UserPoolId: "test",
+      })
+    );
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      adminRespondToAuthChallenge(TestContext, {
+        ChallengeName: "SMS_MFA",
+        ChallengeResponses: {
+          USERNAME: user.Username,
+          SMS_MFA_CODE: "1234",
+        },
+        ClientId: "clientId",
+        Session: "Session",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(
+      new NotAuthorizedError("Unable to verify secret hash for client clientId")
+    );
+    expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+  });
+});
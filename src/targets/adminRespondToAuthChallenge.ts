@@ -0,0 +1,44 @@
+import {
+  AdminRespondToAuthChallengeRequest,
+  AdminRespondToAuthChallengeResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { ResourceNotFoundError } from "../errors";
+import { Services } from "../services";
+import { RespondToAuthChallenge } from "./respondToAuthChallenge";
+import { Target } from "./router";
+
+export type AdminRespondToAuthChallengeTarget = Target<
+  AdminRespondToAuthChallengeRequest,
+  AdminRespondToAuthChallengeResponse
+>;
+
+type AdminRespondToAuthChallengeServices = Pick<
+  Services,
+  | "clock"
+  | "cognito"
+  | "messages"
+  | "otp"
+  | "passwords"
+  | "triggers"
+  | "tokenGenerator"
+>;
+
+/**
+ * AdminRespondToAuthChallenge behaves the same as RespondToAuthChallenge for the
+ * challenges we support, including which triggers receive the ClientMetadata and
+ * checking the SECRET_HASH, except the client has to belong to the given user pool.
+ */
+export const AdminRespondToAuthChallenge = (
+  services: AdminRespondToAuthChallengeServices
+): AdminRespondToAuthChallengeTarget => {
+  const respondToAuthChallenge = RespondToAuthChallenge(services);
+
+  return async (ctx, req) => {
+    const appClient = await services.cognito.getAppClient(ctx, req.ClientId);
+    if (appClient && appClient.UserPoolId !== req.UserPoolId) {
+      throw new ResourceNotFoundError();
+    }
+
+    return respondToAuthChallenge(ctx, req);
+  };
+};
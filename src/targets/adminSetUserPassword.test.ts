@@ -1,10 +1,11 @@
 import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockPasswords } from "../__tests__/mockPasswords";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
 import * as TDB from "../__tests__/testDataBuilder";
-import { UserNotFoundError } from "../errors";
-import { UserPoolService } from "../services";
+import { InvalidPasswordError, UserNotFoundError } from "../errors";
+import { Passwords, UserPoolService } from "../services";
 import {
   AdminSetUserPassword,
   AdminSetUserPasswordTarget,
@@ -13,14 +14,21 @@ import {
 describe("AdminSetUser target", () => {
   let adminSetUserPassword: AdminSetUserPasswordTarget;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockPasswords: jest.Mocked<Passwords>;
   let clock: ClockFake;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
     clock = new ClockFake(new Date());
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
     adminSetUserPassword = AdminSetUserPassword({
       cognito: newMockCognitoService(mockUserPoolService),
       clock,
+      passwords: mockPasswords,
     });
   });
 
@@ -39,10 +47,16 @@ describe("AdminSetUser target", () => {
 
     expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
       ...existingUser,
-      Password: "newPassword",
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
       UserLastModifiedDate: newDate,
       UserStatus: "FORCE_CHANGE_PASSWORD",
     });
+    expect(mockPasswords.credentials).toHaveBeenCalledWith(
+      "test",
+      existingUser.Username,
+      "newPassword"
+    );
   });
 
   it("sets a new temporary password explicitly", async () => {
@@ -61,7 +75,8 @@ describe("AdminSetUser target", () => {
 
     expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
       ...existingUser,
-      Password: "newPassword",
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
       UserLastModifiedDate: newDate,
       UserStatus: "FORCE_CHANGE_PASSWORD",
     });
@@ -83,7 +98,8 @@ describe("AdminSetUser target", () => {
 
     expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
       ...existingUser,
-      Password: "newPassword",
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
       UserLastModifiedDate: newDate,
       UserStatus: "CONFIRMED",
     });
@@ -100,4 +116,24 @@ describe("AdminSetUser target", () => {
       })
     ).rejects.toEqual(new UserNotFoundError("User does not exist"));
   });
+
+  it("throws if the password doesn't satisfy the user pool's password policy", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(TDB.user());
+    mockUserPoolService.config.Policies = {
+      PasswordPolicy: { MinimumLength: 12 },
+    };
+
+    await expect(
+      adminSetUserPassword(TestContext, {
+        Password: "newPassword",
+        Username: "Username",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(
+      new InvalidPasswordError(
+        "Password did not conform with policy: Password not long enough"
+      )
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
 });
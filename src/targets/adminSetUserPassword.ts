@@ -4,6 +4,7 @@ import {
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { UserNotFoundError } from "../errors";
 import { Services } from "../services";
+import { validatePassword } from "../services/passwordPolicy";
 import { Target } from "./router";
 
 export type AdminSetUserPasswordTarget = Target<
@@ -11,12 +12,16 @@ export type AdminSetUserPasswordTarget = Target<
   AdminSetUserPasswordResponse
 >;
 
-type AdminSetUserPasswordServices = Pick<Services, "clock" | "cognito">;
+type AdminSetUserPasswordServices = Pick<
+  Services,
+  "clock" | "cognito" | "passwords"
+>;
 
 export const AdminSetUserPassword =
   ({
     cognito,
     clock,
+    passwords,
   }: AdminSetUserPasswordServices): AdminSetUserPasswordTarget =>
   async (ctx, req) => {
     const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
@@ -25,9 +30,15 @@ export const AdminSetUserPassword =
       throw new UserNotFoundError("User does not exist");
     }
 
+    validatePassword(userPool.config.Policies?.PasswordPolicy, req.Password);
+
     await userPool.saveUser(ctx, {
       ...user,
-      Password: req.Password,
+      ...(await passwords.credentials(
+        userPool.config.Id,
+        user.Username,
+        req.Password
+      )),
       UserLastModifiedDate: clock.get(),
       UserStatus: req.Permanent ? "CONFIRMED" : "FORCE_CHANGE_PASSWORD",
     });
@@ -0,0 +1,55 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { UserNotFoundError } from "../errors";
+import { UserPoolService } from "../services";
+import {
+  AdminUserGlobalSignOut,
+  AdminUserGlobalSignOutTarget,
+} from "./adminUserGlobalSignOut";
+
+describe("AdminUserGlobalSignOut target", () => {
+  let adminUserGlobalSignOut: AdminUserGlobalSignOutTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    adminUserGlobalSignOut = AdminUserGlobalSignOut({
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("revokes all of the user's refresh tokens", async () => {
+    const existingUser = TDB.user({
+      RefreshTokens: ["refresh token", "another refresh token"],
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(existingUser);
+
+    await adminUserGlobalSignOut(TestContext, {
+      Username: existingUser.Username,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.getUserByUsername).toHaveBeenCalledWith(
+      TestContext,
+      existingUser.Username
+    );
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...existingUser,
+      RefreshTokens: [],
+    });
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    await expect(
+      adminUserGlobalSignOut(TestContext, {
+        Username: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new UserNotFoundError("User does not exist"));
+  });
+});
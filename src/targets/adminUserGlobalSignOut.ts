@@ -0,0 +1,34 @@
+import {
+  AdminUserGlobalSignOutRequest,
+  AdminUserGlobalSignOutResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { UserNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type AdminUserGlobalSignOutTarget = Target<
+  AdminUserGlobalSignOutRequest,
+  AdminUserGlobalSignOutResponse
+>;
+
+type AdminUserGlobalSignOutServices = Pick<Services, "cognito">;
+
+/**
+ * The same as GlobalSignOut, for a user chosen by an administrator instead of the user identified by an access token.
+ */
+export const AdminUserGlobalSignOut =
+  ({ cognito }: AdminUserGlobalSignOutServices): AdminUserGlobalSignOutTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const user = await userPool.getUserByUsername(ctx, req.Username);
+    if (!user) {
+      throw new UserNotFoundError("User does not exist");
+    }
+
+    await userPool.saveUser(ctx, {
+      ...user,
+      RefreshTokens: [],
+    });
+
+    return {};
+  };
@@ -0,0 +1,369 @@
+import {
+  ChallengeNameType,
+  ChallengeParametersType,
+  DeliveryMediumType,
+  SessionType,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { randomBytes } from "crypto";
+import { v4 } from "uuid";
+import {
+  InvalidLambdaResponseError,
+  InvalidParameterError,
+  NotAuthorizedError,
+  UnsupportedError,
+} from "../errors";
+import { Services, UserPoolService } from "../services";
+import { createSrpVerifier, generateServerKeys } from "../services/srp";
+import {
+  attributesToRecord,
+  attributeValue,
+  AuthSession,
+  ChallengeResult,
+  MFAOption,
+  User,
+} from "../services/userPoolService";
+import { Context } from "./router";
+
+/**
+ * The parts of an auth response which issue the client another challenge
+ */
+export interface Challenge {
+  ChallengeName: ChallengeNameType;
+  ChallengeParameters: ChallengeParametersType;
+  Session: SessionType;
+}
+
+// Cognito's sessions are valid for three minutes
+const AUTH_SESSION_VALIDITY_MS = 3 * 60 * 1000;
+
+type AuthSessionState = Pick<
+  AuthSession,
+  | "ChallengeMetadata"
+  | "ChallengeResults"
+  | "PrivateChallengeParameters"
+  | "SrpChallenge"
+>;
+
+const startAuthSession = async (
+  ctx: Context,
+  services: Pick<Services, "clock">,
+  userPool: UserPoolService,
+  user: User,
+  clientId: string,
+  challengeName: ChallengeNameType,
+  state: AuthSessionState = {}
+): Promise<SessionType> => {
+  const session = v4();
+
+  await userPool.saveAuthSession(ctx, {
+    ...state,
+    Session: session,
+    Username: user.Username,
+    ClientId: clientId,
+    ChallengeName: challengeName,
+    ExpirationDate: new Date(
+      services.clock.get().getTime() + AUTH_SESSION_VALIDITY_MS
+    ),
+  });
+
+  return session;
+};
+
+/**
+ * Finds the session a challenge response was sent with. A session can only be used by the user and client it was
+ * issued to, to answer the challenge it was issued for, before it expires. The session isn't used up until the
+ * response has been checked with consumeAuthSession, so the client can retry a mistyped answer.
+ */
+export const findAuthSession = async (
+  ctx: Context,
+  services: Pick<Services, "clock">,
+  userPool: UserPoolService,
+  session: SessionType,
+  user: User,
+  clientId: string,
+  challengeName: ChallengeNameType
+): Promise<AuthSession> => {
+  const authSession = await userPool.getAuthSession(ctx, session);
+  if (
+    !authSession ||
+    authSession.Username !== user.Username ||
+    authSession.ClientId !== clientId ||
+    authSession.ChallengeName !== challengeName
+  ) {
+    throw new NotAuthorizedError("Invalid session for the user.");
+  }
+
+  if (authSession.ExpirationDate <= services.clock.get()) {
+    await userPool.deleteAuthSession(ctx, session);
+
+    throw new NotAuthorizedError(
+      "Invalid session for the user, session is expired."
+    );
+  }
+
+  return authSession;
+};
+
+/**
+ * Uses up a session once the challenge it was issued for has been answered, so it can't be used again.
+ */
+export const consumeAuthSession = async (
+  ctx: Context,
+  userPool: UserPoolService,
+  authSession: AuthSession
+): Promise<void> => {
+  await userPool.deleteAuthSession(ctx, authSession.Session);
+};
+
+export const isMfaRequired = (userPool: UserPoolService, user: User) =>
+  (userPool.config.MfaConfiguration === "OPTIONAL" &&
+    (user.MFAOptions ?? []).length > 0) ||
+  userPool.config.MfaConfiguration === "ON";
+
+export const smsMfaChallenge = async (
+  ctx: Context,
+  services: Pick<Services, "clock" | "messages" | "otp">,
+  userPool: UserPoolService,
+  user: User,
+  clientId: string,
+  clientMetadata: Record<string, string> | undefined
+): Promise<Challenge> => {
+  if (!user.MFAOptions?.length) {
+    throw new NotAuthorizedError();
+  }
+  const smsMfaOption = user.MFAOptions?.find(
+    (x): x is MFAOption & { DeliveryMedium: DeliveryMediumType } =>
+      x.DeliveryMedium === "SMS"
+  );
+  if (!smsMfaOption) {
+    throw new UnsupportedError("MFA challenge without SMS");
+  }
+
+  const deliveryDestination = attributeValue(
+    smsMfaOption.AttributeName,
+    user.Attributes
+  );
+  if (!deliveryDestination) {
+    throw new UnsupportedError(`SMS_MFA without ${smsMfaOption.AttributeName}`);
+  }
+
+  const code = services.otp();
+  await services.messages.deliver(
+    ctx,
+    "Authentication",
+    clientId,
+    userPool.config.Id,
+    user,
+    code,
+    clientMetadata,
+    {
+      DeliveryMedium: smsMfaOption.DeliveryMedium,
+      AttributeName: smsMfaOption.AttributeName,
+      Destination: deliveryDestination,
+    }
+  );
+
+  await userPool.saveUser(ctx, {
+    ...user,
+    MFACode: code,
+  });
+
+  return {
+    ChallengeName: "SMS_MFA",
+    ChallengeParameters: {
+      CODE_DELIVERY_DELIVERY_MEDIUM: "SMS",
+      CODE_DELIVERY_DESTINATION: deliveryDestination,
+      USER_ID_FOR_SRP: user.Username,
+    },
+    Session: await startAuthSession(
+      ctx,
+      services,
+      userPool,
+      user,
+      clientId,
+      "SMS_MFA"
+    ),
+  };
+};
+
+export const newPasswordChallenge = async (
+  ctx: Context,
+  services: Pick<Services, "clock">,
+  userPool: UserPoolService,
+  user: User,
+  clientId: string
+): Promise<Challenge> => ({
+  ChallengeName: "NEW_PASSWORD_REQUIRED",
+  ChallengeParameters: {
+    USER_ID_FOR_SRP: user.Username,
+    requiredAttributes: JSON.stringify([]),
+    userAttributes: JSON.stringify(attributesToRecord(user.Attributes)),
+  },
+  Session: await startAuthSession(
+    ctx,
+    services,
+    userPool,
+    user,
+    clientId,
+    "NEW_PASSWORD_REQUIRED"
+  ),
+});
+
+/**
+ * Starts SRP authentication with the client's public value, SRP_A. If this is part of a CUSTOM_AUTH flow the
+ * challenges answered so far are kept with the session so the flow can continue once the client has proven its
+ * password.
+ */
+export const passwordVerifierChallenge = async (
+  ctx: Context,
+  services: Pick<Services, "clock" | "passwords">,
+  userPool: UserPoolService,
+  user: User,
+  clientId: string,
+  clientPublicKey: string,
+  challengeResults?: ChallengeResult[]
+): Promise<Challenge> => {
+  // don't start an SRP exchange with a user who couldn't finish it
+  services.passwords.checkLockout(user);
+
+  // users created before we stored verifiers won't have one yet, but nor will their password have been hashed
+  let verifier = user.SrpVerifier;
+  if (!verifier) {
+    verifier = createSrpVerifier(
+      userPool.config.Id,
+      user.Username,
+      user.Password
+    );
+    await userPool.saveUser(ctx, { ...user, SrpVerifier: verifier });
+  }
+
+  const serverKeys = generateServerKeys(verifier.verifier);
+  const secretBlock = randomBytes(64).toString("base64");
+
+  return {
+    ChallengeName: "PASSWORD_VERIFIER",
+    ChallengeParameters: {
+      SALT: verifier.salt,
+      SECRET_BLOCK: secretBlock,
+      SRP_B: serverKeys.publicKey,
+      USERNAME: user.Username,
+      USER_ID_FOR_SRP: user.Username,
+    },
+    Session: await startAuthSession(
+      ctx,
+      services,
+      userPool,
+      user,
+      clientId,
+      "PASSWORD_VERIFIER",
+      {
+        ChallengeResults: challengeResults,
+        SrpChallenge: {
+          SecretBlock: secretBlock,
+          ClientPublicKey: clientPublicKey,
+          ServerPrivateKey: serverKeys.privateKey,
+        },
+      }
+    ),
+  };
+};
+
+/**
+ * Asks the DefineAuthChallenge trigger what should happen next in a CUSTOM_AUTH flow, given the challenges the user has
+ * answered so far, and issues that challenge. Returns undefined if the trigger decided to issue tokens.
+ */
+export const nextCustomAuthChallenge = async (
+  ctx: Context,
+  services: Pick<Services, "clock" | "passwords" | "triggers">,
+  userPool: UserPoolService,
+  user: User,
+  clientId: string,
+  clientMetadata: Record<string, string> | undefined,
+  session: ChallengeResult[],
+  clientPublicKey?: string
+): Promise<Challenge | undefined> => {
+  if (!services.triggers.enabled("DefineAuthChallenge")) {
+    throw new InvalidParameterError(
+      "Custom auth lambda trigger is not configured for the user pool."
+    );
+  }
+
+  const { challengeName, failAuthentication, issueTokens } =
+    await services.triggers.defineAuthChallenge(ctx, {
+      clientId,
+      clientMetadata,
+      session,
+      userAttributes: user.Attributes,
+      username: user.Username,
+      userPoolId: userPool.config.Id,
+    });
+
+  if (failAuthentication) {
+    throw new NotAuthorizedError();
+  }
+  if (issueTokens) {
+    return undefined;
+  }
+
+  if (challengeName === "CUSTOM_CHALLENGE") {
+    if (!services.triggers.enabled("CreateAuthChallenge")) {
+      throw new InvalidParameterError(
+        "Custom auth lambda trigger is not configured for the user pool."
+      );
+    }
+
+    const {
+      challengeMetadata,
+      privateChallengeParameters,
+      publicChallengeParameters,
+    } = await services.triggers.createAuthChallenge(ctx, {
+      challengeName,
+      clientId,
+      clientMetadata,
+      session,
+      userAttributes: user.Attributes,
+      username: user.Username,
+      userPoolId: userPool.config.Id,
+    });
+
+    return {
+      ChallengeName: challengeName,
+      ChallengeParameters: {
+        ...publicChallengeParameters,
+        USERNAME: user.Username,
+      },
+      Session: await startAuthSession(
+        ctx,
+        services,
+        userPool,
+        user,
+        clientId,
+        challengeName,
+        {
+          ChallengeMetadata: challengeMetadata || undefined,
+          ChallengeResults: session,
+          PrivateChallengeParameters: privateChallengeParameters ?? {},
+        }
+      ),
+    };
+  } else if (challengeName === "PASSWORD_VERIFIER") {
+    // the client can only answer PASSWORD_VERIFIER if it sent SRP_A when it started authenticating
+    if (!clientPublicKey) {
+      throw new InvalidLambdaResponseError();
+    }
+
+    return passwordVerifierChallenge(
+      ctx,
+      services,
+      userPool,
+      user,
+      clientId,
+      clientPublicKey,
+      session
+    );
+  } else if (!challengeName) {
+    throw new InvalidLambdaResponseError();
+  }
+
+  throw new UnsupportedError(`CUSTOM_AUTH with ChallengeName=${challengeName}`);
+};
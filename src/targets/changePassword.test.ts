@@ -0,0 +1,212 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockPasswords } from "../__tests__/mockPasswords";
+import { newMockTokenVerifier } from "../__tests__/mockTokenVerifier";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import {
+  InvalidPasswordError,
+  NotAuthorizedError,
+  UserNotConfirmedError,
+} from "../errors";
+import { Passwords, UserPoolService } from "../services";
+import { TokenVerifier } from "../services/tokenVerifier";
+import { User } from "../services/userPoolService";
+import { ChangePassword, ChangePasswordTarget } from "./changePassword";
+
+describe("ChangePassword target", () => {
+  let changePassword: ChangePasswordTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockTokenVerifier: jest.Mocked<TokenVerifier>;
+  let mockPasswords: jest.Mocked<Passwords>;
+  let clock: ClockFake;
+
+  const verifiedAs = (user: User | null) =>
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    mockTokenVerifier = newMockTokenVerifier();
+    clock = new ClockFake(new Date());
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
+    mockPasswords.verify.mockImplementation((ctx, userPool, user) =>
+      Promise.resolve(user)
+    );
+    changePassword = ChangePassword({
+      clock,
+      passwords: mockPasswords,
+      tokenVerifier: mockTokenVerifier,
+    });
+  });
+
+  it("updates the user's password", async () => {
+    const user = TDB.user({ Password: "OldPassword1!" });
+    verifiedAs(user);
+
+    const newDate = clock.advanceBy(1200);
+
+    await changePassword(TestContext, {
+      AccessToken: "access token",
+      PreviousPassword: "OldPassword1!",
+      ProposedPassword: "NewPassword1!",
+    });
+
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...user,
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
+      UserLastModifiedDate: newDate,
+    });
+    expect(mockPasswords.verify).toHaveBeenCalledWith(
+      TestContext,
+      mockUserPoolService,
+      user,
+      "OldPassword1!"
+    );
+    expect(mockPasswords.credentials).toHaveBeenCalledWith(
+      "test",
+      user.Username,
+      "NewPassword1!"
+    );
+  });
+
+  it("updates the user as the password verifier saved them", async () => {
+    const user = TDB.user({
+      FailedPasswordAttempts: 2,
+      Password: "OldPassword1!",
+    });
+    verifiedAs(user);
+    mockPasswords.verify.mockResolvedValue({
+      ...user,
+      FailedPasswordAttempts: undefined,
+    });
+
+    await changePassword(TestContext, {
+      AccessToken: "access token",
+      PreviousPassword: "OldPassword1!",
+      ProposedPassword: "NewPassword1!",
+    });
+
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+      TestContext,
+      expect.objectContaining({
+        FailedPasswordAttempts: undefined,
+        Password: "hashed password",
+      })
+    );
+  });
+
+  it("throws if token isn't valid", async () => {
+    mockTokenVerifier.verifyAccessToken.mockRejectedValue(
+      new NotAuthorizedError("Invalid Access Token")
+    );
+
+    await expect(
+      changePassword(TestContext, {
+        AccessToken: "access token",
+        PreviousPassword: "OldPassword1!",
+        ProposedPassword: "NewPassword1!",
+      })
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
+  });
+
+  it("throws if user doesn't exist", async () => {
+    verifiedAs(null);
+
+    await expect(
+      changePassword(TestContext, {
+        AccessToken: "access token",
+        PreviousPassword: "OldPassword1!",
+        ProposedPassword: "NewPassword1!",
+      })
+    ).rejects.toEqual(new NotAuthorizedError());
+  });
+
+  it("throws if the user is disabled", async () => {
+    verifiedAs(TDB.user({ Enabled: false, Password: "OldPassword1!" }));
+
+    await expect(
+      changePassword(TestContext, {
+        AccessToken: "access token",
+        PreviousPassword: "OldPassword1!",
+        ProposedPassword: "NewPassword1!",
+      })
+    ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
+  it("throws if the user is unconfirmed", async () => {
+    verifiedAs(
+      TDB.user({ Password: "OldPassword1!", UserStatus: "UNCONFIRMED" })
+    );
+
+    await expect(
+      changePassword(TestContext, {
+        AccessToken: "access token",
+        PreviousPassword: "OldPassword1!",
+        ProposedPassword: "NewPassword1!",
+      })
+    ).rejects.toEqual(new UserNotConfirmedError());
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
+  it("throws if the previous password is wrong", async () => {
+    verifiedAs(TDB.user({ Password: "OldPassword1!" }));
+    mockPasswords.verify.mockResolvedValue(null);
+
+    await expect(
+      changePassword(TestContext, {
+        AccessToken: "access token",
+        PreviousPassword: "WrongPassword1!",
+        ProposedPassword: "NewPassword1!",
+      })
+    ).rejects.toEqual(
+      new NotAuthorizedError("Incorrect username or password.")
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
+  it("throws if the user is locked out", async () => {
+    verifiedAs(TDB.user({ Password: "OldPassword1!" }));
+    mockPasswords.verify.mockRejectedValue(
+      new NotAuthorizedError("Password attempts exceeded")
+    );
+
+    await expect(
+      changePassword(TestContext, {
+        AccessToken: "access token",
+        PreviousPassword: "OldPassword1!",
+        ProposedPassword: "NewPassword1!",
+      })
+    ).rejects.toEqual(new NotAuthorizedError("Password attempts exceeded"));
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
+  it("throws if the proposed password doesn't satisfy the user pool's password policy", async () => {
+    verifiedAs(TDB.user({ Password: "OldPassword1!" }));
+    mockUserPoolService.config.Policies = {
+      PasswordPolicy: { MinimumLength: 8 },
+    };
+
+    await expect(
+      changePassword(TestContext, {
+        AccessToken: "access token",
+        PreviousPassword: "OldPassword1!",
+        ProposedPassword: "short",
+      })
+    ).rejects.toEqual(
+      new InvalidPasswordError(
+        "Password did not conform with policy: Password not long enough"
+      )
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+});
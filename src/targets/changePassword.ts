@@ -2,9 +2,9 @@ import {
   ChangePasswordRequest,
   ChangePasswordResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import jwt from "jsonwebtoken";
 import { Services } from "../services";
-import { NotAuthorizedError } from "../errors";
+import { validatePassword } from "../services/passwordPolicy";
+import { NotAuthorizedError, UserNotConfirmedError } from "../errors";
 import { Target } from "./router";
 
 export type ChangePasswordTarget = Target<
@@ -12,22 +12,54 @@ export type ChangePasswordTarget = Target<
   ChangePasswordResponse
 >;
 
+type ChangePasswordServices = Pick<
+  Services,
+  "clock" | "passwords" | "tokenVerifier"
+>;
+
 export const ChangePassword =
-  ({ cognito, clock }: Services): ChangePasswordTarget =>
+  ({
+    clock,
+    passwords,
+    tokenVerifier,
+  }: ChangePasswordServices): ChangePasswordTarget =>
   async (ctx, req) => {
-    const claims = jwt.decode(req.AccessToken) as any;
-    const userPool = await cognito.getUserPoolForClientId(
+    const { userPool, user } = await tokenVerifier.verifyAccessToken(
       ctx,
-      claims.client_id
+      req.AccessToken
     );
-    const user = await userPool.getUserByUsername(ctx, claims.username);
     if (!user) {
       throw new NotAuthorizedError();
     }
-    // TODO: Should check previous password.
+    if (!user.Enabled) {
+      throw new NotAuthorizedError("User is disabled.");
+    }
+    if (user.UserStatus === "UNCONFIRMED") {
+      throw new UserNotConfirmedError();
+    }
+
+    const verifiedUser = await passwords.verify(
+      ctx,
+      userPool,
+      user,
+      req.PreviousPassword
+    );
+    if (!verifiedUser) {
+      throw new NotAuthorizedError("Incorrect username or password.");
+    }
+
+    validatePassword(
+      userPool.config.Policies?.PasswordPolicy,
+      req.ProposedPassword
+    );
+
     await userPool.saveUser(ctx, {
-      ...user,
-      Password: req.ProposedPassword,
+      ...verifiedUser,
+      ...(await passwords.credentials(
+        userPool.config.Id,
+        user.Username,
+        req.ProposedPassword
+      )),
       UserLastModifiedDate: clock.get(),
     });
 
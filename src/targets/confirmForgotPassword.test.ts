@@ -1,10 +1,21 @@
 import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockPasswords } from "../__tests__/mockPasswords";
 import { newMockTriggers } from "../__tests__/mockTriggers";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
-import { CodeMismatchError, UserNotFoundError } from "../errors";
-import { Triggers, UserPoolService } from "../services";
+import {
+  CodeMismatchError,
+  InvalidPasswordError,
+  NotAuthorizedError,
+  UserNotFoundError,
+} from "../errors";
+import {
+  CognitoService,
+  Passwords,
+  Triggers,
+  UserPoolService,
+} from "../services";
 import { attribute, attributesAppend } from "../services/userPoolService";
 import {
   ConfirmForgotPassword,
@@ -16,8 +27,10 @@ const currentDate = new Date();
 
 describe("ConfirmForgotPassword target", () => {
   let confirmForgotPassword: ConfirmForgotPasswordTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
   let mockTriggers: jest.Mocked<Triggers>;
+  let mockPasswords: jest.Mocked<Passwords>;
 
   let clock: ClockFake;
 
@@ -26,9 +39,16 @@ describe("ConfirmForgotPassword target", () => {
 
     mockUserPoolService = newMockUserPoolService();
     mockTriggers = newMockTriggers();
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
     confirmForgotPassword = ConfirmForgotPassword({
       clock,
-      cognito: newMockCognitoService(mockUserPoolService),
+      cognito: mockCognitoService,
+      passwords: mockPasswords,
       triggers: mockTriggers,
     });
   });
@@ -64,6 +84,31 @@ describe("ConfirmForgotPassword target", () => {
     ).rejects.toBeInstanceOf(CodeMismatchError);
   });
 
+  it("throws if the password doesn't satisfy the user pool's password policy", async () => {
+    const user = TDB.user({
+      ConfirmationCode: "4567",
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockUserPoolService.config.Policies = {
+      PasswordPolicy: { RequireNumbers: true },
+    };
+
+    await expect(
+      confirmForgotPassword(TestContext, {
+        ClientId: "clientId",
+        Username: "janice",
+        ConfirmationCode: "4567",
+        Password: "newPassword",
+      })
+    ).rejects.toEqual(
+      new InvalidPasswordError(
+        "Password did not conform with policy: Password must have numeric characters"
+      )
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
   describe("when code matches", () => {
     it("updates the user's password", async () => {
       const user = TDB.user({
@@ -86,12 +131,36 @@ describe("ConfirmForgotPassword target", () => {
       expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
         ...user,
         ConfirmationCode: undefined,
-        Password: "newPassword",
+        Password: "hashed password",
+        SrpVerifier: expect.any(Object),
         UserLastModifiedDate: newNow,
         UserStatus: "CONFIRMED",
       });
     });
 
+    it("confirms a user who was required to reset their password", async () => {
+      const user = TDB.user({
+        ConfirmationCode: "4567",
+        UserStatus: "RESET_REQUIRED",
+      });
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+      await confirmForgotPassword(TestContext, {
+        ClientId: "clientId",
+        Username: user.Username,
+        ConfirmationCode: "4567",
+        Password: "newPassword",
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({
+          UserStatus: "CONFIRMED",
+        })
+      );
+    });
+
     describe("when PostConfirmation trigger configured", () => {
       it("invokes the trigger", async () => {
         mockTriggers.enabled.mockReturnValue(true);
@@ -154,4 +223,27 @@ describe("ConfirmForgotPassword target", () => {
       });
     });
   });
+
+  it("throws if the client has a secret and the secret hash is missing", async () => {
+    const user = TDB.user({
+      ConfirmationCode: "1234",
+    });
+
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId", ClientSecret: "secret" })
+    );
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      confirmForgotPassword(TestContext, {
+        ClientId: "clientId",
+        Username: user.Username,
+        ConfirmationCode: "1234",
+        Password: "newPassword",
+      })
+    ).rejects.toEqual(
+      new NotAuthorizedError("Unable to verify secret hash for client clientId")
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
 });
@@ -4,6 +4,8 @@ import {
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { CodeMismatchError, UserNotFoundError } from "../errors";
 import { Services } from "../services";
+import { validatePassword } from "../services/passwordPolicy";
+import { verifySecretHash } from "../services/secretHash";
 import { attribute, attributesAppend } from "../services/userPoolService";
 import { Target } from "./router";
 
@@ -14,17 +16,25 @@ export type ConfirmForgotPasswordTarget = Target<
 
 type ConfirmForgotPasswordServices = Pick<
   Services,
-  "cognito" | "clock" | "triggers"
+  "cognito" | "clock" | "passwords" | "triggers"
 >;
 
 export const ConfirmForgotPassword =
   ({
     cognito,
     clock,
+    passwords,
     triggers,
   }: ConfirmForgotPasswordServices): ConfirmForgotPasswordTarget =>
   async (ctx, req) => {
     const userPool = await cognito.getUserPoolForClientId(ctx, req.ClientId);
+    await verifySecretHash(
+      ctx,
+      cognito,
+      req.ClientId,
+      req.Username,
+      req.SecretHash
+    );
     const user = await userPool.getUserByUsername(ctx, req.Username);
     if (!user) {
       throw new UserNotFoundError();
@@ -34,12 +44,18 @@ export const ConfirmForgotPassword =
       throw new CodeMismatchError();
     }
 
+    validatePassword(userPool.config.Policies?.PasswordPolicy, req.Password);
+
     const updatedUser = {
       ...user,
       UserLastModifiedDate: clock.get(),
       UserStatus: "CONFIRMED",
       ConfirmationCode: undefined,
-      Password: req.Password,
+      ...(await passwords.credentials(
+        userPool.config.Id,
+        user.Username,
+        req.Password
+      )),
     };
 
     await userPool.saveUser(ctx, updatedUser);
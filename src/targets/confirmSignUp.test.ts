@@ -5,7 +5,7 @@ import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
 import * as TDB from "../__tests__/testDataBuilder";
 import { CodeMismatchError, NotAuthorizedError } from "../errors";
-import { Triggers, UserPoolService } from "../services";
+import { CognitoService, Triggers, UserPoolService } from "../services";
 import { attribute, attributesAppend } from "../services/userPoolService";
 import { ConfirmSignUp, ConfirmSignUpTarget } from "./confirmSignUp";
 
@@ -13,6 +13,7 @@ const originalDate = new Date();
 
 describe("ConfirmSignUp target", () => {
   let confirmSignUp: ConfirmSignUpTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
   let mockTriggers: jest.Mocked<Triggers>;
   let clock: ClockFake;
@@ -22,8 +23,9 @@ describe("ConfirmSignUp target", () => {
 
     mockUserPoolService = newMockUserPoolService();
     mockTriggers = newMockTriggers();
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
     confirmSignUp = ConfirmSignUp({
-      cognito: newMockCognitoService(mockUserPoolService),
+      cognito: mockCognitoService,
       clock,
       triggers: mockTriggers,
     });
@@ -146,4 +148,27 @@ describe("ConfirmSignUp target", () => {
       });
     });
   });
+
+  it("throws if the client has a secret and the secret hash is missing", async () => {
+    const user = TDB.user({
+      ConfirmationCode: "1234",
+      UserStatus: "UNCONFIRMED",
+    });
+
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId", ClientSecret: "secret" })
+    );
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      confirmSignUp(TestContext, {
+        ClientId: "clientId",
+        Username: user.Username,
+        ConfirmationCode: "1234",
+      })
+    ).rejects.toEqual(
+      new NotAuthorizedError("Unable to verify secret hash for client clientId")
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
 });
@@ -4,6 +4,7 @@ import {
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { CodeMismatchError, NotAuthorizedError } from "../errors";
 import { Services } from "../services";
+import { verifySecretHash } from "../services/secretHash";
 import { attribute, attributesAppend } from "../services/userPoolService";
 import { Target } from "./router";
 
@@ -20,6 +21,13 @@ export const ConfirmSignUp =
   }: Pick<Services, "cognito" | "clock" | "triggers">): ConfirmSignUpTarget =>
   async (ctx, req) => {
     const userPool = await cognito.getUserPoolForClientId(ctx, req.ClientId);
+    await verifySecretHash(
+      ctx,
+      cognito,
+      req.ClientId,
+      req.Username,
+      req.SecretHash
+    );
     const user = await userPool.getUserByUsername(ctx, req.Username);
     if (!user) {
       throw new NotAuthorizedError();
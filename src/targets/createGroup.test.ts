@@ -2,6 +2,8 @@ import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { GroupExistsError } from "../errors";
 import { UserPoolService } from "../services";
 import { CreateGroup, CreateGroupTarget } from "./createGroup";
 
@@ -37,4 +39,21 @@ describe("CreateGroup target", () => {
       RoleArn: "ARN",
     });
   });
+
+  it("throws if the group already exists", async () => {
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(
+      TDB.group({
+        GroupName: "theGroupName",
+      })
+    );
+
+    await expect(
+      createGroup(TestContext, {
+        GroupName: "theGroupName",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new GroupExistsError());
+
+    expect(mockUserPoolService.saveGroup).not.toHaveBeenCalled();
+  });
 });
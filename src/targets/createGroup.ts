@@ -2,8 +2,10 @@ import {
   CreateGroupRequest,
   CreateGroupResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { GroupExistsError } from "../errors";
 import { Services } from "../services";
 import { Group } from "../services/userPoolService";
+import { groupToResponseObject } from "./responses";
 import { Target } from "./router";
 
 export type CreateGroupTarget = Target<CreateGroupRequest, CreateGroupResponse>;
@@ -14,6 +16,13 @@ export const CreateGroup =
   ({ cognito, clock }: CreateGroupServices): CreateGroupTarget =>
   async (ctx, req) => {
     const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const existingGroup = await userPool.getGroupByGroupName(
+      ctx,
+      req.GroupName
+    );
+    if (existingGroup) {
+      throw new GroupExistsError();
+    }
 
     const now = clock.get();
     const group: Group = {
@@ -28,14 +37,6 @@ export const CreateGroup =
     await userPool.saveGroup(ctx, group);
 
     return {
-      Group: {
-        CreationDate: group.CreationDate,
-        Description: group.Description,
-        GroupName: group.GroupName,
-        LastModifiedDate: group.LastModifiedDate,
-        Precedence: group.Precedence,
-        RoleArn: group.RoleArn,
-        UserPoolId: req.UserPoolId,
-      },
+      Group: groupToResponseObject(req.UserPoolId)(group),
     };
   };
@@ -1,6 +1,7 @@
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
 import { UserPoolService } from "../services";
 import { AppClient } from "../services/appClient";
 import {
@@ -38,7 +39,8 @@ describe("CreateUserPoolClient target", () => {
 
     expect(mockUserPoolService.createAppClient).toHaveBeenCalledWith(
       TestContext,
-      "clientName"
+      "clientName",
+      {}
     );
 
     expect(result).toEqual({
@@ -49,4 +51,55 @@ describe("CreateUserPoolClient target", () => {
       },
     });
   });
+
+  it("creates a new app client with the settings in the request", async () => {
+    const createdAppClient = TDB.appClient();
+    mockUserPoolService.createAppClient.mockResolvedValue(createdAppClient);
+
+    await createUserPoolClient(TestContext, {
+      AccessTokenValidity: 2,
+      CallbackURLs: ["https://example.com/callback"],
+      ClientName: "clientName",
+      ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH", "ALLOW_REFRESH_TOKEN_AUTH"],
+      PreventUserExistenceErrors: "ENABLED",
+      ReadAttributes: ["email"],
+      TokenValidityUnits: {
+        AccessToken: "hours",
+      },
+      UserPoolId: "userPoolId",
+    });
+
+    expect(mockUserPoolService.createAppClient).toHaveBeenCalledWith(
+      TestContext,
+      "clientName",
+      {
+        AccessTokenValidity: 2,
+        CallbackURLs: ["https://example.com/callback"],
+        ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH", "ALLOW_REFRESH_TOKEN_AUTH"],
+        PreventUserExistenceErrors: "ENABLED",
+        ReadAttributes: ["email"],
+        TokenValidityUnits: {
+          AccessToken: "hours",
+        },
+      }
+    );
+  });
+
+  it("generates a secret if one is requested", async () => {
+    mockUserPoolService.createAppClient.mockResolvedValue(TDB.appClient());
+
+    await createUserPoolClient(TestContext, {
+      ClientName: "clientName",
+      GenerateSecret: true,
+      UserPoolId: "userPoolId",
+    });
+
+    expect(mockUserPoolService.createAppClient).toHaveBeenCalledWith(
+      TestContext,
+      "clientName",
+      {
+        ClientSecret: expect.stringMatching(/^[a-z0-9]{51}$/),
+      }
+    );
+  });
 });
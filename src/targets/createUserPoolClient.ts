@@ -3,6 +3,7 @@ import {
   CreateUserPoolClientResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { Services } from "../services";
+import { appClientSettings, newSecret } from "../services/appClient";
 import { Target } from "./router";
 
 export type CreateUserPoolClientTarget = Target<
@@ -14,7 +15,10 @@ export const CreateUserPoolClient =
   ({ cognito }: Pick<Services, "cognito">): CreateUserPoolClientTarget =>
   async (ctx, req) => {
     const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
-    const appClient = await userPool.createAppClient(ctx, req.ClientName);
+    const appClient = await userPool.createAppClient(ctx, req.ClientName, {
+      ...appClientSettings(req),
+      ClientSecret: req.GenerateSecret ? newSecret() : undefined,
+    });
 
     return {
       UserPoolClient: {
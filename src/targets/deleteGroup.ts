@@ -0,0 +1,23 @@
+import { DeleteGroupRequest } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { GroupNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type DeleteGroupTarget = Target<DeleteGroupRequest, {}>;
+
+type DeleteGroupServices = Pick<Services, "cognito">;
+
+export const DeleteGroup =
+  ({ cognito }: DeleteGroupServices): DeleteGroupTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const group = await userPool.getGroupByGroupName(ctx, req.GroupName);
+    if (!group) {
+      throw new GroupNotFoundError();
+    }
+
+    // group membership is stored on the group, so deleting the group also removes it from all of its members
+    await userPool.deleteGroup(ctx, group);
+
+    return {};
+  };
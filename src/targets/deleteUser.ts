@@ -1,28 +1,19 @@
 import { DeleteUserRequest } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import jwt from "jsonwebtoken";
-import { InvalidParameterError, NotAuthorizedError } from "../errors";
+import { NotAuthorizedError } from "../errors";
 import { Services } from "../services";
-import { Token } from "../services/tokenGenerator";
 import { Target } from "./router";
 
 export type DeleteUserTarget = Target<DeleteUserRequest, {}>;
 
-type DeleteUserServices = Pick<Services, "cognito">;
+type DeleteUserServices = Pick<Services, "tokenVerifier">;
 
 export const DeleteUser =
-  ({ cognito }: DeleteUserServices): DeleteUserTarget =>
+  ({ tokenVerifier }: DeleteUserServices): DeleteUserTarget =>
   async (ctx, req) => {
-    const decodedToken = jwt.decode(req.AccessToken) as Token | null;
-    if (!decodedToken) {
-      ctx.logger.info("Unable to decode token");
-      throw new InvalidParameterError();
-    }
-
-    const userPool = await cognito.getUserPoolForClientId(
+    const { userPool, user } = await tokenVerifier.verifyAccessToken(
       ctx,
-      decodedToken.client_id
+      req.AccessToken
     );
-    const user = await userPool.getUserByUsername(ctx, decodedToken.sub);
     if (!user) {
       throw new NotAuthorizedError();
     }
@@ -1,12 +1,10 @@
-import jwt from "jsonwebtoken";
-import * as uuid from "uuid";
 import { ClockFake } from "../__tests__/clockFake";
-import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockTokenVerifier } from "../__tests__/mockTokenVerifier";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
-import { InvalidParameterError, NotAuthorizedError } from "../errors";
-import PrivateKey from "../keys/cognitoLocal.private.json";
+import { NotAuthorizedError } from "../errors";
 import { UserPoolService } from "../services";
+import { TokenVerifier } from "../services/tokenVerifier";
 import { attribute } from "../services/userPoolService";
 import {
   DeleteUserAttributes,
@@ -16,56 +14,46 @@ import * as TDB from "../__tests__/testDataBuilder";
 
 const clock = new ClockFake(new Date());
 
-const validToken = jwt.sign(
-  {
-    sub: "0000-0000",
-    event_id: "0",
-    token_use: "access",
-    scope: "aws.cognito.signin.user.admin",
-    auth_time: new Date(),
-    jti: uuid.v4(),
-    client_id: "test",
-    username: "0000-0000",
-  },
-  PrivateKey.pem,
-  {
-    algorithm: "RS256",
-    issuer: `http://localhost:9229/test`,
-    expiresIn: "24h",
-    keyid: "CognitoLocal",
-  }
-);
-
 describe("DeleteUserAttributes target", () => {
   let deleteUserAttributes: DeleteUserAttributesTarget;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockTokenVerifier: jest.Mocked<TokenVerifier>;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
+    mockTokenVerifier = newMockTokenVerifier();
     deleteUserAttributes = DeleteUserAttributes({
       clock,
-      cognito: newMockCognitoService(mockUserPoolService),
+      tokenVerifier: mockTokenVerifier,
     });
   });
 
   it("throws if the user doesn't exist", async () => {
-    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user: null,
+      userPool: mockUserPoolService,
+    });
 
     await expect(
       deleteUserAttributes(TestContext, {
-        AccessToken: validToken,
+        AccessToken: "access token",
         UserAttributeNames: ["custom:example"],
       })
     ).rejects.toEqual(new NotAuthorizedError());
   });
 
   it("throws if the token is invalid", async () => {
+    mockTokenVerifier.verifyAccessToken.mockRejectedValue(
+      new NotAuthorizedError("Invalid Access Token")
+    );
+
     await expect(
       deleteUserAttributes(TestContext, {
-        AccessToken: "invalid token",
+        AccessToken: "access token",
         UserAttributeNames: ["custom:example"],
       })
-    ).rejects.toEqual(new InvalidParameterError());
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
   });
 
   it("saves the updated attributes on the user", async () => {
@@ -76,10 +64,14 @@ describe("DeleteUserAttributes target", () => {
       ],
     });
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     await deleteUserAttributes(TestContext, {
-      AccessToken: validToken,
+      AccessToken: "access token",
       UserAttributeNames: ["custom:example"],
     });
 
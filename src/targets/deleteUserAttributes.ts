@@ -2,10 +2,8 @@ import {
   DeleteUserAttributesRequest,
   DeleteUserAttributesResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import jwt from "jsonwebtoken";
-import { InvalidParameterError, NotAuthorizedError } from "../errors";
+import { NotAuthorizedError } from "../errors";
 import { Services } from "../services";
-import { Token } from "../services/tokenGenerator";
 import { attributesRemove } from "../services/userPoolService";
 import { Target } from "./router";
 
@@ -14,25 +12,18 @@ export type DeleteUserAttributesTarget = Target<
   DeleteUserAttributesResponse
 >;
 
-type DeleteUserAttributesServices = Pick<Services, "clock" | "cognito">;
+type DeleteUserAttributesServices = Pick<Services, "clock" | "tokenVerifier">;
 
 export const DeleteUserAttributes =
   ({
     clock,
-    cognito,
+    tokenVerifier,
   }: DeleteUserAttributesServices): DeleteUserAttributesTarget =>
   async (ctx, req) => {
-    const decodedToken = jwt.decode(req.AccessToken) as Token | null;
-    if (!decodedToken) {
-      ctx.logger.info("Unable to decode token");
-      throw new InvalidParameterError();
-    }
-
-    const userPool = await cognito.getUserPoolForClientId(
+    const { userPool, user } = await tokenVerifier.verifyAccessToken(
       ctx,
-      decodedToken.client_id
+      req.AccessToken
     );
-    const user = await userPool.getUserByUsername(ctx, decodedToken.sub);
     if (!user) {
       throw new NotAuthorizedError();
     }
@@ -0,0 +1,48 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import { ResourceNotFoundError } from "../errors";
+import { CognitoService } from "../services";
+import { DeleteUserPool, DeleteUserPoolTarget } from "./deleteUserPool";
+
+describe("DeleteUserPool target", () => {
+  let deleteUserPool: DeleteUserPoolTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+
+  beforeEach(() => {
+    mockCognitoService = newMockCognitoService(
+      newMockUserPoolService({
+        Id: "test",
+      })
+    );
+    deleteUserPool = DeleteUserPool({
+      cognito: mockCognitoService,
+    });
+  });
+
+  it("deletes the user pool", async () => {
+    await deleteUserPool(TestContext, {
+      UserPoolId: "test",
+    });
+
+    expect(mockCognitoService.getUserPool).toHaveBeenCalledWith(
+      TestContext,
+      "test"
+    );
+    expect(mockCognitoService.deleteUserPool).toHaveBeenCalledWith(
+      TestContext,
+      { Id: "test" }
+    );
+  });
+
+  it("throws if the user pool doesn't exist", async () => {
+    mockCognitoService.userPoolExists.mockResolvedValue(false);
+
+    await expect(
+      deleteUserPool(TestContext, {
+        UserPoolId: "unknown",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+    expect(mockCognitoService.deleteUserPool).not.toHaveBeenCalled();
+  });
+});
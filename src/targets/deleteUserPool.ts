@@ -0,0 +1,25 @@
+import { DeleteUserPoolRequest } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { ResourceNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type DeleteUserPoolTarget = Target<DeleteUserPoolRequest, {}>;
+
+type DeleteUserPoolServices = Pick<Services, "cognito">;
+
+/**
+ * Deletes a user pool, along with its users, groups and app clients
+ */
+export const DeleteUserPool =
+  ({ cognito }: DeleteUserPoolServices): DeleteUserPoolTarget =>
+  async (ctx, req) => {
+    if (!(await cognito.userPoolExists(ctx, req.UserPoolId))) {
+      throw new ResourceNotFoundError();
+    }
+
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+
+    await cognito.deleteUserPool(ctx, userPool.config);
+
+    return {};
+  };
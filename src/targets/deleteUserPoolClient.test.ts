@@ -0,0 +1,65 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { ResourceNotFoundError } from "../errors";
+import { CognitoService, UserPoolService } from "../services";
+import {
+  DeleteUserPoolClient,
+  DeleteUserPoolClientTarget,
+} from "./deleteUserPoolClient";
+
+describe("DeleteUserPoolClient target", () => {
+  let deleteUserPoolClient: DeleteUserPoolClientTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
+    deleteUserPoolClient = DeleteUserPoolClient({
+      cognito: mockCognitoService,
+    });
+  });
+
+  it("deletes the app client", async () => {
+    const existingAppClient = TDB.appClient({ UserPoolId: "test" });
+    mockCognitoService.getAppClient.mockResolvedValue(existingAppClient);
+
+    await deleteUserPoolClient(TestContext, {
+      ClientId: existingAppClient.ClientId,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.deleteAppClient).toHaveBeenCalledWith(
+      TestContext,
+      existingAppClient
+    );
+  });
+
+  it("throws if the app client doesn't exist", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(null);
+
+    await expect(
+      deleteUserPoolClient(TestContext, {
+        ClientId: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+  });
+
+  it("throws if the app client is in another user pool", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ UserPoolId: "other" })
+    );
+
+    await expect(
+      deleteUserPoolClient(TestContext, {
+        ClientId: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+
+    expect(mockUserPoolService.deleteAppClient).not.toHaveBeenCalled();
+  });
+});
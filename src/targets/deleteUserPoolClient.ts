@@ -0,0 +1,23 @@
+import { DeleteUserPoolClientRequest } from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { ResourceNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type DeleteUserPoolClientTarget = Target<
+  DeleteUserPoolClientRequest,
+  {}
+>;
+
+export const DeleteUserPoolClient =
+  ({ cognito }: Pick<Services, "cognito">): DeleteUserPoolClientTarget =>
+  async (ctx, req) => {
+    const appClient = await cognito.getAppClient(ctx, req.ClientId);
+    if (appClient?.UserPoolId !== req.UserPoolId) {
+      throw new ResourceNotFoundError();
+    }
+
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    await userPool.deleteAppClient(ctx, appClient);
+
+    return {};
+  };
@@ -0,0 +1,55 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import { ResourceNotFoundError } from "../errors";
+import { CognitoService } from "../services";
+import { DescribeUserPool, DescribeUserPoolTarget } from "./describeUserPool";
+
+describe("DescribeUserPool target", () => {
+  let describeUserPool: DescribeUserPoolTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+
+  beforeEach(() => {
+    mockCognitoService = newMockCognitoService(
+      newMockUserPoolService({
+        Id: "test",
+        MfaConfiguration: "OPTIONAL",
+      })
+    );
+    describeUserPool = DescribeUserPool({
+      cognito: mockCognitoService,
+    });
+  });
+
+  it("returns the user pool's config", async () => {
+    const result = await describeUserPool(TestContext, {
+      UserPoolId: "test",
+    });
+
+    expect(mockCognitoService.getUserPool).toHaveBeenCalledWith(
+      TestContext,
+      "test"
+    );
+    expect(result).toEqual({
+      UserPool: {
+        Id: "test",
+        MfaConfiguration: "OPTIONAL",
+      },
+    });
+  });
+
+  it("throws if the user pool doesn't exist", async () => {
+    mockCognitoService.userPoolExists.mockResolvedValue(false);
+
+    await expect(
+      describeUserPool(TestContext, {
+        UserPoolId: "unknown",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+    expect(mockCognitoService.userPoolExists).toHaveBeenCalledWith(
+      TestContext,
+      "unknown"
+    );
+    expect(mockCognitoService.getUserPool).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+import {
+  DescribeUserPoolRequest,
+  DescribeUserPoolResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { ResourceNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type DescribeUserPoolTarget = Target<
+  DescribeUserPoolRequest,
+  DescribeUserPoolResponse
+>;
+
+type DescribeUserPoolServices = Pick<Services, "cognito">;
+
+export const DescribeUserPool =
+  ({ cognito }: DescribeUserPoolServices): DescribeUserPoolTarget =>
+  async (ctx, req) => {
+    if (!(await cognito.userPoolExists(ctx, req.UserPoolId))) {
+      throw new ResourceNotFoundError();
+    }
+
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+
+    return {
+      UserPool: userPool.config,
+    };
+  };
@@ -5,6 +5,7 @@ import {
 import { UnsupportedError, UserNotFoundError } from "../errors";
 import { Services } from "../services";
 import { DeliveryDetails } from "../services/messageDelivery/messageDelivery";
+import { verifySecretHash } from "../services/secretHash";
 import { attributeValue } from "../services/userPoolService";
 import { Target } from "./router";
 
@@ -27,6 +28,13 @@ export const ForgotPassword =
   }: ForgotPasswordServices): ForgotPasswordTarget =>
   async (ctx, req) => {
     const userPool = await cognito.getUserPoolForClientId(ctx, req.ClientId);
+    await verifySecretHash(
+      ctx,
+      cognito,
+      req.ClientId,
+      req.Username,
+      req.SecretHash
+    );
     const user = await userPool.getUserByUsername(ctx, req.Username);
     if (!user) {
       throw new UserNotFoundError();
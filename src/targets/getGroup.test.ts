@@ -0,0 +1,60 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { GroupNotFoundError } from "../errors";
+import { UserPoolService } from "../services";
+import { GetGroup, GetGroupTarget } from "./getGroup";
+
+describe("GetGroup target", () => {
+  let getGroup: GetGroupTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    getGroup = GetGroup({
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("gets the group", async () => {
+    const existingGroup = TDB.group({
+      Description: "Description",
+      Precedence: 1,
+      RoleArn: "ARN",
+    });
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(existingGroup);
+
+    const output = await getGroup(TestContext, {
+      GroupName: existingGroup.GroupName,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.getGroupByGroupName).toHaveBeenCalledWith(
+      TestContext,
+      existingGroup.GroupName
+    );
+
+    expect(output.Group).toEqual({
+      CreationDate: existingGroup.CreationDate,
+      Description: "Description",
+      GroupName: existingGroup.GroupName,
+      LastModifiedDate: existingGroup.LastModifiedDate,
+      Precedence: 1,
+      RoleArn: "ARN",
+      UserPoolId: "test",
+    });
+  });
+
+  it("throws if the group doesn't exist", async () => {
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(null);
+
+    await expect(
+      getGroup(TestContext, {
+        GroupName: "group",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new GroupNotFoundError());
+  });
+});
@@ -0,0 +1,26 @@
+import {
+  GetGroupRequest,
+  GetGroupResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { GroupNotFoundError } from "../errors";
+import { Services } from "../services";
+import { groupToResponseObject } from "./responses";
+import { Target } from "./router";
+
+export type GetGroupTarget = Target<GetGroupRequest, GetGroupResponse>;
+
+type GetGroupServices = Pick<Services, "cognito">;
+
+export const GetGroup =
+  ({ cognito }: GetGroupServices): GetGroupTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const group = await userPool.getGroupByGroupName(ctx, req.GroupName);
+    if (!group) {
+      throw new GroupNotFoundError();
+    }
+
+    return {
+      Group: groupToResponseObject(req.UserPoolId)(group),
+    };
+  };
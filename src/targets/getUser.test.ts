@@ -1,51 +1,36 @@
-import jwt from "jsonwebtoken";
-import * as uuid from "uuid";
-import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockTokenVerifier } from "../__tests__/mockTokenVerifier";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
-import { InvalidParameterError, UserNotFoundError } from "../errors";
-import PrivateKey from "../keys/cognitoLocal.private.json";
+import { NotAuthorizedError, UserNotFoundError } from "../errors";
 import { UserPoolService } from "../services";
-import { attributeValue } from "../services/userPoolService";
+import { TokenVerifier } from "../services/tokenVerifier";
 import { GetUser, GetUserTarget } from "./getUser";
 import * as TDB from "../__tests__/testDataBuilder";
 
 describe("GetUser target", () => {
   let getUser: GetUserTarget;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockTokenVerifier: jest.Mocked<TokenVerifier>;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
+    mockTokenVerifier = newMockTokenVerifier();
     getUser = GetUser({
-      cognito: newMockCognitoService(mockUserPoolService),
+      tokenVerifier: mockTokenVerifier,
     });
   });
 
   it("parses token get user by sub", async () => {
     const user = TDB.user();
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     const output = await getUser(TestContext, {
-      AccessToken: jwt.sign(
-        {
-          sub: attributeValue("sub", user.Attributes),
-          event_id: "0",
-          token_use: "access",
-          scope: "aws.cognito.signin.user.admin",
-          auth_time: new Date(),
-          jti: uuid.v4(),
-          client_id: "test",
-          username: user.Username,
-        },
-        PrivateKey.pem,
-        {
-          algorithm: "RS256",
-          issuer: `http://localhost:9229/test`,
-          expiresIn: "24h",
-          keyid: "CognitoLocal",
-        }
-      ),
+      AccessToken: "access token",
     });
 
     expect(output).toBeDefined();
@@ -56,37 +41,27 @@ describe("GetUser target", () => {
   });
 
   it("throws if token isn't valid", async () => {
+    mockTokenVerifier.verifyAccessToken.mockRejectedValue(
+      new NotAuthorizedError("Invalid Access Token")
+    );
+
     await expect(
       getUser(TestContext, {
-        AccessToken: "blah",
+        AccessToken: "access token",
       })
-    ).rejects.toBeInstanceOf(InvalidParameterError);
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
   });
 
   it("throws if user doesn't exist", async () => {
-    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user: null,
+      userPool: mockUserPoolService,
+    });
 
     await expect(
       getUser(TestContext, {
-        AccessToken: jwt.sign(
-          {
-            sub: "0000-0000",
-            event_id: "0",
-            token_use: "access",
-            scope: "aws.cognito.signin.user.admin",
-            auth_time: new Date(),
-            jti: uuid.v4(),
-            client_id: "test",
-            username: "0000-0000",
-          },
-          PrivateKey.pem,
-          {
-            algorithm: "RS256",
-            issuer: `http://localhost:9229/test`,
-            expiresIn: "24h",
-            keyid: "CognitoLocal",
-          }
-        ),
+        AccessToken: "access token",
       })
     ).rejects.toEqual(new UserNotFoundError());
   });
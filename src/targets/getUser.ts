@@ -2,28 +2,19 @@ import {
   GetUserRequest,
   GetUserResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import jwt from "jsonwebtoken";
-import { InvalidParameterError, UserNotFoundError } from "../errors";
+import { UserNotFoundError } from "../errors";
 import { Services } from "../services";
-import { Token } from "../services/tokenGenerator";
 import { Target } from "./router";
 
 export type GetUserTarget = Target<GetUserRequest, GetUserResponse>;
 
 export const GetUser =
-  ({ cognito }: Pick<Services, "cognito">): GetUserTarget =>
+  ({ tokenVerifier }: Pick<Services, "tokenVerifier">): GetUserTarget =>
   async (ctx, req) => {
-    const decodedToken = jwt.decode(req.AccessToken) as Token | null;
-    if (!decodedToken) {
-      ctx.logger.info("Unable to decode token");
-      throw new InvalidParameterError();
-    }
-
-    const userPool = await cognito.getUserPoolForClientId(
+    const { user } = await tokenVerifier.verifyAccessToken(
       ctx,
-      decodedToken.client_id
+      req.AccessToken
     );
-    const user = await userPool.getUserByUsername(ctx, decodedToken.sub);
     if (!user) {
       throw new UserNotFoundError();
     }
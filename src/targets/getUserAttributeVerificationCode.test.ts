@@ -1,12 +1,14 @@
-import jwt from "jsonwebtoken";
-import * as uuid from "uuid";
-import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockTokenVerifier } from "../__tests__/mockTokenVerifier";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
-import { InvalidParameterError, UserNotFoundError } from "../errors";
-import PrivateKey from "../keys/cognitoLocal.private.json";
+import {
+  InvalidParameterError,
+  NotAuthorizedError,
+  UserNotFoundError,
+} from "../errors";
 import { Messages, UserPoolService } from "../services";
+import { TokenVerifier } from "../services/tokenVerifier";
 import { attribute, attributeValue } from "../services/userPoolService";
 import {
   GetUserAttributeVerificationCode,
@@ -14,29 +16,10 @@ import {
 } from "./getUserAttributeVerificationCode";
 import * as TDB from "../__tests__/testDataBuilder";
 
-const validToken = jwt.sign(
-  {
-    sub: "0000-0000",
-    event_id: "0",
-    token_use: "access",
-    scope: "aws.cognito.signin.user.admin",
-    auth_time: new Date(),
-    jti: uuid.v4(),
-    client_id: "test",
-    username: "0000-0000",
-  },
-  PrivateKey.pem,
-  {
-    algorithm: "RS256",
-    issuer: `http://localhost:9229/test`,
-    expiresIn: "24h",
-    keyid: "CognitoLocal",
-  }
-);
-
 describe("GetUserAttributeVerificationCode target", () => {
   let getUserAttributeVerificationCode: GetUserAttributeVerificationCodeTarget;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockTokenVerifier: jest.Mocked<TokenVerifier>;
   let mockMessages: jest.Mocked<Messages>;
 
   beforeEach(() => {
@@ -44,29 +27,38 @@ describe("GetUserAttributeVerificationCode target", () => {
       Id: "test",
       AutoVerifiedAttributes: ["email"],
     });
+    mockTokenVerifier = newMockTokenVerifier();
     mockMessages = newMockMessages();
     getUserAttributeVerificationCode = GetUserAttributeVerificationCode({
-      cognito: newMockCognitoService(mockUserPoolService),
+      tokenVerifier: mockTokenVerifier,
       messages: mockMessages,
       otp: () => "1234",
     });
   });
 
   it("throws if token isn't valid", async () => {
+    mockTokenVerifier.verifyAccessToken.mockRejectedValue(
+      new NotAuthorizedError("Invalid Access Token")
+    );
+
     await expect(
       getUserAttributeVerificationCode(TestContext, {
-        AccessToken: "blah",
+        AccessToken: "access token",
         AttributeName: "email",
       })
-    ).rejects.toBeInstanceOf(InvalidParameterError);
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
   });
 
   it("throws if user doesn't exist", async () => {
-    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user: null,
+      userPool: mockUserPoolService,
+    });
 
     await expect(
       getUserAttributeVerificationCode(TestContext, {
-        AccessToken: validToken,
+        AccessToken: "access token",
         AttributeName: "email",
       })
     ).rejects.toEqual(new UserNotFoundError());
@@ -77,14 +69,18 @@ describe("GetUserAttributeVerificationCode target", () => {
       Attributes: [],
     });
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     await expect(
       getUserAttributeVerificationCode(TestContext, {
         ClientMetadata: {
           client: "metadata",
         },
-        AccessToken: validToken,
+        AccessToken: "access token",
         AttributeName: "email",
       })
     ).rejects.toEqual(
@@ -99,13 +95,17 @@ describe("GetUserAttributeVerificationCode target", () => {
       Attributes: [attribute("email", "example@example.com")],
     });
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     await getUserAttributeVerificationCode(TestContext, {
       ClientMetadata: {
         client: "metadata",
       },
-      AccessToken: validToken,
+      AccessToken: "access token",
       AttributeName: "email",
     });
 
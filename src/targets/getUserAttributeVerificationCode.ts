@@ -2,11 +2,9 @@ import {
   GetUserAttributeVerificationCodeRequest,
   GetUserAttributeVerificationCodeResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import jwt from "jsonwebtoken";
 import { Messages, Services, UserPoolService } from "../services";
 import { InvalidParameterError, UserNotFoundError } from "../errors";
 import { selectAppropriateDeliveryMethod } from "../services/messageDelivery/deliveryMethod";
-import { Token } from "../services/tokenGenerator";
 import { User } from "../services/userPoolService";
 import { Context, Target } from "./router";
 
@@ -48,27 +46,20 @@ export type GetUserAttributeVerificationCodeTarget = Target<
 
 type GetUserAttributeVerificationCodeServices = Pick<
   Services,
-  "cognito" | "otp" | "messages"
+  "tokenVerifier" | "otp" | "messages"
 >;
 
 export const GetUserAttributeVerificationCode =
   ({
-    cognito,
+    tokenVerifier,
     otp,
     messages,
   }: GetUserAttributeVerificationCodeServices): GetUserAttributeVerificationCodeTarget =>
   async (ctx, req) => {
-    const decodedToken = jwt.decode(req.AccessToken) as Token | null;
-    if (!decodedToken) {
-      ctx.logger.info("Unable to decode token");
-      throw new InvalidParameterError();
-    }
-
-    const userPool = await cognito.getUserPoolForClientId(
+    const { userPool, user } = await tokenVerifier.verifyAccessToken(
       ctx,
-      decodedToken.client_id
+      req.AccessToken
     );
-    const user = await userPool.getUserByUsername(ctx, decodedToken.sub);
     if (!user) {
       throw new UserNotFoundError();
     }
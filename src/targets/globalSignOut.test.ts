@@ -0,0 +1,74 @@
+import { newMockTokenVerifier } from "../__tests__/mockTokenVerifier";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { NotAuthorizedError } from "../errors";
+import { UserPoolService } from "../services";
+import { TokenVerifier } from "../services/tokenVerifier";
+import { GlobalSignOut, GlobalSignOutTarget } from "./globalSignOut";
+
+describe("GlobalSignOut target", () => {
+  let globalSignOut: GlobalSignOutTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockTokenVerifier: jest.Mocked<TokenVerifier>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    mockTokenVerifier = newMockTokenVerifier();
+    globalSignOut = GlobalSignOut({
+      tokenVerifier: mockTokenVerifier,
+    });
+  });
+
+  it("revokes all of the user's refresh tokens", async () => {
+    const user = TDB.user({
+      RefreshTokens: ["refresh token", "another refresh token"],
+    });
+
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
+
+    await globalSignOut(TestContext, {
+      AccessToken: "access token",
+    });
+
+    expect(mockTokenVerifier.verifyAccessToken).toHaveBeenCalledWith(
+      TestContext,
+      "access token"
+    );
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...user,
+      RefreshTokens: [],
+    });
+  });
+
+  it("throws if the token is invalid", async () => {
+    mockTokenVerifier.verifyAccessToken.mockRejectedValue(
+      new NotAuthorizedError("Access Token has been revoked")
+    );
+
+    await expect(
+      globalSignOut(TestContext, {
+        AccessToken: "access token",
+      })
+    ).rejects.toEqual(new NotAuthorizedError("Access Token has been revoked"));
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user: null,
+      userPool: mockUserPoolService,
+    });
+
+    await expect(
+      globalSignOut(TestContext, {
+        AccessToken: "access token",
+      })
+    ).rejects.toEqual(new NotAuthorizedError());
+  });
+});
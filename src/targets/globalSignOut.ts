@@ -0,0 +1,37 @@
+import {
+  GlobalSignOutRequest,
+  GlobalSignOutResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { NotAuthorizedError } from "../errors";
+import { Services } from "../services";
+import { Target } from "./router";
+
+export type GlobalSignOutTarget = Target<
+  GlobalSignOutRequest,
+  GlobalSignOutResponse
+>;
+
+type GlobalSignOutServices = Pick<Services, "tokenVerifier">;
+
+/**
+ * Signs the user out of every session by revoking all of their refresh tokens, which also revokes any access tokens
+ * issued with them.
+ */
+export const GlobalSignOut =
+  ({ tokenVerifier }: GlobalSignOutServices): GlobalSignOutTarget =>
+  async (ctx, req) => {
+    const { userPool, user } = await tokenVerifier.verifyAccessToken(
+      ctx,
+      req.AccessToken
+    );
+    if (!user) {
+      throw new NotAuthorizedError();
+    }
+
+    await userPool.saveUser(ctx, {
+      ...user,
+      RefreshTokens: [],
+    });
+
+    return {};
+  };
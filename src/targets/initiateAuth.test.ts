@@ -1,9 +1,13 @@
+import jwt from "jsonwebtoken";
+import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockPasswords } from "../__tests__/mockPasswords";
 import { newMockTokenGenerator } from "../__tests__/mockTokenGenerator";
 import { newMockTriggers } from "../__tests__/mockTriggers";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { UUID } from "../__tests__/patterns";
+import { newSrpClient } from "../__tests__/srpClient";
 import { TestContext } from "../__tests__/testContext";
 import * as TDB from "../__tests__/testDataBuilder";
 import {
@@ -12,34 +16,100 @@ import {
   NotAuthorizedError,
   PasswordResetRequiredError,
 } from "../errors";
-import { Messages, Triggers, UserPoolService } from "../services";
+import {
+  CognitoService,
+  Messages,
+  Passwords,
+  Triggers,
+  UserPoolService,
+} from "../services";
+import { createSrpVerifier } from "../services/srp";
 import { TokenGenerator } from "../services/tokenGenerator";
 import { attributesToRecord, User } from "../services/userPoolService";
 import { InitiateAuth, InitiateAuthTarget } from "./initiateAuth";
 
+const currentDate = new Date();
+
 describe("InitiateAuth target", () => {
   let initiateAuth: InitiateAuthTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
   let mockMessages: jest.Mocked<Messages>;
   let mockOtp: jest.MockedFunction<() => string>;
   let mockTriggers: jest.Mocked<Triggers>;
   let mockTokenGenerator: jest.Mocked<TokenGenerator>;
+  let mockPasswords: jest.Mocked<Passwords>;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([]);
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
     mockMessages = newMockMessages();
     mockOtp = jest.fn().mockReturnValue("1234");
     mockTriggers = newMockTriggers();
     mockTokenGenerator = newMockTokenGenerator();
+    mockPasswords = newMockPasswords();
+    mockPasswords.verify.mockImplementation((ctx, userPool, user) =>
+      Promise.resolve(user)
+    );
     initiateAuth = InitiateAuth({
-      cognito: newMockCognitoService(mockUserPoolService),
+      clock: new ClockFake(currentDate),
+      cognito: mockCognitoService,
       messages: mockMessages,
       otp: mockOtp,
+      passwords: mockPasswords,
       triggers: mockTriggers,
       tokenGenerator: mockTokenGenerator,
     });
   });
 
+  describe("when the client has explicit auth flows", () => {
+    beforeEach(() => {
+      mockCognitoService.getAppClient.mockResolvedValue(
+        TDB.appClient({
+          ExplicitAuthFlows: [
+            "ALLOW_USER_SRP_AUTH",
+            "ALLOW_REFRESH_TOKEN_AUTH",
+          ],
+        })
+      );
+    });
+
+    it("throws if the auth flow isn't enabled for the client", async () => {
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: "username",
+            PASSWORD: "password",
+          },
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError(
+          "USER_PASSWORD_AUTH flow not enabled for this client"
+        )
+      );
+      expect(mockUserPoolService.getUserByUsername).not.toHaveBeenCalled();
+    });
+
+    it("continues if the auth flow is enabled for the client", async () => {
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: "username",
+          },
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError(
+          "AuthParameters USERNAME and SRP_A are required"
+        )
+      );
+    });
+  });
+
   describe("USER_PASSWORD_AUTH auth flow", () => {
     it("throws if AuthParameters not provided", async () => {
       await expect(
@@ -52,10 +122,48 @@ describe("InitiateAuth target", () => {
       );
     });
 
+    it("verifies the password and continues with the user it returns", async () => {
+      mockTokenGenerator.generate.mockResolvedValue({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+
+      const user = TDB.user({ Password: "plaintext" });
+      const rehashedUser = { ...user, Password: "hashed password" };
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockPasswords.verify.mockResolvedValue(rehashedUser);
+
+      await initiateAuth(TestContext, {
+        ClientId: "clientId",
+        AuthFlow: "USER_PASSWORD_AUTH",
+        AuthParameters: {
+          USERNAME: user.Username,
+          PASSWORD: "plaintext",
+        },
+      });
+
+      expect(mockPasswords.verify).toHaveBeenCalledWith(
+        TestContext,
+        mockUserPoolService,
+        user,
+        "plaintext"
+      );
+      expect(mockUserPoolService.storeRefreshToken).toHaveBeenCalledWith(
+        TestContext,
+        "refresh",
+        rehashedUser
+      );
+    });
+
     it("throws if password is incorrect", async () => {
       const user = TDB.user();
 
       mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockPasswords.verify.mockResolvedValue(null);
 
       await expect(
         initiateAuth(TestContext, {
@@ -88,6 +196,24 @@ describe("InitiateAuth target", () => {
       ).rejects.toBeInstanceOf(PasswordResetRequiredError);
     });
 
+    it("throws if the user is disabled", async () => {
+      const user = TDB.user({ Enabled: false });
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_PASSWORD_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+            PASSWORD: user.Password,
+          },
+        })
+      ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+      expect(mockPasswords.verify).not.toHaveBeenCalled();
+    });
+
     describe("when user doesn't exist", () => {
       describe("when User Migration trigger is enabled", () => {
         it("invokes the User Migration trigger and continues", async () => {
@@ -95,6 +221,8 @@ describe("InitiateAuth target", () => {
             AccessToken: "access",
             IdToken: "id",
             RefreshToken: "refresh",
+            ExpiresIn: 3600,
+            TokenType: "Bearer",
           });
 
           const user = TDB.user();
@@ -357,6 +485,8 @@ describe("InitiateAuth target", () => {
               AccessToken: "access",
               IdToken: "id",
               RefreshToken: "refresh",
+              ExpiresIn: 3600,
+              TokenType: "Bearer",
             });
 
             const output = await initiateAuth(TestContext, {
@@ -382,6 +512,7 @@ describe("InitiateAuth target", () => {
             expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
               TestContext,
               user,
+              [],
               "clientId",
               "test",
               undefined,
@@ -404,6 +535,8 @@ describe("InitiateAuth target", () => {
             AccessToken: "access",
             IdToken: "id",
             RefreshToken: "refresh",
+            ExpiresIn: 3600,
+            TokenType: "Bearer",
           });
 
           const output = await initiateAuth(TestContext, {
@@ -427,6 +560,7 @@ describe("InitiateAuth target", () => {
           expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
             TestContext,
             user,
+            [],
             "clientId",
             "test",
             undefined,
@@ -440,6 +574,8 @@ describe("InitiateAuth target", () => {
               AccessToken: "access",
               IdToken: "id",
               RefreshToken: "refresh",
+              ExpiresIn: 3600,
+              TokenType: "Bearer",
             });
 
             mockTriggers.enabled.mockImplementation(
@@ -485,10 +621,17 @@ describe("InitiateAuth target", () => {
           AuthFlow: "USER_PASSWORD_AUTH",
           AuthParameters: {
             USERNAME: user.Username,
-            PASSWORD: "bad-password",
+            PASSWORD: user.Password,
           },
         });
 
+        expect(mockPasswords.verify).toHaveBeenCalledWith(
+          TestContext,
+          mockUserPoolService,
+          user,
+          user.Password
+        );
+
         expect(response).toEqual({
           ChallengeName: "NEW_PASSWORD_REQUIRED",
           ChallengeParameters: {
@@ -498,6 +641,34 @@ describe("InitiateAuth target", () => {
           },
           Session: expect.stringMatching(UUID),
         });
+
+        // the session can only be used by this user and client, for this challenge, for three minutes
+        expect(mockUserPoolService.saveAuthSession).toHaveBeenCalledWith(
+          TestContext,
+          {
+            ChallengeName: "NEW_PASSWORD_REQUIRED",
+            ClientId: "clientId",
+            ExpirationDate: new Date(currentDate.getTime() + 3 * 60 * 1000),
+            Session: response.Session,
+            Username: user.Username,
+          }
+        );
+      });
+
+      it("throws if the temporary password is incorrect", async () => {
+        mockPasswords.verify.mockResolvedValue(null);
+
+        await expect(
+          initiateAuth(TestContext, {
+            ClientId: "clientId",
+            AuthFlow: "USER_PASSWORD_AUTH",
+            AuthParameters: {
+              USERNAME: user.Username,
+              PASSWORD: "bad-password",
+            },
+          })
+        ).rejects.toBeInstanceOf(InvalidPasswordError);
+        expect(mockUserPoolService.saveAuthSession).not.toHaveBeenCalled();
       });
 
       describe("when Post Authentication trigger is enabled", () => {
@@ -521,16 +692,474 @@ describe("InitiateAuth target", () => {
     });
   });
 
+  describe("USER_SRP_AUTH auth flow", () => {
+    it("throws if SRP_A is missing", async () => {
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: "username",
+          },
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError(
+          "AuthParameters USERNAME and SRP_A are required"
+        )
+      );
+    });
+
+    it("throws if SRP_A is invalid", async () => {
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: "username",
+            SRP_A: "0",
+          },
+        })
+      ).rejects.toBeInstanceOf(NotAuthorizedError);
+    });
+
+    it("throws if the user doesn't exist", async () => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: "username",
+            SRP_A: newSrpClient("test").SRP_A,
+          },
+        })
+      ).rejects.toBeInstanceOf(NotAuthorizedError);
+    });
+
+    it("responds with a PASSWORD_VERIFIER challenge", async () => {
+      const user = TDB.user({
+        SrpVerifier: createSrpVerifier("test", "username", "password"),
+        Username: "username",
+      });
+      const client = newSrpClient("test");
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+      const response = await initiateAuth(TestContext, {
+        ClientId: "clientId",
+        AuthFlow: "USER_SRP_AUTH",
+        AuthParameters: {
+          USERNAME: user.Username,
+          SRP_A: client.SRP_A,
+        },
+      });
+
+      expect(response).toEqual({
+        ChallengeName: "PASSWORD_VERIFIER",
+        ChallengeParameters: {
+          SALT: user.SrpVerifier?.salt,
+          SECRET_BLOCK: expect.any(String),
+          SRP_B: expect.stringMatching(/^[0-9a-f]+$/),
+          USERNAME: user.Username,
+          USER_ID_FOR_SRP: user.Username,
+        },
+        Session: expect.stringMatching(UUID),
+      });
+
+      // saves the server's half of the exchange to verify the response against
+      expect(mockUserPoolService.saveAuthSession).toHaveBeenCalledWith(
+        TestContext,
+        {
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResults: undefined,
+          ClientId: "clientId",
+          ExpirationDate: new Date(currentDate.getTime() + 3 * 60 * 1000),
+          Session: response.Session,
+          SrpChallenge: {
+            ClientPublicKey: client.SRP_A,
+            SecretBlock: response.ChallengeParameters?.SECRET_BLOCK,
+            ServerPrivateKey: expect.stringMatching(/^[0-9a-f]+$/),
+          },
+          Username: user.Username,
+        }
+      );
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it("creates a verifier for users without one", async () => {
+      const user = TDB.user({ SrpVerifier: undefined });
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+      const response = await initiateAuth(TestContext, {
+        ClientId: "clientId",
+        AuthFlow: "USER_SRP_AUTH",
+        AuthParameters: {
+          USERNAME: user.Username,
+          SRP_A: newSrpClient("test").SRP_A,
+        },
+      });
+
+      expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+        ...user,
+        SrpVerifier: {
+          salt: response.ChallengeParameters?.SALT,
+          verifier: expect.stringMatching(/^[0-9a-f]+$/),
+        },
+      });
+    });
+
+    it("throws when user requires reset", async () => {
+      const user = TDB.user({ UserStatus: "RESET_REQUIRED" });
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+            SRP_A: newSrpClient("test").SRP_A,
+          },
+        })
+      ).rejects.toBeInstanceOf(PasswordResetRequiredError);
+    });
+
+    it("throws if the user is disabled", async () => {
+      const user = TDB.user({ Enabled: false });
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+            SRP_A: newSrpClient("test").SRP_A,
+          },
+        })
+      ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+    });
+
+    it("throws if the user is locked out", async () => {
+      const user = TDB.user();
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockPasswords.checkLockout.mockImplementation(() => {
+        throw new NotAuthorizedError("Password attempts exceeded");
+      });
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "USER_SRP_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+            SRP_A: newSrpClient("test").SRP_A,
+          },
+        })
+      ).rejects.toEqual(new NotAuthorizedError("Password attempts exceeded"));
+      expect(mockPasswords.checkLockout).toHaveBeenCalledWith(user);
+      expect(mockUserPoolService.saveAuthSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("CUSTOM_AUTH auth flow", () => {
+    const user = TDB.user();
+
+    beforeEach(() => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockTriggers.enabled.mockImplementation(
+        (trigger) =>
+          trigger === "DefineAuthChallenge" || trigger === "CreateAuthChallenge"
+      );
+    });
+
+    it("throws if USERNAME is missing", async () => {
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "CUSTOM_AUTH",
+          AuthParameters: {},
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError("AuthParameters USERNAME is required")
+      );
+    });
+
+    it("throws if the DefineAuthChallenge trigger is not configured", async () => {
+      mockTriggers.enabled.mockReturnValue(false);
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "CUSTOM_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+          },
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError(
+          "Custom auth lambda trigger is not configured for the user pool."
+        )
+      );
+    });
+
+    it("throws if the user doesn't exist", async () => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "CUSTOM_AUTH",
+          AuthParameters: {
+            USERNAME: "missing",
+          },
+        })
+      ).rejects.toBeInstanceOf(NotAuthorizedError);
+    });
+
+    it("throws if the user is disabled", async () => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue({
+        ...user,
+        Enabled: false,
+      });
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "CUSTOM_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+          },
+        })
+      ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+      expect(mockTriggers.defineAuthChallenge).not.toHaveBeenCalled();
+    });
+
+    it("responds with the challenge from the CreateAuthChallenge trigger", async () => {
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "CUSTOM_CHALLENGE",
+        failAuthentication: false,
+        issueTokens: false,
+      });
+      mockTriggers.createAuthChallenge.mockResolvedValue({
+        challengeMetadata: "MAGIC_LINK",
+        privateChallengeParameters: { code: "secret" },
+        publicChallengeParameters: { email: "example@example.com" },
+      });
+
+      const response = await initiateAuth(TestContext, {
+        ClientId: "clientId",
+        AuthFlow: "CUSTOM_AUTH",
+        AuthParameters: {
+          USERNAME: user.Username,
+        },
+        ClientMetadata: {
+          client: "metadata",
+        },
+      });
+
+      expect(mockTriggers.defineAuthChallenge).toHaveBeenCalledWith(
+        TestContext,
+        {
+          clientId: "clientId",
+          clientMetadata: undefined,
+          session: [],
+          userAttributes: user.Attributes,
+          username: user.Username,
+          userPoolId: "test",
+        }
+      );
+      expect(mockTriggers.createAuthChallenge).toHaveBeenCalledWith(
+        TestContext,
+        {
+          challengeName: "CUSTOM_CHALLENGE",
+          clientId: "clientId",
+          clientMetadata: undefined,
+          session: [],
+          userAttributes: user.Attributes,
+          username: user.Username,
+          userPoolId: "test",
+        }
+      );
+      expect(response).toEqual({
+        ChallengeName: "CUSTOM_CHALLENGE",
+        ChallengeParameters: {
+          USERNAME: user.Username,
+          email: "example@example.com",
+        },
+        Session: expect.stringMatching(UUID),
+      });
+      expect(mockUserPoolService.saveAuthSession).toHaveBeenCalledWith(
+        TestContext,
+        {
+          ChallengeMetadata: "MAGIC_LINK",
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResults: [],
+          ClientId: "clientId",
+          ExpirationDate: new Date(currentDate.getTime() + 3 * 60 * 1000),
+          PrivateChallengeParameters: { code: "secret" },
+          Session: response.Session,
+          Username: user.Username,
+        }
+      );
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it("generates tokens if the DefineAuthChallenge trigger issues them", async () => {
+      mockTriggers.enabled.mockReturnValue(true);
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "",
+        failAuthentication: false,
+        issueTokens: true,
+      });
+      mockTokenGenerator.generate.mockResolvedValue({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+
+      const response = await initiateAuth(TestContext, {
+        ClientId: "clientId",
+        AuthFlow: "CUSTOM_AUTH",
+        AuthParameters: {
+          USERNAME: user.Username,
+        },
+      });
+
+      expect(response.AuthenticationResult).toEqual({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+      expect(mockUserPoolService.storeRefreshToken).toHaveBeenCalledWith(
+        TestContext,
+        "refresh",
+        user
+      );
+      expect(mockTriggers.createAuthChallenge).not.toHaveBeenCalled();
+      expect(mockTriggers.postAuthentication).toHaveBeenCalledWith(
+        TestContext,
+        {
+          clientId: "clientId",
+          clientMetadata: undefined,
+          source: "PostAuthentication_Authentication",
+          userAttributes: user.Attributes,
+          username: user.Username,
+          userPoolId: "test",
+        }
+      );
+    });
+
+    it("throws if the DefineAuthChallenge trigger fails the authentication", async () => {
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "",
+        failAuthentication: true,
+        issueTokens: false,
+      });
+
+      await expect(
+        initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "CUSTOM_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+          },
+        })
+      ).rejects.toBeInstanceOf(NotAuthorizedError);
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    describe("when SRP_A is provided", () => {
+      it("responds with a PASSWORD_VERIFIER challenge if the DefineAuthChallenge trigger asks for one", async () => {
+        const srpClient = newSrpClient("test");
+        mockTriggers.defineAuthChallenge.mockResolvedValue({
+          challengeName: "PASSWORD_VERIFIER",
+          failAuthentication: false,
+          issueTokens: false,
+        });
+
+        const response = await initiateAuth(TestContext, {
+          ClientId: "clientId",
+          AuthFlow: "CUSTOM_AUTH",
+          AuthParameters: {
+            USERNAME: user.Username,
+            SRP_A: srpClient.SRP_A,
+          },
+        });
+
+        expect(mockTriggers.defineAuthChallenge).toHaveBeenCalledWith(
+          TestContext,
+          expect.objectContaining({
+            session: [{ ChallengeName: "SRP_A", ChallengeResult: true }],
+          })
+        );
+        expect(response).toEqual({
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeParameters: {
+            SALT: expect.any(String),
+            SECRET_BLOCK: expect.any(String),
+            SRP_B: expect.stringMatching(/^[0-9a-f]+$/),
+            USERNAME: user.Username,
+            USER_ID_FOR_SRP: user.Username,
+          },
+          Session: expect.stringMatching(UUID),
+        });
+        expect(mockUserPoolService.saveAuthSession).toHaveBeenCalledWith(
+          TestContext,
+          expect.objectContaining({
+            ChallengeName: "PASSWORD_VERIFIER",
+            ChallengeResults: [
+              { ChallengeName: "SRP_A", ChallengeResult: true },
+            ],
+            Session: response.Session,
+            SrpChallenge: {
+              ClientPublicKey: srpClient.SRP_A,
+              SecretBlock: response.ChallengeParameters?.SECRET_BLOCK,
+              ServerPrivateKey: expect.stringMatching(/^[0-9a-f]+$/),
+            },
+          })
+        );
+      });
+
+      it("throws if SRP_A is invalid", async () => {
+        await expect(
+          initiateAuth(TestContext, {
+            ClientId: "clientId",
+            AuthFlow: "CUSTOM_AUTH",
+            AuthParameters: {
+              USERNAME: user.Username,
+              SRP_A: "0",
+            },
+          })
+        ).rejects.toBeInstanceOf(NotAuthorizedError);
+      });
+    });
+  });
+
   describe("REFRESH_TOKEN_AUTH auth flow", () => {
     it("returns new tokens", async () => {
+      const refreshToken = jwt.sign({ jti: "refresh-token-jti" }, "secret");
+
       mockTokenGenerator.generate.mockResolvedValue({
         AccessToken: "access",
         IdToken: "id",
         RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
       });
 
       const existingUser = TDB.user({
-        RefreshTokens: ["refresh token"],
+        RefreshTokens: [refreshToken],
       });
 
       mockUserPoolService.getUserByRefreshToken.mockResolvedValue(existingUser);
@@ -539,7 +1168,7 @@ describe("InitiateAuth target", () => {
         AuthFlow: "REFRESH_TOKEN_AUTH",
         ClientId: "clientId",
         AuthParameters: {
-          REFRESH_TOKEN: "refresh token",
+          REFRESH_TOKEN: refreshToken,
         },
         ClientMetadata: {
           client: "metadata",
@@ -551,15 +1180,63 @@ describe("InitiateAuth target", () => {
 
       // does not return a refresh token as part of a refresh token flow
       expect(response.AuthenticationResult?.RefreshToken).not.toBeDefined();
+      expect(response.AuthenticationResult?.ExpiresIn).toEqual(3600);
+      expect(response.AuthenticationResult?.TokenType).toEqual("Bearer");
 
       expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
         TestContext,
         existingUser,
+        [],
         "clientId",
         "test",
         undefined,
-        "RefreshTokens"
+        "RefreshTokens",
+        "refresh-token-jti"
+      );
+    });
+
+    it("throws if the user is disabled", async () => {
+      const refreshToken = jwt.sign({ jti: "refresh-token-jti" }, "secret");
+
+      mockUserPoolService.getUserByRefreshToken.mockResolvedValue(
+        TDB.user({ Enabled: false, RefreshTokens: [refreshToken] })
       );
+
+      await expect(
+        initiateAuth(TestContext, {
+          AuthFlow: "REFRESH_TOKEN_AUTH",
+          ClientId: "clientId",
+          AuthParameters: {
+            REFRESH_TOKEN: refreshToken,
+          },
+        })
+      ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it("throws if the refresh token has expired", async () => {
+      const refreshToken = jwt.sign(
+        {
+          jti: "refresh-token-jti",
+          exp: Math.floor(currentDate.getTime() / 1000),
+        },
+        "secret"
+      );
+
+      mockUserPoolService.getUserByRefreshToken.mockResolvedValue(
+        TDB.user({ RefreshTokens: [refreshToken] })
+      );
+
+      await expect(
+        initiateAuth(TestContext, {
+          AuthFlow: "REFRESH_TOKEN_AUTH",
+          ClientId: "clientId",
+          AuthParameters: {
+            REFRESH_TOKEN: refreshToken,
+          },
+        })
+      ).rejects.toEqual(new NotAuthorizedError("Refresh Token has expired"));
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,9 +1,7 @@
 import {
-  DeliveryMediumType,
   InitiateAuthRequest,
   InitiateAuthResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import { v4 } from "uuid";
 import {
   InvalidParameterError,
   InvalidPasswordError,
@@ -12,12 +10,21 @@ import {
   UnsupportedError,
 } from "../errors";
 import { Services, UserPoolService } from "../services";
+import { verifyAuthFlow } from "../services/appClient";
+import { verifySecretHash } from "../services/secretHash";
+import { isValidClientPublicKey } from "../services/srp";
 import {
-  attributesToRecord,
-  attributeValue,
-  MFAOption,
-  User,
-} from "../services/userPoolService";
+  refreshTokenExpiry,
+  refreshTokenJti,
+} from "../services/tokenGenerator";
+import { User } from "../services/userPoolService";
+import {
+  isMfaRequired,
+  newPasswordChallenge,
+  nextCustomAuthChallenge,
+  passwordVerifierChallenge,
+  smsMfaChallenge,
+} from "./challenges";
 import { Context, Target } from "./router";
 
 export type InitiateAuthTarget = Target<
@@ -27,66 +34,15 @@ export type InitiateAuthTarget = Target<
 
 type InitiateAuthServices = Pick<
   Services,
-  "cognito" | "messages" | "otp" | "tokenGenerator" | "triggers"
+  | "clock"
+  | "cognito"
+  | "messages"
+  | "otp"
+  | "passwords"
+  | "tokenGenerator"
+  | "triggers"
 >;
 
-const verifyMfaChallenge = async (
-  ctx: Context,
-  user: User,
-  req: InitiateAuthRequest,
-  userPool: UserPoolService,
-  services: InitiateAuthServices
-): Promise<InitiateAuthResponse> => {
-  if (!user.MFAOptions?.length) {
-    throw new NotAuthorizedError();
-  }
-  const smsMfaOption = user.MFAOptions?.find(
-    (x): x is MFAOption & { DeliveryMedium: DeliveryMediumType } =>
-      x.DeliveryMedium === "SMS"
-  );
-  if (!smsMfaOption) {
-    throw new UnsupportedError("MFA challenge without SMS");
-  }
-
-  const deliveryDestination = attributeValue(
-    smsMfaOption.AttributeName,
-    user.Attributes
-  );
-  if (!deliveryDestination) {
-    throw new UnsupportedError(`SMS_MFA without ${smsMfaOption.AttributeName}`);
-  }
-
-  const code = services.otp();
-  await services.messages.deliver(
-    ctx,
-    "Authentication",
-    req.ClientId,
-    userPool.config.Id,
-    user,
-    code,
-    req.ClientMetadata,
-    {
-      DeliveryMedium: smsMfaOption.DeliveryMedium,
-      AttributeName: smsMfaOption.AttributeName,
-      Destination: deliveryDestination,
-    }
-  );
-
-  await userPool.saveUser(ctx, {
-    ...user,
-    MFACode: code,
-  });
-
-  return {
-    ChallengeName: "SMS_MFA",
-    ChallengeParameters: {
-      CODE_DELIVERY_DELIVERY_MEDIUM: "SMS",
-      CODE_DELIVERY_DESTINATION: deliveryDestination,
-      USER_ID_FOR_SRP: user.Username,
-    },
-  };
-};
-
 const verifyPasswordChallenge = async (
   ctx: Context,
   user: User,
@@ -97,6 +53,7 @@ const verifyPasswordChallenge = async (
   const tokens = await services.tokenGenerator.generate(
     ctx,
     user,
+    await userPool.listUserGroupMembership(ctx, user),
     req.ClientId,
     userPool.config.Id,
     // The docs for the pre-token generation trigger only say that the ClientMetadata is passed as part of the
@@ -116,16 +73,6 @@ const verifyPasswordChallenge = async (
   };
 };
 
-const newPasswordChallenge = (user: User): InitiateAuthResponse => ({
-  ChallengeName: "NEW_PASSWORD_REQUIRED",
-  ChallengeParameters: {
-    USER_ID_FOR_SRP: user.Username,
-    requiredAttributes: JSON.stringify([]),
-    userAttributes: JSON.stringify(attributesToRecord(user.Attributes)),
-  },
-  Session: v4(),
-});
-
 const userPasswordAuthFlow = async (
   ctx: Context,
   req: InitiateAuthRequest,
@@ -138,6 +85,14 @@ const userPasswordAuthFlow = async (
     );
   }
 
+  await verifySecretHash(
+    ctx,
+    services.cognito,
+    req.ClientId,
+    req.AuthParameters.USERNAME,
+    req.AuthParameters.SECRET_HASH
+  );
+
   let user = await userPool.getUserByUsername(ctx, req.AuthParameters.USERNAME);
 
   if (!user && services.triggers.enabled("UserMigration")) {
@@ -165,22 +120,37 @@ const userPasswordAuthFlow = async (
   if (!user) {
     throw new NotAuthorizedError();
   }
+  if (!user.Enabled) {
+    throw new NotAuthorizedError("User is disabled.");
+  }
   if (user.UserStatus === "RESET_REQUIRED") {
     throw new PasswordResetRequiredError();
   }
-  if (user.UserStatus === "FORCE_CHANGE_PASSWORD") {
-    return newPasswordChallenge(user);
-  }
-  if (user.Password !== req.AuthParameters.PASSWORD) {
+  const verifiedUser = await services.passwords.verify(
+    ctx,
+    userPool,
+    user,
+    req.AuthParameters.PASSWORD
+  );
+  if (!verifiedUser) {
     throw new InvalidPasswordError();
   }
+  user = verifiedUser;
+
+  // the temporary password has to be checked like any other before the user can choose a new one
+  if (user.UserStatus === "FORCE_CHANGE_PASSWORD") {
+    return newPasswordChallenge(ctx, services, userPool, user, req.ClientId);
+  }
 
-  if (
-    (userPool.config.MfaConfiguration === "OPTIONAL" &&
-      (user.MFAOptions ?? []).length > 0) ||
-    userPool.config.MfaConfiguration === "ON"
-  ) {
-    return verifyMfaChallenge(ctx, user, req, userPool, services);
+  if (isMfaRequired(userPool, user)) {
+    return smsMfaChallenge(
+      ctx,
+      services,
+      userPool,
+      user,
+      req.ClientId,
+      req.ClientMetadata
+    );
   }
 
   const result = verifyPasswordChallenge(ctx, user, req, userPool, services);
@@ -201,6 +171,144 @@ const userPasswordAuthFlow = async (
   return result;
 };
 
+const userSrpAuthFlow = async (
+  ctx: Context,
+  req: InitiateAuthRequest,
+  userPool: UserPoolService,
+  services: InitiateAuthServices
+): Promise<InitiateAuthResponse> => {
+  if (!req.AuthParameters) {
+    throw new InvalidParameterError(
+      "Missing required parameter authParameters"
+    );
+  }
+  if (!req.AuthParameters.USERNAME || !req.AuthParameters.SRP_A) {
+    throw new InvalidParameterError(
+      "AuthParameters USERNAME and SRP_A are required"
+    );
+  }
+  if (!isValidClientPublicKey(req.AuthParameters.SRP_A)) {
+    throw new NotAuthorizedError();
+  }
+  await verifySecretHash(
+    ctx,
+    services.cognito,
+    req.ClientId,
+    req.AuthParameters.USERNAME,
+    req.AuthParameters.SECRET_HASH
+  );
+
+  const user = await userPool.getUserByUsername(
+    ctx,
+    req.AuthParameters.USERNAME
+  );
+  if (!user) {
+    throw new NotAuthorizedError();
+  }
+  if (!user.Enabled) {
+    throw new NotAuthorizedError("User is disabled.");
+  }
+  if (user.UserStatus === "RESET_REQUIRED") {
+    throw new PasswordResetRequiredError();
+  }
+
+  return passwordVerifierChallenge(
+    ctx,
+    services,
+    userPool,
+    user,
+    req.ClientId,
+    req.AuthParameters.SRP_A
+  );
+};
+
+const customAuthFlow = async (
+  ctx: Context,
+  req: InitiateAuthRequest,
+  userPool: UserPoolService,
+  services: InitiateAuthServices
+): Promise<InitiateAuthResponse> => {
+  if (!req.AuthParameters) {
+    throw new InvalidParameterError(
+      "Missing required parameter authParameters"
+    );
+  }
+  if (!req.AuthParameters.USERNAME) {
+    throw new InvalidParameterError("AuthParameters USERNAME is required");
+  }
+  // the client can authenticate with SRP before any custom challenges by including SRP_A
+  const srpA = req.AuthParameters.SRP_A;
+  if (srpA && !isValidClientPublicKey(srpA)) {
+    throw new NotAuthorizedError();
+  }
+  await verifySecretHash(
+    ctx,
+    services.cognito,
+    req.ClientId,
+    req.AuthParameters.USERNAME,
+    req.AuthParameters.SECRET_HASH
+  );
+
+  const user = await userPool.getUserByUsername(
+    ctx,
+    req.AuthParameters.USERNAME
+  );
+  if (!user) {
+    throw new NotAuthorizedError();
+  }
+  if (!user.Enabled) {
+    throw new NotAuthorizedError("User is disabled.");
+  }
+  if (user.UserStatus === "RESET_REQUIRED") {
+    throw new PasswordResetRequiredError();
+  }
+
+  const challenge = await nextCustomAuthChallenge(
+    ctx,
+    services,
+    userPool,
+    user,
+    req.ClientId,
+    // As per the InitiateAuth docs, ClientMetadata is not passed to the auth challenge triggers when called from
+    // InitiateAuth
+    // Source: https://docs.aws.amazon.com/cognito-user-identity-pools/latest/APIReference/API_InitiateAuth.html#API_InitiateAuth_RequestSyntax
+    undefined,
+    srpA ? [{ ChallengeName: "SRP_A", ChallengeResult: true }] : [],
+    srpA
+  );
+  if (challenge) {
+    return challenge;
+  }
+
+  const tokens = await services.tokenGenerator.generate(
+    ctx,
+    user,
+    await userPool.listUserGroupMembership(ctx, user),
+    req.ClientId,
+    userPool.config.Id,
+    undefined,
+    "Authentication"
+  );
+
+  await userPool.storeRefreshToken(ctx, tokens.RefreshToken, user);
+
+  if (services.triggers.enabled("PostAuthentication")) {
+    await services.triggers.postAuthentication(ctx, {
+      clientId: req.ClientId,
+      clientMetadata: undefined,
+      source: "PostAuthentication_Authentication",
+      userAttributes: user.Attributes,
+      username: user.Username,
+      userPoolId: userPool.config.Id,
+    });
+  }
+
+  return {
+    ChallengeParameters: {},
+    AuthenticationResult: tokens,
+  };
+};
+
 const refreshTokenAuthFlow = async (
   ctx: Context,
   req: InitiateAuthRequest,
@@ -227,10 +335,26 @@ const refreshTokenAuthFlow = async (
   if (!user) {
     throw new NotAuthorizedError();
   }
+  const expiry = refreshTokenExpiry(req.AuthParameters.REFRESH_TOKEN);
+  if (expiry && expiry <= services.clock.get()) {
+    throw new NotAuthorizedError("Refresh Token has expired");
+  }
+  // refreshing doesn't take a username, so the hash is of the username the refresh token was issued to
+  await verifySecretHash(
+    ctx,
+    services.cognito,
+    req.ClientId,
+    user.Username,
+    req.AuthParameters.SECRET_HASH
+  );
+  if (!user.Enabled) {
+    throw new NotAuthorizedError("User is disabled.");
+  }
 
   const tokens = await services.tokenGenerator.generate(
     ctx,
     user,
+    await userPool.listUserGroupMembership(ctx, user),
     req.ClientId,
     userPool.config.Id,
     // The docs for the pre-token generation trigger only say that the ClientMetadata is passed as part of the
@@ -238,7 +362,8 @@ const refreshTokenAuthFlow = async (
     //
     // source: https://docs.aws.amazon.com/cognito/latest/developerguide/user-pool-lambda-pre-token-generation.html
     undefined,
-    "RefreshTokens"
+    "RefreshTokens",
+    refreshTokenJti(req.AuthParameters.REFRESH_TOKEN)
   );
 
   return {
@@ -250,8 +375,8 @@ const refreshTokenAuthFlow = async (
       RefreshToken: undefined,
       IdToken: tokens.IdToken,
       NewDeviceMetadata: undefined,
-      TokenType: undefined,
-      ExpiresIn: undefined,
+      TokenType: tokens.TokenType,
+      ExpiresIn: tokens.ExpiresIn,
     },
   };
 };
@@ -263,9 +388,17 @@ export const InitiateAuth =
       ctx,
       req.ClientId
     );
+    const appClient = await services.cognito.getAppClient(ctx, req.ClientId);
+    if (appClient) {
+      verifyAuthFlow(appClient, req.AuthFlow);
+    }
 
     if (req.AuthFlow === "USER_PASSWORD_AUTH") {
       return userPasswordAuthFlow(ctx, req, userPool, services);
+    } else if (req.AuthFlow === "USER_SRP_AUTH") {
+      return userSrpAuthFlow(ctx, req, userPool, services);
+    } else if (req.AuthFlow === "CUSTOM_AUTH") {
+      return customAuthFlow(ctx, req, userPool, services);
     } else if (
       req.AuthFlow === "REFRESH_TOKEN" ||
       req.AuthFlow === "REFRESH_TOKEN_AUTH"
@@ -1,3 +1,4 @@
+import { InvalidParameterError } from "../errors";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
@@ -16,11 +17,11 @@ describe("ListGroups target", () => {
     });
   });
 
-  it("lists groups", async () => {
-    const group1 = TDB.group();
-    const group2 = TDB.group();
+  it("lists groups ordered by name", async () => {
+    const group1 = TDB.group({ GroupName: "abc" });
+    const group2 = TDB.group({ GroupName: "def" });
 
-    mockUserPoolService.listGroups.mockResolvedValue([group1, group2]);
+    mockUserPoolService.listGroups.mockResolvedValue([group2, group1]);
 
     const output = await listGroups(TestContext, {
       UserPoolId: "userPoolId",
@@ -43,6 +44,38 @@ describe("ListGroups target", () => {
     ]);
   });
 
-  it.todo("supports Limit to specify the number of groups to return");
-  it.todo("supports PaginationToken to paginate results");
+  it("supports Limit and NextToken to paginate results", async () => {
+    const group1 = TDB.group({ GroupName: "abc" });
+    const group2 = TDB.group({ GroupName: "def" });
+
+    mockUserPoolService.listGroups.mockResolvedValue([group1, group2]);
+
+    const page1 = await listGroups(TestContext, {
+      UserPoolId: "userPoolId",
+      Limit: 1,
+    });
+
+    expect(page1.Groups?.map((x) => x.GroupName)).toEqual(["abc"]);
+    expect(page1.NextToken).toBeDefined();
+
+    const page2 = await listGroups(TestContext, {
+      UserPoolId: "userPoolId",
+      Limit: 1,
+      NextToken: page1.NextToken,
+    });
+
+    expect(page2.Groups?.map((x) => x.GroupName)).toEqual(["def"]);
+    expect(page2.NextToken).toBeUndefined();
+  });
+
+  it("throws if the NextToken is invalid", async () => {
+    mockUserPoolService.listGroups.mockResolvedValue([]);
+
+    await expect(
+      listGroups(TestContext, {
+        UserPoolId: "userPoolId",
+        NextToken: "invalid",
+      })
+    ).rejects.toEqual(new InvalidParameterError("Invalid pagination token"));
+  });
 });
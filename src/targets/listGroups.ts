@@ -3,6 +3,8 @@ import {
   ListGroupsResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { Services } from "../services";
+import { paginate } from "../services/pagination";
+import { groupToResponseObject } from "./responses";
 import { Target } from "./router";
 
 export type ListGroupsTarget = Target<ListGroupsRequest, ListGroupsResponse>;
@@ -12,21 +14,18 @@ type ListGroupServices = Pick<Services, "cognito">;
 export const ListGroups =
   ({ cognito }: ListGroupServices): ListGroupsTarget =>
   async (ctx, req) => {
-    // TODO: Limit support
-    // TODO: PaginationToken support
-
     const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
     const groups = await userPool.listGroups(ctx);
 
+    const page = paginate(groups, (group) => group.GroupName, {
+      scope: `ListGroups:${req.UserPoolId}`,
+      limitParameterName: "limit",
+      limit: req.Limit,
+      token: req.NextToken,
+    });
+
     return {
-      Groups: groups.map((group) => ({
-        CreationDate: group.CreationDate,
-        Description: group.Description,
-        GroupName: group.GroupName,
-        LastModifiedDate: group.LastModifiedDate,
-        Precedence: group.Precedence,
-        RoleArn: group.RoleArn,
-        UserPoolId: req.UserPoolId,
-      })),
+      Groups: page.items.map(groupToResponseObject(req.UserPoolId)),
+      NextToken: page.nextToken,
     };
   };
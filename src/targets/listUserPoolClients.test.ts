@@ -0,0 +1,80 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { UserPoolService } from "../services";
+import {
+  ListUserPoolClients,
+  ListUserPoolClientsTarget,
+} from "./listUserPoolClients";
+
+describe("ListUserPoolClients target", () => {
+  let listUserPoolClients: ListUserPoolClientsTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    listUserPoolClients = ListUserPoolClients({
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("lists the user pool's app clients", async () => {
+    const appClient1 = TDB.appClient({
+      ClientId: "client1",
+      UserPoolId: "test",
+    });
+    const appClient2 = TDB.appClient({
+      ClientId: "client2",
+      UserPoolId: "test",
+    });
+    mockUserPoolService.listAppClients.mockResolvedValue([
+      appClient2,
+      appClient1,
+    ]);
+
+    const result = await listUserPoolClients(TestContext, {
+      UserPoolId: "test",
+    });
+
+    expect(result).toEqual({
+      UserPoolClients: [
+        {
+          ClientId: "client1",
+          ClientName: appClient1.ClientName,
+          UserPoolId: "test",
+        },
+        {
+          ClientId: "client2",
+          ClientName: appClient2.ClientName,
+          UserPoolId: "test",
+        },
+      ],
+    });
+  });
+
+  it("paginates the app clients", async () => {
+    mockUserPoolService.listAppClients.mockResolvedValue([
+      TDB.appClient({ ClientId: "client1" }),
+      TDB.appClient({ ClientId: "client2" }),
+      TDB.appClient({ ClientId: "client3" }),
+    ]);
+
+    const page1 = await listUserPoolClients(TestContext, {
+      MaxResults: 2,
+      UserPoolId: "test",
+    });
+    const page2 = await listUserPoolClients(TestContext, {
+      MaxResults: 2,
+      NextToken: page1.NextToken,
+      UserPoolId: "test",
+    });
+
+    expect(page1.UserPoolClients?.map((x) => x.ClientId)).toEqual([
+      "client1",
+      "client2",
+    ]);
+    expect(page2.UserPoolClients?.map((x) => x.ClientId)).toEqual(["client3"]);
+    expect(page2.NextToken).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  ListUserPoolClientsRequest,
+  ListUserPoolClientsResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { Services } from "../services";
+import { paginate } from "../services/pagination";
+import { Target } from "./router";
+
+export type ListUserPoolClientsTarget = Target<
+  ListUserPoolClientsRequest,
+  ListUserPoolClientsResponse
+>;
+
+export const ListUserPoolClients =
+  ({ cognito }: Pick<Services, "cognito">): ListUserPoolClientsTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const appClients = await userPool.listAppClients(ctx);
+
+    const page = paginate(appClients, (appClient) => appClient.ClientId, {
+      scope: `ListUserPoolClients:${req.UserPoolId}`,
+      limitParameterName: "maxResults",
+      limit: req.MaxResults,
+      token: req.NextToken,
+    });
+
+    return {
+      UserPoolClients: page.items.map((appClient) => ({
+        ClientId: appClient.ClientId,
+        ClientName: appClient.ClientName,
+        UserPoolId: appClient.UserPoolId,
+      })),
+      NextToken: page.nextToken,
+    };
+  };
@@ -1,3 +1,4 @@
+import { InvalidParameterError } from "../errors";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
@@ -16,11 +17,11 @@ describe("ListUserPools target", () => {
     });
   });
 
-  it("lists user pools", async () => {
-    const userPool1 = TDB.userPool();
-    const userPool2 = TDB.userPool();
+  it("lists user pools ordered by id", async () => {
+    const userPool1 = TDB.userPool({ Id: "local_1" });
+    const userPool2 = TDB.userPool({ Id: "local_2" });
 
-    mockCognitoService.listUserPools.mockResolvedValue([userPool1, userPool2]);
+    mockCognitoService.listUserPools.mockResolvedValue([userPool2, userPool1]);
 
     const output = await listUserPools(TestContext, {
       MaxResults: 10,
@@ -29,4 +30,37 @@ describe("ListUserPools target", () => {
     expect(output).toBeDefined();
     expect(output.UserPools).toEqual([userPool1, userPool2]);
   });
+
+  it("supports MaxResults and NextToken to paginate results", async () => {
+    const userPool1 = TDB.userPool({ Id: "local_1" });
+    const userPool2 = TDB.userPool({ Id: "local_2" });
+
+    mockCognitoService.listUserPools.mockResolvedValue([userPool1, userPool2]);
+
+    const page1 = await listUserPools(TestContext, {
+      MaxResults: 1,
+    });
+
+    expect(page1.UserPools).toEqual([userPool1]);
+    expect(page1.NextToken).toBeDefined();
+
+    const page2 = await listUserPools(TestContext, {
+      MaxResults: 1,
+      NextToken: page1.NextToken,
+    });
+
+    expect(page2.UserPools).toEqual([userPool2]);
+    expect(page2.NextToken).toBeUndefined();
+  });
+
+  it("throws if the NextToken is invalid", async () => {
+    mockCognitoService.listUserPools.mockResolvedValue([]);
+
+    await expect(
+      listUserPools(TestContext, {
+        MaxResults: 1,
+        NextToken: "invalid",
+      })
+    ).rejects.toEqual(new InvalidParameterError("Invalid pagination token"));
+  });
 });
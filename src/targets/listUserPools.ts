@@ -3,6 +3,7 @@ import {
   ListUserPoolsResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { Services } from "../services";
+import { paginate } from "../services/pagination";
 import { UserPool } from "../services/userPoolService";
 import { Target } from "./router";
 
@@ -15,13 +16,18 @@ type ListGroupServices = Pick<Services, "cognito">;
 
 export const ListUserPools =
   ({ cognito }: ListGroupServices): ListUserPoolsTarget =>
-  async (ctx) => {
-    // TODO: NextToken support
-    // TODO: MaxResults support
+  async (ctx, req) => {
+    const userPools = await cognito.listUserPools(ctx);
 
-    const userPools = (await cognito.listUserPools(ctx)) as UserPool[];
+    const page = paginate(userPools, (userPool) => userPool.Id, {
+      scope: "ListUserPools",
+      limitParameterName: "maxResults",
+      limit: req.MaxResults,
+      token: req.NextToken,
+    });
 
     return {
-      UserPools: userPools,
+      UserPools: page.items as UserPool[],
+      NextToken: page.nextToken,
     };
   };
@@ -1,3 +1,4 @@
+import { InvalidParameterError } from "../errors";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
@@ -16,11 +17,11 @@ describe("ListUsers target", () => {
     });
   });
 
-  it("lists users and removes Cognito Local fields", async () => {
-    const user1 = TDB.user();
-    const user2 = TDB.user();
+  it("lists users ordered by username and removes Cognito Local fields", async () => {
+    const user1 = TDB.user({ Username: "alice" });
+    const user2 = TDB.user({ Username: "bob" });
 
-    mockUserPoolService.listUsers.mockResolvedValue([user1, user2]);
+    mockUserPoolService.listUsers.mockResolvedValue([user2, user1]);
 
     const output = await listUsers(TestContext, {
       UserPoolId: "userPoolId",
@@ -47,8 +48,101 @@ describe("ListUsers target", () => {
     ]);
   });
 
-  it.todo("supports AttributesToGet to specify which attributes to return");
-  it.todo("supports Filter to filter users before returning");
-  it.todo("supports Limit to specify the number of users to return");
-  it.todo("supports PaginationToken to paginate results");
+  it("supports Filter to filter users before returning", async () => {
+    const user1 = TDB.user({
+      Attributes: [{ Name: "email", Value: "alice@example.com" }],
+    });
+    const user2 = TDB.user({
+      Attributes: [{ Name: "email", Value: "bob@example.com" }],
+    });
+
+    mockUserPoolService.listUsers.mockResolvedValue([user1, user2]);
+
+    const output = await listUsers(TestContext, {
+      UserPoolId: "userPoolId",
+      Filter: 'email ^= "bob"',
+    });
+
+    expect(output.Users?.map((x) => x.Username)).toEqual([user2.Username]);
+  });
+
+  it("throws if the Filter attribute is not searchable", async () => {
+    await expect(
+      listUsers(TestContext, {
+        UserPoolId: "userPoolId",
+        Filter: 'custom:team = "red"',
+      })
+    ).rejects.toEqual(
+      new InvalidParameterError("Invalid search attribute: custom:team")
+    );
+
+    expect(mockUserPoolService.listUsers).not.toHaveBeenCalled();
+  });
+
+  it("supports AttributesToGet to specify which attributes to return", async () => {
+    const user = TDB.user({
+      Attributes: [
+        { Name: "sub", Value: "uuid" },
+        { Name: "email", Value: "example@example.com" },
+        { Name: "name", Value: "Example" },
+      ],
+    });
+
+    mockUserPoolService.listUsers.mockResolvedValue([user]);
+
+    const output = await listUsers(TestContext, {
+      UserPoolId: "userPoolId",
+      AttributesToGet: ["email", "name"],
+    });
+
+    expect(output.Users?.[0].Attributes).toEqual([
+      { Name: "email", Value: "example@example.com" },
+      { Name: "name", Value: "Example" },
+    ]);
+  });
+
+  it("supports Limit and PaginationToken to paginate results", async () => {
+    const user1 = TDB.user({ Username: "alice" });
+    const user2 = TDB.user({ Username: "bob" });
+    const user3 = TDB.user({ Username: "carol" });
+
+    mockUserPoolService.listUsers.mockResolvedValue([user1, user2, user3]);
+
+    const page1 = await listUsers(TestContext, {
+      UserPoolId: "userPoolId",
+      Limit: 2,
+    });
+
+    expect(page1.Users?.map((x) => x.Username)).toEqual(["alice", "bob"]);
+    expect(page1.PaginationToken).toBeDefined();
+
+    const page2 = await listUsers(TestContext, {
+      UserPoolId: "userPoolId",
+      Limit: 2,
+      PaginationToken: page1.PaginationToken,
+    });
+
+    expect(page2.Users?.map((x) => x.Username)).toEqual(["carol"]);
+    expect(page2.PaginationToken).toBeUndefined();
+  });
+
+  it("throws if the PaginationToken was issued for another user pool", async () => {
+    mockUserPoolService.listUsers.mockResolvedValue([
+      TDB.user({ Username: "alice" }),
+      TDB.user({ Username: "bob" }),
+    ]);
+
+    const page1 = await listUsers(TestContext, {
+      UserPoolId: "userPoolId",
+      Limit: 1,
+    });
+
+    await expect(
+      listUsers(TestContext, {
+        UserPoolId: "otherUserPoolId",
+        Limit: 1,
+        PaginationToken: page1.PaginationToken,
+      })
+    ).rejects.toEqual(new InvalidParameterError("Invalid pagination token"));
+  });
 });
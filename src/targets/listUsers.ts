@@ -3,29 +3,44 @@ import {
   ListUsersResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { Services } from "../services";
+import { paginate } from "../services/pagination";
+import { parseUserFilter } from "../services/userFilter";
+import { User } from "../services/userPoolService";
+import { userToResponseObject } from "./responses";
 import { Target } from "./router";
 
 export type ListUsersTarget = Target<ListUsersRequest, ListUsersResponse>;
 
+const projectAttributes =
+  (attributesToGet: readonly string[] | undefined) =>
+  (user: User): User =>
+    attributesToGet
+      ? {
+          ...user,
+          Attributes: user.Attributes.filter((attr) =>
+            attributesToGet.includes(attr.Name)
+          ),
+        }
+      : user;
+
 export const ListUsers =
   ({ cognito }: Pick<Services, "cognito">): ListUsersTarget =>
   async (ctx, req) => {
+    const filter = parseUserFilter(req.Filter);
     const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
     const users = await userPool.listUsers(ctx);
 
-    // TODO: support AttributesToGet
-    // TODO: support Filter
-    // TODO: support Limit
-    // TODO: support PaginationToken
+    const page = paginate(users.filter(filter), (user) => user.Username, {
+      scope: `ListUsers:${req.UserPoolId}`,
+      limitParameterName: "limit",
+      limit: req.Limit,
+      token: req.PaginationToken,
+    });
 
     return {
-      Users: users.map((user) => ({
-        Username: user.Username,
-        UserCreateDate: user.UserCreateDate,
-        UserLastModifiedDate: user.UserLastModifiedDate,
-        Enabled: user.Enabled,
-        UserStatus: user.UserStatus,
-        Attributes: user.Attributes,
-      })),
+      Users: page.items
+        .map(projectAttributes(req.AttributesToGet))
+        .map(userToResponseObject),
+      PaginationToken: page.nextToken,
     };
   };
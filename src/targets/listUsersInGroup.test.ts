@@ -0,0 +1,126 @@
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { GroupNotFoundError, InvalidParameterError } from "../errors";
+import { UserPoolService } from "../services";
+import { ListUsersInGroup, ListUsersInGroupTarget } from "./listUsersInGroup";
+
+describe("ListUsersInGroup target", () => {
+  let listUsersInGroup: ListUsersInGroupTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    listUsersInGroup = ListUsersInGroup({
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("lists the members of the group ordered by username and removes Cognito Local fields", async () => {
+    const user1 = TDB.user({ Username: "abc" });
+    const user2 = TDB.user({ Username: "def" });
+    const group = TDB.group({
+      members: [user2.Username, user1.Username],
+    });
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(group);
+    mockUserPoolService.getUserByUsername.mockImplementation((ctx, username) =>
+      Promise.resolve(
+        [user1, user2].find((user) => user.Username === username) ?? null
+      )
+    );
+
+    const output = await listUsersInGroup(TestContext, {
+      GroupName: group.GroupName,
+      UserPoolId: "test",
+    });
+
+    expect(output.Users).toEqual([
+      {
+        Attributes: user1.Attributes,
+        Enabled: user1.Enabled,
+        UserCreateDate: user1.UserCreateDate,
+        UserLastModifiedDate: user1.UserLastModifiedDate,
+        UserStatus: user1.UserStatus,
+        Username: user1.Username,
+      },
+      {
+        Attributes: user2.Attributes,
+        Enabled: user2.Enabled,
+        UserCreateDate: user2.UserCreateDate,
+        UserLastModifiedDate: user2.UserLastModifiedDate,
+        UserStatus: user2.UserStatus,
+        Username: user2.Username,
+      },
+    ]);
+  });
+
+  it("returns an empty list when the group has no members", async () => {
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(TDB.group());
+
+    const output = await listUsersInGroup(TestContext, {
+      GroupName: "group",
+      UserPoolId: "test",
+    });
+
+    expect(output.Users).toEqual([]);
+  });
+
+  it("throws if the group doesn't exist", async () => {
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(null);
+
+    await expect(
+      listUsersInGroup(TestContext, {
+        GroupName: "group",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new GroupNotFoundError());
+  });
+
+  it("supports Limit and NextToken to paginate results", async () => {
+    const user1 = TDB.user({ Username: "abc" });
+    const user2 = TDB.user({ Username: "def" });
+    const group = TDB.group({
+      members: [user1.Username, user2.Username],
+    });
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(group);
+    mockUserPoolService.getUserByUsername.mockImplementation((ctx, username) =>
+      Promise.resolve(
+        [user1, user2].find((user) => user.Username === username) ?? null
+      )
+    );
+
+    const page1 = await listUsersInGroup(TestContext, {
+      GroupName: group.GroupName,
+      Limit: 1,
+      UserPoolId: "test",
+    });
+
+    expect(page1.Users?.map((x) => x.Username)).toEqual(["abc"]);
+    expect(page1.NextToken).toBeDefined();
+
+    const page2 = await listUsersInGroup(TestContext, {
+      GroupName: group.GroupName,
+      Limit: 1,
+      NextToken: page1.NextToken,
+      UserPoolId: "test",
+    });
+
+    expect(page2.Users?.map((x) => x.Username)).toEqual(["def"]);
+    expect(page2.NextToken).toBeUndefined();
+  });
+
+  it("throws if the NextToken is invalid", async () => {
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(TDB.group());
+
+    await expect(
+      listUsersInGroup(TestContext, {
+        GroupName: "group",
+        NextToken: "invalid",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new InvalidParameterError("Invalid pagination token"));
+  });
+});
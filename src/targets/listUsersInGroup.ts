@@ -0,0 +1,49 @@
+import {
+  ListUsersInGroupRequest,
+  ListUsersInGroupResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { GroupNotFoundError } from "../errors";
+import { Services } from "../services";
+import { paginate } from "../services/pagination";
+import { User } from "../services/userPoolService";
+import { userToResponseObject } from "./responses";
+import { Target } from "./router";
+
+export type ListUsersInGroupTarget = Target<
+  ListUsersInGroupRequest,
+  ListUsersInGroupResponse
+>;
+
+type ListUsersInGroupServices = Pick<Services, "cognito">;
+
+export const ListUsersInGroup =
+  ({ cognito }: ListUsersInGroupServices): ListUsersInGroupTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const group = await userPool.getGroupByGroupName(ctx, req.GroupName);
+    if (!group) {
+      throw new GroupNotFoundError();
+    }
+
+    const users = await Promise.all(
+      (group.members ?? []).map((username) =>
+        userPool.getUserByUsername(ctx, username)
+      )
+    );
+
+    const page = paginate(
+      users.filter((user): user is User => !!user),
+      (user) => user.Username,
+      {
+        scope: `ListUsersInGroup:${req.UserPoolId}:${group.GroupName}`,
+        limitParameterName: "limit",
+        limit: req.Limit,
+        token: req.NextToken,
+      }
+    );
+
+    return {
+      Users: page.items.map(userToResponseObject),
+      NextToken: page.nextToken,
+    };
+  };
@@ -0,0 +1,156 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import {
+  InvalidParameterError,
+  NotAuthorizedError,
+  UserNotFoundError,
+} from "../errors";
+import { CognitoService, Messages, UserPoolService } from "../services";
+import { attributeValue } from "../services/userPoolService";
+import {
+  ResendConfirmationCode,
+  ResendConfirmationCodeTarget,
+} from "./resendConfirmationCode";
+
+const currentDate = new Date();
+
+describe("ResendConfirmationCode target", () => {
+  let resendConfirmationCode: ResendConfirmationCodeTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockMessages: jest.Mocked<Messages>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService({
+      Id: "test",
+      AutoVerifiedAttributes: ["email"],
+    });
+    mockMessages = newMockMessages();
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
+    resendConfirmationCode = ResendConfirmationCode({
+      clock: new ClockFake(currentDate),
+      cognito: mockCognitoService,
+      messages: mockMessages,
+      otp: () => "1234",
+    });
+  });
+
+  it("sends a new confirmation code to the user", async () => {
+    const user = TDB.user({ UserStatus: "UNCONFIRMED" });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    const result = await resendConfirmationCode(TestContext, {
+      ClientId: "clientId",
+      ClientMetadata: { client: "metadata" },
+      Username: user.Username,
+    });
+
+    const deliveryDetails = {
+      AttributeName: "email",
+      DeliveryMedium: "EMAIL",
+      Destination: attributeValue("email", user.Attributes),
+    };
+    expect(mockMessages.deliver).toHaveBeenCalledWith(
+      TestContext,
+      "ResendCode",
+      "clientId",
+      "test",
+      user,
+      "1234",
+      { client: "metadata" },
+      deliveryDetails
+    );
+    expect(result).toEqual({
+      CodeDeliveryDetails: deliveryDetails,
+    });
+  });
+
+  it("saves the new confirmation code on the user", async () => {
+    const user = TDB.user({
+      ConfirmationCode: "5678",
+      UserStatus: "UNCONFIRMED",
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await resendConfirmationCode(TestContext, {
+      ClientId: "clientId",
+      Username: user.Username,
+    });
+
+    expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
+      ...user,
+      ConfirmationCode: "1234",
+      UserLastModifiedDate: currentDate,
+    });
+  });
+
+  it("throws if the user has no attribute matching the auto verified attributes", async () => {
+    const user = TDB.user({
+      Attributes: [{ Name: "phone_number", Value: "0400000000" }],
+      UserStatus: "UNCONFIRMED",
+    });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      resendConfirmationCode(TestContext, {
+        ClientId: "clientId",
+        Username: user.Username,
+      })
+    ).rejects.toEqual(
+      new InvalidParameterError(
+        "Cannot resend codes. Auto verification not turned on."
+      )
+    );
+    expect(mockMessages.deliver).not.toHaveBeenCalled();
+  });
+
+  it("throws if the user is already confirmed", async () => {
+    const user = TDB.user({ UserStatus: "CONFIRMED" });
+
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      resendConfirmationCode(TestContext, {
+        ClientId: "clientId",
+        Username: user.Username,
+      })
+    ).rejects.toEqual(new InvalidParameterError("User is already confirmed."));
+  });
+
+  it("throws if the user doesn't exist", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+
+    await expect(
+      resendConfirmationCode(TestContext, {
+        ClientId: "clientId",
+        Username: "abc",
+      })
+    ).rejects.toBeInstanceOf(UserNotFoundError);
+  });
+
+  it("throws if the client has a secret and the secret hash is missing", async () => {
+    const user = TDB.user({ UserStatus: "UNCONFIRMED" });
+
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId", ClientSecret: "secret" })
+    );
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+    await expect(
+      resendConfirmationCode(TestContext, {
+        ClientId: "clientId",
+        Username: user.Username,
+      })
+    ).rejects.toEqual(
+      new NotAuthorizedError("Unable to verify secret hash for client clientId")
+    );
+    expect(mockMessages.deliver).not.toHaveBeenCalled();
+  });
+});
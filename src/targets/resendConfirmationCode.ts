@@ -0,0 +1,81 @@
+import {
+  ResendConfirmationCodeRequest,
+  ResendConfirmationCodeResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { InvalidParameterError, UserNotFoundError } from "../errors";
+import { Services } from "../services";
+import { selectAppropriateDeliveryMethod } from "../services/messageDelivery/deliveryMethod";
+import { verifySecretHash } from "../services/secretHash";
+import { Target } from "./router";
+
+export type ResendConfirmationCodeTarget = Target<
+  ResendConfirmationCodeRequest,
+  ResendConfirmationCodeResponse
+>;
+
+type ResendConfirmationCodeServices = Pick<
+  Services,
+  "clock" | "cognito" | "messages" | "otp"
+>;
+
+/**
+ * Sends an unconfirmed user a new code for ConfirmSignUp, replacing the one they were sent when they signed up.
+ */
+export const ResendConfirmationCode =
+  ({
+    clock,
+    cognito,
+    messages,
+    otp,
+  }: ResendConfirmationCodeServices): ResendConfirmationCodeTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPoolForClientId(ctx, req.ClientId);
+    await verifySecretHash(
+      ctx,
+      cognito,
+      req.ClientId,
+      req.Username,
+      req.SecretHash
+    );
+    const user = await userPool.getUserByUsername(ctx, req.Username);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+    if (user.UserStatus !== "UNCONFIRMED") {
+      throw new InvalidParameterError("User is already confirmed.");
+    }
+
+    const deliveryDetails = selectAppropriateDeliveryMethod(
+      userPool.config.AutoVerifiedAttributes ?? [],
+      user
+    );
+    if (!deliveryDetails) {
+      // this is Cognito's error for a pool which doesn't auto verify any attributes, and is used as well for a user
+      // who has none of the attributes the pool does auto verify
+      throw new InvalidParameterError(
+        "Cannot resend codes. Auto verification not turned on."
+      );
+    }
+
+    const code = otp();
+    await messages.deliver(
+      ctx,
+      "ResendCode",
+      req.ClientId,
+      userPool.config.Id,
+      user,
+      code,
+      req.ClientMetadata,
+      deliveryDetails
+    );
+
+    await userPool.saveUser(ctx, {
+      ...user,
+      ConfirmationCode: code,
+      UserLastModifiedDate: clock.get(),
+    });
+
+    return {
+      CodeDeliveryDetails: deliveryDetails,
+    };
+  };
@@ -1,16 +1,29 @@
+import { ChallengeParametersType } from "aws-sdk/clients/cognitoidentityserviceprovider";
 import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockPasswords } from "../__tests__/mockPasswords";
 import { newMockTokenGenerator } from "../__tests__/mockTokenGenerator";
 import { newMockTriggers } from "../__tests__/mockTriggers";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { UUID } from "../__tests__/patterns";
+import { newSrpClient } from "../__tests__/srpClient";
 import { TestContext } from "../__tests__/testContext";
 import {
   CodeMismatchError,
   InvalidParameterError,
+  InvalidPasswordError,
   NotAuthorizedError,
 } from "../errors";
-import { Triggers, UserPoolService } from "../services";
+import {
+  CognitoService,
+  Passwords,
+  Triggers,
+  UserPoolService,
+} from "../services";
+import { createSrpVerifier, generateServerKeys } from "../services/srp";
 import { TokenGenerator } from "../services/tokenGenerator";
+import { AuthSession, User } from "../services/userPoolService";
 import {
   RespondToAuthChallenge,
   RespondToAuthChallengeTarget,
@@ -23,17 +36,36 @@ describe("RespondToAuthChallenge target", () => {
   let respondToAuthChallenge: RespondToAuthChallengeTarget;
   let mockTokenGenerator: jest.Mocked<TokenGenerator>;
   let mockTriggers: jest.Mocked<Triggers>;
+  let mockCognitoService: jest.Mocked<CognitoService>;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockPasswords: jest.Mocked<Passwords>;
   let clock: ClockFake;
 
   beforeEach(() => {
     clock = new ClockFake(currentDate);
     mockTokenGenerator = newMockTokenGenerator();
+    mockTokenGenerator.generate.mockResolvedValue({
+      AccessToken: "access",
+      IdToken: "id",
+      RefreshToken: "refresh",
+      ExpiresIn: 3600,
+      TokenType: "Bearer",
+    });
     mockTriggers = newMockTriggers();
     mockUserPoolService = newMockUserPoolService();
+    mockUserPoolService.listUserGroupMembership.mockResolvedValue([]);
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
     respondToAuthChallenge = RespondToAuthChallenge({
       clock,
-      cognito: newMockCognitoService(mockUserPoolService),
+      cognito: mockCognitoService,
+      messages: newMockMessages(),
+      otp: () => "1234",
+      passwords: mockPasswords,
       tokenGenerator: mockTokenGenerator,
       triggers: mockTriggers,
     });
@@ -55,6 +87,25 @@ describe("RespondToAuthChallenge target", () => {
     ).rejects.toBeInstanceOf(NotAuthorizedError);
   });
 
+  it("throws if the user is disabled", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(
+      TDB.user({ Enabled: false, MFACode: "1234" })
+    );
+
+    await expect(
+      respondToAuthChallenge(TestContext, {
+        ClientId: "clientId",
+        ChallengeName: "SMS_MFA",
+        ChallengeResponses: {
+          USERNAME: "username",
+          SMS_MFA_CODE: "1234",
+        },
+        Session: "Session",
+      })
+    ).rejects.toEqual(new NotAuthorizedError("User is disabled."));
+    expect(mockUserPoolService.getAuthSession).not.toHaveBeenCalled();
+  });
+
   it("throws if ChallengeResponses missing", async () => {
     await expect(
       respondToAuthChallenge(TestContext, {
@@ -96,6 +147,87 @@ describe("RespondToAuthChallenge target", () => {
     );
   });
 
+  describe("when the session is invalid", () => {
+    const user = TDB.user({ MFACode: "1234" });
+    const request = {
+      ClientId: "clientId",
+      ChallengeName: "SMS_MFA",
+      ChallengeResponses: {
+        USERNAME: user.Username,
+        SMS_MFA_CODE: "1234",
+      },
+      Session: "Session",
+    };
+
+    beforeEach(() => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    });
+
+    it("throws if the session doesn't exist", async () => {
+      mockUserPoolService.getAuthSession.mockResolvedValue(null);
+
+      await expect(
+        respondToAuthChallenge(TestContext, request)
+      ).rejects.toEqual(
+        new NotAuthorizedError("Invalid session for the user.")
+      );
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it.each`
+      description            | authSession
+      ${"another user"}      | ${{ Username: "other-user" }}
+      ${"another client"}    | ${{ ClientId: "other-client" }}
+      ${"another challenge"} | ${{ ChallengeName: "NEW_PASSWORD_REQUIRED" }}
+    `(
+      "throws if the session was issued for $description",
+      async ({ authSession }) => {
+        mockUserPoolService.getAuthSession.mockResolvedValue(
+          TDB.authSession({
+            ChallengeName: "SMS_MFA",
+            Session: "Session",
+            Username: user.Username,
+            ...authSession,
+          })
+        );
+
+        await expect(
+          respondToAuthChallenge(TestContext, request)
+        ).rejects.toEqual(
+          new NotAuthorizedError("Invalid session for the user.")
+        );
+
+        // someone else's session is left alone
+        expect(mockUserPoolService.deleteAuthSession).not.toHaveBeenCalled();
+        expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+      }
+    );
+
+    it("throws if the session has expired", async () => {
+      mockUserPoolService.getAuthSession.mockResolvedValue(
+        TDB.authSession({
+          ChallengeName: "SMS_MFA",
+          ExpirationDate: currentDate,
+          Session: "Session",
+          Username: user.Username,
+        })
+      );
+
+      await expect(
+        respondToAuthChallenge(TestContext, request)
+      ).rejects.toEqual(
+        new NotAuthorizedError(
+          "Invalid session for the user, session is expired."
+        )
+      );
+      expect(mockUserPoolService.deleteAuthSession).toHaveBeenCalledWith(
+        TestContext,
+        "Session"
+      );
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+  });
+
   describe("ChallengeName=SMS_MFA", () => {
     const user = TDB.user({
       MFACode: "1234",
@@ -103,6 +235,13 @@ describe("RespondToAuthChallenge target", () => {
 
     beforeEach(() => {
       mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockUserPoolService.getAuthSession.mockResolvedValue(
+        TDB.authSession({
+          ChallengeName: "SMS_MFA",
+          Session: "Session",
+          Username: user.Username,
+        })
+      );
     });
 
     describe("when code matches", () => {
@@ -126,11 +265,34 @@ describe("RespondToAuthChallenge target", () => {
         });
       });
 
+      it("can't use the session again", async () => {
+        await respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "SMS_MFA",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+            SMS_MFA_CODE: "1234",
+          },
+          Session: "Session",
+        });
+
+        expect(mockUserPoolService.getAuthSession).toHaveBeenCalledWith(
+          TestContext,
+          "Session"
+        );
+        expect(mockUserPoolService.deleteAuthSession).toHaveBeenCalledWith(
+          TestContext,
+          "Session"
+        );
+      });
+
       it("generates tokens", async () => {
         mockTokenGenerator.generate.mockResolvedValue({
           AccessToken: "access",
           IdToken: "id",
           RefreshToken: "refresh",
+          ExpiresIn: 3600,
+          TokenType: "Bearer",
         });
 
         const output = await respondToAuthChallenge(TestContext, {
@@ -152,9 +314,16 @@ describe("RespondToAuthChallenge target", () => {
         expect(output.AuthenticationResult?.IdToken).toEqual("id");
         expect(output.AuthenticationResult?.RefreshToken).toEqual("refresh");
 
+        const updatedUser = {
+          ...user,
+          MFACode: undefined,
+          UserLastModifiedDate: currentDate,
+        };
+
         expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
           TestContext,
-          user,
+          updatedUser,
+          [],
           "clientId",
           "test",
           {
@@ -162,6 +331,11 @@ describe("RespondToAuthChallenge target", () => {
           },
           "Authentication"
         );
+        expect(mockUserPoolService.storeRefreshToken).toHaveBeenCalledWith(
+          TestContext,
+          "refresh",
+          updatedUser
+        );
       });
 
       describe("when Post Authentication trigger is enabled", () => {
@@ -215,6 +389,36 @@ describe("RespondToAuthChallenge target", () => {
             Session: "Session",
           })
         ).rejects.toBeInstanceOf(CodeMismatchError);
+        expect(mockUserPoolService.deleteAuthSession).not.toHaveBeenCalled();
+      });
+
+      it("can retry with the same session", async () => {
+        mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+
+        await expect(
+          respondToAuthChallenge(TestContext, {
+            ClientId: "clientId",
+            ChallengeName: "SMS_MFA",
+            ChallengeResponses: {
+              USERNAME: user.Username,
+              SMS_MFA_CODE: "4321",
+            },
+            Session: "Session",
+          })
+        ).rejects.toBeInstanceOf(CodeMismatchError);
+
+        const output = await respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "SMS_MFA",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+            SMS_MFA_CODE: "1234",
+          },
+          Session: "Session",
+        });
+
+        expect(output.AuthenticationResult?.AccessToken).toEqual("access");
+        expect(mockUserPoolService.deleteAuthSession).toHaveBeenCalledTimes(1);
       });
     });
   });
@@ -224,6 +428,13 @@ describe("RespondToAuthChallenge target", () => {
 
     beforeEach(() => {
       mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockUserPoolService.getAuthSession.mockResolvedValue(
+        TDB.authSession({
+          ChallengeName: "NEW_PASSWORD_REQUIRED",
+          Session: "Session",
+          Username: user.Username,
+        })
+      );
     });
 
     it("throws if NEW_PASSWORD missing", async () => {
@@ -234,11 +445,67 @@ describe("RespondToAuthChallenge target", () => {
           ChallengeResponses: {
             USERNAME: user.Username,
           },
-          Session: "session",
+          Session: "Session",
         })
       ).rejects.toEqual(
         new InvalidParameterError("Missing required parameter NEW_PASSWORD")
       );
+      expect(mockUserPoolService.deleteAuthSession).not.toHaveBeenCalled();
+    });
+
+    it("throws if NEW_PASSWORD doesn't satisfy the user pool's password policy", async () => {
+      mockUserPoolService.config.Policies = {
+        PasswordPolicy: { RequireSymbols: true },
+      };
+
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "NEW_PASSWORD_REQUIRED",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+            NEW_PASSWORD: "foo",
+          },
+          Session: "Session",
+        })
+      ).rejects.toEqual(
+        new InvalidPasswordError(
+          "Password did not conform with policy: Password must have symbol characters"
+        )
+      );
+      expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+      expect(mockUserPoolService.deleteAuthSession).not.toHaveBeenCalled();
+    });
+
+    it("can retry with the same session after a password is rejected", async () => {
+      mockUserPoolService.config.Policies = {
+        PasswordPolicy: { RequireSymbols: true },
+      };
+
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "NEW_PASSWORD_REQUIRED",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+            NEW_PASSWORD: "foo",
+          },
+          Session: "Session",
+        })
+      ).rejects.toBeInstanceOf(InvalidPasswordError);
+
+      const output = await respondToAuthChallenge(TestContext, {
+        ClientId: "clientId",
+        ChallengeName: "NEW_PASSWORD_REQUIRED",
+        ChallengeResponses: {
+          USERNAME: user.Username,
+          NEW_PASSWORD: "foo!",
+        },
+        Session: "Session",
+      });
+
+      expect(output.AuthenticationResult?.AccessToken).toEqual("access");
+      expect(mockUserPoolService.deleteAuthSession).toHaveBeenCalledTimes(1);
     });
 
     it("updates the user's password and status", async () => {
@@ -256,7 +523,8 @@ describe("RespondToAuthChallenge target", () => {
 
       expect(mockUserPoolService.saveUser).toHaveBeenCalledWith(TestContext, {
         ...user,
-        Password: "foo",
+        Password: "hashed password",
+        SrpVerifier: expect.any(Object),
         UserLastModifiedDate: newDate,
         UserStatus: "CONFIRMED",
       });
@@ -267,6 +535,8 @@ describe("RespondToAuthChallenge target", () => {
         AccessToken: "access",
         IdToken: "id",
         RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
       });
 
       const output = await respondToAuthChallenge(TestContext, {
@@ -288,13 +558,27 @@ describe("RespondToAuthChallenge target", () => {
       expect(output.AuthenticationResult?.IdToken).toEqual("id");
       expect(output.AuthenticationResult?.RefreshToken).toEqual("refresh");
 
+      const updatedUser = {
+        ...user,
+        Password: "hashed password",
+        SrpVerifier: expect.any(Object),
+        UserLastModifiedDate: currentDate,
+        UserStatus: "CONFIRMED",
+      };
+
       expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
         TestContext,
-        user,
+        updatedUser,
+        [],
         "clientId",
         "test",
         { client: "metadata" },
-        "Authentication"
+        "NewPasswordChallenge"
+      );
+      expect(mockUserPoolService.storeRefreshToken).toHaveBeenCalledWith(
+        TestContext,
+        "refresh",
+        updatedUser
       );
     });
 
@@ -327,4 +611,482 @@ describe("RespondToAuthChallenge target", () => {
       });
     });
   });
+
+  describe("ChallengeName=PASSWORD_VERIFIER", () => {
+    const password = "Password123!";
+    let client: ReturnType<typeof newSrpClient>;
+    let user: User;
+    let authSession: AuthSession;
+    let challengeParameters: ChallengeParametersType;
+
+    beforeEach(() => {
+      const verifier = createSrpVerifier("test", "username", password);
+      const serverKeys = generateServerKeys(verifier.verifier);
+      client = newSrpClient("test");
+      user = TDB.user({
+        Password: password,
+        SrpVerifier: verifier,
+        Username: "username",
+      });
+      authSession = TDB.authSession({
+        ChallengeName: "PASSWORD_VERIFIER",
+        Session: "Session",
+        SrpChallenge: {
+          ClientPublicKey: client.SRP_A,
+          SecretBlock: "c2VjcmV0IGJsb2Nr",
+          ServerPrivateKey: serverKeys.privateKey,
+        },
+        Username: "username",
+      });
+      challengeParameters = {
+        SALT: verifier.salt,
+        SECRET_BLOCK: "c2VjcmV0IGJsb2Nr",
+        SRP_B: serverKeys.publicKey,
+        USER_ID_FOR_SRP: "username",
+      };
+
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockUserPoolService.getAuthSession.mockResolvedValue(authSession);
+      mockPasswords.recordSuccessfulAttempt.mockImplementation(
+        (ctx, userPool, user) => Promise.resolve(user)
+      );
+    });
+
+    it("generates tokens if the password claim is valid", async () => {
+      const output = await respondToAuthChallenge(TestContext, {
+        ClientId: "clientId",
+        ChallengeName: "PASSWORD_VERIFIER",
+        ChallengeResponses: client.passwordClaim(password, challengeParameters),
+        ClientMetadata: {
+          client: "metadata",
+        },
+        Session: "Session",
+      });
+
+      expect(mockUserPoolService.deleteAuthSession).toHaveBeenCalledWith(
+        TestContext,
+        "Session"
+      );
+      expect(mockPasswords.checkLockout).toHaveBeenCalledWith(user);
+      expect(mockPasswords.recordSuccessfulAttempt).toHaveBeenCalledWith(
+        TestContext,
+        mockUserPoolService,
+        user
+      );
+      expect(mockTokenGenerator.generate).toHaveBeenCalledWith(
+        TestContext,
+        user,
+        [],
+        "clientId",
+        "test",
+        { client: "metadata" },
+        "Authentication"
+      );
+      expect(output.AuthenticationResult).toEqual({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+    });
+
+    it("throws if the password claim is invalid", async () => {
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResponses: client.passwordClaim(
+            "bad-password",
+            challengeParameters
+          ),
+          Session: "Session",
+        })
+      ).rejects.toBeInstanceOf(NotAuthorizedError);
+
+      // the session is only used up by a valid claim
+      expect(mockUserPoolService.deleteAuthSession).not.toHaveBeenCalled();
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+
+      // and the failure counts towards the user being locked out
+      expect(mockPasswords.recordFailedAttempt).toHaveBeenCalledWith(
+        TestContext,
+        mockUserPoolService,
+        user
+      );
+      expect(mockPasswords.recordSuccessfulAttempt).not.toHaveBeenCalled();
+    });
+
+    it("throws if the user is locked out", async () => {
+      mockPasswords.checkLockout.mockImplementation(() => {
+        throw new NotAuthorizedError("Password attempts exceeded");
+      });
+
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResponses: client.passwordClaim(
+            password,
+            challengeParameters
+          ),
+          Session: "Session",
+        })
+      ).rejects.toEqual(new NotAuthorizedError("Password attempts exceeded"));
+      expect(mockPasswords.recordSuccessfulAttempt).not.toHaveBeenCalled();
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it("throws if the secret block doesn't match the challenge", async () => {
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResponses: client.passwordClaim(password, {
+            ...challengeParameters,
+            SECRET_BLOCK: "b3RoZXIgc2VjcmV0IGJsb2Nr",
+          }),
+          Session: "Session",
+        })
+      ).rejects.toBeInstanceOf(NotAuthorizedError);
+    });
+
+    it("throws if PASSWORD_CLAIM_SIGNATURE is missing", async () => {
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+            PASSWORD_CLAIM_SECRET_BLOCK: "c2VjcmV0IGJsb2Nr",
+            TIMESTAMP: "Fri Jan 1 00:00:00 UTC 2021",
+          },
+          Session: "Session",
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError(
+          "Missing required parameter PASSWORD_CLAIM_SIGNATURE"
+        )
+      );
+      expect(mockUserPoolService.deleteAuthSession).not.toHaveBeenCalled();
+    });
+
+    it("responds with a NEW_PASSWORD_REQUIRED challenge if the user has a temporary password", async () => {
+      mockUserPoolService.getUserByUsername.mockResolvedValue({
+        ...user,
+        UserStatus: "FORCE_CHANGE_PASSWORD",
+      });
+
+      const output = await respondToAuthChallenge(TestContext, {
+        ClientId: "clientId",
+        ChallengeName: "PASSWORD_VERIFIER",
+        ChallengeResponses: client.passwordClaim(password, challengeParameters),
+        Session: "Session",
+      });
+
+      expect(output).toEqual({
+        ChallengeName: "NEW_PASSWORD_REQUIRED",
+        ChallengeParameters: expect.objectContaining({
+          USER_ID_FOR_SRP: user.Username,
+        }),
+        Session: expect.stringMatching(UUID),
+      });
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    describe("when SRP is part of a CUSTOM_AUTH flow", () => {
+      beforeEach(() => {
+        mockTriggers.enabled.mockReturnValue(true);
+        mockUserPoolService.getAuthSession.mockResolvedValue({
+          ...authSession,
+          ChallengeResults: [{ ChallengeName: "SRP_A", ChallengeResult: true }],
+        });
+      });
+
+      it("asks the DefineAuthChallenge trigger for the next challenge", async () => {
+        mockTriggers.defineAuthChallenge.mockResolvedValue({
+          challengeName: "CUSTOM_CHALLENGE",
+          failAuthentication: false,
+          issueTokens: false,
+        });
+        mockTriggers.createAuthChallenge.mockResolvedValue({
+          challengeMetadata: "",
+          privateChallengeParameters: { code: "secret" },
+          publicChallengeParameters: {},
+        });
+
+        const output = await respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "PASSWORD_VERIFIER",
+          ChallengeResponses: client.passwordClaim(
+            password,
+            challengeParameters
+          ),
+          ClientMetadata: {
+            client: "metadata",
+          },
+          Session: "Session",
+        });
+
+        expect(mockTriggers.defineAuthChallenge).toHaveBeenCalledWith(
+          TestContext,
+          {
+            clientId: "clientId",
+            clientMetadata: { client: "metadata" },
+            session: [
+              { ChallengeName: "SRP_A", ChallengeResult: true },
+              { ChallengeName: "PASSWORD_VERIFIER", ChallengeResult: true },
+            ],
+            userAttributes: user.Attributes,
+            username: user.Username,
+            userPoolId: "test",
+          }
+        );
+        expect(output).toEqual({
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeParameters: { USERNAME: user.Username },
+          Session: expect.stringMatching(UUID),
+        });
+        expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("ChallengeName=CUSTOM_CHALLENGE", () => {
+    const user = TDB.user();
+
+    beforeEach(() => {
+      mockTriggers.enabled.mockReturnValue(true);
+      mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+      mockUserPoolService.getAuthSession.mockResolvedValue(
+        TDB.authSession({
+          ChallengeMetadata: "MAGIC_LINK",
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResults: [],
+          PrivateChallengeParameters: { code: "secret" },
+          Session: "custom-session",
+          Username: user.Username,
+        })
+      );
+      mockTriggers.verifyAuthChallengeResponse.mockResolvedValue({
+        answerCorrect: true,
+      });
+    });
+
+    it("throws if ANSWER is missing", async () => {
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+          },
+          Session: "custom-session",
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError("Missing required parameter ANSWER")
+      );
+      expect(mockUserPoolService.deleteAuthSession).not.toHaveBeenCalled();
+    });
+
+    it("throws if the VerifyAuthChallengeResponse trigger is not configured", async () => {
+      mockTriggers.enabled.mockImplementation(
+        (trigger) => trigger !== "VerifyAuthChallengeResponse"
+      );
+
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+            ANSWER: "secret",
+          },
+          Session: "custom-session",
+        })
+      ).rejects.toEqual(
+        new InvalidParameterError(
+          "Custom auth lambda trigger is not configured for the user pool."
+        )
+      );
+    });
+
+    it("generates tokens if the DefineAuthChallenge trigger issues them", async () => {
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "",
+        failAuthentication: false,
+        issueTokens: true,
+      });
+
+      const output = await respondToAuthChallenge(TestContext, {
+        ClientId: "clientId",
+        ChallengeName: "CUSTOM_CHALLENGE",
+        ChallengeResponses: {
+          USERNAME: user.Username,
+          ANSWER: "secret",
+        },
+        ClientMetadata: {
+          client: "metadata",
+        },
+        Session: "custom-session",
+      });
+
+      expect(mockTriggers.verifyAuthChallengeResponse).toHaveBeenCalledWith(
+        TestContext,
+        {
+          challengeAnswer: "secret",
+          clientId: "clientId",
+          clientMetadata: { client: "metadata" },
+          privateChallengeParameters: { code: "secret" },
+          userAttributes: user.Attributes,
+          username: user.Username,
+          userPoolId: "test",
+        }
+      );
+      expect(mockTriggers.defineAuthChallenge).toHaveBeenCalledWith(
+        TestContext,
+        {
+          clientId: "clientId",
+          clientMetadata: { client: "metadata" },
+          session: [
+            {
+              ChallengeMetadata: "MAGIC_LINK",
+              ChallengeName: "CUSTOM_CHALLENGE",
+              ChallengeResult: true,
+            },
+          ],
+          userAttributes: user.Attributes,
+          username: user.Username,
+          userPoolId: "test",
+        }
+      );
+      expect(mockUserPoolService.deleteAuthSession).toHaveBeenCalledWith(
+        TestContext,
+        "custom-session"
+      );
+      expect(output.AuthenticationResult).toEqual({
+        AccessToken: "access",
+        IdToken: "id",
+        RefreshToken: "refresh",
+        ExpiresIn: 3600,
+        TokenType: "Bearer",
+      });
+    });
+
+    it("issues another challenge with the session history if the answer was wrong", async () => {
+      mockTriggers.verifyAuthChallengeResponse.mockResolvedValue({
+        answerCorrect: false,
+      });
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "CUSTOM_CHALLENGE",
+        failAuthentication: false,
+        issueTokens: false,
+      });
+      mockTriggers.createAuthChallenge.mockResolvedValue({
+        challengeMetadata: "MAGIC_LINK",
+        privateChallengeParameters: { code: "another-secret" },
+        publicChallengeParameters: {},
+      });
+
+      const output = await respondToAuthChallenge(TestContext, {
+        ClientId: "clientId",
+        ChallengeName: "CUSTOM_CHALLENGE",
+        ChallengeResponses: {
+          USERNAME: user.Username,
+          ANSWER: "wrong",
+        },
+        Session: "custom-session",
+      });
+
+      const session = [
+        {
+          ChallengeMetadata: "MAGIC_LINK",
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResult: false,
+        },
+      ];
+      expect(mockTriggers.createAuthChallenge).toHaveBeenCalledWith(
+        TestContext,
+        expect.objectContaining({ session })
+      );
+      expect(output).toEqual({
+        ChallengeName: "CUSTOM_CHALLENGE",
+        ChallengeParameters: { USERNAME: user.Username },
+        Session: expect.stringMatching(UUID),
+      });
+      expect(output.Session).not.toEqual("custom-session");
+      expect(mockUserPoolService.saveAuthSession).toHaveBeenCalledWith(
+        TestContext,
+        {
+          ChallengeMetadata: "MAGIC_LINK",
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResults: session,
+          ClientId: "clientId",
+          ExpirationDate: new Date(currentDate.getTime() + 3 * 60 * 1000),
+          PrivateChallengeParameters: { code: "another-secret" },
+          Session: output.Session,
+          Username: user.Username,
+        }
+      );
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+
+    it("throws if the DefineAuthChallenge trigger fails the authentication", async () => {
+      mockTriggers.defineAuthChallenge.mockResolvedValue({
+        challengeName: "",
+        failAuthentication: true,
+        issueTokens: false,
+      });
+
+      await expect(
+        respondToAuthChallenge(TestContext, {
+          ClientId: "clientId",
+          ChallengeName: "CUSTOM_CHALLENGE",
+          ChallengeResponses: {
+            USERNAME: user.Username,
+            ANSWER: "wrong",
+          },
+          Session: "custom-session",
+        })
+      ).rejects.toBeInstanceOf(NotAuthorizedError);
+
+      // the session can't be used again
+      expect(mockUserPoolService.deleteAuthSession).toHaveBeenCalledWith(
+        TestContext,
+        "custom-session"
+      );
+      expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+    });
+  });
+
+  it("throws if the client has a secret and the secret hash is missing", async () => {
+    const user = TDB.user({ MFACode: "1234" });
+
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ ClientId: "clientId", ClientSecret: "secret" })
+    );
+    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockUserPoolService.getAuthSession.mockResolvedValue(
+      TDB.authSession({
+        ChallengeName: "SMS_MFA",
+        Session: "Session",
+        Username: user.Username,
+      })
+    );
+
+    await expect(
+      respondToAuthChallenge(TestContext, {
+        ClientId: "clientId",
+        ChallengeName: "SMS_MFA",
+        ChallengeResponses: {
+          USERNAME: user.Username,
+          SMS_MFA_CODE: "1234",
+        },
+        Session: "Session",
+      })
+    ).rejects.toEqual(
+      new NotAuthorizedError("Unable to verify secret hash for client clientId")
+    );
+    expect(mockTokenGenerator.generate).not.toHaveBeenCalled();
+  });
 });
@@ -8,7 +8,19 @@ import {
   NotAuthorizedError,
   UnsupportedError,
 } from "../errors";
-import { Services } from "../services";
+import { Services, UserPoolService } from "../services";
+import { validatePassword } from "../services/passwordPolicy";
+import { verifySecretHash } from "../services/secretHash";
+import { verifyPasswordClaim } from "../services/srp";
+import { AuthSession, User } from "../services/userPoolService";
+import {
+  consumeAuthSession,
+  findAuthSession,
+  isMfaRequired,
+  newPasswordChallenge,
+  nextCustomAuthChallenge,
+  smsMfaChallenge,
+} from "./challenges";
 import { Target } from "./router";
 
 export type RespondToAuthChallengeTarget = Target<
@@ -18,17 +30,68 @@ export type RespondToAuthChallengeTarget = Target<
 
 type RespondToAuthChallengeService = Pick<
   Services,
-  "clock" | "cognito" | "triggers" | "tokenGenerator"
+  | "clock"
+  | "cognito"
+  | "messages"
+  | "otp"
+  | "passwords"
+  | "triggers"
+  | "tokenGenerator"
 >;
 
+/**
+ * Checks the password claim the client computed with SRP. Returns whether it proves the client knows the user's
+ * password.
+ */
+const verifyPasswordVerifierChallenge = (
+  user: User,
+  userPool: UserPoolService,
+  authSession: AuthSession,
+  challengeResponses: Record<string, string>
+): boolean => {
+  const { PASSWORD_CLAIM_SECRET_BLOCK, PASSWORD_CLAIM_SIGNATURE, TIMESTAMP } =
+    challengeResponses;
+  if (!PASSWORD_CLAIM_SECRET_BLOCK) {
+    throw new InvalidParameterError(
+      "Missing required parameter PASSWORD_CLAIM_SECRET_BLOCK"
+    );
+  }
+  if (!PASSWORD_CLAIM_SIGNATURE) {
+    throw new InvalidParameterError(
+      "Missing required parameter PASSWORD_CLAIM_SIGNATURE"
+    );
+  }
+  if (!TIMESTAMP) {
+    throw new InvalidParameterError("Missing required parameter TIMESTAMP");
+  }
+
+  const { SrpChallenge: challenge } = authSession;
+  const { SrpVerifier: verifier } = user;
+  if (
+    !challenge ||
+    !verifier ||
+    challenge.SecretBlock !== PASSWORD_CLAIM_SECRET_BLOCK
+  ) {
+    throw new NotAuthorizedError();
+  }
+
+  return verifyPasswordClaim({
+    userPoolId: userPool.config.Id,
+    userIdForSrp: user.Username,
+    verifier: verifier.verifier,
+    clientPublicKey: challenge.ClientPublicKey,
+    serverPrivateKey: challenge.ServerPrivateKey,
+    secretBlock: PASSWORD_CLAIM_SECRET_BLOCK,
+    timestamp: TIMESTAMP,
+    signature: PASSWORD_CLAIM_SIGNATURE,
+  });
+};
+
 export const RespondToAuthChallenge =
-  ({
-    clock,
-    cognito,
-    triggers,
-    tokenGenerator,
-  }: RespondToAuthChallengeService): RespondToAuthChallengeTarget =>
+  (services: RespondToAuthChallengeService): RespondToAuthChallengeTarget =>
   async (ctx, req) => {
+    const { clock, cognito, passwords, triggers, tokenGenerator } = services;
+
     if (!req.ChallengeResponses) {
       throw new InvalidParameterError(
         "Missing required parameter challenge responses"
@@ -42,6 +105,13 @@ export const RespondToAuthChallenge =
     }
 
     const userPool = await cognito.getUserPoolForClientId(ctx, req.ClientId);
+    await verifySecretHash(
+      ctx,
+      cognito,
+      req.ClientId,
+      req.ChallengeResponses.USERNAME,
+      req.ChallengeResponses.SECRET_HASH
+    );
     const user = await userPool.getUserByUsername(
       ctx,
       req.ChallengeResponses.USERNAME
@@ -49,17 +119,32 @@ export const RespondToAuthChallenge =
     if (!user) {
       throw new NotAuthorizedError();
     }
+    if (!user.Enabled) {
+      throw new NotAuthorizedError("User is disabled.");
+    }
+
+    const authSession = await findAuthSession(
+      ctx,
+      services,
+      userPool,
+      req.Session,
+      user,
+      req.ClientId,
+      req.ChallengeName
+    );
 
+    let updatedUser: User;
     if (req.ChallengeName === "SMS_MFA") {
       if (user.MFACode !== req.ChallengeResponses.SMS_MFA_CODE) {
         throw new CodeMismatchError();
       }
+      await consumeAuthSession(ctx, userPool, authSession);
 
-      await userPool.saveUser(ctx, {
+      updatedUser = {
         ...user,
         MFACode: undefined,
         UserLastModifiedDate: clock.get(),
-      });
+      };
     } else if (req.ChallengeName === "NEW_PASSWORD_REQUIRED") {
       if (!req.ChallengeResponses.NEW_PASSWORD) {
         throw new InvalidParameterError(
@@ -67,19 +152,133 @@ export const RespondToAuthChallenge =
         );
       }
 
-      // TODO: validate the password?
-      await userPool.saveUser(ctx, {
+      validatePassword(
+        userPool.config.Policies?.PasswordPolicy,
+        req.ChallengeResponses.NEW_PASSWORD
+      );
+      await consumeAuthSession(ctx, userPool, authSession);
+
+      updatedUser = {
         ...user,
-        Password: req.ChallengeResponses.NEW_PASSWORD,
+        ...(await passwords.credentials(
+          userPool.config.Id,
+          user.Username,
+          req.ChallengeResponses.NEW_PASSWORD
+        )),
         UserLastModifiedDate: clock.get(),
         UserStatus: "CONFIRMED",
-      });
+      };
+    } else if (req.ChallengeName === "PASSWORD_VERIFIER") {
+      // SRP never sends us the password, so the lockout has to be enforced here rather than by passwords.verify
+      passwords.checkLockout(user);
+      if (
+        !verifyPasswordVerifierChallenge(
+          user,
+          userPool,
+          authSession,
+          req.ChallengeResponses
+        )
+      ) {
+        await passwords.recordFailedAttempt(ctx, userPool, user);
+        throw new NotAuthorizedError();
+      }
+      await consumeAuthSession(ctx, userPool, authSession);
+      updatedUser = await passwords.recordSuccessfulAttempt(
+        ctx,
+        userPool,
+        user
+      );
+
+      // when SRP is part of a CUSTOM_AUTH flow, the flow continues once the password is verified
+      if (authSession.ChallengeResults) {
+        const challenge = await nextCustomAuthChallenge(
+          ctx,
+          services,
+          userPool,
+          updatedUser,
+          req.ClientId,
+          req.ClientMetadata,
+          [
+            ...authSession.ChallengeResults,
+            { ChallengeName: "PASSWORD_VERIFIER", ChallengeResult: true },
+          ]
+        );
+        if (challenge) {
+          return challenge;
+        }
+      } else if (updatedUser.UserStatus === "FORCE_CHANGE_PASSWORD") {
+        return newPasswordChallenge(
+          ctx,
+          services,
+          userPool,
+          updatedUser,
+          req.ClientId
+        );
+      } else if (isMfaRequired(userPool, updatedUser)) {
+        return smsMfaChallenge(
+          ctx,
+          services,
+          userPool,
+          updatedUser,
+          req.ClientId,
+          req.ClientMetadata
+        );
+      }
+    } else if (req.ChallengeName === "CUSTOM_CHALLENGE") {
+      if (!req.ChallengeResponses.ANSWER) {
+        throw new InvalidParameterError("Missing required parameter ANSWER");
+      }
+      if (!triggers.enabled("VerifyAuthChallengeResponse")) {
+        throw new InvalidParameterError(
+          "Custom auth lambda trigger is not configured for the user pool."
+        );
+      }
+
+      const { answerCorrect } = await triggers.verifyAuthChallengeResponse(
+        ctx,
+        {
+          challengeAnswer: req.ChallengeResponses.ANSWER,
+          clientId: req.ClientId,
+          clientMetadata: req.ClientMetadata,
+          privateChallengeParameters:
+            authSession.PrivateChallengeParameters ?? {},
+          userAttributes: user.Attributes,
+          username: user.Username,
+          userPoolId: userPool.config.Id,
+        }
+      );
+      // the answer has been recorded, right or wrong, so it can't be retried with the same session
+      await consumeAuthSession(ctx, userPool, authSession);
+      updatedUser = user;
+
+      // the DefineAuthChallenge trigger decides whether to issue another challenge, even if the answer was wrong
+      const challenge = await nextCustomAuthChallenge(
+        ctx,
+        services,
+        userPool,
+        user,
+        req.ClientId,
+        req.ClientMetadata,
+        [
+          ...(authSession.ChallengeResults ?? []),
+          {
+            ChallengeName: "CUSTOM_CHALLENGE",
+            ChallengeResult: !!answerCorrect,
+            ChallengeMetadata: authSession.ChallengeMetadata,
+          },
+        ]
+      );
+      if (challenge) {
+        return challenge;
+      }
     } else {
       throw new UnsupportedError(
         `respondToAuthChallenge with ChallengeName=${req.ChallengeName}`
       );
     }
 
+    await userPool.saveUser(ctx, updatedUser);
+
     if (triggers.enabled("PostAuthentication")) {
       await triggers.postAuthentication(ctx, {
         clientId: req.ClientId,
@@ -91,15 +290,22 @@ export const RespondToAuthChallenge =
       });
     }
 
+    const tokens = await tokenGenerator.generate(
+      ctx,
+      updatedUser,
+      await userPool.listUserGroupMembership(ctx, updatedUser),
+      req.ClientId,
+      userPool.config.Id,
+      req.ClientMetadata,
+      req.ChallengeName === "NEW_PASSWORD_REQUIRED"
+        ? "NewPasswordChallenge"
+        : "Authentication"
+    );
+
+    await userPool.storeRefreshToken(ctx, tokens.RefreshToken, updatedUser);
+
     return {
       ChallengeParameters: {},
-      AuthenticationResult: await tokenGenerator.generate(
-        ctx,
-        user,
-        req.ClientId,
-        userPool.config.Id,
-        req.ClientMetadata,
-        "Authentication"
-      ),
+      AuthenticationResult: tokens,
     };
   };
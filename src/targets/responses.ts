@@ -0,0 +1,26 @@
+import {
+  GroupType,
+  UserType,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { Group, User } from "../services/userPoolService";
+
+export const userToResponseObject = (user: User): UserType => ({
+  Attributes: user.Attributes,
+  Enabled: user.Enabled,
+  UserCreateDate: user.UserCreateDate,
+  UserLastModifiedDate: user.UserLastModifiedDate,
+  Username: user.Username,
+  UserStatus: user.UserStatus,
+});
+
+export const groupToResponseObject =
+  (userPoolId: string) =>
+  (group: Group): GroupType => ({
+    CreationDate: group.CreationDate,
+    Description: group.Description,
+    GroupName: group.GroupName,
+    LastModifiedDate: group.LastModifiedDate,
+    Precedence: group.Precedence,
+    RoleArn: group.RoleArn,
+    UserPoolId: userPoolId,
+  });
@@ -1,25 +1,42 @@
 import { Logger } from "../log";
 import { Services } from "../services";
 import { UnsupportedError } from "../errors";
+import { AdminAddUserToGroup } from "./adminAddUserToGroup";
 import { AdminDeleteUserAttributes } from "./adminDeleteUserAttributes";
+import { AdminDisableUser } from "./adminDisableUser";
+import { AdminEnableUser } from "./adminEnableUser";
+import { AdminListGroupsForUser } from "./adminListGroupsForUser";
+import { AdminRemoveUserFromGroup } from "./adminRemoveUserFromGroup";
+import { AdminResetUserPassword } from "./adminResetUserPassword";
+import { AdminRespondToAuthChallenge } from "./adminRespondToAuthChallenge";
 import { AdminSetUserPassword } from "./adminSetUserPassword";
+import { AdminUserGlobalSignOut } from "./adminUserGlobalSignOut";
 import { ConfirmForgotPassword } from "./confirmForgotPassword";
 import { ConfirmSignUp } from "./confirmSignUp";
 import { CreateGroup } from "./createGroup";
 import { CreateUserPool } from "./createUserPool";
 import { CreateUserPoolClient } from "./createUserPoolClient";
+import { DeleteGroup } from "./deleteGroup";
 import { DeleteUser } from "./deleteUser";
 import { DeleteUserAttributes } from "./deleteUserAttributes";
+import { DeleteUserPool } from "./deleteUserPool";
+import { DeleteUserPoolClient } from "./deleteUserPoolClient";
+import { DescribeUserPool } from "./describeUserPool";
 import { DescribeUserPoolClient } from "./describeUserPoolClient";
 import { ForgotPassword } from "./forgotPassword";
 import { ChangePassword } from "./changePassword";
 import { GetUserAttributeVerificationCode } from "./getUserAttributeVerificationCode";
+import { GlobalSignOut } from "./globalSignOut";
 import { InitiateAuth } from "./initiateAuth";
 import { ListGroups } from "./listGroups";
+import { ListUserPoolClients } from "./listUserPoolClients";
 import { ListUserPools } from "./listUserPools";
 import { ListUsers } from "./listUsers";
+import { ListUsersInGroup } from "./listUsersInGroup";
+import { ResendConfirmationCode } from "./resendConfirmationCode";
 import { RespondToAuthChallenge } from "./respondToAuthChallenge";
 import { SignUp } from "./signUp";
+import { GetGroup } from "./getGroup";
 import { GetUser } from "./getUser";
 import { AdminCreateUser } from "./adminCreateUser";
 import { AdminGetUser } from "./adminGetUser";
@@ -28,38 +45,61 @@ import { AdminConfirmSignUp } from "./adminConfirmSignUp";
 import { AdminUpdateUserAttributes } from "./adminUpdateUserAttributes";
 import { AdminInitiateAuth } from "./adminInitiateAuth";
 import { RevokeToken } from "./revokeToken";
+import { UpdateGroup } from "./updateGroup";
 import { UpdateUserAttributes } from "./updateUserAttributes";
+import { UpdateUserPool } from "./updateUserPool";
+import { UpdateUserPoolClient } from "./updateUserPoolClient";
 import { VerifyUserAttribute } from "./verifyUserAttribute";
 
 export const Targets = {
+  AdminAddUserToGroup,
   AdminConfirmSignUp,
   AdminCreateUser,
   AdminDeleteUser,
   AdminDeleteUserAttributes,
+  AdminDisableUser,
+  AdminEnableUser,
   AdminGetUser,
   AdminInitiateAuth,
+  AdminListGroupsForUser,
+  AdminRemoveUserFromGroup,
+  AdminResetUserPassword,
+  AdminRespondToAuthChallenge,
   AdminSetUserPassword,
   AdminUpdateUserAttributes,
+  AdminUserGlobalSignOut,
   ChangePassword,
   ConfirmForgotPassword,
   ConfirmSignUp,
   CreateGroup,
   CreateUserPool,
   CreateUserPoolClient,
+  DeleteGroup,
   DeleteUser,
   DeleteUserAttributes,
+  DeleteUserPool,
+  DeleteUserPoolClient,
+  DescribeUserPool,
   DescribeUserPoolClient,
   ForgotPassword,
+  GetGroup,
   GetUser,
   GetUserAttributeVerificationCode,
+  GlobalSignOut,
   InitiateAuth,
   ListGroups,
+  ListUserPoolClients,
   ListUserPools,
   ListUsers,
+  ListUsersInGroup,
+  ResendConfirmationCode,
   RespondToAuthChallenge,
   RevokeToken,
   SignUp,
+  UpdateGroup,
   UpdateUserAttributes,
+  UpdateUserPool,
+  UpdateUserPoolClient,
   VerifyUserAttribute,
 } as const;
 
@@ -1,6 +1,7 @@
 import { ClockFake } from "../__tests__/clockFake";
 import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockPasswords } from "../__tests__/mockPasswords";
 import { newMockTriggers } from "../__tests__/mockTriggers";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { UUID } from "../__tests__/patterns";
@@ -8,10 +9,11 @@ import { TestContext } from "../__tests__/testContext";
 import * as TDB from "../__tests__/testDataBuilder";
 import {
   InvalidParameterError,
+  InvalidPasswordError,
   UserLambdaValidationError,
   UsernameExistsError,
 } from "../errors";
-import { Messages, Triggers, UserPoolService } from "../services";
+import { Messages, Passwords, Triggers, UserPoolService } from "../services";
 import { SignUp, SignUpTarget } from "./signUp";
 
 describe("SignUp target", () => {
@@ -20,6 +22,7 @@ describe("SignUp target", () => {
   let mockMessages: jest.Mocked<Messages>;
   let mockOtp: jest.MockedFunction<() => string>;
   let mockTriggers: jest.Mocked<Triggers>;
+  let mockPasswords: jest.Mocked<Passwords>;
   let now: Date;
 
   beforeEach(() => {
@@ -29,11 +32,17 @@ describe("SignUp target", () => {
     mockMessages = newMockMessages();
     mockOtp = jest.fn();
     mockTriggers = newMockTriggers();
+    mockPasswords = newMockPasswords();
+    mockPasswords.credentials.mockResolvedValue({
+      Password: "hashed password",
+      SrpVerifier: { salt: "salt", verifier: "verifier" },
+    });
     signUp = SignUp({
       cognito: newMockCognitoService(mockUserPoolService),
       clock: new ClockFake(now),
       messages: mockMessages,
       otp: mockOtp,
+      passwords: mockPasswords,
       triggers: mockTriggers,
     });
   });
@@ -53,6 +62,27 @@ describe("SignUp target", () => {
     ).rejects.toBeInstanceOf(UsernameExistsError);
   });
 
+  it("throws if the password doesn't satisfy the user pool's password policy", async () => {
+    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+    mockUserPoolService.config.Policies = {
+      PasswordPolicy: { RequireUppercase: true },
+    };
+
+    await expect(
+      signUp(TestContext, {
+        ClientId: "clientId",
+        Password: "pwd",
+        Username: "user-supplied",
+        UserAttributes: [],
+      })
+    ).rejects.toEqual(
+      new InvalidPasswordError(
+        "Password did not conform with policy: Password must have uppercase characters"
+      )
+    );
+    expect(mockUserPoolService.saveUser).not.toHaveBeenCalled();
+  });
+
   it("saves a new user", async () => {
     mockUserPoolService.getUserByUsername.mockResolvedValue(null);
 
@@ -72,7 +102,8 @@ describe("SignUp target", () => {
         { Name: "email", Value: "example@example.com" },
       ],
       Enabled: true,
-      Password: "pwd",
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
       UserCreateDate: now,
       UserLastModifiedDate: now,
       UserStatus: "UNCONFIRMED",
@@ -458,7 +489,8 @@ describe("SignUp target", () => {
             { Name: "email", Value: "example@example.com" },
           ],
           Enabled: true,
-          Password: "pwd",
+          Password: "hashed password",
+          SrpVerifier: expect.any(Object),
           UserCreateDate: now,
           UserLastModifiedDate: now,
           UserStatus: "UNCONFIRMED",
@@ -527,7 +559,8 @@ describe("SignUp target", () => {
             { Name: "phone_number", Value: "0400000000" },
           ],
           Enabled: true,
-          Password: "pwd",
+          Password: "hashed password",
+          SrpVerifier: expect.any(Object),
           UserCreateDate: now,
           UserLastModifiedDate: now,
           UserStatus: "UNCONFIRMED",
@@ -603,7 +636,8 @@ describe("SignUp target", () => {
             { Name: "phone_number", Value: "0400000000" },
           ],
           Enabled: true,
-          Password: "pwd",
+          Password: "hashed password",
+          SrpVerifier: expect.any(Object),
           UserCreateDate: now,
           UserLastModifiedDate: now,
           UserStatus: "UNCONFIRMED",
@@ -649,7 +683,8 @@ describe("SignUp target", () => {
             { Name: "email", Value: "example@example.com" },
           ],
           Enabled: true,
-          Password: "pwd",
+          Password: "hashed password",
+          SrpVerifier: expect.any(Object),
           UserCreateDate: now,
           UserLastModifiedDate: now,
           UserStatus: "UNCONFIRMED",
@@ -712,7 +747,8 @@ describe("SignUp target", () => {
       ],
       ConfirmationCode: "1234",
       Enabled: true,
-      Password: "pwd",
+      Password: "hashed password",
+      SrpVerifier: expect.any(Object),
       UserCreateDate: now,
       UserLastModifiedDate: now,
       UserStatus: "UNCONFIRMED",
@@ -8,6 +8,8 @@ import { InvalidParameterError, UsernameExistsError } from "../errors";
 import { Messages, Services, UserPoolService } from "../services";
 import { selectAppropriateDeliveryMethod } from "../services/messageDelivery/deliveryMethod";
 import { DeliveryDetails } from "../services/messageDelivery/messageDelivery";
+import { validatePassword } from "../services/passwordPolicy";
+import { verifySecretHash } from "../services/secretHash";
 import {
   attribute,
   attributesAppend,
@@ -21,7 +23,7 @@ export type SignUpTarget = Target<SignUpRequest, SignUpResponse>;
 
 type SignUpServices = Pick<
   Services,
-  "clock" | "cognito" | "messages" | "otp" | "triggers"
+  "clock" | "cognito" | "messages" | "otp" | "passwords" | "triggers"
 >;
 
 const deliverWelcomeMessage = async (
@@ -63,17 +65,33 @@ const deliverWelcomeMessage = async (
 };
 
 export const SignUp =
-  ({ clock, cognito, messages, otp, triggers }: SignUpServices): SignUpTarget =>
+  ({
+    clock,
+    cognito,
+    messages,
+    otp,
+    passwords,
+    triggers,
+  }: SignUpServices): SignUpTarget =>
   async (ctx, req) => {
     // TODO: This should behave differently depending on if PreventUserExistenceErrors
     // is enabled on the updatedUser pool. This will be the default after Feb 2020.
     // See: https://docs.aws.amazon.com/cognito/latest/developerguide/cognito-user-pool-managing-errors.html
     const userPool = await cognito.getUserPoolForClientId(ctx, req.ClientId);
+    await verifySecretHash(
+      ctx,
+      cognito,
+      req.ClientId,
+      req.Username,
+      req.SecretHash
+    );
     const existingUser = await userPool.getUserByUsername(ctx, req.Username);
     if (existingUser) {
       throw new UsernameExistsError();
     }
 
+    validatePassword(userPool.config.Policies?.PasswordPolicy, req.Password);
+
     const attributes = attributesInclude("sub", req.UserAttributes)
       ? req.UserAttributes ?? []
       : [{ Name: "sub", Value: uuid.v4() }, ...(req.UserAttributes ?? [])];
@@ -107,7 +125,11 @@ export const SignUp =
     const updatedUser: User = {
       Attributes: attributes,
       Enabled: true,
-      Password: req.Password,
+      ...(await passwords.credentials(
+        userPool.config.Id,
+        req.Username,
+        req.Password
+      )),
       RefreshTokens: [],
       UserCreateDate: now,
       UserLastModifiedDate: now,
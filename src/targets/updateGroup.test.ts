@@ -0,0 +1,99 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { GroupNotFoundError } from "../errors";
+import { UserPoolService } from "../services";
+import { UpdateGroup, UpdateGroupTarget } from "./updateGroup";
+
+const originalDate = new Date();
+
+describe("UpdateGroup target", () => {
+  let updateGroup: UpdateGroupTarget;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let clock: ClockFake;
+
+  beforeEach(() => {
+    clock = new ClockFake(originalDate);
+    mockUserPoolService = newMockUserPoolService();
+    updateGroup = UpdateGroup({
+      clock,
+      cognito: newMockCognitoService(mockUserPoolService),
+    });
+  });
+
+  it("updates the group", async () => {
+    const existingGroup = TDB.group({
+      Description: "Description",
+      members: ["user"],
+      Precedence: 1,
+      RoleArn: "ARN",
+    });
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(existingGroup);
+
+    const newDate = clock.advanceBy(1200);
+
+    const output = await updateGroup(TestContext, {
+      Description: "New Description",
+      GroupName: existingGroup.GroupName,
+      Precedence: 2,
+      RoleArn: "NewARN",
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.saveGroup).toHaveBeenCalledWith(TestContext, {
+      ...existingGroup,
+      Description: "New Description",
+      LastModifiedDate: newDate,
+      Precedence: 2,
+      RoleArn: "NewARN",
+    });
+
+    expect(output.Group).toEqual({
+      CreationDate: existingGroup.CreationDate,
+      Description: "New Description",
+      GroupName: existingGroup.GroupName,
+      LastModifiedDate: newDate,
+      Precedence: 2,
+      RoleArn: "NewARN",
+      UserPoolId: "test",
+    });
+  });
+
+  it("keeps the existing values of parameters that aren't provided", async () => {
+    const existingGroup = TDB.group({
+      Description: "Description",
+      Precedence: 1,
+      RoleArn: "ARN",
+    });
+
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(existingGroup);
+
+    await updateGroup(TestContext, {
+      GroupName: existingGroup.GroupName,
+      Precedence: 2,
+      UserPoolId: "test",
+    });
+
+    expect(mockUserPoolService.saveGroup).toHaveBeenCalledWith(TestContext, {
+      ...existingGroup,
+      LastModifiedDate: originalDate,
+      Precedence: 2,
+    });
+  });
+
+  it("throws if the group doesn't exist", async () => {
+    mockUserPoolService.getGroupByGroupName.mockResolvedValue(null);
+
+    await expect(
+      updateGroup(TestContext, {
+        GroupName: "group",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new GroupNotFoundError());
+
+    expect(mockUserPoolService.saveGroup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import {
+  UpdateGroupRequest,
+  UpdateGroupResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { GroupNotFoundError } from "../errors";
+import { Services } from "../services";
+import { Group } from "../services/userPoolService";
+import { groupToResponseObject } from "./responses";
+import { Target } from "./router";
+
+export type UpdateGroupTarget = Target<UpdateGroupRequest, UpdateGroupResponse>;
+
+type UpdateGroupServices = Pick<Services, "clock" | "cognito">;
+
+export const UpdateGroup =
+  ({ clock, cognito }: UpdateGroupServices): UpdateGroupTarget =>
+  async (ctx, req) => {
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+    const group = await userPool.getGroupByGroupName(ctx, req.GroupName);
+    if (!group) {
+      throw new GroupNotFoundError();
+    }
+
+    const updatedGroup: Group = {
+      ...group,
+      Description: req.Description ?? group.Description,
+      LastModifiedDate: clock.get(),
+      Precedence: req.Precedence ?? group.Precedence,
+      RoleArn: req.RoleArn ?? group.RoleArn,
+    };
+
+    await userPool.saveGroup(ctx, updatedGroup);
+
+    return {
+      Group: groupToResponseObject(req.UserPoolId)(updatedGroup),
+    };
+  };
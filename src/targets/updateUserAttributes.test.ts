@@ -1,13 +1,11 @@
-import jwt from "jsonwebtoken";
-import * as uuid from "uuid";
 import { ClockFake } from "../__tests__/clockFake";
-import { newMockCognitoService } from "../__tests__/mockCognitoService";
 import { newMockMessages } from "../__tests__/mockMessages";
+import { newMockTokenVerifier } from "../__tests__/mockTokenVerifier";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
 import { InvalidParameterError, NotAuthorizedError } from "../errors";
-import PrivateKey from "../keys/cognitoLocal.private.json";
 import { Messages, UserPoolService } from "../services";
+import { TokenVerifier } from "../services/tokenVerifier";
 import {
   attribute,
   attributesAppend,
@@ -21,60 +19,50 @@ import * as TDB from "../__tests__/testDataBuilder";
 
 const clock = new ClockFake(new Date());
 
-const validToken = jwt.sign(
-  {
-    sub: "0000-0000",
-    event_id: "0",
-    token_use: "access",
-    scope: "aws.cognito.signin.user.admin",
-    auth_time: new Date(),
-    jti: uuid.v4(),
-    client_id: "test",
-    username: "0000-0000",
-  },
-  PrivateKey.pem,
-  {
-    algorithm: "RS256",
-    issuer: `http://localhost:9229/test`,
-    expiresIn: "24h",
-    keyid: "CognitoLocal",
-  }
-);
-
 describe("UpdateUserAttributes target", () => {
   let updateUserAttributes: UpdateUserAttributesTarget;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockTokenVerifier: jest.Mocked<TokenVerifier>;
   let mockMessages: jest.Mocked<Messages>;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
+    mockTokenVerifier = newMockTokenVerifier();
     mockMessages = newMockMessages();
     updateUserAttributes = UpdateUserAttributes({
       clock,
-      cognito: newMockCognitoService(mockUserPoolService),
+      tokenVerifier: mockTokenVerifier,
       messages: mockMessages,
       otp: () => "1234",
     });
   });
 
   it("throws if the token is invalid", async () => {
+    mockTokenVerifier.verifyAccessToken.mockRejectedValue(
+      new NotAuthorizedError("Invalid Access Token")
+    );
+
     await expect(
       updateUserAttributes(TestContext, {
-        AccessToken: "invalid token",
+        AccessToken: "access token",
         ClientMetadata: {
           client: "metadata",
         },
         UserAttributes: [{ Name: "custom:example", Value: "1" }],
       })
-    ).rejects.toBeInstanceOf(InvalidParameterError);
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
   });
 
   it("throws if the user doesn't exist", async () => {
-    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user: null,
+      userPool: mockUserPoolService,
+    });
 
     await expect(
       updateUserAttributes(TestContext, {
-        AccessToken: validToken,
+        AccessToken: "access token",
         ClientMetadata: {
           client: "metadata",
         },
@@ -86,7 +74,11 @@ describe("UpdateUserAttributes target", () => {
   it("saves the updated attributes on the user", async () => {
     const user = TDB.user();
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
     mockUserPoolService.config.SchemaAttributes = [
       {
         Name: "custom:example",
@@ -95,7 +87,7 @@ describe("UpdateUserAttributes target", () => {
     ];
 
     await updateUserAttributes(TestContext, {
-      AccessToken: validToken,
+      AccessToken: "access token",
       ClientMetadata: {
         client: "metadata",
       },
@@ -137,11 +129,15 @@ describe("UpdateUserAttributes target", () => {
     });
 
     it("throws an invalid parameter error", async () => {
-      mockUserPoolService.getUserByUsername.mockResolvedValue(TDB.user());
+      mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+        token: TDB.accessToken(),
+        user: TDB.user(),
+        userPool: mockUserPoolService,
+      });
 
       await expect(
         updateUserAttributes(TestContext, {
-          AccessToken: validToken,
+          AccessToken: "access token",
           ClientMetadata: {
             client: "metadata",
           },
@@ -157,10 +153,14 @@ describe("UpdateUserAttributes target", () => {
       it(`sets the ${attr}_verified attribute to false`, async () => {
         const user = TDB.user();
 
-        mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+        mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+          token: TDB.accessToken(),
+          user,
+          userPool: mockUserPoolService,
+        });
 
         await updateUserAttributes(TestContext, {
-          AccessToken: validToken,
+          AccessToken: "access token",
           ClientMetadata: {
             client: "metadata",
           },
@@ -199,13 +199,17 @@ describe("UpdateUserAttributes target", () => {
             ),
           });
 
-          mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+          mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+            token: TDB.accessToken(),
+            user,
+            userPool: mockUserPoolService,
+          });
           mockUserPoolService.config.SchemaAttributes = [
             { Name: "example", Mutable: true },
           ];
 
           await updateUserAttributes(TestContext, {
-            AccessToken: validToken,
+            AccessToken: "access token",
             ClientMetadata: {
               client: "metadata",
             },
@@ -222,11 +226,15 @@ describe("UpdateUserAttributes target", () => {
             Attributes: [],
           });
 
-          mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+          mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+            token: TDB.accessToken(),
+            user,
+            userPool: mockUserPoolService,
+          });
 
           await expect(
             updateUserAttributes(TestContext, {
-              AccessToken: validToken,
+              AccessToken: "access token",
               ClientMetadata: {
                 client: "metadata",
               },
@@ -244,10 +252,14 @@ describe("UpdateUserAttributes target", () => {
         it("delivers a OTP code to the user", async () => {
           const user = TDB.user();
 
-          mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+          mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+            token: TDB.accessToken(),
+            user,
+            userPool: mockUserPoolService,
+          });
 
           await updateUserAttributes(TestContext, {
-            AccessToken: validToken,
+            AccessToken: "access token",
             ClientMetadata: {
               client: "metadata",
             },
@@ -301,13 +313,17 @@ describe("UpdateUserAttributes target", () => {
             ),
           });
 
-          mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+          mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+            token: TDB.accessToken(),
+            user,
+            userPool: mockUserPoolService,
+          });
           mockUserPoolService.config.SchemaAttributes = [
             { Name: "example", Mutable: true },
           ];
 
           await updateUserAttributes(TestContext, {
-            AccessToken: validToken,
+            AccessToken: "access token",
             ClientMetadata: {
               client: "metadata",
             },
@@ -322,10 +338,14 @@ describe("UpdateUserAttributes target", () => {
         it("does not deliver a OTP code to the user", async () => {
           const user = TDB.user();
 
-          mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+          mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+            token: TDB.accessToken(),
+            user,
+            userPool: mockUserPoolService,
+          });
 
           await updateUserAttributes(TestContext, {
-            AccessToken: validToken,
+            AccessToken: "access token",
             ClientMetadata: {
               client: "metadata",
             },
@@ -2,12 +2,10 @@ import {
   UpdateUserAttributesRequest,
   UpdateUserAttributesResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import jwt from "jsonwebtoken";
 import { Messages, Services, UserPoolService } from "../services";
 import { InvalidParameterError, NotAuthorizedError } from "../errors";
 import { USER_POOL_AWS_DEFAULTS } from "../services/cognitoService";
 import { selectAppropriateDeliveryMethod } from "../services/messageDelivery/deliveryMethod";
-import { Token } from "../services/tokenGenerator";
 import {
   attributesAppend,
   defaultVerifiedAttributesIfModified,
@@ -57,28 +55,21 @@ export type UpdateUserAttributesTarget = Target<
 
 type UpdateUserAttributesServices = Pick<
   Services,
-  "clock" | "cognito" | "otp" | "messages"
+  "clock" | "tokenVerifier" | "otp" | "messages"
 >;
 
 export const UpdateUserAttributes =
   ({
     clock,
-    cognito,
+    tokenVerifier,
     otp,
     messages,
   }: UpdateUserAttributesServices): UpdateUserAttributesTarget =>
   async (ctx, req) => {
-    const decodedToken = jwt.decode(req.AccessToken) as Token | null;
-    if (!decodedToken) {
-      ctx.logger.info("Unable to decode token");
-      throw new InvalidParameterError();
-    }
-
-    const userPool = await cognito.getUserPoolForClientId(
+    const { userPool, user } = await tokenVerifier.verifyAccessToken(
       ctx,
-      decodedToken.client_id
+      req.AccessToken
     );
-    const user = await userPool.getUserByUsername(ctx, decodedToken.sub);
     if (!user) {
       throw new NotAuthorizedError();
     }
@@ -0,0 +1,113 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import { ResourceNotFoundError } from "../errors";
+import { CognitoService, UserPoolService } from "../services";
+import { USER_POOL_AWS_DEFAULTS } from "../services/cognitoService";
+import { UpdateUserPool, UpdateUserPoolTarget } from "./updateUserPool";
+
+const originalDate = new Date(2020, 1, 1);
+const currentDate = new Date();
+
+describe("UpdateUserPool target", () => {
+  let updateUserPool: UpdateUserPoolTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService({
+      Id: "test",
+      AutoVerifiedAttributes: ["email"],
+      CreationDate: originalDate,
+      LastModifiedDate: originalDate,
+      MfaConfiguration: "OFF",
+      Name: "pool",
+    });
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
+    updateUserPool = UpdateUserPool({
+      clock: new ClockFake(currentDate),
+      cognito: mockCognitoService,
+    });
+  });
+
+  it("updates the user pool's options", async () => {
+    await updateUserPool(TestContext, {
+      UserPoolId: "test",
+      MfaConfiguration: "OPTIONAL",
+      Policies: {
+        PasswordPolicy: {
+          MinimumLength: 6,
+        },
+      },
+    });
+
+    expect(mockUserPoolService.updateOptions).toHaveBeenCalledWith(
+      TestContext,
+      {
+        Id: "test",
+        AdminCreateUserConfig: USER_POOL_AWS_DEFAULTS.AdminCreateUserConfig,
+        CreationDate: originalDate,
+        EmailConfiguration: USER_POOL_AWS_DEFAULTS.EmailConfiguration,
+        LambdaConfig: USER_POOL_AWS_DEFAULTS.LambdaConfig,
+        LastModifiedDate: currentDate,
+        MfaConfiguration: "OPTIONAL",
+        Name: "pool",
+        Policies: {
+          PasswordPolicy: {
+            MinimumLength: 6,
+          },
+        },
+        VerificationMessageTemplate:
+          USER_POOL_AWS_DEFAULTS.VerificationMessageTemplate,
+      }
+    );
+  });
+
+  it("resets options which aren't in the request to their defaults", async () => {
+    mockUserPoolService.config.MfaConfiguration = "ON";
+    mockUserPoolService.config.Policies = {
+      PasswordPolicy: {
+        MinimumLength: 6,
+      },
+    };
+    mockUserPoolService.config.SchemaAttributes = [
+      { Name: "custom:attribute", AttributeDataType: "String" },
+    ];
+
+    await updateUserPool(TestContext, {
+      UserPoolId: "test",
+    });
+
+    const updatedOptions = mockUserPoolService.updateOptions.mock.calls[0][1];
+    expect(updatedOptions).toEqual({
+      Id: "test",
+      AdminCreateUserConfig: USER_POOL_AWS_DEFAULTS.AdminCreateUserConfig,
+      CreationDate: originalDate,
+      EmailConfiguration: USER_POOL_AWS_DEFAULTS.EmailConfiguration,
+      LambdaConfig: USER_POOL_AWS_DEFAULTS.LambdaConfig,
+      LastModifiedDate: currentDate,
+      MfaConfiguration: "OFF",
+      Name: "pool",
+      Policies: USER_POOL_AWS_DEFAULTS.Policies,
+      SchemaAttributes: [
+        { Name: "custom:attribute", AttributeDataType: "String" },
+      ],
+      VerificationMessageTemplate:
+        USER_POOL_AWS_DEFAULTS.VerificationMessageTemplate,
+    });
+    expect(updatedOptions.AutoVerifiedAttributes).toBeUndefined();
+  });
+
+  it("throws if the user pool doesn't exist", async () => {
+    mockCognitoService.userPoolExists.mockResolvedValue(false);
+
+    await expect(
+      updateUserPool(TestContext, {
+        UserPoolId: "unknown",
+        MfaConfiguration: "OPTIONAL",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+    expect(mockUserPoolService.updateOptions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  UpdateUserPoolRequest,
+  UpdateUserPoolResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { ResourceNotFoundError } from "../errors";
+import { Services } from "../services";
+import { USER_POOL_AWS_DEFAULTS } from "../services/cognitoService";
+import { Target } from "./router";
+
+export type UpdateUserPoolTarget = Target<
+  UpdateUserPoolRequest,
+  UpdateUserPoolResponse
+>;
+
+type UpdateUserPoolServices = Pick<Services, "clock" | "cognito">;
+
+/**
+ * Updates the settings of a user pool. Like Cognito, settings which aren't in the request are reset to their defaults
+ * rather than left as they were; the pool's id, name, creation date and schema can't be changed. The changes apply to
+ * every request from here on without a restart.
+ */
+export const UpdateUserPool =
+  ({ clock, cognito }: UpdateUserPoolServices): UpdateUserPoolTarget =>
+  async (ctx, req) => {
+    if (!(await cognito.userPoolExists(ctx, req.UserPoolId))) {
+      throw new ResourceNotFoundError();
+    }
+
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+
+    await userPool.updateOptions(ctx, {
+      ...userPool.config,
+      AccountRecoverySetting:
+        req.AccountRecoverySetting ??
+        USER_POOL_AWS_DEFAULTS.AccountRecoverySetting,
+      AdminCreateUserConfig:
+        req.AdminCreateUserConfig ??
+        USER_POOL_AWS_DEFAULTS.AdminCreateUserConfig,
+      AutoVerifiedAttributes:
+        req.AutoVerifiedAttributes ??
+        USER_POOL_AWS_DEFAULTS.AutoVerifiedAttributes,
+      DeviceConfiguration:
+        req.DeviceConfiguration ?? USER_POOL_AWS_DEFAULTS.DeviceConfiguration,
+      EmailConfiguration:
+        req.EmailConfiguration ?? USER_POOL_AWS_DEFAULTS.EmailConfiguration,
+      EmailVerificationMessage:
+        req.EmailVerificationMessage ??
+        USER_POOL_AWS_DEFAULTS.EmailVerificationMessage,
+      EmailVerificationSubject:
+        req.EmailVerificationSubject ??
+        USER_POOL_AWS_DEFAULTS.EmailVerificationSubject,
+      LambdaConfig: req.LambdaConfig ?? USER_POOL_AWS_DEFAULTS.LambdaConfig,
+      LastModifiedDate: clock.get(),
+      MfaConfiguration:
+        req.MfaConfiguration ?? USER_POOL_AWS_DEFAULTS.MfaConfiguration,
+      Policies: req.Policies ?? USER_POOL_AWS_DEFAULTS.Policies,
+      SmsAuthenticationMessage:
+        req.SmsAuthenticationMessage ??
+        USER_POOL_AWS_DEFAULTS.SmsAuthenticationMessage,
+      SmsConfiguration:
+        req.SmsConfiguration ?? USER_POOL_AWS_DEFAULTS.SmsConfiguration,
+      SmsVerificationMessage:
+        req.SmsVerificationMessage ??
+        USER_POOL_AWS_DEFAULTS.SmsVerificationMessage,
+      UserPoolAddOns:
+        req.UserPoolAddOns ?? USER_POOL_AWS_DEFAULTS.UserPoolAddOns,
+      UserPoolTags: req.UserPoolTags ?? USER_POOL_AWS_DEFAULTS.UserPoolTags,
+      VerificationMessageTemplate:
+        req.VerificationMessageTemplate ??
+        USER_POOL_AWS_DEFAULTS.VerificationMessageTemplate,
+    });
+
+    return {};
+  };
@@ -0,0 +1,121 @@
+import { ClockFake } from "../__tests__/clockFake";
+import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
+import { TestContext } from "../__tests__/testContext";
+import * as TDB from "../__tests__/testDataBuilder";
+import { ResourceNotFoundError } from "../errors";
+import { CognitoService, UserPoolService } from "../services";
+import {
+  UpdateUserPoolClient,
+  UpdateUserPoolClientTarget,
+} from "./updateUserPoolClient";
+
+const originalDate = new Date(2020, 1, 1);
+const currentDate = new Date();
+
+describe("UpdateUserPoolClient target", () => {
+  let updateUserPoolClient: UpdateUserPoolClientTarget;
+  let mockCognitoService: jest.Mocked<CognitoService>;
+  let mockUserPoolService: jest.Mocked<UserPoolService>;
+
+  beforeEach(() => {
+    mockUserPoolService = newMockUserPoolService();
+    mockCognitoService = newMockCognitoService(mockUserPoolService);
+    updateUserPoolClient = UpdateUserPoolClient({
+      clock: new ClockFake(currentDate),
+      cognito: mockCognitoService,
+    });
+  });
+
+  it("updates the app client's settings", async () => {
+    const existingAppClient = TDB.appClient({
+      ClientName: "original",
+      ClientSecret: "secret",
+      CreationDate: originalDate,
+      ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+      LastModifiedDate: originalDate,
+      UserPoolId: "test",
+    });
+    mockCognitoService.getAppClient.mockResolvedValue(existingAppClient);
+
+    const result = await updateUserPoolClient(TestContext, {
+      ClientId: existingAppClient.ClientId,
+      ClientName: "updated",
+      ExplicitAuthFlows: ["ALLOW_USER_PASSWORD_AUTH"],
+      UserPoolId: "test",
+    });
+
+    const updatedAppClient = {
+      ...existingAppClient,
+      ClientName: "updated",
+      ExplicitAuthFlows: ["ALLOW_USER_PASSWORD_AUTH"],
+      LastModifiedDate: currentDate,
+      RefreshTokenValidity: 30,
+    };
+
+    expect(mockUserPoolService.saveAppClient).toHaveBeenCalledWith(
+      TestContext,
+      updatedAppClient
+    );
+    expect(result).toEqual({
+      UserPoolClient: updatedAppClient,
+    });
+  });
+
+  it("resets settings which aren't in the request to their defaults", async () => {
+    const existingAppClient = TDB.appClient({
+      AllowedOAuthFlows: ["code"],
+      AllowedOAuthFlowsUserPoolClient: true,
+      CallbackURLs: ["https://example.com/callback"],
+      ClientName: "original",
+      CreationDate: originalDate,
+      ExplicitAuthFlows: ["ALLOW_USER_SRP_AUTH"],
+      LastModifiedDate: originalDate,
+      RefreshTokenValidity: 10,
+      UserPoolId: "test",
+    });
+    mockCognitoService.getAppClient.mockResolvedValue(existingAppClient);
+
+    const result = await updateUserPoolClient(TestContext, {
+      ClientId: existingAppClient.ClientId,
+      UserPoolId: "test",
+    });
+
+    expect(result.UserPoolClient).toEqual({
+      AllowedOAuthFlowsUserPoolClient: false,
+      ClientId: existingAppClient.ClientId,
+      ClientName: "original",
+      CreationDate: originalDate,
+      LastModifiedDate: currentDate,
+      RefreshTokenValidity: 30,
+      UserPoolId: "test",
+    });
+    expect(result.UserPoolClient?.CallbackURLs).toBeUndefined();
+    expect(result.UserPoolClient?.AllowedOAuthFlows).toBeUndefined();
+    expect(result.UserPoolClient?.ExplicitAuthFlows).toBeUndefined();
+  });
+
+  it("throws if the app client doesn't exist", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(null);
+
+    await expect(
+      updateUserPoolClient(TestContext, {
+        ClientId: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+  });
+
+  it("throws if the app client is in another user pool", async () => {
+    mockCognitoService.getAppClient.mockResolvedValue(
+      TDB.appClient({ UserPoolId: "other" })
+    );
+
+    await expect(
+      updateUserPoolClient(TestContext, {
+        ClientId: "abc",
+        UserPoolId: "test",
+      })
+    ).rejects.toEqual(new ResourceNotFoundError());
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  UpdateUserPoolClientRequest,
+  UpdateUserPoolClientResponse,
+} from "aws-sdk/clients/cognitoidentityserviceprovider";
+import { ResourceNotFoundError } from "../errors";
+import { Services } from "../services";
+import {
+  APP_CLIENT_DEFAULTS,
+  AppClient,
+  appClientSettings,
+} from "../services/appClient";
+import { Target } from "./router";
+
+export type UpdateUserPoolClientTarget = Target<
+  UpdateUserPoolClientRequest,
+  UpdateUserPoolClientResponse
+>;
+
+type UpdateUserPoolClientServices = Pick<Services, "clock" | "cognito">;
+
+/**
+ * Updates an app client's settings. Like Cognito, settings which aren't in the request are reset to their defaults
+ * rather than left as they were, so the request has to include every setting the client should keep.
+ */
+export const UpdateUserPoolClient =
+  ({
+    clock,
+    cognito,
+  }: UpdateUserPoolClientServices): UpdateUserPoolClientTarget =>
+  async (ctx, req) => {
+    const appClient = await cognito.getAppClient(ctx, req.ClientId);
+    if (appClient?.UserPoolId !== req.UserPoolId) {
+      throw new ResourceNotFoundError();
+    }
+
+    const userPool = await cognito.getUserPool(ctx, req.UserPoolId);
+
+    const updatedAppClient: AppClient = {
+      ...APP_CLIENT_DEFAULTS,
+      ...appClientSettings(req),
+      ClientId: appClient.ClientId,
+      ClientName: req.ClientName ?? appClient.ClientName,
+      ClientSecret: appClient.ClientSecret,
+      CreationDate: appClient.CreationDate,
+      LastModifiedDate: clock.get(),
+      UserPoolId: appClient.UserPoolId,
+    };
+
+    await userPool.saveAppClient(ctx, updatedAppClient);
+
+    return {
+      UserPoolClient: updatedAppClient,
+    };
+  };
@@ -1,17 +1,11 @@
-import jwt from "jsonwebtoken";
-import * as uuid from "uuid";
 import { ClockFake } from "../__tests__/clockFake";
-import { newMockCognitoService } from "../__tests__/mockCognitoService";
+import { newMockTokenVerifier } from "../__tests__/mockTokenVerifier";
 import { newMockUserPoolService } from "../__tests__/mockUserPoolService";
 import { TestContext } from "../__tests__/testContext";
 import * as TDB from "../__tests__/testDataBuilder";
-import {
-  CodeMismatchError,
-  InvalidParameterError,
-  NotAuthorizedError,
-} from "../errors";
-import PrivateKey from "../keys/cognitoLocal.private.json";
+import { CodeMismatchError, NotAuthorizedError } from "../errors";
 import { UserPoolService } from "../services";
+import { TokenVerifier } from "../services/tokenVerifier";
 import { attribute, attributesAppend } from "../services/userPoolService";
 import {
   VerifyUserAttribute,
@@ -20,35 +14,17 @@ import {
 
 const clock = new ClockFake(new Date());
 
-const validToken = jwt.sign(
-  {
-    sub: "0000-0000",
-    event_id: "0",
-    token_use: "access",
-    scope: "aws.cognito.signin.user.admin",
-    auth_time: new Date(),
-    jti: uuid.v4(),
-    client_id: "test",
-    username: "0000-0000",
-  },
-  PrivateKey.pem,
-  {
-    algorithm: "RS256",
-    issuer: `http://localhost:9229/test`,
-    expiresIn: "24h",
-    keyid: "CognitoLocal",
-  }
-);
-
 describe("VerifyUserAttribute target", () => {
   let verifyUserAttribute: VerifyUserAttributeTarget;
   let mockUserPoolService: jest.Mocked<UserPoolService>;
+  let mockTokenVerifier: jest.Mocked<TokenVerifier>;
 
   beforeEach(() => {
     mockUserPoolService = newMockUserPoolService();
+    mockTokenVerifier = newMockTokenVerifier();
     verifyUserAttribute = VerifyUserAttribute({
       clock,
-      cognito: newMockCognitoService(mockUserPoolService),
+      tokenVerifier: mockTokenVerifier,
     });
   });
 
@@ -57,10 +33,14 @@ describe("VerifyUserAttribute target", () => {
       AttributeVerificationCode: "1234",
     });
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     await verifyUserAttribute(TestContext, {
-      AccessToken: validToken,
+      AccessToken: "access token",
       AttributeName: "email",
       Code: "1234",
     });
@@ -80,10 +60,14 @@ describe("VerifyUserAttribute target", () => {
       AttributeVerificationCode: "1234",
     });
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     await verifyUserAttribute(TestContext, {
-      AccessToken: validToken,
+      AccessToken: "access token",
       AttributeName: "phone_number",
       Code: "1234",
     });
@@ -103,10 +87,14 @@ describe("VerifyUserAttribute target", () => {
       AttributeVerificationCode: "1234",
     });
 
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     await verifyUserAttribute(TestContext, {
-      AccessToken: validToken,
+      AccessToken: "access token",
       AttributeName: "something else",
       Code: "1234",
     });
@@ -115,21 +103,29 @@ describe("VerifyUserAttribute target", () => {
   });
 
   it("throws if token isn't valid", async () => {
+    mockTokenVerifier.verifyAccessToken.mockRejectedValue(
+      new NotAuthorizedError("Invalid Access Token")
+    );
+
     await expect(
       verifyUserAttribute(TestContext, {
-        AccessToken: "blah",
+        AccessToken: "access token",
         AttributeName: "email",
         Code: "1234",
       })
-    ).rejects.toBeInstanceOf(InvalidParameterError);
+    ).rejects.toEqual(new NotAuthorizedError("Invalid Access Token"));
   });
 
   it("throws if user doesn't exist", async () => {
-    mockUserPoolService.getUserByUsername.mockResolvedValue(null);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user: null,
+      userPool: mockUserPoolService,
+    });
 
     await expect(
       verifyUserAttribute(TestContext, {
-        AccessToken: validToken,
+        AccessToken: "access token",
         AttributeName: "email",
         Code: "1234",
       })
@@ -140,11 +136,15 @@ describe("VerifyUserAttribute target", () => {
     const user = TDB.user({
       AttributeVerificationCode: "5555",
     });
-    mockUserPoolService.getUserByUsername.mockResolvedValue(user);
+    mockTokenVerifier.verifyAccessToken.mockResolvedValue({
+      token: TDB.accessToken(),
+      user,
+      userPool: mockUserPoolService,
+    });
 
     await expect(
       verifyUserAttribute(TestContext, {
-        AccessToken: validToken,
+        AccessToken: "access token",
         AttributeName: "email",
         Code: "1234",
       })
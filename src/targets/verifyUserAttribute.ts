@@ -2,14 +2,8 @@ import {
   VerifyUserAttributeRequest,
   VerifyUserAttributeResponse,
 } from "aws-sdk/clients/cognitoidentityserviceprovider";
-import jwt from "jsonwebtoken";
-import {
-  CodeMismatchError,
-  InvalidParameterError,
-  NotAuthorizedError,
-} from "../errors";
+import { CodeMismatchError, NotAuthorizedError } from "../errors";
 import { Services } from "../services";
-import { Token } from "../services/tokenGenerator";
 import { attribute, attributesAppend } from "../services/userPoolService";
 import { Target } from "./router";
 
@@ -18,25 +12,18 @@ export type VerifyUserAttributeTarget = Target<
   VerifyUserAttributeResponse
 >;
 
-type VerifyUserAttributeServices = Pick<Services, "clock" | "cognito">;
+type VerifyUserAttributeServices = Pick<Services, "clock" | "tokenVerifier">;
 
 export const VerifyUserAttribute =
   ({
     clock,
-    cognito,
+    tokenVerifier,
   }: VerifyUserAttributeServices): VerifyUserAttributeTarget =>
   async (ctx, req) => {
-    const decodedToken = jwt.decode(req.AccessToken) as Token | null;
-    if (!decodedToken) {
-      ctx.logger.info("Unable to decode token");
-      throw new InvalidParameterError();
-    }
-
-    const userPool = await cognito.getUserPoolForClientId(
+    const { userPool, user } = await tokenVerifier.verifyAccessToken(
       ctx,
-      decodedToken.client_id
+      req.AccessToken
     );
-    const user = await userPool.getUserByUsername(ctx, decodedToken.sub);
     if (!user) {
       throw new NotAuthorizedError();
     }